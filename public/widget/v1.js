@@ -0,0 +1,310 @@
+/**
+ * KnowYourClaw embeddable agent card, v1
+ *
+ * <div data-knowyourclaw-agent="agt_abc123" data-theme="light|dark"></div>
+ * <script src="https://knowyourclaw.com/widget/v1.js" async></script>
+ *
+ * Fetches the agent's card from /api/v1/public/agents/:id/widget, then checks
+ * its proof's entry in the signed status list (verified against
+ * /.well-known/jwks.json, issuer pinned to this origin) before showing it.
+ * Elements added later can be rendered with window.KnowYourClaw.render(el).
+ */
+(function () {
+  "use strict";
+
+  var VERSION = "1.0.0";
+  var ATTRIBUTE = "data-knowyourclaw-agent";
+
+  var script = document.currentScript;
+  var origin = script && script.src ? new URL(script.src).origin : "https://knowyourclaw.com";
+
+  var STATUS_COLORS = {
+    verified: "#3fb950",
+    claimed: "#2f81f7",
+    expired: "#d29922",
+    pending: "#8b949e",
+    suspended: "#db6d28",
+    revoked: "#f85149",
+  };
+
+  var THEMES = {
+    light: { background: "#ffffff", border: "#d0d7de", primary: "#1f2328", secondary: "#656d76", link: "#0969da" },
+    dark: { background: "#0d1117", border: "#30363d", primary: "#e6edf3", secondary: "#8b949e", link: "#4493f8" },
+  };
+
+  var rendered = typeof WeakSet === "function" ? new WeakSet() : null;
+  var jwksPromise = null;
+  var statusListPromises = {};
+
+  // ---- Token verification ----
+
+  function base64UrlToBytes(value) {
+    var base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    while (base64.length % 4) base64 += "=";
+    var binary = atob(base64);
+    var bytes = new Uint8Array(binary.length);
+    for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+
+  function decodeJson(segment) {
+    return JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment)));
+  }
+
+  function notSupported(message) {
+    var error = new Error(message);
+    error.name = "NotSupportedError";
+    return error;
+  }
+
+  function getJwks() {
+    if (!jwksPromise) {
+      jwksPromise = fetch(origin + "/.well-known/jwks.json").then(function (res) {
+        if (!res.ok) throw new Error("Could not load signing keys");
+        return res.json();
+      });
+      jwksPromise.catch(function () {
+        jwksPromise = null;
+      });
+    }
+    return jwksPromise;
+  }
+
+  // Resolves to the token's claims if we signed it (a key from our JWKS, our
+  // issuer) with the given typ, and it has not expired. Rejects with
+  // NotSupportedError when the browser has no Ed25519 support.
+  function verifyToken(token, typ) {
+    var parts = token.split(".");
+    if (parts.length !== 3) return Promise.reject(new Error("Malformed token"));
+
+    var header = decodeJson(parts[0]);
+    var payload = decodeJson(parts[1]);
+    if (header.alg !== "EdDSA" || header.typ !== typ) {
+      return Promise.reject(new Error("Unexpected token type"));
+    }
+
+    return getJwks()
+      .then(function (jwks) {
+        var jwk = (jwks.keys || []).filter(function (key) {
+          return key.kid === header.kid;
+        })[0];
+        if (!jwk) throw new Error("Unknown signing key");
+        return crypto.subtle.importKey(
+          "jwk",
+          { kty: "OKP", crv: "Ed25519", x: jwk.x },
+          { name: "Ed25519" },
+          false,
+          ["verify"]
+        );
+      })
+      .then(function (key) {
+        return crypto.subtle.verify(
+          { name: "Ed25519" },
+          key,
+          base64UrlToBytes(parts[2]),
+          new TextEncoder().encode(parts[0] + "." + parts[1])
+        );
+      })
+      .then(function (valid) {
+        if (!valid) throw new Error("Invalid signature");
+        if (payload.iss !== origin) throw new Error("Token from another issuer");
+        if (payload.exp * 1000 < Date.now()) throw new Error("Token expired");
+        return payload;
+      });
+  }
+
+  function inflate(bytes) {
+    if (typeof DecompressionStream !== "function") {
+      return Promise.reject(notSupported("No DecompressionStream"));
+    }
+    var stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate"));
+    return new Response(stream).arrayBuffer().then(function (buffer) {
+      return new Uint8Array(buffer);
+    });
+  }
+
+  // Resolves to the decompressed bits of our signed status list at uri
+  function getStatusList(uri) {
+    if (!statusListPromises[uri]) {
+      statusListPromises[uri] = fetch(uri)
+        .then(function (res) {
+          if (!res.ok) throw new Error("Could not load the status list");
+          return res.text();
+        })
+        .then(function (token) {
+          return verifyToken(token, "statuslist+jwt");
+        })
+        .then(function (payload) {
+          if (payload.sub !== uri) throw new Error("Status list for another URI");
+          if (!payload.status_list || payload.status_list.bits !== 1) {
+            throw new Error("Unexpected status list format");
+          }
+          return inflate(base64UrlToBytes(payload.status_list.lst));
+        });
+      statusListPromises[uri].catch(function () {
+        delete statusListPromises[uri];
+      });
+    }
+    return statusListPromises[uri];
+  }
+
+  // Resolves to whether the proof at this status list entry is still valid
+  // (bit clear). Only lists published by this origin are trusted.
+  function checkProofStatus(status) {
+    var entry = status && status.status_list;
+    if (!entry || typeof entry.idx !== "number" || typeof entry.uri !== "string") {
+      return Promise.reject(new Error("Malformed status entry"));
+    }
+    if (entry.uri.indexOf(origin + "/") !== 0) {
+      return Promise.reject(new Error("Status list from another origin"));
+    }
+
+    return getStatusList(entry.uri).then(function (bits) {
+      var byte = bits[entry.idx >> 3];
+      if (byte === undefined) throw new Error("Status entry out of range");
+      return ((byte >> (entry.idx & 7)) & 1) === 0;
+    });
+  }
+
+  // ---- Rendering ----
+
+  function el(tag, style, text) {
+    var node = document.createElement(tag);
+    if (style) node.setAttribute("style", style);
+    if (text != null) node.textContent = text;
+    return node;
+  }
+
+  function statusKey(card) {
+    return card.status === "verified" && card.owner && card.owner.claimed ? "claimed" : card.status;
+  }
+
+  function statusLabel(card) {
+    return statusKey(card) === "claimed" ? "verified · claimed" : card.status;
+  }
+
+  function mount(target) {
+    var root = target.attachShadow ? target.shadowRoot || target.attachShadow({ mode: "open" }) : target;
+    while (root.firstChild) root.removeChild(root.firstChild);
+    return root;
+  }
+
+  function frame(theme) {
+    return el(
+      "div",
+      "box-sizing:border-box;max-width:340px;padding:14px 16px;border:1px solid " + theme.border +
+        ";border-radius:10px;background:" + theme.background + ";color:" + theme.primary +
+        ";font:13px/1.4 -apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif"
+    );
+  }
+
+  function renderMessage(target, theme, message) {
+    var root = mount(target);
+    var box = frame(theme);
+    box.appendChild(el("div", "color:" + theme.secondary, message));
+    root.appendChild(box);
+  }
+
+  function renderCard(target, theme, card, note) {
+    var root = mount(target);
+    var box = frame(theme);
+    var color = STATUS_COLORS[statusKey(card)] || STATUS_COLORS.pending;
+
+    var head = el("div", "display:flex;align-items:center;gap:10px");
+    head.appendChild(
+      el(
+        "div",
+        "flex:none;width:32px;height:32px;border-radius:50%;background:" + color +
+          ";color:#fff;font-weight:700;display:flex;align-items:center;justify-content:center",
+        card.status === "verified" ? "✓" : card.name.charAt(0).toUpperCase()
+      )
+    );
+    var title = el("div", "min-width:0");
+    title.appendChild(
+      el("div", "font-weight:600;font-size:15px;overflow:hidden;text-overflow:ellipsis;white-space:nowrap", card.name)
+    );
+    title.appendChild(el("div", "font-weight:600;font-size:12px;color:" + color, statusLabel(card)));
+    head.appendChild(title);
+    box.appendChild(head);
+
+    var details = el("div", "margin-top:10px;color:" + theme.secondary + ";font-size:12px");
+    details.appendChild(
+      el("div", null, card.owner && card.owner.handle ? "Owner: @" + card.owner.handle : "Unclaimed (no accountable owner)")
+    );
+    if (card.difficulty) details.appendChild(el("div", null, "Difficulty: " + card.difficulty));
+    if (card.verified_at) details.appendChild(el("div", null, "Verified: " + card.verified_at.slice(0, 10)));
+    box.appendChild(details);
+
+    var footer = el(
+      "div",
+      "margin-top:10px;padding-top:8px;border-top:1px solid " + theme.border +
+        ";display:flex;justify-content:space-between;gap:8px;font-size:11px"
+    );
+    var link = el("a", "color:" + theme.link + ";text-decoration:none", "View profile →");
+    link.href = card.profile_url;
+    link.target = "_blank";
+    link.rel = "noopener noreferrer";
+    footer.appendChild(link);
+    footer.appendChild(el("span", "color:" + theme.secondary, note));
+    box.appendChild(footer);
+
+    root.appendChild(box);
+  }
+
+  function render(target) {
+    var agentId = target.getAttribute(ATTRIBUTE);
+    var theme = THEMES[target.getAttribute("data-theme")] || THEMES.light;
+    if (!agentId) return Promise.resolve();
+    if (rendered) rendered.add(target);
+
+    renderMessage(target, theme, "Loading agent…");
+
+    return fetch(origin + "/api/v1/public/agents/" + encodeURIComponent(agentId) + "/widget")
+      .then(function (res) {
+        if (res.status === 404) throw new Error("Agent not found");
+        if (!res.ok) throw new Error("Could not load agent");
+        return res.json();
+      })
+      .then(function (data) {
+        var card = data.agent;
+        // Only verified agents have a proof whose status can be checked
+        if (!data.status) {
+          renderCard(target, theme, card, card.status === "verified" ? "No status entry to check" : "No active proof");
+          return;
+        }
+        return checkProofStatus(data.status).then(
+          function (valid) {
+            // The signed list wins over a card that still says verified
+            var status = valid ? card.status : "revoked";
+            renderCard(target, theme, Object.assign({}, card, { status: status }), "✓ Status checked with KnowYourClaw");
+          },
+          function (error) {
+            // Older browsers without Ed25519 or DecompressionStream still get the card, marked as unchecked
+            if (error && error.name === "NotSupportedError") {
+              renderCard(target, theme, card, "Status not checked in this browser");
+              return;
+            }
+            throw new Error("Could not verify this agent's status");
+          }
+        );
+      })
+      .catch(function (error) {
+        renderMessage(target, theme, "KnowYourClaw: " + error.message);
+      });
+  }
+
+  function renderAll() {
+    var targets = document.querySelectorAll("[" + ATTRIBUTE + "]");
+    for (var i = 0; i < targets.length; i++) {
+      if (!rendered || !rendered.has(targets[i])) render(targets[i]);
+    }
+  }
+
+  window.KnowYourClaw = { version: VERSION, render: render, renderAll: renderAll };
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", renderAll);
+  } else {
+    renderAll();
+  }
+})();
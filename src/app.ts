@@ -16,6 +16,17 @@ import platforms from "./routes/platforms.js";
 import publicRoutes from "./routes/public.js";
 import claim from "./routes/claim.js";
 import admin from "./routes/admin.js";
+import agents from "./routes/agents.js";
+import statusLists from "./routes/status-lists.js";
+import proofs from "./routes/proofs.js";
+import oauth from "./routes/oauth.js";
+import webhooks from "./routes/webhooks.js";
+import policies from "./routes/policies.js";
+import reports from "./routes/reports.js";
+import badge from "./routes/badge.js";
+import widget from "./routes/widget.js";
+import { getJwks } from "./lib/jwt.js";
+import { SUPPORTED_SCOPES } from "./services/oauth.service.js";
 
 const app = new Hono();
 
@@ -29,6 +40,38 @@ app.get("/health", (c) => {
   return c.json({ status: "ok", timestamp: new Date().toISOString() });
 });
 
+// Public signing keys for offline token verification
+app.get("/.well-known/jwks.json", async (c) => {
+  const jwks = await getJwks();
+  c.header("Cache-Control", "public, max-age=300");
+  return c.json(jwks);
+});
+
+// OpenID Connect discovery for "Sign in with KnowYourClaw"
+app.get("/.well-known/openid-configuration", (c) => {
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  c.header("Cache-Control", "public, max-age=3600");
+  return c.json({
+    issuer: baseUrl,
+    authorization_endpoint: `${baseUrl}/oauth/authorize`,
+    token_endpoint: `${baseUrl}/oauth/token`,
+    userinfo_endpoint: `${baseUrl}/oauth/userinfo`,
+    introspection_endpoint: `${baseUrl}/oauth/introspect`,
+    jwks_uri: `${baseUrl}/.well-known/jwks.json`,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["EdDSA"],
+    scopes_supported: SUPPORTED_SCOPES,
+    claims_supported: [
+      "sub", "name", "agent_status", "verified_at", "capabilities",
+      "model_family", "framework", "public_key", "nonce", "auth_time",
+    ],
+    code_challenge_methods_supported: ["S256"],
+    token_endpoint_auth_methods_supported: ["none", "client_secret_basic", "client_secret_post"],
+  });
+});
+
 // Serve markdown files
 app.get("/verify.md", (c) => {
   try {
@@ -85,10 +128,19 @@ app.route("/api/v1/challenges", challenges);
 app.route("/api/v1/challenges", submit); // Submit is under challenges/:id/submit
 app.route("/api/v1/verify", verify);
 app.route("/api/v1", verify); // Also mount agents under /api/v1/agents
+app.route("/api/v1/agents", agents); // Agent self-service (login, key rotation)
+app.route("/api/v1/agents", reports); // Platform abuse reports on agents
+app.route("/api/v1/proofs", proofs); // Proof formats (JWT / Verifiable Credential)
+app.route("/api/v1/status-lists", statusLists); // Offline revocation checks
 app.route("/api/v1/platforms", platforms);
+app.route("/api/v1/webhooks", webhooks); // Platform webhook endpoints and delivery log
+app.route("/api/v1/policies", policies); // Platform verification policies
 app.route("/api/v1/public", publicRoutes);
 app.route("/api/v1/claim", claim); // Claim routes for human-in-the-loop verification
 app.route("/api/v1/admin", admin); // Admin routes (protected)
+app.route("/oauth", oauth); // OAuth endpoints (sign-in, API gateways)
+app.route("/badge", badge); // Embeddable SVG agent badges
+app.route("/widget", widget); // Embeddable agent card (script and iframe)
 
 // Serve static files from web-dist (React UI)
 const webDistPath = path.join(process.cwd(), "web-dist");
@@ -145,14 +197,49 @@ app.get("/", (c) => {
       },
       platforms: {
         register: "POST /api/v1/platforms/register",
+        dashboard_login: "POST /api/v1/platforms/login",
+        account: "GET /api/v1/platforms/me",
+        keys: "GET /api/v1/platforms/keys",
+        create_key: "POST /api/v1/platforms/keys",
+        rotate_key: "POST /api/v1/platforms/keys/:id/rotate",
+        oauth_client: "PUT /api/v1/platforms/oauth-client",
+        policies: "PUT /api/v1/policies/:name",
+        webhooks: "POST /api/v1/webhooks",
+        webhook_deliveries: "GET /api/v1/webhooks/deliveries",
+        verification_log: "GET /api/v1/platforms/verifications",
+        report_agent: "POST /api/v1/agents/:id/reports",
+        usage: "GET /api/v1/platforms/usage",
+      },
+      oauth: {
+        discovery: "GET /.well-known/openid-configuration",
+        authorize: "GET /oauth/authorize",
+        token: "POST /oauth/token",
+        userinfo: "GET /oauth/userinfo",
       },
       verify: {
         token: "POST /api/v1/verify",
+        batch: "POST /api/v1/verify/batch",
         agent: "GET /api/v1/agents/:id",
+        introspect: "POST /oauth/introspect",
+        jwks: "GET /.well-known/jwks.json",
+        status_list: "GET /api/v1/status-lists/proofs",
+      },
+      agents: {
+        auth_nonce: "POST /api/v1/agents/auth/nonce",
+        auth: "POST /api/v1/agents/auth",
+        token_exchange: "POST /api/v1/agents/token/exchange",
+        proofs: "GET /api/v1/agents/:id/proofs",
+        keys: "GET /api/v1/agents/:id/keys",
+        rotate_key: "POST /api/v1/agents/:id/keys/rotate",
+        proof: "GET /api/v1/proofs/:id",
       },
       public: {
         stats: "GET /api/v1/public/stats",
         agents: "GET /api/v1/public/agents",
+        badge: "GET /badge/:id.svg?style=flat|large|dark",
+        widget: "GET /api/v1/public/agents/:id/widget",
+        widget_script: "GET /widget/v1.js",
+        widget_frame: "GET /widget/v1/frame/:id?theme=light|dark",
       },
     },
     links: {
@@ -4,6 +4,7 @@
  */
 
 import pg from "pg";
+import { AsyncLocalStorage } from "async_hooks";
 import { schema } from "./schema.js";
 
 const { Pool } = pg;
@@ -44,6 +45,63 @@ export function getPool(): pg.Pool {
   return pool;
 }
 
+// Transaction the current async call chain runs in, if any
+interface Transaction {
+  client: pg.PoolClient;
+  afterCommit: (() => void)[];
+}
+
+const currentTransaction = new AsyncLocalStorage<Transaction>();
+
+function getQueryable(): pg.Pool | pg.PoolClient {
+  return currentTransaction.getStore()?.client ?? getPool();
+}
+
+/**
+ * Run fn in a transaction
+ * query, queryOne and execute called from fn (at any depth) use the
+ * transaction's connection. Commits when fn resolves, rolls back when it throws.
+ */
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  // Already in a transaction: join it
+  if (currentTransaction.getStore()) {
+    return fn();
+  }
+
+  const client = await getPool().connect();
+  const transaction: Transaction = { client, afterCommit: [] };
+  let result: T;
+  try {
+    await client.query("BEGIN");
+    result = await currentTransaction.run(transaction, fn);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  for (const callback of transaction.afterCommit) {
+    callback();
+  }
+  return result;
+}
+
+/**
+ * Run a side effect (webhooks, cache invalidation) once the current
+ * transaction commits, or right away outside a transaction
+ * Dropped if the transaction rolls back.
+ */
+export function afterCommit(callback: () => void): void {
+  const transaction = currentTransaction.getStore();
+  if (transaction) {
+    transaction.afterCommit.push(callback);
+  } else {
+    callback();
+  }
+}
+
 /**
  * Execute a query and return all rows
  */
@@ -51,7 +109,7 @@ export async function query<T = any>(
   text: string,
   params?: any[]
 ): Promise<T[]> {
-  const result = await getPool().query(text, params);
+  const result = await getQueryable().query(text, params);
   return result.rows;
 }
 
@@ -62,7 +120,7 @@ export async function queryOne<T = any>(
   text: string,
   params?: any[]
 ): Promise<T | null> {
-  const result = await getPool().query(text, params);
+  const result = await getQueryable().query(text, params);
   return result.rows[0] || null;
 }
 
@@ -73,18 +131,40 @@ export async function execute(
   text: string,
   params?: any[]
 ): Promise<{ rowCount: number }> {
-  const result = await getPool().query(text, params);
+  const result = await getQueryable().query(text, params);
   return { rowCount: result.rowCount || 0 };
 }
 
+/**
+ * Split SQL on semicolons, except inside $$-quoted bodies (DO blocks)
+ */
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+
+  sql.split("$$").forEach((part, index) => {
+    // Odd parts are the inside of a $$ ... $$ body
+    if (index % 2 === 1) {
+      current += `$$${part}$$`;
+      return;
+    }
+    const [first, ...rest] = part.split(";");
+    current += first;
+    for (const next of rest) {
+      statements.push(current);
+      current = next;
+    }
+  });
+  statements.push(current);
+
+  return statements.map((s) => s.trim()).filter((s) => s.length > 0);
+}
+
 export async function initializeDb(): Promise<void> {
   const p = getPool();
   
   // Split schema into individual statements (PostgreSQL doesn't support multi-statement exec like SQLite)
-  const statements = schema
-    .split(";")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
+  const statements = splitStatements(schema);
 
   for (const statement of statements) {
     try {
@@ -126,4 +206,4 @@ export function getDb() {
   };
 }
 
-export default { getPool, query, queryOne, execute, initializeDb, closeDb, generateId };
+export default { getPool, query, queryOne, execute, withTransaction, afterCommit, initializeDb, closeDb, generateId };
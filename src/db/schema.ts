@@ -18,6 +18,7 @@ CREATE TABLE IF NOT EXISTS agents (
   claim_expires_at TIMESTAMP,
   owner_id TEXT,
   verified_at TIMESTAMP,
+  review_requested_at TIMESTAMP, -- set when reports put the agent in the admin review queue
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -31,6 +32,9 @@ CREATE TABLE IF NOT EXISTS challenges (
   nonce TEXT NOT NULL,
   difficulty TEXT DEFAULT 'standard' CHECK(difficulty IN ('easy', 'standard', 'hard')),
   tasks TEXT NOT NULL, -- JSON
+  capabilities TEXT, -- JSON array of declared capabilities
+  model_family TEXT,
+  framework TEXT,
   status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'in_progress', 'completed', 'failed', 'expired')),
   started_at TIMESTAMP,
   completed_at TIMESTAMP,
@@ -60,11 +64,16 @@ CREATE TABLE IF NOT EXISTS proofs (
   agent_id TEXT NOT NULL,
   challenge_id TEXT NOT NULL,
   token TEXT NOT NULL,
+  credential TEXT, -- same proof as a W3C VC-JWT
+  sd_jwt TEXT, -- same proof as an SD-JWT with all disclosures
   issued_at TIMESTAMP DEFAULT NOW(),
   expires_at TIMESTAMP NOT NULL,
-  status TEXT DEFAULT 'active' CHECK(status IN ('active', 'revoked')),
+  status TEXT DEFAULT 'active' CHECK(status IN ('active', 'revoked', 'superseded')),
   revoked_at TIMESTAMP,
   revoke_reason TEXT,
+  superseded_at TIMESTAMP,
+  superseded_by TEXT, -- proof that replaced this one on renewal
+  status_index INTEGER, -- bit position in the revocation status list
   times_verified INTEGER DEFAULT 0,
   last_verified_at TIMESTAMP,
   last_verified_by TEXT,
@@ -80,18 +89,167 @@ CREATE TABLE IF NOT EXISTS platforms (
   contact_email TEXT,
   api_key_hash TEXT NOT NULL UNIQUE,
   tier TEXT DEFAULT 'free' CHECK(tier IN ('free', 'platform', 'enterprise')),
-  rate_limit INTEGER DEFAULT 100,
+  -- Requests per minute set by an admin (NULL uses the tier limit)
+  rate_limit INTEGER,
   status TEXT DEFAULT 'active' CHECK(status IN ('active', 'suspended', 'pending_email_verification')),
   verifications_count INTEGER DEFAULT 0,
-  verifications_this_month INTEGER DEFAULT 0,
   last_verification_at TIMESTAMP,
   email_verification_token TEXT,
   email_verification_expires_at TIMESTAMP,
   email_verified_at TIMESTAMP,
+  redirect_uris TEXT, -- JSON array of OAuth redirect URIs
+  domain_verification_token TEXT,
+  domain_verified_at TIMESTAMP,
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Platform API keys (several per platform, each with its own scopes)
+CREATE TABLE IF NOT EXISTS platform_api_keys (
+  id TEXT PRIMARY KEY,
+  platform_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  key_prefix TEXT, -- first characters of the key, to tell keys apart
+  scopes TEXT NOT NULL, -- JSON array, or * for every scope (default keys)
+  is_default BOOLEAN, -- the platform's original key, which always has every scope
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  FOREIGN KEY (platform_id) REFERENCES platforms(id)
+);
+
+-- Platforms that have verified each agent (webhook targeting)
+CREATE TABLE IF NOT EXISTS agent_platforms (
+  agent_id TEXT NOT NULL,
+  platform_id TEXT NOT NULL,
+  first_verified_at TIMESTAMP DEFAULT NOW(),
+  last_verified_at TIMESTAMP DEFAULT NOW(),
+  -- Valid verifications of the agent by the platform (feeds reputation)
+  verification_count INTEGER DEFAULT 0,
+  PRIMARY KEY (agent_id, platform_id),
+  FOREIGN KEY (agent_id) REFERENCES agents(id),
+  FOREIGN KEY (platform_id) REFERENCES platforms(id)
+);
+
+-- Platform webhook endpoints
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id TEXT PRIMARY KEY,
+  platform_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL, -- HMAC signing secret (needed in clear to sign)
+  events TEXT NOT NULL, -- JSON array of subscribed event types
+  status TEXT DEFAULT 'active' CHECK(status IN ('active', 'disabled')),
+  consecutive_failures INTEGER DEFAULT 0, -- Deliveries failed after every retry since the last success
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  FOREIGN KEY (platform_id) REFERENCES platforms(id)
+);
+
+-- Webhook delivery queue and log
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  endpoint_id TEXT NOT NULL,
+  platform_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'sending', 'delivered', 'failed')),
+  attempts INTEGER DEFAULT 0,
+  next_attempt_at TIMESTAMP DEFAULT NOW(),
+  last_attempt_at TIMESTAMP,
+  response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  FOREIGN KEY (endpoint_id) REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  FOREIGN KEY (platform_id) REFERENCES platforms(id)
+);
+
+-- Named verification policies (extra rules a platform applies on verify)
+CREATE TABLE IF NOT EXISTS verification_policies (
+  id TEXT PRIMARY KEY,
+  platform_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  rules TEXT NOT NULL, -- JSON object
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (platform_id, name),
+  FOREIGN KEY (platform_id) REFERENCES platforms(id)
+);
+
+-- Abuse reports platforms file against agents
+CREATE TABLE IF NOT EXISTS agent_reports (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  platform_id TEXT, -- NULL once the reporting platform is deleted
+  category TEXT NOT NULL CHECK(category IN ('spam', 'impersonation', 'human_operated', 'malicious', 'other')),
+  description TEXT,
+  evidence TEXT, -- JSON array of URLs or excerpts
+  status TEXT DEFAULT 'open' CHECK(status IN ('open', 'upheld', 'dismissed')),
+  resolution_note TEXT,
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  FOREIGN KEY (agent_id) REFERENCES agents(id),
+  FOREIGN KEY (platform_id) REFERENCES platforms(id)
+);
+
+-- One-time dashboard sign-in links emailed to a platform's contact address
+CREATE TABLE IF NOT EXISTS platform_login_tokens (
+  token_hash TEXT PRIMARY KEY,
+  platform_id TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  FOREIGN KEY (platform_id) REFERENCES platforms(id) ON DELETE CASCADE
+);
+
+-- Contact email changes waiting for the link sent to the new address
+CREATE TABLE IF NOT EXISTS platform_email_changes (
+  token_hash TEXT PRIMARY KEY,
+  platform_id TEXT NOT NULL,
+  new_email TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  FOREIGN KEY (platform_id) REFERENCES platforms(id) ON DELETE CASCADE
+);
+
+-- Platform owner dashboard sessions
+CREATE TABLE IF NOT EXISTS platform_sessions (
+  token_hash TEXT PRIMARY KEY,
+  platform_id TEXT NOT NULL,
+  ip TEXT,
+  expires_at TIMESTAMP NOT NULL,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  FOREIGN KEY (platform_id) REFERENCES platforms(id) ON DELETE CASCADE
+);
+
+-- Every token verification a platform requested (append-only audit log).
+-- agent_id / proof_id come from the token and are unverified when result = 'invalid'.
+CREATE TABLE IF NOT EXISTS verification_events (
+  id BIGSERIAL PRIMARY KEY,
+  platform_id TEXT NOT NULL,
+  agent_id TEXT,
+  proof_id TEXT,
+  result TEXT NOT NULL CHECK(result IN ('valid', 'invalid')),
+  failure_reason TEXT,
+  source TEXT NOT NULL CHECK(source IN ('verify', 'batch', 'introspect')),
+  ip TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Verification counts per platform per day (rollup of verification_events)
+CREATE TABLE IF NOT EXISTS platform_usage_daily (
+  platform_id TEXT NOT NULL,
+  day DATE NOT NULL,
+  valid_count INTEGER NOT NULL DEFAULT 0,
+  invalid_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (platform_id, day)
+);
+
 -- Owners table (for claimed agents)
 CREATE TABLE IF NOT EXISTS owners (
   id TEXT PRIMARY KEY,
@@ -105,6 +263,28 @@ CREATE TABLE IF NOT EXISTS owners (
   UNIQUE(provider, provider_id)
 );
 
+-- Agent key history (every public key an agent has used)
+CREATE TABLE IF NOT EXISTS agent_keys (
+  id SERIAL PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  public_key TEXT NOT NULL UNIQUE,
+  status TEXT DEFAULT 'active' CHECK(status IN ('active', 'rotated', 'compromised')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  rotated_at TIMESTAMP,
+  compromised_at TIMESTAMP,
+  FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+-- Agent login nonces (challenge-response for short-lived access tokens)
+CREATE TABLE IF NOT EXISTS agent_auth_nonces (
+  nonce TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
 -- Agent bios (for uniqueness checking)
 CREATE TABLE IF NOT EXISTS agent_bios (
   id SERIAL PRIMARY KEY,
@@ -125,6 +305,14 @@ CREATE TABLE IF NOT EXISTS rate_limit_log (
   created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Platform API request counts per fixed window (sliding-window rate limiting)
+CREATE TABLE IF NOT EXISTS platform_rate_limits (
+  bucket TEXT NOT NULL, -- platform id and tier
+  window_start BIGINT NOT NULL, -- unix ms
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket, window_start)
+);
+
 -- Timing log for completion analysis
 CREATE TABLE IF NOT EXISTS timing_log (
   id SERIAL PRIMARY KEY,
@@ -163,6 +351,55 @@ CREATE TABLE IF NOT EXISTS speed_tokens (
   FOREIGN KEY (challenge_id) REFERENCES challenges(id)
 );
 
+-- Task plugin state (answers for tasks without their own table)
+CREATE TABLE IF NOT EXISTS challenge_task_state (
+  challenge_id TEXT NOT NULL,
+  task_type TEXT NOT NULL,
+  state TEXT NOT NULL, -- JSON
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (challenge_id, task_type),
+  FOREIGN KEY (challenge_id) REFERENCES challenges(id)
+);
+
+-- Replay cache for proof-of-possession signatures on /api/v1/verify
+CREATE TABLE IF NOT EXISTS pop_nonces (
+  public_key TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (public_key, nonce)
+);
+
+-- JWT signing keys shared by every instance (private keys encrypted under JWT_MASTER_KEY)
+CREATE TABLE IF NOT EXISTS signing_keys (
+  kid TEXT PRIMARY KEY,
+  public_key TEXT NOT NULL, -- SPKI PEM
+  private_key_encrypted TEXT, -- cleared once the key is retired
+  status TEXT DEFAULT 'active' CHECK(status IN ('active', 'retired')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  retired_at TIMESTAMP
+);
+
+-- "Sign in with KnowYourClaw": pending authorization requests and their codes
+CREATE TABLE IF NOT EXISTS oauth_authorizations (
+  id TEXT PRIMARY KEY,
+  platform_id TEXT NOT NULL,
+  redirect_uri TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  state TEXT,
+  oidc_nonce TEXT,
+  code_challenge TEXT NOT NULL,
+  server_nonce TEXT NOT NULL,
+  agent_id TEXT,
+  code_hash TEXT UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  approved_at TIMESTAMP,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  FOREIGN KEY (platform_id) REFERENCES platforms(id),
+  FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
 -- OAuth states for claim verification
 CREATE TABLE IF NOT EXISTS oauth_states (
   id TEXT PRIMARY KEY,
@@ -180,12 +417,119 @@ CREATE INDEX IF NOT EXISTS idx_agents_public_key ON agents(public_key);
 CREATE INDEX IF NOT EXISTS idx_agents_status ON agents(status);
 CREATE INDEX IF NOT EXISTS idx_proofs_agent_id ON proofs(agent_id);
 CREATE INDEX IF NOT EXISTS idx_proofs_status ON proofs(status);
+CREATE INDEX IF NOT EXISTS idx_agent_keys_agent_id ON agent_keys(agent_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signing_keys_one_active ON signing_keys(status) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_pop_nonces_expires_at ON pop_nonces(expires_at);
 CREATE INDEX IF NOT EXISTS idx_platforms_api_key_hash ON platforms(api_key_hash);
+CREATE INDEX IF NOT EXISTS idx_platform_api_keys_platform_id ON platform_api_keys(platform_id);
+CREATE INDEX IF NOT EXISTS idx_agent_reports_agent_id ON agent_reports(agent_id, status);
+CREATE INDEX IF NOT EXISTS idx_agent_reports_status ON agent_reports(status, created_at);
+-- One open report per platform, agent and category
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_reports_open ON agent_reports(agent_id, platform_id, category) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_platform_login_tokens_platform_id ON platform_login_tokens(platform_id);
+CREATE INDEX IF NOT EXISTS idx_platform_sessions_platform_id ON platform_sessions(platform_id);
+CREATE INDEX IF NOT EXISTS idx_verification_events_platform ON verification_events(platform_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_verification_events_agent ON verification_events(agent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_verification_events_created ON verification_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_platform_id ON webhook_endpoints(platform_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_platform_id ON webhook_deliveries(platform_id, created_at);
 CREATE INDEX IF NOT EXISTS idx_rate_limit_ip ON rate_limit_log(ip);
 CREATE INDEX IF NOT EXISTS idx_rate_limit_fingerprint ON rate_limit_log(fingerprint);
 CREATE INDEX IF NOT EXISTS idx_rate_limit_created ON rate_limit_log(created_at);
 CREATE INDEX IF NOT EXISTS idx_timing_ip ON timing_log(ip);
 CREATE INDEX IF NOT EXISTS idx_timing_fingerprint ON timing_log(fingerprint);
+
+-- Migrations for existing databases
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS capabilities TEXT;
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS model_family TEXT;
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS framework TEXT;
+ALTER TABLE proofs ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP;
+ALTER TABLE proofs ADD COLUMN IF NOT EXISTS superseded_by TEXT;
+-- Allow superseded proofs. Only replaced while it lacks 'superseded', since
+-- adding the constraint scans the table under lock.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'proofs'::regclass
+      AND conname = 'proofs_status_check'
+      AND pg_get_constraintdef(oid) LIKE '%superseded%'
+  ) THEN
+    ALTER TABLE proofs DROP CONSTRAINT IF EXISTS proofs_status_check;
+    ALTER TABLE proofs ADD CONSTRAINT proofs_status_check CHECK(status IN ('active', 'revoked', 'superseded'));
+  END IF;
+END
+$$;
+ALTER TABLE proofs ADD COLUMN IF NOT EXISTS status_index INTEGER;
+ALTER TABLE proofs ADD COLUMN IF NOT EXISTS credential TEXT;
+ALTER TABLE proofs ADD COLUMN IF NOT EXISTS sd_jwt TEXT;
+ALTER TABLE platforms ADD COLUMN IF NOT EXISTS redirect_uris TEXT;
+ALTER TABLE platforms ADD COLUMN IF NOT EXISTS domain_verification_token TEXT;
+ALTER TABLE platforms ADD COLUMN IF NOT EXISTS domain_verified_at TIMESTAMP;
+-- rate_limit used to default to 100, which hid the tier limits. Clear the
+-- untouched defaults and drop the default together, so this runs only while
+-- the old default is still there. The lock makes a second booting instance
+-- wait and then skip.
+DO $$
+BEGIN
+  LOCK TABLE platforms IN SHARE ROW EXCLUSIVE MODE;
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'platforms'
+      AND column_name = 'rate_limit' AND column_default IS NOT NULL
+  ) THEN
+    UPDATE platforms SET rate_limit = NULL WHERE rate_limit = 100;
+    ALTER TABLE platforms ALTER COLUMN rate_limit DROP DEFAULT;
+  END IF;
+END
+$$;
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS review_requested_at TIMESTAMP;
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER DEFAULT 0;
+-- allowed_agent_statuses was dropped: only verified agents ever reach policy checks
+UPDATE verification_policies SET rules = (rules::jsonb - 'allowed_agent_statuses')::text
+WHERE rules::jsonb ? 'allowed_agent_statuses';
+ALTER TABLE agent_platforms ADD COLUMN IF NOT EXISTS verification_count INTEGER;
+UPDATE agent_platforms ap
+SET verification_count = (
+  SELECT COUNT(*) FROM verification_events e
+  WHERE e.agent_id = ap.agent_id AND e.platform_id = ap.platform_id AND e.result = 'valid'
+)
+WHERE verification_count IS NULL;
+ALTER TABLE agent_platforms ALTER COLUMN verification_count SET DEFAULT 0;
+-- Monthly usage now comes from platform_usage_daily. Carry the current month's
+-- count over into today's rollup and drop the column in one step. The lock
+-- makes a second booting instance wait, find the column gone and skip.
+DO $$
+BEGIN
+  LOCK TABLE platforms IN SHARE ROW EXCLUSIVE MODE;
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'platforms'
+      AND column_name = 'verifications_this_month'
+  ) THEN
+    INSERT INTO platform_usage_daily (platform_id, day, valid_count)
+    SELECT id, CURRENT_DATE, verifications_this_month
+    FROM platforms
+    WHERE verifications_this_month > 0
+    ON CONFLICT (platform_id, day) DO UPDATE
+    SET valid_count = platform_usage_daily.valid_count + EXCLUDED.valid_count;
+    ALTER TABLE platforms DROP COLUMN verifications_this_month;
+  END IF;
+END
+$$;
+ALTER TABLE agent_reports ALTER COLUMN platform_id DROP NOT NULL;
+CREATE SEQUENCE IF NOT EXISTS proof_status_index_seq MINVALUE 0 START 0;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proofs_status_index ON proofs(status_index);
+ALTER TABLE platform_api_keys ADD COLUMN IF NOT EXISTS is_default BOOLEAN;
+UPDATE platform_api_keys SET is_default = (name = 'Default key') WHERE is_default IS NULL;
+-- Carry each platform's original key over as its default key (all scopes)
+INSERT INTO platform_api_keys (id, platform_id, name, key_hash, scopes, is_default, created_at)
+SELECT 'key_' || id, id, 'Default key', api_key_hash, '*', TRUE, created_at
+FROM platforms WHERE status != 'pending_email_verification'
+ON CONFLICT DO NOTHING;
+-- Default keys carry every scope, including ones added after they were created
+UPDATE platform_api_keys SET scopes = '*' WHERE is_default AND scopes != '*';
 `;
 
 export default schema;
@@ -6,7 +6,8 @@ import "dotenv/config";
 import { serve } from "@hono/node-server";
 import app from "./app.js";
 import { initializeDb } from "./db/index.js";
-import { initializeKeys } from "./lib/jwt.js";
+import { initializeKeys, startKeyRotation } from "./lib/jwt.js";
+import { startWebhookWorker } from "./services/webhook.service.js";
 
 const PORT = parseInt(process.env.PORT || "3000", 10);
 
@@ -24,11 +25,15 @@ async function main() {
   // Initialize JWT keys
   try {
     await initializeKeys();
+    startKeyRotation();
   } catch (error) {
     console.error("❌ JWT key initialization failed:", error);
     process.exit(1);
   }
 
+  // Deliver queued webhooks (and retries)
+  startWebhookWorker();
+
   // Start server
   const baseUrl = process.env.BASE_URL || `http://localhost:${PORT}`;
   console.log(`
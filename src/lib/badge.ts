@@ -0,0 +1,130 @@
+/**
+ * SVG badge rendering for agents
+ * Three styles: flat (shields.io-like, for READMEs), large (card with name,
+ * difficulty and verification date) and dark (the card on a dark background).
+ */
+
+export const BADGE_STYLES = ["flat", "large", "dark"] as const;
+
+export type BadgeStyle = (typeof BADGE_STYLES)[number];
+
+export type BadgeStatus = "verified" | "claimed" | "expired" | "pending" | "suspended" | "revoked" | "not found";
+
+export interface BadgeData {
+  status: BadgeStatus;
+  name?: string;
+  difficulty?: string;
+  verifiedAt?: string;
+}
+
+const LABEL = "KnowYourClaw";
+
+const STATUS_COLORS: Record<BadgeStatus, string> = {
+  verified: "#3fb950",
+  claimed: "#2f81f7",
+  expired: "#d29922",
+  pending: "#8b949e",
+  suspended: "#db6d28",
+  revoked: "#f85149",
+  "not found": "#8b949e",
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Rough width of text in 11px Verdana, close enough to size the badge
+function textWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += /[iljt.,:;'|! ]/.test(char) ? 3.5 : /[mwMW@]/.test(char) ? 10 : /[A-Z]/.test(char) ? 7.5 : 6.5;
+  }
+  return Math.ceil(width);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function statusText(data: BadgeData): string {
+  if (data.status === "claimed") return "verified · claimed";
+  return data.status;
+}
+
+function describe(data: BadgeData): string {
+  const parts = [`${LABEL}: ${statusText(data)}`];
+  if (data.name) parts.unshift(data.name);
+  if (data.difficulty) parts.push(`${data.difficulty} difficulty`);
+  if (data.verifiedAt) parts.push(`verified ${data.verifiedAt.slice(0, 10)}`);
+  return parts.join(" - ");
+}
+
+function renderFlat(data: BadgeData): string {
+  const value = data.difficulty && (data.status === "verified" || data.status === "claimed")
+    ? `${statusText(data)} · ${data.difficulty}`
+    : statusText(data);
+  const labelWidth = textWidth(LABEL) + 12;
+  const valueWidth = textWidth(value) + 12;
+  const width = labelWidth + valueWidth;
+  const title = escapeXml(describe(data));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">
+  <title>${title}</title>
+  <linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>
+  <clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+  <g clip-path="url(#r)">
+    <rect width="${labelWidth}" height="20" fill="#555"/>
+    <rect x="${labelWidth}" width="${valueWidth}" height="20" fill="${STATUS_COLORS[data.status]}"/>
+    <rect width="${width}" height="20" fill="url(#s)"/>
+  </g>
+  <g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+    <text x="${labelWidth / 2}" y="15" fill="#010101" fill-opacity=".3">${LABEL}</text>
+    <text x="${labelWidth / 2}" y="14">${LABEL}</text>
+    <text x="${labelWidth + valueWidth / 2}" y="15" fill="#010101" fill-opacity=".3">${escapeXml(value)}</text>
+    <text x="${labelWidth + valueWidth / 2}" y="14">${escapeXml(value)}</text>
+  </g>
+</svg>`;
+}
+
+function renderCard(data: BadgeData, dark: boolean): string {
+  const background = dark ? "#0d1117" : "#ffffff";
+  const border = dark ? "#30363d" : "#d0d7de";
+  const primary = dark ? "#e6edf3" : "#1f2328";
+  const secondary = dark ? "#8b949e" : "#656d76";
+  const color = STATUS_COLORS[data.status];
+
+  const name = escapeXml(truncate(data.name || "Unknown agent", 28));
+  const status = escapeXml(statusText(data));
+  const details = [
+    data.difficulty ? `${data.difficulty} difficulty` : null,
+    data.verifiedAt ? `verified ${data.verifiedAt.slice(0, 10)}` : null,
+  ].filter(Boolean).join(" · ") || LABEL;
+
+  const width = Math.max(220, textWidth(data.name ? truncate(data.name, 28) : "Unknown agent") + 80, textWidth(details) + 70);
+  const title = escapeXml(describe(data));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="64" role="img" aria-label="${title}">
+  <title>${title}</title>
+  <rect x=".5" y=".5" width="${width - 1}" height="63" rx="8" fill="${background}" stroke="${border}"/>
+  <circle cx="28" cy="32" r="14" fill="${color}"/>
+  <path d="M21 32l5 5 9-10" fill="none" stroke="#fff" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round" opacity="${data.status === "verified" || data.status === "claimed" ? 1 : 0}"/>
+  <g font-family="-apple-system,BlinkMacSystemFont,Segoe UI,Helvetica,Arial,sans-serif">
+    <text x="54" y="22" font-size="13" font-weight="600" fill="${primary}">${name}</text>
+    <text x="54" y="39" font-size="11" font-weight="600" fill="${color}">${status}</text>
+    <text x="54" y="54" font-size="10" fill="${secondary}">${escapeXml(details)}</text>
+  </g>
+</svg>`;
+}
+
+/**
+ * Render an agent badge as SVG
+ */
+export function renderBadge(data: BadgeData, style: BadgeStyle = "flat"): string {
+  if (style === "flat") return renderFlat(data);
+  return renderCard(data, style === "dark");
+}
@@ -0,0 +1,12 @@
+/**
+ * Client IP of a request
+ * The first X-Forwarded-For hop (set by the proxy in front of us), else X-Real-IP.
+ */
+
+import type { Context } from "hono";
+
+export function getClientIp(c: Context): string | undefined {
+  return c.req.header("x-forwarded-for")?.split(",")[0]?.trim()
+    || c.req.header("x-real-ip")
+    || undefined;
+}
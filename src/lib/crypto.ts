@@ -3,7 +3,7 @@
  * Ed25519 signature verification and key handling
  */
 
-import { createHash } from "crypto";
+import { createHash, createCipheriv, createDecipheriv, randomBytes } from "crypto";
 
 /**
  * Create the message that agents must sign
@@ -12,6 +12,53 @@ export function createSigningMessage(nonce: string, agentName: string): string {
   return `agentproof:${nonce}:${agentName}`;
 }
 
+/**
+ * Create the message an agent signs (with both its old and new key) to rotate keys
+ */
+export function createKeyRotationMessage(
+  agentId: string,
+  newPublicKey: string,
+  timestamp: number
+): string {
+  return `agentproof:rotate:${agentId}:${newPublicKey}:${timestamp}`;
+}
+
+/**
+ * Create the message an agent signs to exchange a proof for a platform-bound token
+ */
+export function createTokenExchangeMessage(
+  proofId: string,
+  audience: string,
+  timestamp: number
+): string {
+  return `agentproof:exchange:${proofId}:${audience}:${timestamp}`;
+}
+
+/**
+ * Create the message an agent signs to approve a "Sign in with KnowYourClaw" request
+ */
+export function createAuthorizationMessage(
+  requestId: string,
+  clientId: string,
+  nonce: string
+): string {
+  return `agentproof:authorize:${requestId}:${clientId}:${nonce}`;
+}
+
+/**
+ * Create the message an agent signs to prove it holds the key behind a presented token
+ * tokenHash is base64url(SHA256(token)), so the signature only covers that token.
+ */
+export function createPopMessage(
+  method: string,
+  url: string,
+  timestamp: number,
+  nonce: string,
+  tokenHash: string
+): string {
+  return `agentproof:pop:${method.toUpperCase()}:${url}:${timestamp}:${nonce}:${tokenHash}`;
+}
+
 /**
  * Hash a message using SHA256
  */
@@ -21,6 +68,32 @@ export function sha256(message: string): Uint8Array {
   return new Uint8Array(hash.digest());
 }
 
+/**
+ * Encrypt a secret with AES-256-GCM under a master key (any string; hashed to 32 bytes)
+ * Output: base64(iv).base64(tag).base64(ciphertext)
+ */
+export function encryptSecret(plaintext: string, masterKey: string): string {
+  const key = createHash("sha256").update(masterKey).digest();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret (throws if the master key is wrong)
+ */
+export function decryptSecret(encrypted: string, masterKey: string): string {
+  const [iv, tag, ciphertext] = encrypted.split(".").map((part) => Buffer.from(part, "base64"));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Malformed encrypted secret");
+  }
+  const key = createHash("sha256").update(masterKey).digest();
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf-8");
+}
+
 /**
  * Verify an Ed25519 signature
  * @param publicKey - Base64 encoded Ed25519 public key
@@ -498,8 +498,6 @@ export function validateDynamicAnswer(
     };
   }
   
-  // Extract key concepts from the expected issue description
-  const issueLC = challenge.answer.issue.toLowerCase();
   const answerIssueLC = answer.issue.toLowerCase();
   
   // Bug-type specific keyword matching
@@ -360,4 +360,196 @@ Platform ID: ${data.platformId}
   return sendEmail({ to: data.email, subject, html, text });
 }
 
+/**
+ * Send a platform dashboard sign-in link
+ */
+export async function sendPlatformLoginEmail(data: {
+  email: string;
+  platformName: string;
+  loginToken: string;
+  expiresInMinutes: number;
+}): Promise<boolean> {
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  const loginUrl = `${baseUrl}/platforms/dashboard?token=${encodeURIComponent(data.loginToken)}`;
+
+  const subject = `Sign in to your KnowYourClaw dashboard`;
+
+  const html = `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="text-align: center; padding: 20px 0;">
+        <h1 style="color: #6366f1; margin: 0;">🪪 KnowYourClaw</h1>
+        <p style="color: #6b7280; margin: 10px 0 0 0;">Know Your Claw</p>
+      </div>
+      
+      <div style="background: #f9fafb; border-radius: 12px; padding: 30px; margin: 20px 0;">
+        <h2 style="color: #111827; margin: 0 0 20px 0;">Sign in</h2>
+        
+        <p style="color: #374151; line-height: 1.6;">
+          Click the button below to open the dashboard for <strong>${data.platformName}</strong>:
+        </p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${loginUrl}" style="display: inline-block; background: linear-gradient(135deg, #6366f1, #8b5cf6); color: white; font-weight: 600; padding: 14px 28px; border-radius: 8px; text-decoration: none;">
+            Open Dashboard
+          </a>
+        </div>
+        
+        <p style="color: #6b7280; font-size: 14px;">
+          Or copy this link: <br />
+          <a href="${loginUrl}" style="color: #6366f1; word-break: break-all;">${loginUrl}</a>
+        </p>
+        
+        <p style="color: #9ca3af; font-size: 13px; margin-top: 20px;">
+          This link works once and expires in ${data.expiresInMinutes} minutes.
+        </p>
+      </div>
+      
+      <div style="text-align: center; padding: 20px 0; border-top: 1px solid #e5e7eb;">
+        <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+          If you didn't ask to sign in, you can ignore this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  const text = `
+Sign in to your KnowYourClaw dashboard
+
+Open the dashboard for ${data.platformName}:
+${loginUrl}
+
+This link works once and expires in ${data.expiresInMinutes} minutes.
+
+If you didn't ask to sign in, you can ignore this email.
+`;
+
+  return sendEmail({ 
+    to: data.email, 
+    subject, 
+    html, 
+    text,
+    debugData: { "Sign-in URL": loginUrl }
+  });
+}
+
+/**
+ * Send the link that confirms a new platform contact email
+ */
+export async function sendPlatformEmailChangeConfirmation(data: {
+  email: string;
+  platformName: string;
+  changeToken: string;
+  expiresInMinutes: number;
+}): Promise<boolean> {
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  const confirmUrl = `${baseUrl}/platforms/dashboard?email_token=${encodeURIComponent(data.changeToken)}`;
+
+  const subject = `Confirm your new KnowYourClaw contact email`;
+
+  const html = `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="text-align: center; padding: 20px 0;">
+        <h1 style="color: #6366f1; margin: 0;">🪪 KnowYourClaw</h1>
+        <p style="color: #6b7280; margin: 10px 0 0 0;">Know Your Claw</p>
+      </div>
+      
+      <div style="background: #f9fafb; border-radius: 12px; padding: 30px; margin: 20px 0;">
+        <h2 style="color: #111827; margin: 0 0 20px 0;">Confirm your email</h2>
+        
+        <p style="color: #374151; line-height: 1.6;">
+          Click the button below to make this address the contact email of <strong>${data.platformName}</strong>.
+          Dashboard sign-in links will be sent here, and every current session ends.
+        </p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${confirmUrl}" style="display: inline-block; background: linear-gradient(135deg, #6366f1, #8b5cf6); color: white; font-weight: 600; padding: 14px 28px; border-radius: 8px; text-decoration: none;">
+            Confirm Email
+          </a>
+        </div>
+        
+        <p style="color: #6b7280; font-size: 14px;">
+          Or copy this link: <br />
+          <a href="${confirmUrl}" style="color: #6366f1; word-break: break-all;">${confirmUrl}</a>
+        </p>
+        
+        <p style="color: #9ca3af; font-size: 13px; margin-top: 20px;">
+          This link works once and expires in ${data.expiresInMinutes} minutes.
+        </p>
+      </div>
+      
+      <div style="text-align: center; padding: 20px 0; border-top: 1px solid #e5e7eb;">
+        <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+          If you didn't ask for this change, you can ignore this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  const text = `
+Confirm your new KnowYourClaw contact email
+
+Make this address the contact email of ${data.platformName}:
+${confirmUrl}
+
+Dashboard sign-in links will be sent here, and every current session ends.
+This link works once and expires in ${data.expiresInMinutes} minutes.
+
+If you didn't ask for this change, you can ignore this email.
+`;
+
+  return sendEmail({ 
+    to: data.email, 
+    subject, 
+    html, 
+    text,
+    debugData: { "Confirmation URL": confirmUrl }
+  });
+}
+
+/**
+ * Tell the current contact address that a change to another address was requested
+ */
+export async function sendPlatformEmailChangeNotice(data: {
+  email: string;
+  platformName: string;
+  newEmail: string;
+}): Promise<boolean> {
+  const subject = `Contact email change requested for ${data.platformName}`;
+
+  const html = `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="text-align: center; padding: 20px 0;">
+        <h1 style="color: #6366f1; margin: 0;">🪪 KnowYourClaw</h1>
+        <p style="color: #6b7280; margin: 10px 0 0 0;">Know Your Claw</p>
+      </div>
+      
+      <div style="background: #f9fafb; border-radius: 12px; padding: 30px; margin: 20px 0;">
+        <h2 style="color: #111827; margin: 0 0 20px 0;">Contact email change</h2>
+        
+        <p style="color: #374151; line-height: 1.6;">
+          Someone signed in to the dashboard of <strong>${data.platformName}</strong> asked to change its
+          contact email to <strong>${data.newEmail}</strong>. It changes once that address confirms.
+        </p>
+        
+        <p style="color: #374151; line-height: 1.6;">
+          If this wasn't you, sign in to the dashboard and save this address as the contact email again.
+          That cancels the pending change. Then rotate your API keys.
+        </p>
+      </div>
+    </div>
+  `;
+
+  const text = `
+Contact email change requested for ${data.platformName}
+
+Someone signed in to the dashboard of ${data.platformName} asked to change its
+contact email to ${data.newEmail}. It changes once that address confirms.
+
+If this wasn't you, sign in to the dashboard and save this address as the contact
+email again. That cancels the pending change. Then rotate your API keys.
+`;
+
+  return sendEmail({ to: data.email, subject, html, text });
+}
+
 export { sendEmail };
@@ -4,6 +4,14 @@
  */
 
 import * as jose from "jose";
+import { createHash, randomBytes } from "crypto";
+import {
+  isKeyStoreEnabled,
+  loadStoredKeys,
+  insertActiveKey,
+  rotateStoredKey,
+  deleteExpiredKeys,
+} from "./signing-keys.js";
 
 // Types
 export interface AgentProofPayload {
@@ -16,6 +24,8 @@ export interface AgentProofPayload {
     name: string;
     public_key: string;
     capabilities: string[];
+    model_family?: string;
+    framework?: string;
   };
 }
 
@@ -27,27 +37,283 @@ export interface ProofTokenPayload {
   exp: number;
   jti: string;
   agp: AgentProofPayload;
+  // Position in the revocation status list (absent on older tokens)
+  status?: TokenStatusReference;
 }
 
-// Singleton for keys
-let privateKey: jose.KeyLike | null = null;
-let publicKey: jose.KeyLike | null = null;
+// W3C Verifiable Credential (VC-JWT) carrying the same facts as a proof token
+export interface AgentProofCredential {
+  "@context": string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  validFrom: string;
+  validUntil: string;
+  credentialSubject: {
+    id: string;
+    agent: AgentProofPayload["agent"];
+    verification: Omit<AgentProofPayload, "agent">;
+  };
+}
+
+// JWT claims of a VC-JWT: the credential itself plus the registered claims
+export type ProofCredentialPayload = AgentProofCredential & {
+  iss: string;
+  sub: string;
+  iat: number;
+  exp: number;
+  jti: string;
+  status?: TokenStatusReference;
+};
+
+// Claims an SD-JWT proof carries as salted disclosures (everything else is always visible)
+export type DisclosableClaim =
+  | "name"
+  | "capabilities"
+  | "model_family"
+  | "framework"
+  | "challenge_id"
+  | "difficulty"
+  | "tasks_passed"
+  | "time_taken_ms";
+
+// IETF OAuth Token Status List reference
+export interface TokenStatusReference {
+  status_list: {
+    idx: number;
+    uri: string;
+  };
+}
+
+// Claims an agent can choose to disclose in an exchanged token
+export type ExchangeableClaim =
+  | "public_key"
+  | "capabilities"
+  | "model_family"
+  | "framework"
+  | "difficulty"
+  | "tasks_passed";
+
+// Short-lived token derived from a proof for exactly one platform (token exchange)
+export interface ExchangedTokenPayload {
+  iss: string;
+  sub: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  jti: string;
+  token_use: "exchange";
+  // Proof the token was derived from
+  proof_id: string;
+  agent: {
+    name: string;
+    public_key?: string;
+    capabilities?: string[];
+    model_family?: string;
+    framework?: string;
+    difficulty?: string;
+    tasks_passed?: string[];
+  };
+}
+
+export interface StatusListTokenPayload {
+  iss: string;
+  sub: string;
+  iat: number;
+  exp: number;
+  ttl: number;
+  status_list: {
+    bits: number;
+    // base64url of the zlib-compressed bitstring
+    lst: string;
+  };
+}
+
+// Short-lived, audience-bound token issued after an agent proves key possession
+export interface AccessTokenPayload {
+  iss: string;
+  sub: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  jti: string;
+  token_use: "access";
+  // Proof the session is backed by
+  proof_id: string;
+  public_key: string;
+  // OAuth scopes, when issued by /oauth/token
+  scope?: string;
+}
+
+// Signing keyring. The newest key signs; retired keys only verify, and stay
+// published in the JWKS until every token they signed has expired.
+interface SigningKey {
+  kid: string;
+  privateKey: jose.KeyLike | null;
+  publicKey: jose.KeyLike;
+  createdAt: number;
+  retiredAt?: number;
+}
+
+const keyring: SigningKey[] = [];
+
+// Key used for tokens issued before kid headers existed
+let legacyKid: string | null = null;
+
+// Keys live in the signing_keys table (JWT_MASTER_KEY set, no env keys)
+let usingKeyStore = false;
+let lastStoreReload = 0;
+
+let rotationTimer: NodeJS.Timeout | null = null;
+
+// How often to pick up keys rotated by other instances and check rotation
+const KEY_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+// Minimum gap between store reloads triggered by an unknown kid
+const KEY_RELOAD_THROTTLE_MS = 30 * 1000;
+
+// Longest-lived tokens we sign are proofs
+function maxTokenLifetimeSeconds(): number {
+  return parseInt(process.env.PROOF_EXPIRY_DAYS || "365", 10) * 24 * 60 * 60;
+}
+
+async function computeKid(publicKey: jose.KeyLike): Promise<string> {
+  // RFC 7638 JWK thumbprint
+  return await jose.calculateJwkThumbprint(await jose.exportJWK(publicKey));
+}
+
+/**
+ * Add a key to the in-memory keyring
+ */
+async function addSigningKey(
+  privateKey: jose.KeyLike | null,
+  publicKey: jose.KeyLike,
+  retiredAt?: number
+): Promise<SigningKey> {
+  const kid = await computeKid(publicKey);
+  const existing = keyring.find((key) => key.kid === kid);
+  if (existing) {
+    return existing;
+  }
+
+  const key: SigningKey = {
+    kid,
+    privateKey,
+    publicKey,
+    createdAt: Math.floor(Date.now() / 1000),
+    retiredAt,
+  };
+  keyring.push(key);
+  return key;
+}
+
+function getSigningKey(): SigningKey {
+  const key = keyring.find((k) => k.privateKey && !k.retiredAt);
+  if (!key?.privateKey) {
+    throw new Error("JWT keys not initialized. Call initializeKeys() first.");
+  }
+  return key;
+}
+
+/**
+ * Replace the keyring with the keys in the signing_keys table
+ */
+async function loadKeysFromStore(): Promise<void> {
+  const stored = await loadStoredKeys();
+  const loaded: SigningKey[] = [];
+
+  for (const key of stored) {
+    loaded.push({
+      kid: key.kid,
+      privateKey: key.privateKeyPem ? await jose.importPKCS8(key.privateKeyPem, "EdDSA") : null,
+      publicKey: await jose.importSPKI(key.publicKeyPem, "EdDSA"),
+      createdAt: key.createdAt,
+      retiredAt: key.retiredAt,
+    });
+  }
+
+  // Never drop the key we are signing with because of a half-finished rotation
+  if (!loaded.some((key) => key.privateKey && !key.retiredAt) && keyring.length > 0) {
+    return;
+  }
+
+  keyring.splice(0, keyring.length, ...loaded);
+  lastStoreReload = Date.now();
+}
+
+/**
+ * Pick the verification key for a token by its kid header
+ */
+async function resolveVerificationKey(token: string): Promise<jose.KeyLike | null> {
+  if (keyring.length === 0) {
+    throw new Error("JWT keys not initialized. Call initializeKeys() first.");
+  }
+
+  let kid: string | undefined;
+  try {
+    kid = jose.decodeProtectedHeader(token).kid;
+  } catch {
+    return null;
+  }
+
+  const lookup = kid ?? legacyKid;
+  let key = keyring.find((k) => k.kid === lookup);
+
+  // Another instance may have rotated since our last reload
+  if (!key && kid && usingKeyStore && Date.now() - lastStoreReload > KEY_RELOAD_THROTTLE_MS) {
+    await loadKeysFromStore();
+    key = keyring.find((k) => k.kid === kid);
+  }
+
+  return key?.publicKey ?? null;
+}
 
 /**
- * Initialize JWT keys from environment or generate temporary ones
+ * Initialize JWT keys
+ *
+ * Order of precedence:
+ * 1. JWT_PRIVATE_KEY / JWT_PUBLIC_KEY from the environment. JWT_PREVIOUS_PUBLIC_KEYS
+ *    (comma-separated base64 SPKI PEMs) keeps keys from a manual rotation
+ *    verifiable until their tokens expire.
+ * 2. The signing_keys table, encrypted under JWT_MASTER_KEY. The first instance
+ *    to start generates the key; every other instance loads it.
+ * 3. Temporary keys (tokens are invalidated on restart).
  */
 export async function initializeKeys(): Promise<void> {
   const privateKeyB64 = process.env.JWT_PRIVATE_KEY;
   const publicKeyB64 = process.env.JWT_PUBLIC_KEY;
 
+  if ((!privateKeyB64 || !publicKeyB64) && isKeyStoreEnabled()) {
+    try {
+      usingKeyStore = true;
+      await loadKeysFromStore();
+
+      if (!keyring.some((key) => key.privateKey && !key.retiredAt)) {
+        const keyPair = await generateKeyPair();
+        // If another instance got there first this is a no-op; load whichever won
+        await insertActiveKey(
+          await computeKid(keyPair.publicKey),
+          await jose.exportSPKI(keyPair.publicKey),
+          await jose.exportPKCS8(keyPair.privateKey)
+        );
+        await loadKeysFromStore();
+      }
+
+      console.log(`✅ JWT keys loaded from database (kid ${getSigningKey().kid})`);
+      return;
+    } catch (error) {
+      console.error("❌ Failed to load JWT keys from database:", error);
+      throw error;
+    }
+  }
+
   if (!privateKeyB64 || !publicKeyB64) {
     console.warn("⚠️  JWT keys not configured. Generating temporary keys...");
     console.warn("   Note: Proof tokens will be invalidated on server restart.");
-    console.warn("   For production, set JWT_PRIVATE_KEY and JWT_PUBLIC_KEY in .env");
+    console.warn("   For production, set JWT_MASTER_KEY (or JWT_PRIVATE_KEY and JWT_PUBLIC_KEY) in .env");
     
     const keyPair = await generateKeyPair();
-    privateKey = keyPair.privateKey;
-    publicKey = keyPair.publicKey;
+    const key = await addSigningKey(keyPair.privateKey, keyPair.publicKey);
+    legacyKid = key.kid;
     console.log("✅ Temporary JWT keys generated");
     return;
   }
@@ -56,15 +322,108 @@ export async function initializeKeys(): Promise<void> {
     const privateKeyPem = Buffer.from(privateKeyB64, "base64").toString("utf-8");
     const publicKeyPem = Buffer.from(publicKeyB64, "base64").toString("utf-8");
     
-    privateKey = await jose.importPKCS8(privateKeyPem, "EdDSA");
-    publicKey = await jose.importSPKI(publicKeyPem, "EdDSA");
-    console.log("✅ JWT keys loaded from environment");
+    const key = await addSigningKey(
+      await jose.importPKCS8(privateKeyPem, "EdDSA"),
+      await jose.importSPKI(publicKeyPem, "EdDSA")
+    );
+    legacyKid = key.kid;
+
+    const previous = (process.env.JWT_PREVIOUS_PUBLIC_KEYS || "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const now = Math.floor(Date.now() / 1000);
+    for (const previousB64 of previous) {
+      const pem = Buffer.from(previousB64, "base64").toString("utf-8");
+      await addSigningKey(null, await jose.importSPKI(pem, "EdDSA"), now);
+    }
+
+    console.log(`✅ JWT keys loaded from environment (kid ${key.kid})`);
   } catch (error) {
     console.error("❌ Failed to load JWT keys:", error);
     throw error;
   }
 }
 
+/**
+ * Rotate the signing key
+ * The new key signs from now on; the old one is kept for verification until
+ * the longest-lived token it could have signed has expired. Only the database
+ * key store can do this: an in-memory key would be lost on restart, taking
+ * every token it signed with it.
+ */
+export async function rotateSigningKey(): Promise<string> {
+  if (!usingKeyStore) {
+    throw new Error("Signing key rotation requires the database key store (set JWT_MASTER_KEY)");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const current = getSigningKey();
+  const keyPair = await generateKeyPair();
+
+  const rotated = await rotateStoredKey(
+    current.kid,
+    await computeKid(keyPair.publicKey),
+    await jose.exportSPKI(keyPair.publicKey),
+    await jose.exportPKCS8(keyPair.privateKey)
+  );
+  await deleteExpiredKeys(new Date((now - maxTokenLifetimeSeconds()) * 1000));
+  // Either our key or the one from the instance that rotated first
+  await loadKeysFromStore();
+
+  const next = getSigningKey();
+  if (rotated) {
+    console.log(`🔑 JWT signing key rotated: ${current.kid} -> ${next.kid}`);
+  }
+  return next.kid;
+}
+
+/**
+ * Drop retired keys whose tokens have all expired
+ */
+function pruneRetiredKeys(): void {
+  const cutoff = Math.floor(Date.now() / 1000) - maxTokenLifetimeSeconds();
+  for (let i = keyring.length - 1; i >= 0; i--) {
+    const retiredAt = keyring[i].retiredAt;
+    if (retiredAt !== undefined && retiredAt < cutoff) {
+      keyring.splice(i, 1);
+    }
+  }
+}
+
+/**
+ * Keep the keyring current in the background
+ * Reloads keys rotated by other instances and rotates the signing key once it
+ * is older than JWT_KEY_ROTATION_DAYS (disabled when unset). Database keys only.
+ */
+export function startKeyRotation(): void {
+  const days = parseFloat(process.env.JWT_KEY_ROTATION_DAYS || "0");
+  if (days > 0 && !usingKeyStore) {
+    console.warn("⚠️  JWT_KEY_ROTATION_DAYS ignored: rotation requires JWT_MASTER_KEY (database key store)");
+  }
+  if (!usingKeyStore || rotationTimer) {
+    return;
+  }
+  const rotationDue = days > 0;
+
+  rotationTimer = setInterval(async () => {
+    try {
+      await loadKeysFromStore();
+      const ageSeconds = Math.floor(Date.now() / 1000) - getSigningKey().createdAt;
+      if (rotationDue && ageSeconds >= days * 24 * 60 * 60) {
+        await rotateSigningKey();
+      }
+    } catch (error) {
+      console.error("❌ JWT key refresh failed:", error);
+    }
+  }, KEY_REFRESH_INTERVAL_MS);
+  rotationTimer.unref();
+
+  if (rotationDue) {
+    console.log(`🔑 JWT signing key rotation every ${days} day(s)`);
+  }
+}
+
 /**
  * Generate a new Ed25519 key pair
  */
@@ -79,57 +438,475 @@ export async function signProofToken(
   agentId: string,
   proofId: string,
   payload: AgentProofPayload,
-  expiresInDays: number = 365
+  expiresInDays: number = 365,
+  status?: TokenStatusReference
 ): Promise<string> {
-  if (!privateKey) {
-    throw new Error("JWT keys not initialized. Call initializeKeys() first.");
-  }
+  const key = getSigningKey();
 
   const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
   const now = Math.floor(Date.now() / 1000);
-  const exp = now + expiresInDays * 24 * 60 * 60;
+  const exp = now + Math.round(expiresInDays * 24 * 60 * 60);
 
   const token = await new jose.SignJWT({
     agp: payload,
+    ...(status ? { status } : {}),
   })
-    .setProtectedHeader({ alg: "EdDSA", typ: "JWT" })
+    .setProtectedHeader({ alg: "EdDSA", typ: "JWT", kid: key.kid })
     .setIssuer(baseUrl)
     .setSubject(agentId)
     .setAudience("*")
     .setIssuedAt(now)
     .setExpirationTime(exp)
     .setJti(proofId)
-    .sign(privateKey);
+    .sign(key.privateKey!);
 
   return token;
 }
 
 /**
- * Verify a proof token
+ * Sign a proof as a W3C Verifiable Credential (VC-JWT, typ vc+jwt)
+ * jti is the proof id, so the credential and the proof token share a status.
+ */
+export async function signProofCredential(
+  agentId: string,
+  proofId: string,
+  payload: AgentProofPayload,
+  expiresInDays: number = 365,
+  status?: TokenStatusReference
+): Promise<string> {
+  const key = getSigningKey();
+
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + Math.round(expiresInDays * 24 * 60 * 60);
+  const { agent, ...verification } = payload;
+
+  const credential: AgentProofCredential = {
+    "@context": ["https://www.w3.org/ns/credentials/v2"],
+    id: `${baseUrl}/api/v1/proofs/${proofId}`,
+    type: ["VerifiableCredential", "AgentProofCredential"],
+    issuer: baseUrl,
+    validFrom: new Date(now * 1000).toISOString(),
+    validUntil: new Date(exp * 1000).toISOString(),
+    credentialSubject: {
+      id: `${baseUrl}/api/v1/agents/${agentId}`,
+      agent,
+      verification,
+    },
+  };
+
+  return await new jose.SignJWT({
+    ...credential,
+    ...(status ? { status } : {}),
+  })
+    .setProtectedHeader({ alg: "EdDSA", typ: "vc+jwt", cty: "vc", kid: key.kid })
+    .setIssuer(baseUrl)
+    .setSubject(agentId)
+    .setIssuedAt(now)
+    .setExpirationTime(exp)
+    .setJti(proofId)
+    .sign(key.privateKey!);
+}
+
+/**
+ * Map a verified credential onto the proof token shape
+ */
+function credentialToProofPayload(payload: ProofCredentialPayload): ProofTokenPayload {
+  return {
+    iss: payload.iss,
+    sub: payload.sub,
+    aud: "*",
+    iat: payload.iat,
+    exp: payload.exp,
+    jti: payload.jti,
+    agp: {
+      ...payload.credentialSubject.verification,
+      agent: payload.credentialSubject.agent,
+    },
+    status: payload.status,
+  };
+}
+
+/**
+ * Create a salted SD-JWT disclosure and its digest
+ */
+function createDisclosure(name: string, value: unknown): { disclosure: string; digest: string } {
+  const salt = randomBytes(16).toString("base64url");
+  const disclosure = Buffer.from(JSON.stringify([salt, name, value])).toString("base64url");
+  return { disclosure, digest: hashDisclosure(disclosure) };
+}
+
+function hashDisclosure(disclosure: string): string {
+  return createHash("sha256").update(disclosure).digest("base64url");
+}
+
+/**
+ * Sign a proof as an SD-JWT (typ sd+jwt)
+ * Every DisclosableClaim becomes a salted disclosure; the issuer-signed part only
+ * carries their digests plus the public key, version and registered claims.
+ * Returns <jwt>~<disclosure>~...~ with all disclosures; agents drop the ones
+ * they don't want a platform to see before presenting it.
+ */
+export async function signProofSdJwt(
+  agentId: string,
+  proofId: string,
+  payload: AgentProofPayload,
+  expiresInDays: number = 365,
+  status?: TokenStatusReference
+): Promise<string> {
+  const key = getSigningKey();
+
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + Math.round(expiresInDays * 24 * 60 * 60);
+
+  const { version, agent, ...facts } = payload;
+  const { public_key, ...agentClaims } = agent;
+  const disclosures: string[] = [];
+
+  const digestsFor = (claims: Record<string, unknown>): string[] =>
+    Object.entries(claims)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => {
+        const { disclosure, digest } = createDisclosure(name, value);
+        disclosures.push(disclosure);
+        return digest;
+      })
+      // Sorted so digest order reveals nothing about the claims
+      .sort();
+
+  const jwt = await new jose.SignJWT({
+    agp: {
+      version,
+      agent: { public_key, _sd: digestsFor(agentClaims) },
+      _sd: digestsFor(facts),
+    },
+    _sd_alg: "sha-256",
+    ...(status ? { status } : {}),
+  })
+    .setProtectedHeader({ alg: "EdDSA", typ: "sd+jwt", kid: key.kid })
+    .setIssuer(baseUrl)
+    .setSubject(agentId)
+    .setAudience("*")
+    .setIssuedAt(now)
+    .setExpirationTime(exp)
+    .setJti(proofId)
+    .sign(key.privateKey!);
+
+  return `${jwt}~${disclosures.join("~")}~`;
+}
+
+/**
+ * Verify an SD-JWT presentation and rebuild the proof payload from the
+ * disclosures it carries. Undisclosed claims are absent from the payload.
+ */
+async function verifyProofSdJwt(
+  presentation: string
+): Promise<{ valid: boolean; payload?: ProofTokenPayload; disclosed?: DisclosableClaim[]; error?: string }> {
+  const parts = presentation.split("~");
+  const issuerJwt = parts[0];
+  const disclosures = parts.slice(1, -1);
+
+  if (parts.length < 2 || parts[parts.length - 1] !== "") {
+    return {
+      valid: false,
+      error: "Key binding JWTs are not supported; send proof_of_possession instead",
+    };
+  }
+
+  const publicKey = await resolveVerificationKey(issuerJwt);
+  if (!publicKey) {
+    return { valid: false, error: "Unknown signing key" };
+  }
+
+  let payload: jose.JWTPayload;
+  try {
+    const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+    ({ payload } = await jose.jwtVerify(issuerJwt, publicKey, {
+      issuer: baseUrl,
+      audience: "*",
+      typ: "sd+jwt",
+    }));
+  } catch (error) {
+    return { valid: false, error: verificationError(error) };
+  }
+
+  if (payload._sd_alg !== "sha-256") {
+    return { valid: false, error: "Unsupported disclosure digest algorithm" };
+  }
+
+  const agp = payload.agp as {
+    version: string;
+    agent: { public_key: string; _sd?: string[] };
+    _sd?: string[];
+  };
+  const agentDigests = new Set(agp.agent._sd || []);
+  const factDigests = new Set(agp._sd || []);
+
+  const agentClaims: Record<string, unknown> = { public_key: agp.agent.public_key };
+  const facts: Record<string, unknown> = { version: agp.version };
+  const disclosed: DisclosableClaim[] = [];
+  const seen = new Set<string>();
+
+  for (const disclosure of disclosures) {
+    const digest = hashDisclosure(disclosure);
+    if (seen.has(digest)) {
+      return { valid: false, error: "Duplicate disclosure" };
+    }
+    seen.add(digest);
+
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(disclosure, "base64url").toString("utf-8"));
+    } catch {
+      return { valid: false, error: "Malformed disclosure" };
+    }
+    if (!Array.isArray(decoded) || decoded.length !== 3 || typeof decoded[1] !== "string") {
+      return { valid: false, error: "Malformed disclosure" };
+    }
+
+    const [, name, value] = decoded as [string, string, unknown];
+    if (agentDigests.has(digest)) {
+      agentClaims[name] = value;
+    } else if (factDigests.has(digest)) {
+      facts[name] = value;
+    } else {
+      return { valid: false, error: "Disclosure does not belong to this token" };
+    }
+    disclosed.push(name as DisclosableClaim);
+  }
+
+  return {
+    valid: true,
+    payload: {
+      iss: payload.iss!,
+      sub: payload.sub!,
+      aud: "*",
+      iat: payload.iat!,
+      exp: payload.exp!,
+      jti: payload.jti!,
+      agp: { ...facts, agent: agentClaims } as unknown as AgentProofPayload,
+      status: payload.status as TokenStatusReference | undefined,
+    },
+    disclosed,
+  };
+}
+
+function verificationError(error: unknown): string {
+  if (error instanceof jose.errors.JWTExpired) {
+    return "Token expired";
+  }
+  if (error instanceof jose.errors.JWTInvalid) {
+    return "Invalid token";
+  }
+  return "Token verification failed";
+}
+
+/**
+ * Verify a proof token (or the same proof as a VC-JWT credential or an SD-JWT
+ * presentation; for SD-JWTs, `disclosed` lists the claims that were revealed)
  */
 export async function verifyProofToken(
   token: string
-): Promise<{ valid: boolean; payload?: ProofTokenPayload; error?: string }> {
+): Promise<{
+  valid: boolean;
+  payload?: ProofTokenPayload;
+  disclosed?: DisclosableClaim[];
+  error?: string;
+}> {
+  if (token.includes("~")) {
+    return verifyProofSdJwt(token);
+  }
+
+  const publicKey = await resolveVerificationKey(token);
   if (!publicKey) {
-    throw new Error("JWT keys not initialized. Call initializeKeys() first.");
+    return { valid: false, error: "Unknown signing key" };
   }
 
   try {
     const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+
+    const { typ } = jose.decodeProtectedHeader(token);
+
+    // An SD-JWT with every disclosure stripped discloses nothing
+    if (typ === "sd+jwt") {
+      return verifyProofSdJwt(`${token}~`);
+    }
+
+    // Credentials (VC-JWT) carry the same facts and are accepted in place of proofs
+    if (typ === "vc+jwt") {
+      const { payload } = await jose.jwtVerify(token, publicKey, {
+        issuer: baseUrl,
+        typ: "vc+jwt",
+      });
+
+      return {
+        valid: true,
+        payload: credentialToProofPayload(payload as unknown as ProofCredentialPayload),
+      };
+    }
     
     const { payload } = await jose.jwtVerify(token, publicKey, {
       issuer: baseUrl,
       audience: "*",
+      typ: "JWT",
     });
 
     return {
       valid: true,
       payload: payload as unknown as ProofTokenPayload,
     };
+  } catch (error) {
+    return { valid: false, error: verificationError(error) };
+  }
+}
+
+/**
+ * Sign a status list token (typ statuslist+jwt)
+ */
+export async function signStatusListToken(
+  uri: string,
+  statusList: StatusListTokenPayload["status_list"],
+  ttlSeconds: number,
+  expiresInSeconds: number
+): Promise<string> {
+  const key = getSigningKey();
+
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  const now = Math.floor(Date.now() / 1000);
+
+  return await new jose.SignJWT({
+    ttl: ttlSeconds,
+    status_list: statusList,
+  })
+    .setProtectedHeader({ alg: "EdDSA", typ: "statuslist+jwt", kid: key.kid })
+    .setIssuer(baseUrl)
+    .setSubject(uri)
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresInSeconds)
+    .sign(key.privateKey!);
+}
+
+/**
+ * Sign a short-lived access token bound to one audience (platform id)
+ */
+export async function signAccessToken(
+  agentId: string,
+  audience: string,
+  tokenId: string,
+  claims: { proof_id: string; public_key: string; scope?: string },
+  expiresInSeconds: number
+): Promise<string> {
+  const key = getSigningKey();
+
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  const now = Math.floor(Date.now() / 1000);
+
+  return await new jose.SignJWT({
+    token_use: "access",
+    ...claims,
+  })
+    .setProtectedHeader({ alg: "EdDSA", typ: "at+jwt", kid: key.kid })
+    .setIssuer(baseUrl)
+    .setSubject(agentId)
+    .setAudience(audience)
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresInSeconds)
+    .setJti(tokenId)
+    .sign(key.privateKey!);
+}
+
+/**
+ * Sign an OpenID Connect ID token for a platform (client id)
+ */
+export async function signIdToken(
+  agentId: string,
+  audience: string,
+  claims: Record<string, unknown>,
+  expiresInSeconds: number
+): Promise<string> {
+  const key = getSigningKey();
+
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  const now = Math.floor(Date.now() / 1000);
+
+  return await new jose.SignJWT(claims)
+    .setProtectedHeader({ alg: "EdDSA", typ: "JWT", kid: key.kid })
+    .setIssuer(baseUrl)
+    .setSubject(agentId)
+    .setAudience(audience)
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresInSeconds)
+    .sign(key.privateKey!);
+}
+
+/**
+ * Sign a token exchanged from a proof for one audience (platform id)
+ */
+export async function signExchangedToken(
+  agentId: string,
+  audience: string,
+  tokenId: string,
+  claims: Pick<ExchangedTokenPayload, "proof_id" | "agent">,
+  expiresInSeconds: number
+): Promise<string> {
+  const key = getSigningKey();
+
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  const now = Math.floor(Date.now() / 1000);
+
+  return await new jose.SignJWT({
+    token_use: "exchange",
+    ...claims,
+  })
+    .setProtectedHeader({ alg: "EdDSA", typ: "exchange+jwt", kid: key.kid })
+    .setIssuer(baseUrl)
+    .setSubject(agentId)
+    .setAudience(audience)
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresInSeconds)
+    .setJti(tokenId)
+    .sign(key.privateKey!);
+}
+
+/**
+ * Verify an audience-bound token (access or exchanged) for the given audience
+ */
+async function verifyAudienceToken<T>(
+  token: string,
+  audience: string,
+  typ: string,
+  tokenUse: string
+): Promise<{ valid: boolean; payload?: T; error?: string }> {
+  const publicKey = await resolveVerificationKey(token);
+  if (!publicKey) {
+    return { valid: false, error: "Unknown signing key" };
+  }
+
+  try {
+    const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+
+    const { payload } = await jose.jwtVerify(token, publicKey, {
+      issuer: baseUrl,
+      audience,
+      typ,
+    });
+
+    if (payload.token_use !== tokenUse) {
+      return { valid: false, error: "Invalid token" };
+    }
+
+    return {
+      valid: true,
+      payload: payload as unknown as T,
+    };
   } catch (error) {
     if (error instanceof jose.errors.JWTExpired) {
       return { valid: false, error: "Token expired" };
     }
+    if (error instanceof jose.errors.JWTClaimValidationFailed && error.claim === "aud") {
+      return { valid: false, error: "Token was issued for a different platform" };
+    }
     if (error instanceof jose.errors.JWTInvalid) {
       return { valid: false, error: "Invalid token" };
     }
@@ -138,21 +915,60 @@ export async function verifyProofToken(
 }
 
 /**
- * Get the public key in JWK format (for /.well-known/jwks.json)
+ * Verify an access token for the given audience
+ */
+export async function verifyAccessToken(
+  token: string,
+  audience: string
+): Promise<{ valid: boolean; payload?: AccessTokenPayload; error?: string }> {
+  return verifyAudienceToken<AccessTokenPayload>(token, audience, "at+jwt", "access");
+}
+
+/**
+ * Verify an exchanged token for the given audience
+ */
+export async function verifyExchangedToken(
+  token: string,
+  audience: string
+): Promise<{ valid: boolean; payload?: ExchangedTokenPayload; error?: string }> {
+  return verifyAudienceToken<ExchangedTokenPayload>(token, audience, "exchange+jwt", "exchange");
+}
+
+/**
+ * Get the current signing public key in JWK format
  */
 export async function getPublicKeyJwk(): Promise<jose.JWK> {
-  if (!publicKey) {
-    throw new Error("JWT keys not initialized. Call initializeKeys() first.");
-  }
-  return await jose.exportJWK(publicKey);
+  const key = getSigningKey();
+  return {
+    ...(await jose.exportJWK(key.publicKey)),
+    kid: key.kid,
+    alg: "EdDSA",
+    use: "sig",
+  };
+}
+
+/**
+ * Get every published verification key (for /.well-known/jwks.json)
+ */
+export async function getJwks(): Promise<{ keys: jose.JWK[] }> {
+  pruneRetiredKeys();
+  const keys = await Promise.all(
+    keyring.map(async (key) => ({
+      ...(await jose.exportJWK(key.publicKey)),
+      kid: key.kid,
+      alg: "EdDSA",
+      use: "sig",
+    }))
+  );
+  return { keys };
 }
 
 /**
  * Decode a token without verification (for inspection)
  */
-export function decodeToken(token: string): {
+export function decodeToken<T = ProofTokenPayload>(token: string): {
   header: jose.JWTHeaderParameters;
-  payload: ProofTokenPayload;
+  payload: T;
 } | null {
   try {
     const parts = token.split(".");
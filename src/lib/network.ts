@@ -0,0 +1,81 @@
+/**
+ * Outbound network checks
+ * Requests to URLs that platforms choose (webhooks) must never reach our own
+ * network: loopback, private, link-local (cloud metadata) and similar ranges.
+ */
+
+import { BlockList, isIP, type LookupFunction } from "net";
+import { lookup as dnsLookup, promises as dns } from "dns";
+
+const NON_PUBLIC_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"], // "this" network
+  ["10.0.0.0", 8, "ipv4"], // private
+  ["100.64.0.0", 10, "ipv4"], // carrier-grade NAT
+  ["127.0.0.0", 8, "ipv4"], // loopback
+  ["169.254.0.0", 16, "ipv4"], // link-local, cloud metadata
+  ["172.16.0.0", 12, "ipv4"], // private
+  ["192.0.0.0", 24, "ipv4"], // IETF protocol assignments
+  ["192.168.0.0", 16, "ipv4"], // private
+  ["198.18.0.0", 15, "ipv4"], // benchmarking
+  ["224.0.0.0", 4, "ipv4"], // multicast
+  ["240.0.0.0", 4, "ipv4"], // reserved, broadcast
+  ["::", 96, "ipv6"], // unspecified, loopback, IPv4-compatible
+  ["64:ff9b::", 96, "ipv6"], // NAT64
+  ["fc00::", 7, "ipv6"], // unique local
+  ["fe80::", 10, "ipv6"], // link-local
+  ["ff00::", 8, "ipv6"], // multicast
+];
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges
+const nonPublic = new BlockList();
+for (const [network, prefix, type] of NON_PUBLIC_RANGES) {
+  nonPublic.addSubnet(network, prefix, type);
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !nonPublic.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Check that a hostname (or IP literal, brackets allowed) only resolves to
+ * public addresses
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`${hostname} does not resolve to a public address`);
+  }
+}
+
+/**
+ * DNS lookup for http(s).request that refuses non-public addresses
+ * The connection uses the address checked here, so a second DNS answer
+ * can't point it somewhere else. IP literals skip lookup: check them with
+ * assertPublicHost first.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+      callback(new Error(`${hostname} does not resolve to a public address`), "");
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
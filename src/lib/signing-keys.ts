@@ -0,0 +1,109 @@
+/**
+ * Signing key store
+ * Persists JWT signing keys in the database so every instance signs with the
+ * same key and tokens survive restarts. Private keys are encrypted under
+ * JWT_MASTER_KEY and wiped once a key is retired.
+ */
+
+import { query, execute } from "../db/index.js";
+import { encryptSecret, decryptSecret } from "./crypto.js";
+
+export interface StoredSigningKey {
+  kid: string;
+  publicKeyPem: string;
+  // Only present for the active key
+  privateKeyPem: string | null;
+  createdAt: number;
+  retiredAt?: number;
+}
+
+function getMasterKey(): string {
+  const masterKey = process.env.JWT_MASTER_KEY;
+  if (!masterKey) {
+    throw new Error("JWT_MASTER_KEY is not set");
+  }
+  return masterKey;
+}
+
+/**
+ * Whether keys should be stored in the database
+ */
+export function isKeyStoreEnabled(): boolean {
+  return !!process.env.JWT_MASTER_KEY;
+}
+
+/**
+ * Load every stored key (active and retired)
+ */
+export async function loadStoredKeys(): Promise<StoredSigningKey[]> {
+  const masterKey = getMasterKey();
+  const rows = await query<any>(
+    `SELECT kid, public_key, private_key_encrypted, status, created_at, retired_at
+     FROM signing_keys ORDER BY created_at ASC`
+  );
+
+  return rows.map((row) => ({
+    kid: row.kid,
+    publicKeyPem: row.public_key,
+    privateKeyPem:
+      row.status === "active" && row.private_key_encrypted
+        ? decryptSecret(row.private_key_encrypted, masterKey)
+        : null,
+    createdAt: Math.floor(new Date(row.created_at).getTime() / 1000),
+    retiredAt: row.retired_at
+      ? Math.floor(new Date(row.retired_at).getTime() / 1000)
+      : undefined,
+  }));
+}
+
+/**
+ * Store a new active key
+ * Returns false if another instance already stored an active key.
+ */
+export async function insertActiveKey(
+  kid: string,
+  publicKeyPem: string,
+  privateKeyPem: string
+): Promise<boolean> {
+  const { rowCount } = await execute(
+    `INSERT INTO signing_keys (kid, public_key, private_key_encrypted, status)
+     VALUES ($1, $2, $3, 'active')
+     ON CONFLICT DO NOTHING`,
+    [kid, publicKeyPem, encryptSecret(privateKeyPem, getMasterKey())]
+  );
+  return rowCount > 0;
+}
+
+/**
+ * Replace the active key in one statement, wiping the retired private key
+ * Returns false if the current key was already retired (another instance rotated first).
+ */
+export async function rotateStoredKey(
+  currentKid: string,
+  kid: string,
+  publicKeyPem: string,
+  privateKeyPem: string
+): Promise<boolean> {
+  const { rowCount } = await execute(
+    `WITH retired AS (
+       UPDATE signing_keys
+       SET status = 'retired', retired_at = NOW(), private_key_encrypted = NULL
+       WHERE kid = $1 AND status = 'active'
+       RETURNING kid
+     )
+     INSERT INTO signing_keys (kid, public_key, private_key_encrypted, status)
+     SELECT $2, $3, $4, 'active' FROM retired`,
+    [currentKid, kid, publicKeyPem, encryptSecret(privateKeyPem, getMasterKey())]
+  );
+  return rowCount > 0;
+}
+
+/**
+ * Delete retired keys whose tokens have all expired
+ */
+export async function deleteExpiredKeys(retiredBefore: Date): Promise<void> {
+  await execute(
+    `DELETE FROM signing_keys WHERE status = 'retired' AND retired_at < $1`,
+    [retiredBefore.toISOString()]
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Platform authentication middleware
+ * Accepts the platform API key as X-API-Key, or as the password of HTTP Basic
+ * auth (what OAuth clients such as API gateways send to /oauth/introspect).
+ * Each route names the scope its key must carry.
+ * Dashboard routes use platformSessionAuth instead: a platform owner session
+ * (Authorization: Bearer <session token>) from the emailed sign-in link.
+ */
+
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import {
+  authenticateApiKey,
+  checkRateLimit,
+  type ApiKeyScope,
+  type Platform,
+  type PlatformApiKey,
+} from "../services/platform.service.js";
+import { getSessionPlatform } from "../services/platform-session.service.js";
+
+/**
+ * Context variables set by platformAuth
+ * Routers that apply it with .use() declare this env: new Hono<PlatformApiKeyEnv>()
+ */
+export type PlatformApiKeyEnv = {
+  Variables: {
+    platform: Platform;
+    apiKey: PlatformApiKey;
+  };
+};
+
+/**
+ * Context variables set by platformSessionAuth
+ */
+export type PlatformSessionEnv = {
+  Variables: {
+    platform: Platform;
+    sessionToken: string;
+  };
+};
+
+function getApiKey(c: Context): string | undefined {
+  const apiKey = c.req.header("X-API-Key");
+  if (apiKey) {
+    return apiKey;
+  }
+
+  const authHeader = c.req.header("Authorization");
+  if (authHeader?.startsWith("Basic ")) {
+    const decoded = Buffer.from(authHeader.slice("Basic ".length), "base64").toString("utf-8");
+    const separator = decoded.indexOf(":");
+    if (separator < 0) {
+      return undefined;
+    }
+    const password = decoded.slice(separator + 1);
+    try {
+      return decodeURIComponent(password);
+    } catch {
+      // Malformed percent-encoding is never one of our keys: let it fail as invalid
+      return password;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Middleware to validate a platform API key with the given scope
+ */
+export function platformAuth(scope: ApiKeyScope) {
+  return createMiddleware<PlatformApiKeyEnv>(async (c, next) => {
+    const apiKey = getApiKey(c);
+
+    if (!apiKey) {
+      return c.json(
+        { success: false, error: "Missing API key. Include X-API-Key header." },
+        401
+      );
+    }
+
+    const result = await authenticateApiKey(apiKey);
+
+    if (!result) {
+      return c.json({ success: false, error: "Invalid API key" }, 401);
+    }
+
+    if (!result.key.scopes.includes(scope)) {
+      return c.json(
+        { success: false, error: `API key is missing the ${scope} scope` },
+        403
+      );
+    }
+
+    const rateLimit = await checkRateLimit(result.platform);
+    c.header("RateLimit-Limit", String(rateLimit.limit));
+    c.header("RateLimit-Remaining", String(rateLimit.remaining));
+    c.header("RateLimit-Reset", String(rateLimit.reset));
+
+    if (!rateLimit.allowed) {
+      c.header("Retry-After", String(rateLimit.retryAfter));
+      return c.json(
+        {
+          success: false,
+          error: "Rate limit exceeded",
+          limit: rateLimit.limit,
+          retry_after: rateLimit.retryAfter,
+        },
+        429
+      );
+    }
+
+    // Attach platform and key to context
+    c.set("platform", result.platform);
+    c.set("apiKey", result.key);
+    await next();
+  });
+}
+
+/**
+ * Middleware to validate a platform owner session
+ */
+export function platformSessionAuth() {
+  return createMiddleware<PlatformSessionEnv>(async (c, next) => {
+    const authHeader = c.req.header("Authorization");
+    const sessionToken = authHeader?.startsWith("Bearer ") ? authHeader.slice("Bearer ".length) : undefined;
+
+    if (!sessionToken) {
+      return c.json(
+        { success: false, error: "Missing session. Include Authorization: Bearer <session token>." },
+        401
+      );
+    }
+
+    const platform = await getSessionPlatform(sessionToken);
+
+    if (!platform) {
+      return c.json({ success: false, error: "Invalid or expired session" }, 401);
+    }
+
+    c.set("platform", platform);
+    c.set("sessionToken", sessionToken);
+    await next();
+  });
+}
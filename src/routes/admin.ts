@@ -13,6 +13,17 @@
 import { Hono } from "hono";
 import { query, queryOne, execute } from "../db/index.js";
 import * as crypto from "crypto";
+import { getProof, revokeProof } from "../services/proof.service.js";
+import { invalidateStatusList } from "../services/status-list.service.js";
+import { emitWebhookEvent, type WebhookEventType } from "../services/webhook.service.js";
+import { listVerificationEvents } from "../services/verification-event.service.js";
+import { deletePlatform } from "../services/platform.service.js";
+import {
+  listAgentReports,
+  getReviewQueue,
+  resolveAgentReview,
+  type ReviewDecision,
+} from "../services/report.service.js";
 
 const admin = new Hono();
 
@@ -343,7 +354,9 @@ admin.get("/platforms", async (c) => {
   const platforms = await query(
     `SELECT 
       id, name, domain, contact_email, tier, rate_limit, status,
-      verifications_count, verifications_this_month, 
+      verifications_count,
+      (SELECT COALESCE(SUM(valid_count), 0)::int FROM platform_usage_daily
+       WHERE platform_id = platforms.id AND day >= DATE_TRUNC('month', CURRENT_DATE)) AS verifications_this_month,
       last_verification_at, created_at, updated_at
     FROM platforms 
     ORDER BY created_at DESC 
@@ -375,7 +388,9 @@ admin.get("/platforms/:id", async (c) => {
   const platform = await queryOne(
     `SELECT 
       id, name, domain, contact_email, tier, rate_limit, status,
-      verifications_count, verifications_this_month, 
+      verifications_count,
+      (SELECT COALESCE(SUM(valid_count), 0)::int FROM platform_usage_daily
+       WHERE platform_id = platforms.id AND day >= DATE_TRUNC('month', CURRENT_DATE)) AS verifications_this_month,
       last_verification_at, created_at, updated_at
     FROM platforms 
     WHERE id = $1`,
@@ -411,7 +426,11 @@ admin.patch("/platforms/:id", async (c) => {
     values.push(body.tier);
   }
 
-  if (body.rate_limit && typeof body.rate_limit === "number") {
+  // A number overrides the tier limit (0 blocks the platform); null restores it
+  if (body.rate_limit !== undefined) {
+    if (body.rate_limit !== null && !(Number.isInteger(body.rate_limit) && body.rate_limit >= 0)) {
+      return c.json({ success: false, error: "rate_limit must be a non-negative integer or null" }, 400);
+    }
     updates.push(`rate_limit = $${paramIndex++}`);
     values.push(body.rate_limit);
   }
@@ -455,7 +474,7 @@ admin.delete("/platforms/:id", async (c) => {
   }
 
   if (hardDelete) {
-    await execute("DELETE FROM platforms WHERE id = $1", [platformId]);
+    await deletePlatform(platformId);
     return c.json({ success: true, message: `Platform ${platform.name} deleted permanently` });
   } else {
     await execute(
@@ -516,6 +535,49 @@ admin.get("/agents", async (c) => {
   });
 });
 
+/**
+ * GET /api/v1/admin/verifications
+ * Verification audit log across all platforms, newest first
+ * Filters: ?platform_id=, ?agent_id=, ?result=valid|invalid, ?since=, ?until= (ISO dates)
+ */
+admin.get("/verifications", async (c) => {
+  const page = Math.max(parseInt(c.req.query("page") || "1") || 1, 1);
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "50") || 50, 1), 200);
+  const result = c.req.query("result");
+  const since = c.req.query("since") ? new Date(c.req.query("since")!) : undefined;
+  const until = c.req.query("until") ? new Date(c.req.query("until")!) : undefined;
+
+  if (result && result !== "valid" && result !== "invalid") {
+    return c.json({ success: false, error: "result must be valid or invalid" }, 400);
+  }
+  if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+    return c.json({ success: false, error: "since and until must be ISO dates" }, 400);
+  }
+
+  const { events, total } = await listVerificationEvents(
+    {
+      platformId: c.req.query("platform_id"),
+      agentId: c.req.query("agent_id"),
+      result: result as "valid" | "invalid" | undefined,
+      since,
+      until,
+    },
+    page,
+    limit
+  );
+
+  return c.json({
+    success: true,
+    events,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit),
+    },
+  });
+});
+
 /**
  * PATCH /api/v1/admin/agents/:id
  * Update agent status
@@ -524,7 +586,10 @@ admin.patch("/agents/:id", async (c) => {
   const agentId = c.req.param("id");
   const body = await c.req.json();
 
-  const agent = await queryOne("SELECT id FROM agents WHERE id = $1", [agentId]);
+  const agent = await queryOne<{ id: string; status: string }>(
+    "SELECT id, status FROM agents WHERE id = $1",
+    [agentId]
+  );
   if (!agent) {
     return c.json({ success: false, error: "Agent not found" }, 404);
   }
@@ -534,6 +599,16 @@ admin.patch("/agents/:id", async (c) => {
       "UPDATE agents SET status = $1, updated_at = NOW() WHERE id = $2",
       [body.status, agentId]
     );
+    // Agent status feeds the proof status list
+    invalidateStatusList();
+
+    // Tell platforms that verified this agent
+    if (body.status !== agent.status && (body.status === "suspended" || body.status === "revoked")) {
+      emitWebhookEvent(`agent.${body.status}` as WebhookEventType, agentId, {
+        previous_status: agent.status,
+        reason: typeof body.reason === "string" ? body.reason : undefined,
+      }).catch(console.error);
+    }
   }
 
   const updated = await queryOne("SELECT * FROM agents WHERE id = $1", [agentId]);
@@ -541,4 +616,114 @@ admin.patch("/agents/:id", async (c) => {
   return c.json({ success: true, agent: updated });
 });
 
+/**
+ * GET /api/v1/admin/reports
+ * Abuse reports from platforms, newest first
+ * Filters: ?status=open|upheld|dismissed, ?agent_id=, ?platform_id=
+ */
+admin.get("/reports", async (c) => {
+  const page = Math.max(parseInt(c.req.query("page") || "1") || 1, 1);
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "50") || 50, 1), 200);
+  const status = c.req.query("status");
+
+  if (status && !["open", "upheld", "dismissed"].includes(status)) {
+    return c.json({ success: false, error: "status must be open, upheld or dismissed" }, 400);
+  }
+
+  const { reports, total } = await listAgentReports(
+    {
+      status: status as "open" | "upheld" | "dismissed" | undefined,
+      agentId: c.req.query("agent_id"),
+      platformId: c.req.query("platform_id"),
+    },
+    page,
+    limit
+  );
+
+  return c.json({
+    success: true,
+    reports,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit),
+    },
+  });
+});
+
+/**
+ * GET /api/v1/admin/review-queue
+ * Agents reported by enough platforms to need a decision, oldest first
+ */
+admin.get("/review-queue", async (c) => {
+  return c.json({ success: true, agents: await getReviewQueue() });
+});
+
+/**
+ * POST /api/v1/admin/agents/:id/review
+ * Decide a review: {"decision": "cleared" | "suspended" | "revoked", "note": "..."}
+ * Cleared dismisses the open reports; suspended and revoked uphold them.
+ */
+admin.post("/agents/:id/review", async (c) => {
+  const agentId = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+  const decision = body.decision as ReviewDecision;
+
+  if (!["cleared", "suspended", "revoked"].includes(decision)) {
+    return c.json({ success: false, error: "decision must be cleared, suspended or revoked" }, 400);
+  }
+
+  try {
+    const note = typeof body.note === "string" ? body.note : undefined;
+    const { previousStatus, resolvedReports } = await resolveAgentReview(agentId, decision, note);
+
+    if (decision !== "cleared") {
+      // Agent status feeds the proof status list
+      invalidateStatusList();
+
+      if (decision !== previousStatus) {
+        emitWebhookEvent(`agent.${decision}` as WebhookEventType, agentId, {
+          previous_status: previousStatus,
+          reason: note,
+        }).catch(console.error);
+      }
+    }
+
+    return c.json({
+      success: true,
+      message: `Review closed: agent ${decision}`,
+      resolved_reports: resolvedReports,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.error("Agent review error:", error);
+    return c.json({ success: false, error: "Failed to close review" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/admin/proofs/:id/revoke
+ * Revoke a single proof (published in the status list)
+ */
+admin.post("/proofs/:id/revoke", async (c) => {
+  const proofId = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+
+  const proof = await getProof(proofId);
+  if (!proof) {
+    return c.json({ success: false, error: "Proof not found" }, 404);
+  }
+
+  if (proof.status === "revoked") {
+    return c.json({ success: false, error: "Proof is already revoked" }, 409);
+  }
+
+  await revokeProof(proofId, typeof body.reason === "string" ? body.reason : "Revoked by admin");
+
+  return c.json({ success: true, message: `Proof ${proofId} revoked` });
+});
+
 export default admin;
@@ -0,0 +1,296 @@
+/**
+ * Agent Routes (for agents managing their own identity)
+ * POST /api/v1/agents/auth/nonce - Get a login nonce
+ * POST /api/v1/agents/auth - Exchange a signed nonce for a short-lived access token
+ * POST /api/v1/agents/token/exchange - Exchange a proof for a platform-bound token
+ * POST /api/v1/agents/:id/keys/rotate - Rotate the agent's public key
+ * GET /api/v1/agents/:id/keys - Get the agent's key history
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { getAgent } from "../services/proof.service.js";
+import { rotateAgentKey, getKeyHistory } from "../services/key.service.js";
+import {
+  createAuthNonce,
+  authenticateAgent,
+  exchangeProofToken,
+} from "../services/session.service.js";
+
+const agents = new Hono();
+
+// Validation schemas
+const authNonceSchema = z.object({
+  agent_id: z.string().min(1),
+});
+
+const authSchema = z.object({
+  agent_id: z.string().min(1),
+  nonce: z.string().min(1),
+  signature: z.string().min(1),
+  // Platform id the access token will be presented to
+  audience: z.string().min(1),
+});
+
+const exchangeSchema = z.object({
+  subject_token: z.string().min(1),
+  // Platform id the derived token will be presented to
+  audience: z.string().min(1),
+  timestamp: z.number().int(),
+  signature: z.string().min(1),
+  claims: z
+    .array(
+      z.enum([
+        "public_key",
+        "capabilities",
+        "model_family",
+        "framework",
+        "difficulty",
+        "tasks_passed",
+      ])
+    )
+    .optional()
+    .default([]),
+});
+
+const rotateKeySchema = z.object({
+  new_public_key: z.string().min(1),
+  timestamp: z.number().int(),
+  old_signature: z.string().min(1),
+  new_signature: z.string().min(1),
+  compromised: z.boolean().optional().default(false),
+});
+
+/**
+ * POST /api/v1/agents/auth/nonce
+ * Get a login nonce to sign with the agent's registered key
+ */
+agents.post("/auth/nonce", async (c) => {
+  try {
+    const body = await c.req.json();
+    const data = authNonceSchema.parse(body);
+
+    const { nonce, message, expiresAt } = await createAuthNonce(data.agent_id);
+
+    return c.json({
+      success: true,
+      nonce,
+      message_to_sign: message,
+      expires_at: expiresAt,
+      next_step: "Sign message_to_sign (SHA256 + Ed25519, like the challenge) and POST it to /api/v1/agents/auth",
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("Agent status is")) {
+        return c.json({ success: false, error: error.message }, 403);
+      }
+    }
+    console.error("Auth nonce error:", error);
+    return c.json({ success: false, error: "Failed to create nonce" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/agents/auth
+ * Exchange a signed nonce for a short-lived access token bound to one platform
+ */
+agents.post("/auth", async (c) => {
+  try {
+    const body = await c.req.json();
+    const data = authSchema.parse(body);
+
+    const { token, expiresAt, expiresIn } = await authenticateAgent(
+      data.agent_id,
+      data.nonce,
+      data.signature,
+      data.audience
+    );
+
+    return c.json({
+      success: true,
+      access_token: token,
+      token_type: "Bearer",
+      audience: data.audience,
+      expires_in: expiresIn,
+      expires_at: expiresAt,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("Agent not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("Unknown audience")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+      if (
+        error.message.includes("Invalid") ||
+        error.message.includes("Agent status is") ||
+        error.message.includes("no active proof")
+      ) {
+        return c.json({ success: false, error: error.message }, 401);
+      }
+    }
+    console.error("Agent auth error:", error);
+    return c.json({ success: false, error: "Authentication failed" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/agents/token/exchange
+ * Exchange a proof token for a short-lived token bound to one platform
+ *
+ * Sign with the registered key: agentproof:exchange:<proof_id>:<audience>:<timestamp>
+ * The derived token carries the agent name plus only the requested claims.
+ */
+agents.post("/token/exchange", async (c) => {
+  try {
+    const body = await c.req.json();
+    const data = exchangeSchema.parse(body);
+
+    const { token, expiresAt, expiresIn } = await exchangeProofToken(
+      data.subject_token,
+      data.audience,
+      data.timestamp,
+      data.signature,
+      data.claims
+    );
+
+    return c.json({
+      success: true,
+      token,
+      token_type: "Bearer",
+      audience: data.audience,
+      claims: ["name", ...new Set(data.claims)],
+      expires_in: expiresIn,
+      expires_at: expiresAt,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("Agent not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("Unknown audience") || error.message.includes("timestamp")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+      if (
+        error.message.includes("Invalid") ||
+        error.message.includes("Agent status is")
+      ) {
+        return c.json({ success: false, error: error.message }, 401);
+      }
+    }
+    console.error("Token exchange error:", error);
+    return c.json({ success: false, error: "Token exchange failed" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/agents/:id/keys/rotate
+ * Rotate the agent's public key
+ *
+ * Both keys sign: agentproof:rotate:<agent_id>:<new_public_key>:<timestamp>
+ * Active proofs are reissued for the new key and returned.
+ */
+agents.post("/:id/keys/rotate", async (c) => {
+  const agentId = c.req.param("id");
+
+  try {
+    const body = await c.req.json();
+    const data = rotateKeySchema.parse(body);
+
+    const { agent, proofs } = await rotateAgentKey(
+      agentId,
+      data.new_public_key,
+      data.timestamp,
+      data.old_signature,
+      data.new_signature,
+      data.compromised
+    );
+
+    return c.json({
+      success: true,
+      message: data.compromised
+        ? "Key rotated. Proofs issued under the compromised key have been revoked."
+        : "Key rotated. Use the reissued proof tokens from now on.",
+      agent: {
+        id: agent.id,
+        name: agent.name,
+        public_key: agent.public_key,
+      },
+      proofs: proofs.map((proof) => ({
+        id: proof.id,
+        token: proof.token,
+        credential: proof.credential,
+        sd_jwt: proof.sd_jwt,
+        expires_at: proof.expires_at,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("Invalid signature") || error.message.includes("Agent status is")) {
+        return c.json({ success: false, error: error.message }, 403);
+      }
+      if (error.message.includes("already been used")) {
+        return c.json({ success: false, error: error.message }, 409);
+      }
+      if (error.message.includes("timestamp") || error.message.includes("must differ")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+    }
+    console.error("Key rotation error:", error);
+    return c.json({ success: false, error: "Key rotation failed" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/agents/:id/keys
+ * Get the agent's key history
+ */
+agents.get("/:id/keys", async (c) => {
+  const agentId = c.req.param("id");
+  const agent = await getAgent(agentId);
+
+  if (!agent) {
+    return c.json({ success: false, error: "Agent not found" }, 404);
+  }
+
+  const keys = await getKeyHistory(agentId);
+
+  return c.json({
+    success: true,
+    agent_id: agent.id,
+    keys,
+  });
+});
+
+export default agents;
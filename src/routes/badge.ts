@@ -0,0 +1,64 @@
+/**
+ * Badge Routes (public, embeddable)
+ * GET /badge/:id.svg - Live SVG badge for an agent (?style=flat|large|dark)
+ */
+
+import { Hono } from "hono";
+import * as crypto from "crypto";
+import { getAgentCard } from "../services/proof.service.js";
+import { renderBadge, BADGE_STYLES, type BadgeData, type BadgeStyle } from "../lib/badge.js";
+
+const badge = new Hono();
+
+// Badges are live but may be cached briefly by browsers and image proxies
+const CACHE_SECONDS = 300;
+const NOT_FOUND_CACHE_SECONDS = 60;
+
+/**
+ * Current badge state of an agent
+ */
+async function getBadgeData(agentId: string): Promise<BadgeData | null> {
+  const card = await getAgentCard(agentId);
+  if (!card) return null;
+
+  return {
+    status: card.status === "verified" && card.owner.claimed ? "claimed" : card.status,
+    name: card.name,
+    difficulty: card.difficulty ?? undefined,
+    verifiedAt: card.verified_at ?? undefined,
+  };
+}
+
+/**
+ * GET /badge/:id.svg
+ */
+badge.get("/:file", async (c) => {
+  const file = c.req.param("file");
+  if (!file.endsWith(".svg")) {
+    return c.notFound();
+  }
+
+  const style = (BADGE_STYLES as readonly string[]).includes(c.req.query("style") || "")
+    ? (c.req.query("style") as BadgeStyle)
+    : "flat";
+
+  const data = await getBadgeData(file.slice(0, -".svg".length));
+  const svg = renderBadge(data ?? { status: "not found" }, style);
+  const etag = `"${crypto.createHash("sha1").update(svg).digest("base64url")}"`;
+
+  c.header("Content-Type", "image/svg+xml; charset=utf-8");
+  c.header("Cache-Control", `public, max-age=${data ? CACHE_SECONDS : NOT_FOUND_CACHE_SECONDS}`);
+  c.header("ETag", etag);
+  // Served from our origin: never let the SVG run anything
+  c.header("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'");
+  c.header("X-Content-Type-Options", "nosniff");
+  c.header("Access-Control-Allow-Origin", "*");
+
+  if (c.req.header("If-None-Match") === etag) {
+    return c.body(null, 304);
+  }
+
+  return c.body(svg, data ? 200 : 404);
+});
+
+export default badge;
@@ -1,10 +1,8 @@
 /**
  * Challenge Routes
- * POST /api/v1/challenges - Create new challenge
+ * POST /api/v1/challenges - Create new challenge (or a renewal challenge for an existing agent)
  * GET /api/v1/challenges/:id - Get challenge details
- * GET /api/v1/challenges/:id/step1,2,3 - Tool-use challenge steps
- * GET /api/v1/challenges/:id/speed/a,b,c - Speed challenge endpoints
- * POST /api/v1/challenges/:id/step2 - Submit step2 value
+ * Plus the endpoints each task plugin registers (see src/tasks)
  * 
  * ANTI-HUMAN MEASURES:
  * - Rate limiting by IP + fingerprint
@@ -17,11 +15,9 @@ import { z } from "zod";
 import {
   createChallenge,
   getChallenge,
-  getToolUseStep,
-  completeToolUseStep,
-  getSpeedToken,
 } from "../services/challenge.service.js";
-import { generateToken } from "../lib/crypto.js";
+import { getAgent } from "../services/proof.service.js";
+import { listTasks, listCapabilities } from "../tasks/index.js";
 import {
   generateFingerprint,
   recordChallengeAttempt,
@@ -38,6 +34,8 @@ const createChallengeSchema = z.object({
   model_family: z.string().optional(),
   framework: z.string().optional(),
   difficulty: z.enum(["easy", "standard", "hard"]).optional().default("standard"),
+  // Renew the proof of an existing agent (must be signed with the agent's registered key)
+  agent_id: z.string().optional(),
 });
 
 /**
@@ -73,15 +71,33 @@ challenges.post("/", async (c) => {
     const body = await c.req.json();
     const data = createChallengeSchema.parse(body);
 
+    // Renewal: the challenge is bound to the existing agent and its name
+    let agentName = data.name;
+    if (data.agent_id) {
+      const agent = await getAgent(data.agent_id);
+      if (!agent) {
+        return c.json({ success: false, error: "Agent not found" }, 404);
+      }
+      if (agent.status !== "verified") {
+        return c.json({
+          success: false,
+          error: `Agent status is ${agent.status}`,
+          hint: "Only verified agents can renew their proof.",
+        }, 403);
+      }
+      agentName = agent.name;
+    }
+
     const challenge = await createChallenge(
-      data.name,
+      agentName,
       data.description || "",
       data.capabilities,
       data.model_family,
       data.framework,
       data.difficulty,
       ip,
-      fingerprint
+      fingerprint,
+      data.agent_id
     );
     
     // Record the attempt
@@ -91,6 +107,8 @@ challenges.post("/", async (c) => {
       success: true,
       challenge_id: challenge.id,
       agent_name: challenge.agent_name,
+      renewal: !!challenge.agent_id,
+      capabilities: challenge.capabilities,
       expires_at: challenge.expires_at,
       expires_in_seconds: challenge.time_limit_seconds,
       time_limit_seconds: challenge.time_limit_seconds,
@@ -108,6 +126,13 @@ challenges.post("/", async (c) => {
         400
       );
     }
+    if (error instanceof Error && error.message.includes("Unsupported capability")) {
+      return c.json({
+        success: false,
+        error: error.message,
+        supported_capabilities: listCapabilities(),
+      }, 400);
+    }
     console.error("Challenge creation error:", error);
     return c.json({ success: false, error: "Failed to create challenge" }, 500);
   }
@@ -144,206 +169,11 @@ challenges.get("/:id", async (c) => {
   });
 });
 
-/**
- * GET /api/v1/challenges/:id/step1
- * Tool-use challenge step 1
- */
-challenges.get("/:id/step1", async (c) => {
-  const challengeId = c.req.param("id");
-  const challenge = await getChallenge(challengeId);
-
-  if (!challenge) {
-    return c.json({ success: false, error: "Challenge not found" }, 404);
-  }
-
-  if (new Date(challenge.expires_at) < new Date()) {
-    return c.json({ success: false, error: "Challenge expired" }, 410);
-  }
-
-  const step = await getToolUseStep(challengeId, 1);
-  if (!step) {
-    return c.json({ success: false, error: "Step not found" }, 404);
-  }
-
-  // Mark step 1 as accessed
-  await completeToolUseStep(challengeId, 1, "accessed");
-
-  return c.json({
-    success: true,
-    value: step.expectedValue,
-    next_step: "POST this value to /step2",
-    hint: "Send JSON body: {\"value\": \"" + step.expectedValue + "\"}",
-  });
-});
-
-/**
- * POST /api/v1/challenges/:id/step2
- * Tool-use challenge step 2
- */
-challenges.post("/:id/step2", async (c) => {
-  const challengeId = c.req.param("id");
-  const challenge = await getChallenge(challengeId);
-
-  if (!challenge) {
-    return c.json({ success: false, error: "Challenge not found" }, 404);
-  }
-
-  if (new Date(challenge.expires_at) < new Date()) {
-    return c.json({ success: false, error: "Challenge expired" }, 410);
-  }
-
-  try {
-    const body = await c.req.json();
-    const { value } = body;
-
-    // Verify step 1 was completed and value matches
-    const step1 = await getToolUseStep(challengeId, 1);
-    if (!step1 || step1.expectedValue !== value) {
-      return c.json({ success: false, error: "Invalid value from step 1" }, 400);
-    }
-
-    // Get step 2 token
-    const step2 = await getToolUseStep(challengeId, 2);
-    if (!step2) {
-      return c.json({ success: false, error: "Step not found" }, 404);
-    }
-
-    // Mark step 2 as completed with the received value
-    await completeToolUseStep(challengeId, 2, value);
-
-    return c.json({
-      success: true,
-      token: step2.expectedValue,
-      next_step: "GET /step3 with this token as query param",
-      hint: `GET /step3?token=${step2.expectedValue}`,
-    });
-  } catch (error) {
-    return c.json({ success: false, error: "Invalid request body" }, 400);
-  }
-});
-
-/**
- * GET /api/v1/challenges/:id/step3
- * Tool-use challenge step 3
- */
-challenges.get("/:id/step3", async (c) => {
-  const challengeId = c.req.param("id");
-  const token = c.req.query("token");
-
-  const challenge = await getChallenge(challengeId);
-
-  if (!challenge) {
-    return c.json({ success: false, error: "Challenge not found" }, 404);
-  }
-
-  if (new Date(challenge.expires_at) < new Date()) {
-    return c.json({ success: false, error: "Challenge expired" }, 410);
-  }
-
-  // Verify token from step 2
-  const step2 = await getToolUseStep(challengeId, 2);
-  if (!step2 || step2.expectedValue !== token) {
-    return c.json({ success: false, error: "Invalid token from step 2" }, 400);
-  }
-
-  // Get final value
-  const step3 = await getToolUseStep(challengeId, 3);
-  if (!step3) {
-    return c.json({ success: false, error: "Step not found" }, 404);
-  }
-
-  // Mark step 3 as completed
-  await completeToolUseStep(challengeId, 3, step3.expectedValue);
-
-  return c.json({
-    success: true,
-    final_value: step3.expectedValue,
-    message: "Tool-use challenge completed! Include this final_value in your submission.",
-  });
-});
-
-/**
- * GET /api/v1/challenges/:id/speed/a
- * Speed challenge endpoint A - must be fetched in parallel with B and C
- */
-challenges.get("/:id/speed/a", async (c) => {
-  const challengeId = c.req.param("id");
-  const challenge = await getChallenge(challengeId);
-
-  if (!challenge) {
-    return c.json({ success: false, error: "Challenge not found" }, 404);
-  }
-
-  if (new Date(challenge.expires_at) < new Date()) {
-    return c.json({ success: false, error: "Challenge expired" }, 410);
-  }
-
-  const tokenData = await getSpeedToken(challengeId, "a");
-  if (!tokenData) {
-    return c.json({ success: false, error: "Speed token not found" }, 404);
-  }
-
-  return c.json({
-    success: true,
-    token: tokenData.token,
-    hint: "Combine this with tokens from /speed/b and /speed/c",
-  });
-});
-
-/**
- * GET /api/v1/challenges/:id/speed/b
- * Speed challenge endpoint B - must be fetched in parallel with A and C
- */
-challenges.get("/:id/speed/b", async (c) => {
-  const challengeId = c.req.param("id");
-  const challenge = await getChallenge(challengeId);
-
-  if (!challenge) {
-    return c.json({ success: false, error: "Challenge not found" }, 404);
-  }
-
-  if (new Date(challenge.expires_at) < new Date()) {
-    return c.json({ success: false, error: "Challenge expired" }, 410);
-  }
-
-  const tokenData = await getSpeedToken(challengeId, "b");
-  if (!tokenData) {
-    return c.json({ success: false, error: "Speed token not found" }, 404);
-  }
-
-  return c.json({
-    success: true,
-    token: tokenData.token,
-    hint: "Combine this with tokens from /speed/a and /speed/c",
-  });
-});
-
-/**
- * GET /api/v1/challenges/:id/speed/c
- * Speed challenge endpoint C - must be fetched in parallel with A and B
- */
-challenges.get("/:id/speed/c", async (c) => {
-  const challengeId = c.req.param("id");
-  const challenge = await getChallenge(challengeId);
-
-  if (!challenge) {
-    return c.json({ success: false, error: "Challenge not found" }, 404);
+// Task-specific endpoints (tool-use steps, speed tokens, ...)
+for (const task of listTasks()) {
+  if (task.routes) {
+    challenges.route("/", task.routes);
   }
-
-  if (new Date(challenge.expires_at) < new Date()) {
-    return c.json({ success: false, error: "Challenge expired" }, 410);
-  }
-
-  const tokenData = await getSpeedToken(challengeId, "c");
-  if (!tokenData) {
-    return c.json({ success: false, error: "Speed token not found" }, 404);
-  }
-
-  return c.json({
-    success: true,
-    token: tokenData.token,
-    hint: "Combine this with tokens from /speed/a and /speed/b",
-  });
-});
+}
 
 export default challenges;
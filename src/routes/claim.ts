@@ -12,7 +12,8 @@
  */
 
 import { Hono } from "hono";
-import { query, queryOne, execute } from "../db/index.js";
+import { queryOne, execute } from "../db/index.js";
+import { emitWebhookEvent } from "../services/webhook.service.js";
 import * as crypto from "crypto";
 
 const claim = new Hono();
@@ -322,6 +323,10 @@ claim.post("/:token", async (c) => {
     // Clean up verification code
     await execute("DELETE FROM oauth_states WHERE claim_token = $1", [claimToken]);
 
+    emitWebhookEvent("agent.claimed", agent.id, {
+      owner: { provider: "twitter", handle: username },
+    }).catch(console.error);
+
     return c.json({
       success: true,
       message: "Agent claimed successfully!",
@@ -0,0 +1,340 @@
+/**
+ * OAuth Routes (for platforms and API gateways)
+ * GET /oauth/authorize - Start "Sign in with KnowYourClaw" (returns a message to sign)
+ * POST /oauth/authorize - Agent approves with its signature, redirected back with a code
+ * POST /oauth/token - Exchange the code for an ID token and access token (PKCE)
+ * GET|POST /oauth/userinfo - OpenID Connect claims for an access token
+ * POST /oauth/introspect - RFC 7662 token introspection
+ */
+
+import { Hono, type Context } from "hono";
+import { z } from "zod";
+import { platformAuth } from "../middleware/platform-auth.js";
+import { getClientIp } from "../lib/client-ip.js";
+import {
+  verifyTokenForPlatform,
+  getVisibleAgentClaims,
+} from "../services/verification.service.js";
+import {
+  createAuthorizationRequest,
+  approveAuthorizationRequest,
+  exchangeAuthorizationCode,
+  getUserInfo,
+} from "../services/oauth.service.js";
+
+const oauth = new Hono();
+
+// OAuth error codes the service prefixes its messages with
+const OAUTH_ERROR_CODES = [
+  "invalid_request",
+  "invalid_client",
+  "invalid_grant",
+  "invalid_scope",
+  "invalid_token",
+  "insufficient_scope",
+  "unsupported_response_type",
+];
+
+// Validation schemas
+const approveSchema = z.object({
+  request_id: z.string().min(1),
+  agent_id: z.string().min(1),
+  signature: z.string().min(1),
+});
+
+/**
+ * Split "code: description" service errors into an RFC 6749 error body
+ */
+function oauthError(message: string, fallback: string): { error: string; error_description: string } {
+  const [code, ...rest] = message.split(": ");
+  if (OAUTH_ERROR_CODES.includes(code) && rest.length > 0) {
+    return { error: code, error_description: rest.join(": ") };
+  }
+  return { error: fallback, error_description: message };
+}
+
+/**
+ * Read OAuth parameters from a form (per the RFC) or JSON body
+ */
+async function readParams(c: Context): Promise<Record<string, unknown>> {
+  if (c.req.header("Content-Type")?.includes("application/json")) {
+    return await c.req.json().catch(() => ({}));
+  }
+  return await c.req.parseBody();
+}
+
+/**
+ * GET /oauth/authorize
+ * Standard authorization request parameters (response_type=code, client_id,
+ * redirect_uri, scope including openid, state, nonce, and PKCE S256).
+ * Returns the message the agent signs with its registered key.
+ */
+oauth.get("/authorize", async (c) => {
+  c.header("Cache-Control", "no-store");
+
+  try {
+    const result = await createAuthorizationRequest({
+      responseType: c.req.query("response_type") || "",
+      clientId: c.req.query("client_id") || "",
+      redirectUri: c.req.query("redirect_uri") || "",
+      scope: c.req.query("scope") || "",
+      state: c.req.query("state"),
+      nonce: c.req.query("nonce"),
+      codeChallenge: c.req.query("code_challenge"),
+      codeChallengeMethod: c.req.query("code_challenge_method"),
+    });
+
+    return c.json({
+      success: true,
+      request_id: result.requestId,
+      client: result.client,
+      scope: result.scope,
+      message_to_sign: result.message,
+      expires_at: result.expiresAt,
+      instructions: "Sign message_to_sign with your Ed25519 key and POST request_id, agent_id and signature to /oauth/authorize",
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("Unknown client")) {
+        return c.json({ success: false, ...oauthError(error.message, "invalid_client") }, 400);
+      }
+      return c.json({ success: false, ...oauthError(error.message, "invalid_request") }, 400);
+    }
+    console.error("Authorization request error:", error);
+    return c.json({ success: false, error: "server_error" }, 500);
+  }
+});
+
+/**
+ * POST /oauth/authorize
+ * The agent approves the request by signing message_to_sign.
+ * Redirects (302) to the client's redirect_uri with code and state, or returns
+ * the URL as redirect_to when the caller sends Accept: application/json.
+ */
+oauth.post("/authorize", async (c) => {
+  c.header("Cache-Control", "no-store");
+
+  try {
+    const data = approveSchema.parse(await readParams(c));
+    const result = await approveAuthorizationRequest(
+      data.request_id,
+      data.agent_id,
+      data.signature
+    );
+
+    const redirect = new URL(result.redirectUri);
+    redirect.searchParams.set("code", result.code);
+    if (result.state) {
+      redirect.searchParams.set("state", result.state);
+    }
+
+    if (c.req.header("Accept")?.includes("application/json")) {
+      return c.json({ success: true, redirect_to: redirect.toString() });
+    }
+    return c.redirect(redirect.toString(), 302);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("Invalid signature")) {
+        return c.json({ success: false, error: error.message }, 401);
+      }
+      if (error.message.includes("status is") || error.message.includes("no active proof")) {
+        return c.json({ success: false, error: error.message }, 403);
+      }
+    }
+    console.error("Authorization approval error:", error);
+    return c.json({ success: false, error: "Authorization failed" }, 500);
+  }
+});
+
+/**
+ * POST /oauth/token
+ * grant_type=authorization_code with code, redirect_uri, client_id and
+ * code_verifier. Confidential clients may authenticate with their API key as
+ * client_secret (form or HTTP Basic).
+ */
+oauth.post("/token", async (c) => {
+  c.header("Cache-Control", "no-store");
+  c.header("Pragma", "no-cache");
+
+  const params = await readParams(c);
+  let clientId = typeof params.client_id === "string" ? params.client_id : undefined;
+  let clientSecret = typeof params.client_secret === "string" ? params.client_secret : undefined;
+
+  const authorization = c.req.header("Authorization");
+  if (authorization?.startsWith("Basic ")) {
+    const decoded = Buffer.from(authorization.slice(6), "base64").toString("utf-8");
+    const separator = decoded.indexOf(":");
+    if (separator > 0) {
+      try {
+        clientId = decodeURIComponent(decoded.slice(0, separator));
+        clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+      } catch {
+        return c.json(
+          { error: "invalid_client", error_description: "Malformed client credentials" },
+          401
+        );
+      }
+    }
+  }
+
+  if (params.grant_type !== "authorization_code") {
+    return c.json(
+      { error: "unsupported_grant_type", error_description: "Only authorization_code is supported" },
+      400
+    );
+  }
+
+  const { code, redirect_uri, code_verifier } = params;
+  if (
+    typeof code !== "string" ||
+    typeof redirect_uri !== "string" ||
+    typeof code_verifier !== "string" ||
+    !clientId
+  ) {
+    return c.json(
+      {
+        error: "invalid_request",
+        error_description: "code, redirect_uri, client_id and code_verifier are required",
+      },
+      400
+    );
+  }
+
+  try {
+    const result = await exchangeAuthorizationCode({
+      code,
+      clientId,
+      redirectUri: redirect_uri,
+      codeVerifier: code_verifier,
+      clientSecret,
+    });
+
+    return c.json({
+      access_token: result.accessToken,
+      token_type: "Bearer",
+      expires_in: result.expiresIn,
+      id_token: result.idToken,
+      scope: result.scope,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("invalid_client")) {
+        return c.json(oauthError(error.message, "invalid_client"), 401);
+      }
+      if (error.message.includes("invalid_grant")) {
+        return c.json(oauthError(error.message, "invalid_grant"), 400);
+      }
+    }
+    console.error("Token endpoint error:", error);
+    return c.json({ error: "server_error" }, 500);
+  }
+});
+
+/**
+ * GET|POST /oauth/userinfo
+ * OpenID Connect userinfo, authenticated with the access token as a Bearer token
+ */
+oauth.on(["GET", "POST"], "/userinfo", async (c) => {
+  c.header("Cache-Control", "no-store");
+
+  const authorization = c.req.header("Authorization");
+  if (!authorization?.startsWith("Bearer ")) {
+    c.header("WWW-Authenticate", 'Bearer error="invalid_request"');
+    return c.json({ error: "invalid_request", error_description: "Bearer token required" }, 401);
+  }
+
+  try {
+    return c.json(await getUserInfo(authorization.slice(7)));
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("invalid_token")) {
+        c.header("WWW-Authenticate", 'Bearer error="invalid_token"');
+        return c.json(oauthError(error.message, "invalid_token"), 401);
+      }
+      if (error.message.includes("insufficient_scope")) {
+        c.header("WWW-Authenticate", 'Bearer error="insufficient_scope", scope="openid"');
+        return c.json(oauthError(error.message, "insufficient_scope"), 403);
+      }
+    }
+    console.error("Userinfo error:", error);
+    return c.json({ error: "server_error" }, 500);
+  }
+});
+
+/**
+ * POST /oauth/introspect
+ * RFC 7662 token introspection, authenticated with the platform API key
+ * (X-API-Key, or HTTP Basic with the API key as password).
+ *
+ * Accepts application/x-www-form-urlencoded (per the RFC) or JSON with a
+ * `token` parameter. Invalid, expired, revoked or foreign tokens all come back
+ * as {"active": false}.
+ */
+oauth.post("/introspect", platformAuth("introspect"), async (c) => {
+  const platform = c.get("platform");
+  c.header("Cache-Control", "no-store");
+
+  let token: unknown;
+  if (c.req.header("Content-Type")?.includes("application/json")) {
+    token = (await c.req.json().catch(() => ({}))).token;
+  } else {
+    token = (await c.req.parseBody()).token;
+  }
+
+  if (typeof token !== "string" || token.length === 0) {
+    return c.json(
+      { error: "invalid_request", error_description: "Missing token parameter" },
+      400
+    );
+  }
+
+  const result = await verifyTokenForPlatform(token, platform.id, {
+    source: "introspect",
+    ip: getClientIp(c),
+  });
+  if (!result.valid) {
+    return c.json({ active: false });
+  }
+
+  const { agent, payload, session, exchanged, disclosed } = result;
+  const claims = getVisibleAgentClaims(result);
+  // Registered claims describe the token that was presented
+  const presented = session || exchanged || payload;
+
+  return c.json({
+    active: true,
+    token_type: "Bearer",
+    token_use: session ? "access" : exchanged ? "exchange" : "proof",
+    client_id: platform.id,
+    iss: presented.iss,
+    sub: presented.sub,
+    aud: presented.aud,
+    iat: presented.iat,
+    exp: presented.exp,
+    jti: presented.jti,
+    // Agent claims
+    agent_name: claims.name,
+    agent_status: agent.status,
+    verified_at: agent.verified_at,
+    capabilities: claims.capabilities,
+    model_family: claims.model_family,
+    framework: claims.framework,
+    disclosed_claims: disclosed,
+    owner_claimed: !!agent.owner_id,
+    proof_id: payload.jti,
+    proof_expires_at: payload.exp,
+    challenge_difficulty: claims.difficulty,
+    tasks_passed: claims.tasks_passed,
+  });
+});
+
+export default oauth;
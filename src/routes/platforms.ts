@@ -3,6 +3,28 @@
  * POST /api/v1/platforms/register - Register a new platform (sends verification email)
  * GET /api/v1/platforms/verify - Verify email and get API key
  * POST /api/v1/platforms/resend-verification - Resend verification email
+ * POST /api/v1/platforms/login - Email a dashboard sign-in link
+ * POST /api/v1/platforms/login/verify - Trade a sign-in link token for a dashboard session
+ * POST /api/v1/platforms/email-change/confirm - Apply a contact email change from its emailed link
+ * GET /api/v1/platforms/oauth-client - OAuth client settings (requires API key)
+ * PUT /api/v1/platforms/oauth-client - Set OAuth redirect URIs (requires API key)
+ * GET /api/v1/platforms/keys - List API keys (requires API key)
+ * POST /api/v1/platforms/keys - Create an API key (requires API key)
+ * POST /api/v1/platforms/keys/:id/rotate - Rotate an API key with an overlap window
+ * DELETE /api/v1/platforms/keys/:id - Revoke an API key
+ * GET /api/v1/platforms/domain-verification - Token and instructions to prove domain ownership
+ * POST /api/v1/platforms/domain-verification/check - Check DNS / well-known file and mark verified
+ * GET /api/v1/platforms/verifications - Verification audit log (requires API key)
+ * GET /api/v1/platforms/usage - Daily verification counts (requires API key)
+ *
+ * Dashboard (platform owner session from /login, Authorization: Bearer <session token>)
+ * GET/PATCH/DELETE /api/v1/platforms/me - Account details, update, delete
+ * POST /api/v1/platforms/me/logout - End the session
+ * GET /api/v1/platforms/me/usage, /me/verifications - Usage and verification log
+ * GET/POST /api/v1/platforms/me/keys, DELETE /me/keys/:id - API keys
+ * GET/POST /api/v1/platforms/me/webhooks, DELETE /me/webhooks/:id - Webhook endpoints
+ * POST /api/v1/platforms/me/webhooks/:id/enable - Re-enable a disabled endpoint
+ * GET /api/v1/platforms/me/policies, PUT/DELETE /me/policies/:name - Verification policies
  */
 
 import { Hono } from "hono";
@@ -10,12 +32,56 @@ import { z } from "zod";
 import { 
   registerPlatform, 
   verifyPlatformEmail, 
-  resendVerificationEmail 
+  resendVerificationEmail,
+  isValidRedirectUri,
+  setRedirectUris,
+  listApiKeys,
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey,
+  updatePlatformProfile,
+  deletePlatform,
+  getRateLimit,
+  API_KEY_SCOPES,
+  type Platform,
+  type PlatformApiKey,
 } from "../services/platform.service.js";
+import {
+  startDomainVerification,
+  verifyPlatformDomain,
+} from "../services/domain-verification.service.js";
+import {
+  listVerificationEvents,
+  getDailyUsage,
+  getMonthlyVerificationCount,
+} from "../services/verification-event.service.js";
+import { platformAuth, platformSessionAuth } from "../middleware/platform-auth.js";
+import { getClientIp } from "../lib/client-ip.js";
+import {
+  requestPlatformLogin,
+  completePlatformLogin,
+  endPlatformSession,
+  requestContactEmailChange,
+  cancelContactEmailChange,
+  confirmContactEmailChange,
+} from "../services/platform-session.service.js";
+import {
+  WEBHOOK_EVENTS,
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  deleteWebhookEndpoint,
+  enableWebhookEndpoint,
+} from "../services/webhook.service.js";
+import { listPolicies, savePolicy, deletePolicy } from "../services/policy.service.js";
+import { createEndpointSchema } from "./webhooks.js";
+import { policyNameSchema, rulesSchema } from "./policies.js";
 import { 
   notifyPlatformRegistration, 
   sendPlatformVerificationEmail,
-  sendPlatformApiKey
+  sendPlatformApiKey,
+  sendPlatformLoginEmail,
+  sendPlatformEmailChangeConfirmation,
+  sendPlatformEmailChangeNotice,
 } from "../lib/email.js";
 
 const platforms = new Hono();
@@ -25,12 +91,100 @@ const registerSchema = z.object({
   name: z.string().min(1).max(100),
   domain: z.string().optional(),
   contact_email: z.string().email("Valid email is required"),
+  // Optional OAuth redirect URIs for "Sign in with KnowYourClaw"
+  redirect_uris: z
+    .array(z.string().refine(isValidRedirectUri, "Redirect URIs must be HTTPS (or http on localhost) without a fragment"))
+    .max(10)
+    .optional(),
 });
 
+const oauthClientSchema = z.object({
+  redirect_uris: z.array(z.string()).max(10),
+});
+
+const createKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expires_in_days: z.number().int().min(1).max(730).optional(),
+});
+
+const rotateKeySchema = z.object({
+  // How long the old key keeps working (default 24 hours)
+  overlap_seconds: z.number().int().min(0).optional(),
+});
+
+function formatApiKey(key: PlatformApiKey) {
+  const expired = !!key.expires_at && new Date(key.expires_at) < new Date();
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.key_prefix,
+    scopes: key.scopes,
+    status: key.revoked_at ? "revoked" : expired ? "expired" : "active",
+    expires_at: key.expires_at,
+    last_used_at: key.last_used_at,
+    revoked_at: key.revoked_at,
+    created_at: key.created_at,
+  };
+}
+
 const resendSchema = z.object({
   email: z.string().email(),
 });
 
+const loginSchema = z.object({
+  email: z.string().email(),
+});
+
+const loginVerifySchema = z.object({
+  token: z.string().min(1),
+});
+
+const emailChangeConfirmSchema = z.object({
+  token: z.string().min(1),
+});
+
+const verificationEventsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  agent_id: z.string().optional(),
+  result: z.enum(["valid", "invalid"]).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+});
+
+const usageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(30),
+});
+
+const updateProfileSchema = z
+  .object({
+    name: z.string().min(1).max(100).optional(),
+    domain: z.string().max(253).nullable().optional(),
+    contact_email: z.string().email().optional(),
+  })
+  .strict();
+
+const deleteAccountSchema = z.object({
+  // Must repeat the platform name
+  confirm: z.string(),
+});
+
+function formatProfile(platform: Platform) {
+  return {
+    id: platform.id,
+    name: platform.name,
+    domain: platform.domain,
+    domain_verified: !!platform.domain_verified_at,
+    contact_email: platform.contact_email,
+    tier: platform.tier,
+    rate_limit: getRateLimit(platform),
+    status: platform.status,
+    verifications_count: platform.verifications_count,
+    created_at: platform.created_at,
+  };
+}
+
 /**
  * POST /api/v1/platforms/register
  * Register a new platform
@@ -48,6 +202,10 @@ platforms.post("/register", async (c) => {
       data.domain
     );
 
+    if (data.redirect_uris) {
+      result.platform.redirect_uris = await setRedirectUris(result.platform.id, data.redirect_uris);
+    }
+
     // Notify admin (async, don't block)
     notifyPlatformRegistration({
       platformId: result.platform.id,
@@ -92,7 +250,7 @@ platforms.post("/register", async (c) => {
         name: result.platform.name,
         domain: result.platform.domain,
         tier: result.platform.tier,
-        rate_limit: result.platform.rate_limit,
+        rate_limit: getRateLimit(result.platform),
         status: result.platform.status,
       },
       api_key: result.apiKey,
@@ -157,7 +315,7 @@ platforms.get("/verify", async (c) => {
         name: platform.name,
         domain: platform.domain,
         tier: platform.tier,
-        rate_limit: platform.rate_limit,
+        rate_limit: getRateLimit(platform),
         status: platform.status,
       },
       api_key: apiKey,
@@ -221,4 +379,848 @@ platforms.post("/resend-verification", async (c) => {
   }
 });
 
+/**
+ * POST /api/v1/platforms/login
+ * Email a one-time dashboard sign-in link to the platform's contact address
+ * The answer is the same whether or not the address is registered.
+ */
+platforms.post("/login", async (c) => {
+  try {
+    const body = await c.req.json();
+    const data = loginSchema.parse(body);
+
+    const result = await requestPlatformLogin(data.email);
+
+    if (result) {
+      await sendPlatformLoginEmail({
+        email: result.platform.contact_email,
+        platformName: result.platform.name,
+        loginToken: result.loginToken,
+        expiresInMinutes: result.expiresInMinutes,
+      });
+    }
+
+    return c.json({
+      success: true,
+      message: "If a platform is registered with this email, a sign-in link is on its way.",
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Valid email required" },
+        400
+      );
+    }
+    if (error instanceof Error && error.message.includes("Too many")) {
+      return c.json({ success: false, error: error.message }, 429);
+    }
+    console.error("Platform login error:", error);
+    return c.json({ success: false, error: "Failed to send sign-in link" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/platforms/login/verify
+ * Trade the token from a sign-in link for a dashboard session
+ */
+platforms.post("/login/verify", async (c) => {
+  try {
+    const body = await c.req.json();
+    const data = loginVerifySchema.parse(body);
+
+    const session = await completePlatformLogin(data.token, getClientIp(c));
+
+    return c.json({
+      success: true,
+      session_token: session.sessionToken,
+      expires_at: session.expiresAt,
+      platform: {
+        id: session.platform.id,
+        name: session.platform.name,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error && (error.message.includes("Invalid or expired") || error.message.includes("not active"))) {
+      return c.json({ success: false, error: error.message }, 401);
+    }
+    console.error("Platform login verification error:", error);
+    return c.json({ success: false, error: "Sign-in failed" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/platforms/email-change/confirm
+ * Apply a contact email change with the token from the link sent to the new
+ * address. Ends every dashboard session.
+ */
+platforms.post("/email-change/confirm", async (c) => {
+  try {
+    const body = await c.req.json();
+    const data = emailChangeConfirmSchema.parse(body);
+
+    const { platform } = await confirmContactEmailChange(data.token);
+
+    return c.json({
+      success: true,
+      message: `Contact email changed to ${platform.contact_email}. Sign in again with this address.`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("Invalid or expired") || error.message.includes("not active")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+      if (error.message.includes("already exists")) {
+        return c.json({ success: false, error: error.message }, 409);
+      }
+    }
+    console.error("Email change confirmation error:", error);
+    return c.json({ success: false, error: "Failed to change contact email" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/oauth-client
+ * OAuth client settings: the platform id is the client_id
+ */
+platforms.get("/oauth-client", platformAuth("oauth:manage"), async (c) => {
+  const platform = c.get("platform");
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+
+  return c.json({
+    success: true,
+    client_id: platform.id,
+    redirect_uris: platform.redirect_uris || [],
+    discovery: `${baseUrl}/.well-known/openid-configuration`,
+  });
+});
+
+/**
+ * PUT /api/v1/platforms/oauth-client
+ * Replace the platform's OAuth redirect URIs
+ */
+platforms.put("/oauth-client", platformAuth("oauth:manage"), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const body = await c.req.json();
+    const data = oauthClientSchema.parse(body);
+
+    const redirectUris = await setRedirectUris(platform.id, data.redirect_uris);
+
+    return c.json({
+      success: true,
+      client_id: platform.id,
+      redirect_uris: redirectUris,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error && error.message.includes("Invalid redirect URI")) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error("OAuth client update error:", error);
+    return c.json({ success: false, error: "Failed to update OAuth client" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/keys
+ * List the platform's API keys (never the keys themselves)
+ */
+platforms.get("/keys", platformAuth("keys:manage"), async (c) => {
+  const platform = c.get("platform");
+  const keys = await listApiKeys(platform.id);
+
+  return c.json({
+    success: true,
+    keys: keys.map(formatApiKey),
+    available_scopes: API_KEY_SCOPES,
+  });
+});
+
+/**
+ * POST /api/v1/platforms/keys
+ * Create an additional, optionally narrower or expiring, API key
+ */
+platforms.post("/keys", platformAuth("keys:manage"), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const body = await c.req.json();
+    const data = createKeySchema.parse(body);
+
+    const { key, apiKey } = await createApiKey(
+      platform.id,
+      data.name,
+      data.scopes,
+      data.expires_in_days
+    );
+
+    return c.json({
+      success: true,
+      key: formatApiKey(key),
+      api_key: apiKey,
+      important: "Save your API key securely. It won't be shown again.",
+    }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error && error.message.includes("limit reached")) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.error("API key creation error:", error);
+    return c.json({ success: false, error: "Failed to create API key" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/platforms/keys/:id/rotate
+ * Issue a replacement key; the old one stops working after overlap_seconds
+ */
+platforms.post("/keys/:id/rotate", platformAuth("keys:manage"), async (c) => {
+  const platform = c.get("platform");
+  const keyId = c.req.param("id");
+
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const data = rotateKeySchema.parse(body);
+
+    const { key, apiKey, previous } = await rotateApiKey(
+      platform.id,
+      keyId,
+      data.overlap_seconds ?? 24 * 60 * 60
+    );
+
+    return c.json({
+      success: true,
+      key: formatApiKey(key),
+      api_key: apiKey,
+      previous_key: formatApiKey(previous),
+      important: "Save your API key securely. It won't be shown again.",
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("Invalid overlap")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+    }
+    console.error("API key rotation error:", error);
+    return c.json({ success: false, error: "Failed to rotate API key" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/platforms/keys/:id
+ * Revoke an API key immediately (use rotate for a graceful switch)
+ */
+platforms.delete("/keys/:id", platformAuth("keys:manage"), async (c) => {
+  const platform = c.get("platform");
+  const currentKey = c.get("apiKey");
+  const keyId = c.req.param("id");
+
+  if (keyId === currentKey.id) {
+    return c.json(
+      { success: false, error: "Cannot revoke the key used for this request. Use another key, or rotate it." },
+      400
+    );
+  }
+
+  try {
+    await revokeApiKey(platform.id, keyId);
+    return c.json({ success: true, message: "API key revoked" });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.error("API key revocation error:", error);
+    return c.json({ success: false, error: "Failed to revoke API key" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/domain-verification
+ * Publish the token as a DNS TXT record or at the well-known URL, then call check
+ */
+platforms.get("/domain-verification", platformAuth("domains:manage"), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const verification = await startDomainVerification(platform.id);
+
+    return c.json({
+      success: true,
+      domain: verification.domain,
+      verified: !!verification.verified_at,
+      verified_at: verification.verified_at,
+      methods: {
+        dns: {
+          type: "TXT",
+          name: verification.txt_record.name,
+          value: verification.txt_record.value,
+        },
+        http: {
+          url: verification.well_known_url,
+          body: verification.token,
+        },
+      },
+      next_step: "POST /api/v1/platforms/domain-verification/check",
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("no valid domain")) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error("Domain verification error:", error);
+    return c.json({ success: false, error: "Failed to start domain verification" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/platforms/domain-verification/check
+ * Look up the token and mark the domain verified
+ */
+platforms.post("/domain-verification/check", platformAuth("domains:manage"), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const result = await verifyPlatformDomain(platform.id);
+
+    return c.json({
+      success: true,
+      message: `Domain ${result.domain} verified`,
+      domain: result.domain,
+      method: result.method,
+      verified_at: result.verified_at,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("not found") || error.message.includes("not started")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+      if (error.message.includes("no valid domain")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+    }
+    console.error("Domain verification check error:", error);
+    return c.json({ success: false, error: "Domain verification failed" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/verifications
+ * This platform's verification audit log, newest first
+ * Filters: ?agent_id=, ?result=valid|invalid, ?since=, ?until= (ISO dates)
+ */
+platforms.get("/verifications", platformAuth("usage:read"), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const params = verificationEventsQuerySchema.parse(c.req.query());
+
+    const { events, total } = await listVerificationEvents(
+      {
+        platformId: platform.id,
+        agentId: params.agent_id,
+        result: params.result,
+        since: params.since,
+        until: params.until,
+      },
+      params.page,
+      params.limit
+    );
+
+    return c.json({
+      success: true,
+      events,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        pages: Math.ceil(total / params.limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    console.error("Verification log error:", error);
+    return c.json({ success: false, error: "Failed to load verification log" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/usage
+ * Valid and invalid verifications per day (?days= up to 366, default 30)
+ */
+platforms.get("/usage", platformAuth("usage:read"), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const { days } = usageQuerySchema.parse(c.req.query());
+
+    const [daily, thisMonth] = await Promise.all([
+      getDailyUsage(platform.id, days),
+      getMonthlyVerificationCount(platform.id),
+    ]);
+
+    return c.json({
+      success: true,
+      verifications_this_month: thisMonth,
+      days,
+      daily,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    console.error("Usage error:", error);
+    return c.json({ success: false, error: "Failed to load usage" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/me
+ * The signed-in platform's account details
+ */
+platforms.get("/me", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  return c.json({
+    success: true,
+    platform: formatProfile(platform),
+    verifications_this_month: await getMonthlyVerificationCount(platform.id),
+  });
+});
+
+/**
+ * PATCH /api/v1/platforms/me
+ * Change name, domain (must be verified again) or contact email
+ * A new contact email only applies once the link sent to it is used; the
+ * current address is told about the request. Sending the current address
+ * cancels a pending change.
+ */
+platforms.patch("/me", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const body = await c.req.json();
+    const { contact_email: newEmail, ...changes } = updateProfileSchema.parse(body);
+
+    let pendingEmail: string | null = null;
+    if (newEmail === platform.contact_email) {
+      await cancelContactEmailChange(platform.id);
+    } else if (newEmail !== undefined) {
+      const change = await requestContactEmailChange(platform.id, newEmail);
+      pendingEmail = newEmail;
+
+      await sendPlatformEmailChangeConfirmation({
+        email: newEmail,
+        platformName: platform.name,
+        changeToken: change.changeToken,
+        expiresInMinutes: change.expiresInMinutes,
+      });
+      sendPlatformEmailChangeNotice({
+        email: platform.contact_email,
+        platformName: platform.name,
+        newEmail,
+      }).catch(console.error);
+    }
+
+    const updated = await updatePlatformProfile(platform.id, changes);
+
+    return c.json({
+      success: true,
+      platform: formatProfile(updated),
+      ...(pendingEmail && {
+        pending_contact_email: pendingEmail,
+        message: `Confirm ${pendingEmail} with the link we sent there to finish changing the contact email.`,
+      }),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error && error.message.includes("already exists")) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.error("Platform update error:", error);
+    return c.json({ success: false, error: "Failed to update platform" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/platforms/me
+ * Delete the platform, its keys, webhooks and policies
+ * Body: {"confirm": "<platform name>"}
+ */
+platforms.delete("/me", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const data = deleteAccountSchema.parse(body);
+
+    if (data.confirm !== platform.name) {
+      return c.json(
+        { success: false, error: "Confirm by sending the platform name as \"confirm\"" },
+        400
+      );
+    }
+
+    await deletePlatform(platform.id);
+
+    return c.json({ success: true, message: `Platform ${platform.name} deleted` });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    console.error("Platform deletion error:", error);
+    return c.json({ success: false, error: "Failed to delete platform" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/platforms/me/logout
+ * End the current session
+ */
+platforms.post("/me/logout", platformSessionAuth(), async (c) => {
+  await endPlatformSession(c.get("sessionToken"));
+  return c.json({ success: true, message: "Signed out" });
+});
+
+/**
+ * GET /api/v1/platforms/me/usage
+ * Same as /usage, for the dashboard
+ */
+platforms.get("/me/usage", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const { days } = usageQuerySchema.parse(c.req.query());
+
+    const [daily, thisMonth] = await Promise.all([
+      getDailyUsage(platform.id, days),
+      getMonthlyVerificationCount(platform.id),
+    ]);
+
+    return c.json({
+      success: true,
+      verifications_this_month: thisMonth,
+      days,
+      daily,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    console.error("Usage error:", error);
+    return c.json({ success: false, error: "Failed to load usage" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/me/verifications
+ * Same as /verifications, for the dashboard
+ */
+platforms.get("/me/verifications", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const params = verificationEventsQuerySchema.parse(c.req.query());
+
+    const { events, total } = await listVerificationEvents(
+      {
+        platformId: platform.id,
+        agentId: params.agent_id,
+        result: params.result,
+        since: params.since,
+        until: params.until,
+      },
+      params.page,
+      params.limit
+    );
+
+    return c.json({
+      success: true,
+      events,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        pages: Math.ceil(total / params.limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    console.error("Verification log error:", error);
+    return c.json({ success: false, error: "Failed to load verification log" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/me/keys
+ */
+platforms.get("/me/keys", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+  const keys = await listApiKeys(platform.id);
+
+  return c.json({
+    success: true,
+    keys: keys.map(formatApiKey),
+    available_scopes: API_KEY_SCOPES,
+  });
+});
+
+/**
+ * POST /api/v1/platforms/me/keys
+ */
+platforms.post("/me/keys", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const body = await c.req.json();
+    const data = createKeySchema.parse(body);
+
+    const { key, apiKey } = await createApiKey(
+      platform.id,
+      data.name,
+      data.scopes,
+      data.expires_in_days
+    );
+
+    return c.json({
+      success: true,
+      key: formatApiKey(key),
+      api_key: apiKey,
+      important: "Save your API key securely. It won't be shown again.",
+    }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error && error.message.includes("limit reached")) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.error("API key creation error:", error);
+    return c.json({ success: false, error: "Failed to create API key" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/platforms/me/keys/:id
+ */
+platforms.delete("/me/keys/:id", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    await revokeApiKey(platform.id, c.req.param("id"));
+    return c.json({ success: true, message: "API key revoked" });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.error("API key revocation error:", error);
+    return c.json({ success: false, error: "Failed to revoke API key" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/me/webhooks
+ */
+platforms.get("/me/webhooks", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  return c.json({
+    success: true,
+    endpoints: await listWebhookEndpoints(platform.id),
+    available_events: WEBHOOK_EVENTS,
+  });
+});
+
+/**
+ * POST /api/v1/platforms/me/webhooks
+ * The signing secret is only returned here.
+ */
+platforms.post("/me/webhooks", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const body = await c.req.json();
+    const data = createEndpointSchema.parse(body);
+
+    const { endpoint, secret } = await createWebhookEndpoint(platform.id, data.url, data.events);
+
+    return c.json({
+      success: true,
+      endpoint,
+      secret,
+      important: "Save your signing secret. It won't be shown again.",
+    }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("Invalid webhook URL")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+      if (error.message.includes("limit reached")) {
+        return c.json({ success: false, error: error.message }, 409);
+      }
+    }
+    console.error("Webhook registration error:", error);
+    return c.json({ success: false, error: "Failed to register webhook" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/platforms/me/webhooks/:id
+ */
+platforms.delete("/me/webhooks/:id", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    await deleteWebhookEndpoint(platform.id, c.req.param("id"));
+    return c.json({ success: true, message: "Webhook endpoint deleted" });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.error("Webhook deletion error:", error);
+    return c.json({ success: false, error: "Failed to delete webhook" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/platforms/me/webhooks/:id/enable
+ */
+platforms.post("/me/webhooks/:id/enable", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const endpoint = await enableWebhookEndpoint(platform.id, c.req.param("id"));
+    return c.json({ success: true, endpoint });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("Invalid webhook URL")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+    }
+    console.error("Webhook enable error:", error);
+    return c.json({ success: false, error: "Failed to enable webhook" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/platforms/me/policies
+ */
+platforms.get("/me/policies", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+  return c.json({ success: true, policies: await listPolicies(platform.id) });
+});
+
+/**
+ * PUT /api/v1/platforms/me/policies/:name
+ */
+platforms.put("/me/policies/:name", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const name = policyNameSchema.parse(c.req.param("name"));
+    const body = await c.req.json();
+    const rules = rulesSchema.parse(body);
+
+    const policy = await savePolicy(platform.id, name, rules);
+
+    return c.json({ success: true, policy });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error && error.message.includes("limit reached")) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.error("Policy save error:", error);
+    return c.json({ success: false, error: "Failed to save policy" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/platforms/me/policies/:name
+ */
+platforms.delete("/me/policies/:name", platformSessionAuth(), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    await deletePolicy(platform.id, c.req.param("name"));
+    return c.json({ success: true, message: "Policy deleted" });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.error("Policy deletion error:", error);
+    return c.json({ success: false, error: "Failed to delete policy" }, 500);
+  }
+});
+
 export default platforms;
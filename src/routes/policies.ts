@@ -0,0 +1,107 @@
+/**
+ * Verification Policy Routes (for platforms, API key with policies:manage scope)
+ * GET /api/v1/policies - List policies
+ * GET /api/v1/policies/:name - Get a policy
+ * PUT /api/v1/policies/:name - Create or replace a policy
+ * DELETE /api/v1/policies/:name - Delete a policy
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { platformAuth, type PlatformApiKeyEnv } from "../middleware/platform-auth.js";
+import {
+  DIFFICULTY_LEVELS,
+  listPolicies,
+  getPolicy,
+  savePolicy,
+  deletePolicy,
+} from "../services/policy.service.js";
+
+const policies = new Hono<PlatformApiKeyEnv>();
+
+// Validation schemas (shared with the platform dashboard routes)
+export const policyNameSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, "Policy names are lowercase letters, digits, - and _");
+
+export const rulesSchema = z
+  .object({
+    min_difficulty: z.enum(DIFFICULTY_LEVELS).optional(),
+    required_tasks: z.array(z.string().min(1)).max(20).optional(),
+    owner_claimed: z.boolean().optional(),
+    max_proof_age_days: z.number().int().min(1).max(3650).optional(),
+    required_capabilities: z.array(z.string().min(1)).max(50).optional(),
+  })
+  .strict();
+
+policies.use("*", platformAuth("policies:manage"));
+
+/**
+ * GET /api/v1/policies
+ */
+policies.get("/", async (c) => {
+  const platform = c.get("platform");
+  return c.json({ success: true, policies: await listPolicies(platform.id) });
+});
+
+/**
+ * GET /api/v1/policies/:name
+ */
+policies.get("/:name", async (c) => {
+  const platform = c.get("platform");
+  const policy = await getPolicy(platform.id, c.req.param("name"));
+
+  if (!policy) {
+    return c.json({ success: false, error: "Policy not found" }, 404);
+  }
+
+  return c.json({ success: true, policy });
+});
+
+/**
+ * PUT /api/v1/policies/:name
+ * Body: the rules, e.g. {"min_difficulty": "hard", "owner_claimed": true}
+ */
+policies.put("/:name", async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const name = policyNameSchema.parse(c.req.param("name"));
+    const body = await c.req.json();
+    const rules = rulesSchema.parse(body);
+
+    const policy = await savePolicy(platform.id, name, rules);
+
+    return c.json({ success: true, policy });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error && error.message.includes("limit reached")) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.error("Policy save error:", error);
+    return c.json({ success: false, error: "Failed to save policy" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/policies/:name
+ */
+policies.delete("/:name", async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    await deletePolicy(platform.id, c.req.param("name"));
+    return c.json({ success: true, message: "Policy deleted" });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.error("Policy deletion error:", error);
+    return c.json({ success: false, error: "Failed to delete policy" }, 500);
+  }
+});
+
+export default policies;
@@ -0,0 +1,92 @@
+/**
+ * Proof Routes (for agents)
+ * GET /api/v1/proofs/:id - Get a proof as a JWT, W3C Verifiable Credential or SD-JWT
+ */
+
+import { Hono } from "hono";
+import { verifyProofToken } from "../lib/jwt.js";
+import { getProof, getProofFormat } from "../services/proof.service.js";
+
+const proofs = new Hono();
+
+/**
+ * GET /api/v1/proofs/:id
+ * Authenticate with the proof token or credential (Authorization: Bearer <token>).
+ * SD-JWT presentations are refused: they may hide claims this route would reveal.
+ *
+ * Content negotiation:
+ * - Accept: application/vc+jwt - the W3C Verifiable Credential (VC-JWT)
+ * - Accept: application/sd-jwt - the SD-JWT with every disclosure attached
+ * - Accept: application/jwt - the proof token
+ * - otherwise - JSON with both
+ */
+proofs.get("/:id", async (c) => {
+  const proofId = c.req.param("id");
+  const authHeader = c.req.header("Authorization");
+
+  if (!authHeader?.startsWith("Bearer ")) {
+    return c.json(
+      { success: false, error: "Missing token. Include Authorization: Bearer <proof token or credential>." },
+      401
+    );
+  }
+
+  const token = authHeader.slice("Bearer ".length).trim();
+  const result = await verifyProofToken(token);
+
+  // SD-JWTs (with or without disclosures) may only reveal what the agent chose
+  if (result.disclosed) {
+    return c.json(
+      { success: false, error: "SD-JWT presentations can't be used here. Use the proof token or credential." },
+      401
+    );
+  }
+
+  if (!result.valid || !result.payload || result.payload.jti !== proofId) {
+    return c.json({ success: false, error: result.error || "Token does not match this proof" }, 401);
+  }
+
+  const proof = await getProof(proofId);
+  if (!proof) {
+    return c.json({ success: false, error: "Proof not found" }, 404);
+  }
+
+  const credential = await getProofFormat(proof, "credential");
+  const sdJwt = await getProofFormat(proof, "sd_jwt");
+  const accept = c.req.header("Accept") || "";
+  c.header("Vary", "Accept");
+
+  if (accept.includes("application/vc+jwt")) {
+    if (!credential) {
+      return c.json({ success: false, error: "No credential available for this proof" }, 406);
+    }
+    return c.body(credential, 200, { "Content-Type": "application/vc+jwt" });
+  }
+
+  if (accept.includes("application/sd-jwt")) {
+    if (!sdJwt) {
+      return c.json({ success: false, error: "No SD-JWT available for this proof" }, 406);
+    }
+    return c.body(sdJwt, 200, { "Content-Type": "application/sd-jwt" });
+  }
+
+  if (accept.includes("application/jwt")) {
+    return c.body(proof.token, 200, { "Content-Type": "application/jwt" });
+  }
+
+  return c.json({
+    success: true,
+    proof: {
+      id: proof.id,
+      agent_id: proof.agent_id,
+      status: proof.status,
+      issued_at: proof.issued_at,
+      expires_at: proof.expires_at,
+      token: proof.token,
+      credential,
+      sd_jwt: sdJwt,
+    },
+  });
+});
+
+export default proofs;
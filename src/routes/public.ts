@@ -2,13 +2,18 @@
  * Public Routes
  * GET /api/v1/public/stats - Public statistics
  * GET /api/v1/public/agents - List verified agents
+ * GET /api/v1/public/agents/:id/widget - Agent card for the embeddable widget
  */
 
 import { Hono } from "hono";
 import { query, queryOne } from "../db/index.js";
+import { getAgentCard } from "../services/proof.service.js";
+import { getActiveStatusReference } from "../services/status-list.service.js";
 
 const publicRoutes = new Hono();
 
+const WIDGET_CACHE_SECONDS = 60;
+
 /**
  * GET /api/v1/public/stats
  * Get public statistics
@@ -98,4 +103,33 @@ publicRoutes.get("/agents", async (c) => {
   });
 });
 
+/**
+ * GET /api/v1/public/agents/:id/widget
+ * Agent card plus the status list entry of its proof, which the widget checks
+ * against the signed status list. The proof token itself is never published.
+ */
+publicRoutes.get("/agents/:id/widget", async (c) => {
+  const card = await getAgentCard(c.req.param("id"));
+  if (!card) {
+    return c.json({ success: false, error: "Agent not found" }, 404);
+  }
+
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  const profileUrl = `${baseUrl}/a/${encodeURIComponent(card.name)}`;
+
+  const status = card.status === "verified" ? await getActiveStatusReference(card.id) : null;
+
+  c.header("Cache-Control", `public, max-age=${WIDGET_CACHE_SECONDS}`);
+  return c.json({
+    success: true,
+    agent: {
+      ...card,
+      profile_url: profileUrl,
+      badge_url: `${baseUrl}/badge/${card.id}.svg`,
+    },
+    status,
+    jwks_uri: `${baseUrl}/.well-known/jwks.json`,
+  });
+});
+
 export default publicRoutes;
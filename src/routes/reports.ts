@@ -0,0 +1,92 @@
+/**
+ * Agent Report Routes (for platforms, API key with reports:manage scope)
+ * POST /api/v1/agents/:id/reports - Report an agent (spam, impersonation, ...)
+ * GET /api/v1/agents/:id/reports - This platform's reports on an agent
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { platformAuth, type PlatformApiKeyEnv } from "../middleware/platform-auth.js";
+import {
+  REPORT_CATEGORIES,
+  createAgentReport,
+  listAgentReports,
+} from "../services/report.service.js";
+
+const reports = new Hono<PlatformApiKeyEnv>();
+
+// Validation schemas
+const createReportSchema = z.object({
+  category: z.enum(REPORT_CATEGORIES),
+  description: z.string().max(2000).optional(),
+  // URLs or excerpts showing the behaviour
+  evidence: z.array(z.string().min(1).max(2000)).max(10).default([]),
+});
+
+reports.use("/:id/reports", platformAuth("reports:manage"));
+
+/**
+ * POST /api/v1/agents/:id/reports
+ * Body: {"category": "spam", "description": "...", "evidence": ["https://..."]}
+ */
+reports.post("/:id/reports", async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const body = await c.req.json();
+    const data = createReportSchema.parse(body);
+
+    const { report, escalated } = await createAgentReport(
+      platform.id,
+      c.req.param("id"),
+      data.category,
+      data.description,
+      data.evidence
+    );
+
+    return c.json({
+      success: true,
+      report,
+      // The agent now waits for admin review
+      escalated,
+    }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("before reporting") || error.message.includes("can report it")) {
+        return c.json({ success: false, error: error.message }, 403);
+      }
+      if (error.message.includes("already has an open")) {
+        return c.json({ success: false, error: error.message }, 409);
+      }
+    }
+    console.error("Agent report error:", error);
+    return c.json({ success: false, error: "Failed to report agent" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/agents/:id/reports
+ * Reports this platform filed on the agent, newest first
+ */
+reports.get("/:id/reports", async (c) => {
+  const platform = c.get("platform");
+
+  const { reports: filed } = await listAgentReports(
+    { agentId: c.req.param("id"), platformId: platform.id },
+    1,
+    100
+  );
+
+  return c.json({ success: true, reports: filed, categories: REPORT_CATEGORIES });
+});
+
+export default reports;
@@ -0,0 +1,28 @@
+/**
+ * Status List Routes (public)
+ * GET /api/v1/status-lists/proofs - Signed revocation status list for proof tokens
+ */
+
+import { Hono } from "hono";
+import { getStatusListToken } from "../services/status-list.service.js";
+
+const statusLists = new Hono();
+
+/**
+ * GET /api/v1/status-lists/proofs
+ * Returns a statuslist+jwt signed with a key from /.well-known/jwks.json.
+ * Send Accept: application/json to get the token wrapped in JSON instead.
+ */
+statusLists.get("/proofs", async (c) => {
+  const { token, ttl } = await getStatusListToken();
+
+  c.header("Cache-Control", `public, max-age=${ttl}`);
+
+  if (c.req.header("Accept")?.includes("application/json")) {
+    return c.json({ success: true, status_list_token: token, ttl });
+  }
+
+  return c.body(token, 200, { "Content-Type": "application/statuslist+jwt" });
+});
+
+export default statusLists;
@@ -1,11 +1,11 @@
 /**
  * Submit Route
  * POST /api/v1/challenges/:id/submit - Submit challenge responses
+ * (creates a new agent, or renews the proof of an existing one)
  * 
  * ANTI-HUMAN MEASURES:
  * - Timing analysis (human-speed submissions flagged)
- * - Dynamic challenge validation (can't pre-memorize answers)
- * - Speed task validation (must fetch in parallel)
+ * - Each response is validated by its task plugin (see src/tasks)
  */
 
 import { Hono } from "hono";
@@ -13,21 +13,13 @@ import { z } from "zod";
 import {
   getChallenge,
   updateChallengeStatus,
-  validateToolUseCompletion,
-  validateReasoningAnswer,
-  validateDynamicAnswer,
-  validateBio,
-  checkBioUniqueness,
-  getExistingBios,
-  storeBio,
-  validateSpeedChallenge,
-  getToolUseStep,
 } from "../services/challenge.service.js";
-import { createVerifiedAgent } from "../services/proof.service.js";
 import {
-  verifyEd25519Signature,
-  createSigningMessage,
-} from "../lib/crypto.js";
+  createVerifiedAgent,
+  renewProof,
+  getAgent,
+} from "../services/proof.service.js";
+import { getTask, getCapabilityTask, type TaskPlugin, type TaskValidationResult } from "../tasks/index.js";
 import {
   generateFingerprint,
   recordCompletionTiming,
@@ -37,45 +29,34 @@ import {
 const submit = new Hono();
 
 // Validation schemas
-const cryptoResponseSchema = z.object({
-  type: z.literal("crypto"),
-  public_key: z.string(),
-  signature: z.string(),
-});
-
-const toolUseResponseSchema = z.object({
-  type: z.literal("tool_use"),
-  completed: z.boolean(),
-  final_value: z.string(),
-});
-
-const speedResponseSchema = z.object({
-  type: z.literal("speed"),
-  combined: z.string(),
-});
+// Each response is checked against the schema of the task plugin named by its type
+const taskResponseSchema = z
+  .object({ type: z.string() })
+  .passthrough()
+  .transform((response, ctx) => {
+    const plugin = getTask(response.type);
+    if (!plugin) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown task type: ${response.type}`,
+        path: ["type"],
+      });
+      return z.NEVER;
+    }
 
-const reasoningResponseSchema = z.object({
-  type: z.literal("reasoning"),
-  line: z.number(),
-  issue: z.string(),
-  fix: z.string().optional(),
-});
+    const parsed = plugin.responseSchema.safeParse(response);
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => ctx.addIssue(issue));
+      return z.NEVER;
+    }
 
-const generationResponseSchema = z.object({
-  type: z.literal("generation"),
-  bio: z.string(),
-});
+    return { plugin, response: parsed.data as { type: string } };
+  });
 
 const submitSchema = z.object({
-  responses: z.array(
-    z.union([
-      cryptoResponseSchema,
-      toolUseResponseSchema,
-      speedResponseSchema,
-      reasoningResponseSchema,
-      generationResponseSchema,
-    ])
-  ),
+  responses: z.array(taskResponseSchema),
+  // Renewals only: mark the agent's other active proofs as superseded
+  supersede_previous: z.boolean().optional().default(false),
 });
 
 interface TaskResult {
@@ -146,145 +127,28 @@ submit.post("/:id/submit", async (c) => {
 
   // Process each response
   const results: TaskResult[] = [];
+  const validated: {
+    plugin: TaskPlugin<any, any>;
+    response: { type: string };
+    result: TaskValidationResult;
+  }[] = [];
   let publicKey: string | undefined;
-  let bio: string | undefined;
-  let speedWasParallel = false;
-
-  for (const response of data.responses) {
-    switch (response.type) {
-      case "crypto": {
-        // Verify Ed25519 signature
-        const message = createSigningMessage(challenge.nonce, challenge.agent_name);
-        const valid = await verifyEd25519Signature(
-          response.public_key,
-          response.signature,
-          message
-        );
-
-        if (valid) {
-          publicKey = response.public_key;
-          results.push({ type: "crypto", passed: true });
-        } else {
-          results.push({
-            type: "crypto",
-            passed: false,
-            error: "Invalid signature",
-          });
-        }
-        break;
-      }
+  let taskMeta: Record<string, unknown> = {};
 
-      case "tool_use": {
-        // Verify tool-use completion (legacy, keeping for backwards compat)
-        const toolResult = await validateToolUseCompletion(challengeId);
-        
-        if (toolResult.passed) {
-          const step3 = await getToolUseStep(challengeId, 3);
-          
-          if (step3 && step3.expectedValue === response.final_value) {
-            results.push({ type: "tool_use", passed: true });
-          } else {
-            results.push({
-              type: "tool_use",
-              passed: false,
-              error: "Incorrect final value",
-            });
-          }
-        } else {
-          results.push({
-            type: "tool_use",
-            passed: false,
-            error: toolResult.error,
-          });
-        }
-        break;
-      }
-      
-      case "speed": {
-        // Validate speed challenge - requires parallel fetching
-        const speedResult = await validateSpeedChallenge(challengeId, response.combined);
-        speedWasParallel = speedResult.wasParallel;
-        
-        results.push({
-          type: "speed",
-          passed: speedResult.passed,
-          error: speedResult.error,
-        });
-        break;
-      }
-
-      case "reasoning": {
-        // Prefer dynamic challenge validation (unique bugs)
-        if (challenge.dynamic_challenge) {
-          const dynamicResult = validateDynamicAnswer(
-            challenge.dynamic_challenge,
-            {
-              line: response.line,
-              issue: response.issue,
-              fix: response.fix,
-            }
-          );
-          
-          results.push({
-            type: "reasoning",
-            passed: dynamicResult.passed,
-            error: dynamicResult.error,
-          });
-        } else if (challenge.reasoning_challenge) {
-          // Fallback to static challenge validation
-          const reasoningResult = validateReasoningAnswer(
-            challenge.reasoning_challenge,
-            {
-              line: response.line,
-              issue: response.issue,
-              fix: response.fix,
-            }
-          );
-
-          results.push({
-            type: "reasoning",
-            passed: reasoningResult.passed,
-            error: reasoningResult.error,
-          });
-        } else {
-          results.push({
-            type: "reasoning",
-            passed: false,
-            error: "Reasoning challenge not found",
-          });
-        }
-        break;
-      }
+  for (const { plugin, response } of data.responses) {
+    const result = await plugin.validate(challenge, response);
 
-      case "generation": {
-        // Validate bio
-        const bioValidation = validateBio(response.bio);
-        if (!bioValidation.valid) {
-          results.push({
-            type: "generation",
-            passed: false,
-            error: bioValidation.error,
-          });
-          break;
-        }
-
-        // Check uniqueness
-        const existingBios = await getExistingBios();
-        const uniquenessResult = checkBioUniqueness(response.bio, existingBios);
-
-        if (!uniquenessResult.unique) {
-          results.push({
-            type: "generation",
-            passed: false,
-            error: `Bio too similar to existing agent (${Math.round(uniquenessResult.similarity! * 100)}% similar)`,
-          });
-        } else {
-          bio = response.bio;
-          results.push({ type: "generation", passed: true });
-        }
-        break;
-      }
+    if (result.passed && result.publicKey) {
+      publicKey = result.publicKey;
     }
+    taskMeta = { ...taskMeta, ...result.meta };
+
+    validated.push({ plugin, response, result });
+    results.push({
+      type: plugin.type,
+      passed: result.passed,
+      error: result.error,
+    });
   }
 
   // Record completion timing for future analysis
@@ -340,32 +204,108 @@ submit.post("/:id/submit", async (c) => {
   try {
     const tasksPassed = results.map((r) => r.type);
 
-    // Parse capabilities from challenge
-    const capabilities: string[] = [];
+    // Only declared capabilities whose task was submitted and passed
+    const capabilities = challenge.capabilities.filter((capability) => {
+      const plugin = getCapabilityTask(capability);
+      return !!plugin && tasksPassed.includes(plugin.type);
+    });
+
+    // Let tasks store what they need for the agent (e.g. the bio)
+    const runVerifiedHooks = async (agentId: string) => {
+      for (const { plugin, response, result } of validated) {
+        if (result.passed && plugin.onVerified) {
+          await plugin.onVerified(agentId, response);
+        }
+      }
+    };
+
+    const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+
+    // Renewal: issue a new proof for the existing agent
+    if (challenge.agent_id) {
+      const existing = await getAgent(challenge.agent_id);
+
+      if (!existing) {
+        return c.json({ success: false, error: "Agent not found" }, 404);
+      }
+
+      if (existing.public_key !== publicKey) {
+        await updateChallengeStatus(challengeId, "failed", undefined, timeTakenMs);
+        return c.json({
+          success: false,
+          error: "Renewal must be signed with the agent's registered public key",
+        }, 403);
+      }
+
+      const { agent, proof, supersededCount } = await renewProof(
+        existing,
+        capabilities,
+        challenge.model_family,
+        challenge.framework,
+        challengeId,
+        challenge.difficulty,
+        tasksPassed,
+        timeTakenMs,
+        data.supersede_previous
+      );
+
+      await runVerifiedHooks(agent.id);
+      await updateChallengeStatus(challengeId, "completed", agent.id, timeTakenMs);
+
+      return c.json({
+        success: true,
+        status: "completed",
+        passed: true,
+        renewed: true,
+        tasks_passed: passed.length,
+        tasks_failed: 0,
+        time_taken_ms: timeTakenMs,
+        results,
+        proof: {
+          id: proof.id,
+          token: proof.token,
+          credential: proof.credential,
+          sd_jwt: proof.sd_jwt,
+          expires_at: proof.expires_at,
+          difficulty: challenge.difficulty,
+        },
+        superseded_proofs: supersededCount,
+        agent: {
+          id: agent.id,
+          name: agent.name,
+          status: agent.status,
+          verified_at: agent.verified_at,
+          profile_url: `${baseUrl}/a/${encodeURIComponent(agent.name)}`,
+          badge_url: `${baseUrl}/badge/${agent.id}.svg`,
+          history_url: `${baseUrl}/api/v1/agents/${agent.id}/proofs`,
+        },
+        timing_assessment: {
+          is_likely_agent: assessment.isLikelyAgent,
+          confidence: assessment.confidence,
+          ...taskMeta,
+        },
+        message: "Proof renewed. Use the new token from now on.",
+      });
+    }
 
     const { agent, proof } = await createVerifiedAgent(
       challenge.agent_name,
       challenge.agent_description,
       publicKey,
       capabilities,
-      undefined, // model_family
-      undefined, // framework
+      challenge.model_family,
+      challenge.framework,
       challengeId,
       challenge.difficulty,
       tasksPassed,
       timeTakenMs
     );
 
-    // Store bio
-    if (bio) {
-      await storeBio(agent.id, bio);
-    }
+    await runVerifiedHooks(agent.id);
 
     // Update challenge status
     await updateChallengeStatus(challengeId, "completed", agent.id, timeTakenMs);
 
-    const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
-
     return c.json({
       success: true,
       status: "completed",
@@ -377,6 +317,8 @@ submit.post("/:id/submit", async (c) => {
       proof: {
         id: proof.id,
         token: proof.token,
+        credential: proof.credential,
+        sd_jwt: proof.sd_jwt,
         expires_at: proof.expires_at,
       },
       agent: {
@@ -391,18 +333,22 @@ submit.post("/:id/submit", async (c) => {
       timing_assessment: {
         is_likely_agent: assessment.isLikelyAgent,
         confidence: assessment.confidence,
-        speed_test_parallel: speedWasParallel,
+        ...taskMeta,
       },
       message: "Congratulations! You are now a verified agent. Share your claim_url with your human owner to complete the verification.",
     });
   } catch (error) {
     console.error("Agent creation error:", error);
     
+    if (error instanceof Error && error.message.includes("Agent status is")) {
+      return c.json({ success: false, error: error.message }, 403);
+    }
+
     if (error instanceof Error && error.message.includes("already exists")) {
       return c.json({
         success: false,
         error: "An agent with this public key already exists",
-        hint: "If this is your agent, you already have a proof token.",
+        hint: "If this is your agent, you already have a proof token. To renew it, create a challenge with your agent_id.",
       }, 409);
     }
 
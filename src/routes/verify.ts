@@ -1,124 +1,240 @@
 /**
  * Verification Routes (for platforms)
- * POST /api/v1/verify - Verify an agent's proof token
+ * POST /api/v1/verify - Verify an agent's proof token (or access/exchanged token)
+ * POST /api/v1/verify/batch - Verify up to 100 tokens in one request
  * GET /api/v1/agents/:id - Get agent info
+ * GET /api/v1/agents/:id/proofs - Get agent verification history
  */
 
 import { Hono } from "hono";
 import { z } from "zod";
-import { verifyProofToken } from "../lib/jwt.js";
-import { getAgent, recordVerification, getProof } from "../services/proof.service.js";
+import { getAgent, getProofHistory } from "../services/proof.service.js";
 import {
-  validateApiKey,
-  incrementVerificationCount,
-  checkRateLimit,
-} from "../services/platform.service.js";
+  verifyTokenForPlatform,
+  verifyTokensForPlatform,
+  getVisibleAgentClaims,
+  type VerifiedToken,
+} from "../services/verification.service.js";
+import { platformAuth } from "../middleware/platform-auth.js";
+import { getClientIp } from "../lib/client-ip.js";
+import { checkRateLimit, type Platform } from "../services/platform.service.js";
+import { getPolicy, evaluatePolicy } from "../services/policy.service.js";
+import { getAgentReputations, type AgentReputation } from "../services/report.service.js";
 
 const verify = new Hono();
 
+// Most tokens accepted by one batch request
+const MAX_BATCH_TOKENS = 100;
+
 // Validation schemas
 const verifySchema = z.object({
   token: z.string(),
+  // Name of one of the platform's verification policies to evaluate
+  policy: z.string().optional(),
+  // Optional DPoP-style signature the agent made over its request to the platform
+  proof_of_possession: z
+    .object({
+      method: z.string().min(1),
+      url: z.string().min(1),
+      timestamp: z.number().int(),
+      nonce: z.string().min(8).max(128),
+      signature: z.string().min(1),
+    })
+    .optional(),
+});
+
+const batchSchema = z.object({
+  tokens: z.array(z.string()).min(1).max(MAX_BATCH_TOKENS),
+  policy: z.string().optional(),
 });
 
 /**
- * Middleware to validate platform API key
+ * Response fields for a valid token
  */
-async function platformAuth(c: any, next: () => Promise<void>) {
-  const apiKey = c.req.header("X-API-Key");
-
-  if (!apiKey) {
-    return c.json(
-      { success: false, error: "Missing API key. Include X-API-Key header." },
-      401
-    );
-  }
-
-  const platform = await validateApiKey(apiKey);
-
-  if (!platform) {
-    return c.json({ success: false, error: "Invalid API key" }, 401);
-  }
-
-  if (!checkRateLimit(platform)) {
-    return c.json({ success: false, error: "Rate limit exceeded" }, 429);
-  }
+function formatVerifiedToken(
+  result: VerifiedToken,
+  platform: Platform,
+  reputation: AgentReputation | undefined
+) {
+  const { agent, payload, session, exchanged, disclosed } = result;
+  const { difficulty, tasks_passed, ...claims } = getVisibleAgentClaims(result);
 
-  // Attach platform to context
-  c.set("platform", platform);
-  await next();
+  return {
+    agent: {
+      id: agent.id,
+      status: agent.status,
+      verified_at: agent.verified_at,
+      ...claims,
+    },
+    proof: {
+      id: payload.jti,
+      issued_at: new Date(payload.iat * 1000).toISOString(),
+      expires_at: new Date(payload.exp * 1000).toISOString(),
+      challenge_difficulty: difficulty,
+      tasks_passed,
+    },
+    // Present when an SD-JWT was verified: only these claims were revealed
+    disclosed_claims: disclosed,
+    owner: {
+      claimed: !!agent.owner_id,
+      // Include owner details if claimed (would need to fetch)
+    },
+    // From verifications across platforms and abuse reports
+    reputation,
+    // The platform this verification is recorded for
+    verified_by: {
+      id: platform.id,
+      name: platform.name,
+      domain: platform.domain,
+      domain_verified: !!platform.domain_verified_at,
+    },
+    // Present when an access token was verified: the agent proved key possession
+    session: session
+      ? {
+          id: session.jti,
+          audience: session.aud,
+          issued_at: new Date(session.iat * 1000).toISOString(),
+          expires_at: new Date(session.exp * 1000).toISOString(),
+        }
+      : undefined,
+    // Present when an exchanged token was verified: only these claims were disclosed
+    exchange: exchanged
+      ? {
+          id: exchanged.jti,
+          audience: exchanged.aud,
+          issued_at: new Date(exchanged.iat * 1000).toISOString(),
+          expires_at: new Date(exchanged.exp * 1000).toISOString(),
+          claims: exchanged.agent,
+        }
+      : undefined,
+  };
 }
 
 /**
  * POST /api/v1/verify
- * Verify an agent's proof token
+ * Verify an agent's proof token, or a short-lived token issued for this
+ * platform by /api/v1/agents/auth or /api/v1/agents/token/exchange.
+ * Tokens bound to another platform are rejected.
  */
-verify.post("/", platformAuth, async (c) => {
-  const platform = (c as any).get("platform") as { id: string; name: string };
+verify.post("/", platformAuth("verify"), async (c) => {
+  const platform = c.get("platform");
 
   try {
     const body = await c.req.json();
     const data = verifySchema.parse(body);
 
-    // Verify the JWT token
-    const result = await verifyProofToken(data.token);
+    const policy = data.policy ? await getPolicy(platform.id, data.policy) : null;
+    if (data.policy && !policy) {
+      return c.json({ success: false, error: `Policy not found: ${data.policy}` }, 400);
+    }
 
-    if (!result.valid || !result.payload) {
+    const result = await verifyTokenForPlatform(
+      data.token,
+      platform.id,
+      { source: "verify", ip: getClientIp(c) },
+      data.proof_of_possession
+    );
+
+    if (!result.valid) {
       return c.json({
         success: false,
         valid: false,
-        error: result.error || "Invalid token",
+        error: result.error,
       });
     }
 
-    // Get agent info
-    const agent = await getAgent(result.payload.sub);
+    const reputations = await getAgentReputations([result.agent.id]);
 
-    if (!agent) {
-      return c.json({
-        success: false,
-        valid: false,
-        error: "Agent not found",
-      });
+    return c.json({
+      success: true,
+      valid: true,
+      ...formatVerifiedToken(result, platform, reputations.get(result.agent.id)),
+      // Present when a policy was named: valid means the token is genuine,
+      // policy.passed whether the agent meets the platform's own rules
+      policy: policy ? evaluatePolicy(policy, result) : undefined,
+      // Present when the platform forwarded a proof-of-possession signature
+      proof_of_possession: data.proof_of_possession
+        ? {
+            verified: true,
+            method: data.proof_of_possession.method.toUpperCase(),
+            url: data.proof_of_possession.url,
+          }
+        : undefined,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    console.error("Verification error:", error);
+    return c.json({ success: false, error: "Verification failed" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/verify/batch
+ * Verify many tokens at once (onboarding, audits). Results come back in the
+ * order the tokens were sent. Each token counts as one request against the
+ * rate limit, and each valid token as one verification.
+ */
+verify.post("/batch", platformAuth("verify"), async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const body = await c.req.json();
+    const data = batchSchema.parse(body);
+
+    const policy = data.policy ? await getPolicy(platform.id, data.policy) : null;
+    if (data.policy && !policy) {
+      return c.json({ success: false, error: `Policy not found: ${data.policy}` }, 400);
     }
 
-    // Check agent status
-    if (agent.status !== "verified") {
-      return c.json({
-        success: false,
-        valid: false,
-        error: `Agent status is ${agent.status}`,
-      });
+    // platformAuth already counted this request as one
+    if (data.tokens.length > 1) {
+      const rateLimit = await checkRateLimit(platform, data.tokens.length - 1);
+      c.header("RateLimit-Limit", String(rateLimit.limit));
+      c.header("RateLimit-Remaining", String(rateLimit.remaining));
+      c.header("RateLimit-Reset", String(rateLimit.reset));
+
+      if (!rateLimit.allowed) {
+        c.header("Retry-After", String(rateLimit.retryAfter));
+        return c.json(
+          {
+            success: false,
+            error: `Rate limit exceeded: a batch of ${data.tokens.length} tokens counts as ${data.tokens.length} requests`,
+            limit: rateLimit.limit,
+            retry_after: rateLimit.retryAfter,
+          },
+          429
+        );
+      }
     }
 
-    // Record the verification
-    await recordVerification(result.payload.jti, platform.id);
-    await incrementVerificationCount(platform.id);
+    const results = await verifyTokensForPlatform(data.tokens, platform.id, {
+      source: "batch",
+      ip: getClientIp(c),
+    });
+
+    const reputations = await getAgentReputations(
+      results.flatMap((result) => (result.valid ? [result.agent.id] : []))
+    );
 
     return c.json({
       success: true,
-      valid: true,
-      agent: {
-        id: agent.id,
-        name: agent.name,
-        description: agent.description,
-        status: agent.status,
-        verified_at: agent.verified_at,
-        capabilities: agent.capabilities,
-        model_family: agent.model_family,
-        framework: agent.framework,
-      },
-      proof: {
-        id: result.payload.jti,
-        issued_at: new Date(result.payload.iat * 1000).toISOString(),
-        expires_at: new Date(result.payload.exp * 1000).toISOString(),
-        challenge_difficulty: result.payload.agp.difficulty,
-        tasks_passed: result.payload.agp.tasks_passed,
-      },
-      owner: {
-        claimed: !!agent.owner_id,
-        // Include owner details if claimed (would need to fetch)
-      },
+      count: results.length,
+      valid_count: results.filter((result) => result.valid).length,
+      results: results.map((result, index) =>
+        result.valid
+          ? {
+              index,
+              valid: true,
+              ...formatVerifiedToken(result, platform, reputations.get(result.agent.id)),
+              policy: policy ? evaluatePolicy(policy, result) : undefined,
+            }
+          : { index, valid: false, error: result.error }
+      ),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -127,7 +243,7 @@ verify.post("/", platformAuth, async (c) => {
         400
       );
     }
-    console.error("Verification error:", error);
+    console.error("Batch verification error:", error);
     return c.json({ success: false, error: "Verification failed" }, 500);
   }
 });
@@ -166,4 +282,25 @@ verify.get("/agents/:id", async (c) => {
   });
 });
 
+/**
+ * GET /api/v1/agents/:id/proofs
+ * Get an agent's verification history (every proof issued, newest first)
+ */
+verify.get("/agents/:id/proofs", async (c) => {
+  const agentId = c.req.param("id");
+  const agent = await getAgent(agentId);
+
+  if (!agent) {
+    return c.json({ success: false, error: "Agent not found" }, 404);
+  }
+
+  const proofs = await getProofHistory(agentId);
+
+  return c.json({
+    success: true,
+    agent_id: agent.id,
+    proofs,
+  });
+});
+
 export default verify;
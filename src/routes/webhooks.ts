@@ -0,0 +1,171 @@
+/**
+ * Webhook Routes (for platforms, API key with webhooks:manage scope)
+ * GET /api/v1/webhooks - List webhook endpoints
+ * POST /api/v1/webhooks - Register a webhook endpoint
+ * DELETE /api/v1/webhooks/:id - Remove a webhook endpoint
+ * POST /api/v1/webhooks/:id/enable - Re-enable an endpoint disabled after failures
+ * GET /api/v1/webhooks/deliveries - Delivery log
+ * POST /api/v1/webhooks/deliveries/:id/replay - Send a delivery again
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { platformAuth, type PlatformApiKeyEnv } from "../middleware/platform-auth.js";
+import {
+  WEBHOOK_EVENTS,
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  deleteWebhookEndpoint,
+  enableWebhookEndpoint,
+  listWebhookDeliveries,
+  replayWebhookDelivery,
+} from "../services/webhook.service.js";
+
+const webhooks = new Hono<PlatformApiKeyEnv>();
+
+// Validation schemas (createEndpointSchema is shared with the platform dashboard routes)
+export const createEndpointSchema = z.object({
+  url: z.string().url(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).default([...WEBHOOK_EVENTS]),
+});
+
+webhooks.use("*", platformAuth("webhooks:manage"));
+
+/**
+ * GET /api/v1/webhooks
+ * List the platform's webhook endpoints
+ */
+webhooks.get("/", async (c) => {
+  const platform = c.get("platform");
+  const endpoints = await listWebhookEndpoints(platform.id);
+
+  return c.json({
+    success: true,
+    endpoints,
+    available_events: WEBHOOK_EVENTS,
+  });
+});
+
+/**
+ * POST /api/v1/webhooks
+ * Register an endpoint. The signing secret is only returned here.
+ */
+webhooks.post("/", async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const body = await c.req.json();
+    const data = createEndpointSchema.parse(body);
+
+    const { endpoint, secret } = await createWebhookEndpoint(platform.id, data.url, data.events);
+
+    return c.json({
+      success: true,
+      endpoint,
+      secret,
+      important: "Save your signing secret. It won't be shown again.",
+      verification:
+        "Each delivery has X-KnowYourClaw-Signature: t=<timestamp>,v1=<hex HMAC-SHA256 of \"<timestamp>.<raw body>\" with your secret>",
+    }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Validation error", details: error.errors },
+        400
+      );
+    }
+    if (error instanceof Error) {
+      if (error.message.includes("Invalid webhook URL")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+      if (error.message.includes("limit reached")) {
+        return c.json({ success: false, error: error.message }, 409);
+      }
+    }
+    console.error("Webhook registration error:", error);
+    return c.json({ success: false, error: "Failed to register webhook" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/webhooks/deliveries
+ * Recent deliveries, newest first (?endpoint_id=, ?limit= up to 100)
+ */
+webhooks.get("/deliveries", async (c) => {
+  const platform = c.get("platform");
+  const endpointId = c.req.query("endpoint_id");
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "50", 10) || 50, 1), 100);
+
+  const deliveries = await listWebhookDeliveries(platform.id, endpointId, limit);
+
+  return c.json({ success: true, deliveries });
+});
+
+/**
+ * POST /api/v1/webhooks/deliveries/:id/replay
+ * Queue a past delivery again
+ */
+webhooks.post("/deliveries/:id/replay", async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const delivery = await replayWebhookDelivery(platform.id, c.req.param("id"));
+    return c.json({ success: true, delivery }, 202);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("disabled")) {
+        return c.json({ success: false, error: error.message }, 409);
+      }
+    }
+    console.error("Webhook replay error:", error);
+    return c.json({ success: false, error: "Failed to replay delivery" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/webhooks/:id
+ * Remove an endpoint and its delivery log
+ */
+webhooks.delete("/:id", async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    await deleteWebhookEndpoint(platform.id, c.req.param("id"));
+    return c.json({ success: true, message: "Webhook endpoint deleted" });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.error("Webhook deletion error:", error);
+    return c.json({ success: false, error: "Failed to delete webhook" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/webhooks/:id/enable
+ * Re-enable an endpoint that was disabled after repeated failed deliveries
+ */
+webhooks.post("/:id/enable", async (c) => {
+  const platform = c.get("platform");
+
+  try {
+    const endpoint = await enableWebhookEndpoint(platform.id, c.req.param("id"));
+    return c.json({ success: true, endpoint });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return c.json({ success: false, error: error.message }, 404);
+      }
+      if (error.message.includes("Invalid webhook URL")) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+    }
+    console.error("Webhook enable error:", error);
+    return c.json({ success: false, error: "Failed to enable webhook" }, 500);
+  }
+});
+
+export default webhooks;
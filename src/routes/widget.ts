@@ -0,0 +1,70 @@
+/**
+ * Widget Routes (public, embeddable)
+ * GET /widget/v1.js - Agent card widget bundle (versioned by major version)
+ * GET /widget/v1/frame/:id - Same card as a page for <iframe> embeds (?theme=light|dark)
+ */
+
+import { Hono } from "hono";
+import * as fs from "fs";
+import * as path from "path";
+
+const widget = new Hono();
+
+const BUNDLE_CACHE_SECONDS = 3600;
+const FRAME_CACHE_SECONDS = 300;
+
+// Agent ids are generated by generateId(); anything else never reaches the page
+const AGENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * GET /widget/:version.js
+ */
+widget.get("/:bundle{v[0-9]+\\.js}", (c) => {
+  try {
+    const filePath = path.join(process.cwd(), "public", "widget", c.req.param("bundle"));
+    const content = fs.readFileSync(filePath, "utf-8");
+    c.header("Cache-Control", `public, max-age=${BUNDLE_CACHE_SECONDS}`);
+    c.header("X-Content-Type-Options", "nosniff");
+    return c.body(content, 200, { "Content-Type": "application/javascript; charset=utf-8" });
+  } catch {
+    return c.notFound();
+  }
+});
+
+/**
+ * GET /widget/:version/frame/:id
+ */
+widget.get("/:version{v[0-9]+}/frame/:id", (c) => {
+  const version = c.req.param("version");
+  const agentId = c.req.param("id");
+  const theme = c.req.query("theme") === "dark" ? "dark" : "light";
+
+  if (!AGENT_ID_PATTERN.test(agentId)) {
+    return c.notFound();
+  }
+  if (!fs.existsSync(path.join(process.cwd(), "public", "widget", `${version}.js`))) {
+    return c.notFound();
+  }
+
+  c.header("Cache-Control", `public, max-age=${FRAME_CACHE_SECONDS}`);
+  // Meant to be framed anywhere, but only runs our own bundle
+  c.header(
+    "Content-Security-Policy",
+    "default-src 'none'; script-src 'self'; connect-src 'self'; style-src 'unsafe-inline'"
+  );
+  return c.html(`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>KnowYourClaw agent card</title>
+<style>html,body{margin:0;background:transparent}</style>
+</head>
+<body>
+<div data-knowyourclaw-agent="${agentId}" data-theme="${theme}"></div>
+<script src="/widget/${version}.js"></script>
+</body>
+</html>`);
+});
+
+export default widget;
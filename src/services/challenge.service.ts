@@ -10,18 +10,18 @@
  */
 
 import { query, queryOne, execute, generateId } from "../db/index.js";
-import { generateNonce, generateToken } from "../lib/crypto.js";
+import { generateNonce } from "../lib/crypto.js";
 import {
-  getRandomChallenge,
   validateReasoningAnswer,
   type ReasoningChallenge,
 } from "../lib/reasoning-challenges.js";
 import { validateBio, checkBioUniqueness, simpleHash } from "../lib/similarity.js";
 import {
-  generateDynamicChallenge,
   validateDynamicAnswer,
   type DynamicChallenge,
 } from "../lib/dynamic-challenges.js";
+import { getDefaultTasks, getCapabilityTask } from "../tasks/registry.js";
+import type { TaskContext } from "../tasks/types.js";
 
 // Challenge time limits by difficulty (in seconds)
 const TIME_LIMITS = {
@@ -32,7 +32,7 @@ const TIME_LIMITS = {
 
 // Types
 export interface ChallengeTask {
-  type: "crypto" | "tool_use" | "reasoning" | "generation" | "speed";
+  type: string; // Registered task plugin type (see src/tasks)
   prompt: string;
   nonce?: string;
   base_url?: string;
@@ -44,6 +44,8 @@ export interface ChallengeTask {
 
 export interface Challenge {
   id: string;
+  // Set at creation for renewals, otherwise once the challenge is completed
+  agent_id?: string;
   agent_name: string;
   agent_description?: string;
   nonce: string;
@@ -53,6 +55,10 @@ export interface Challenge {
   expires_at: string;
   created_at: string;
   time_limit_seconds: number;
+  // Declared by the agent when requesting the challenge
+  capabilities: string[];
+  model_family?: string;
+  framework?: string;
   reasoning_challenge?: ReasoningChallenge;
   dynamic_challenge?: DynamicChallenge;
   // Metadata for anti-human detection
@@ -80,6 +86,9 @@ export interface ChallengeResponse {
  * 2. Dynamic AI-generated code bugs
  * 3. Speed task requiring parallel API calls
  * 4. All tasks designed to be trivial for agents, hard for humans
+ *
+ * Each declared capability adds its matching task, so capabilities
+ * reported to platforms have actually been tested.
  */
 export async function createChallenge(
   agentName: string,
@@ -89,145 +98,69 @@ export async function createChallenge(
   framework?: string,
   difficulty: "easy" | "standard" | "hard" = "standard",
   ipAddress?: string,
-  fingerprint?: string
+  fingerprint?: string,
+  renewAgentId?: string
 ): Promise<Challenge> {
+  capabilities = Array.from(new Set(capabilities));
+  const capabilityTasks = capabilities.map((capability) => {
+    const plugin = getCapabilityTask(capability);
+    if (!plugin) {
+      throw new Error(`Unsupported capability: ${capability}`);
+    }
+    return plugin;
+  });
+
   const challengeId = generateId("ch");
   const nonce = generateNonce(32);
-  
-  // Generate DYNAMIC code bug (unique every time, can't memorize)
-  const dynamicChallenge = generateDynamicChallenge(difficulty);
-  
-  // Fallback to static challenge pool for validation compatibility
-  const reasoningChallenge = getRandomChallenge(difficulty);
 
   // Calculate expiry based on difficulty (30 seconds for standard)
   const timeLimit = TIME_LIMITS[difficulty];
   const expiresAt = new Date(Date.now() + timeLimit * 1000).toISOString();
-  
-  // Generate tool-use challenge values
-  const step1Value = generateToken(8);
-  const step2Token = generateToken(12);
-  const step3Final = generateToken(8);
-  
-  // Generate speed challenge tokens (must be fetched in parallel)
-  const speedTokenA = generateToken(6);
-  const speedTokenB = generateToken(6);
-  const speedTokenC = generateToken(6);
-
-  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
-
-  const tasks: ChallengeTask[] = [
-    {
-      type: "crypto",
-      prompt: `Generate an Ed25519 keypair. Sign the following message using SHA256 and return your public key (base64) and signature (base64).
-
-Message to sign: agentproof:${nonce}:${agentName}
-
-Return JSON: {"public_key": "base64...", "signature": "base64..."}`,
-      nonce,
-    },
-    {
-      type: "speed",
-      prompt: `SPEED TEST: Fetch these 3 endpoints IN PARALLEL and combine their values.
-The server tracks fetch times - sequential fetches will fail.
-
-Endpoints:
-- GET ${baseUrl}/api/v1/challenges/${challengeId}/speed/a
-- GET ${baseUrl}/api/v1/challenges/${challengeId}/speed/b
-- GET ${baseUrl}/api/v1/challenges/${challengeId}/speed/c
 
-Each returns {"token": "..."} - Combine all 3 tokens.
-
-Return JSON: {"combined": "<tokenA><tokenB><tokenC>"}`,
-      base_url: baseUrl,
-      endpoints: [
-        `${baseUrl}/api/v1/challenges/${challengeId}/speed/a`,
-        `${baseUrl}/api/v1/challenges/${challengeId}/speed/b`,
-        `${baseUrl}/api/v1/challenges/${challengeId}/speed/c`,
-      ],
-    },
-    {
-      type: "reasoning",
-      prompt: `Find the bug in this ${dynamicChallenge.language} code:
-
-\`\`\`${dynamicChallenge.language}
-${dynamicChallenge.code}
-\`\`\`
-
-Return JSON: {"line": <line_number>, "issue": "<description of the bug>", "fix": "<suggested fix>"}`,
-      code: dynamicChallenge.code,
-      language: dynamicChallenge.language,
-    },
-    {
-      type: "generation",
-      prompt: `Write a unique 2-3 sentence bio for yourself as an AI agent (50-100 words).
-Be specific about what makes YOU unique. Generic bios will be rejected.
+  const ctx: TaskContext = {
+    challengeId,
+    agentName,
+    nonce,
+    difficulty,
+    baseUrl: process.env.BASE_URL || "https://knowyourclaw.com",
+  };
 
-Return JSON: {"bio": "<your unique bio>"}`,
-    },
-  ];
+  // Each task plugin builds its prompt and any server-side answer data
+  const generated = await Promise.all(
+    [...getDefaultTasks(), ...capabilityTasks].map(async (plugin) => ({ plugin, ...(await plugin.generate(ctx)) }))
+  );
+  const tasks = generated.map((g) => g.task);
 
   // Store challenge in database
   await execute(
-    `INSERT INTO challenges (id, agent_name, agent_description, nonce, difficulty, tasks, status, expires_at, ip_address)
-     VALUES ($1, $2, $3, $4, $5, $6, 'pending', $7, $8)`,
+    `INSERT INTO challenges (id, agent_id, agent_name, agent_description, nonce, difficulty, tasks, capabilities, model_family, framework, status, expires_at, ip_address)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending', $11, $12)`,
     [
       challengeId,
+      renewAgentId,
       agentName,
       agentDescription,
       nonce,
       difficulty,
-      JSON.stringify({ 
-        tasks, 
-        dynamicChallengeId: dynamicChallenge.id,
-        reasoningChallengeId: reasoningChallenge.id,
-        timeLimit,
-      }),
+      JSON.stringify({ tasks, timeLimit }),
+      JSON.stringify(capabilities),
+      modelFamily,
+      framework,
       expiresAt,
       ipAddress,
     ]
   );
 
-  // Store tool-use challenge steps (keeping for backwards compat)
-  await execute(
-    `INSERT INTO challenge_progress (challenge_id, step, expected_value) VALUES ($1, $2, $3)`,
-    [challengeId, 1, step1Value]
-  );
-  await execute(
-    `INSERT INTO challenge_progress (challenge_id, step, expected_value) VALUES ($1, $2, $3)`,
-    [challengeId, 2, step2Token]
-  );
-  await execute(
-    `INSERT INTO challenge_progress (challenge_id, step, expected_value) VALUES ($1, $2, $3)`,
-    [challengeId, 3, step3Final]
-  );
-  
-  // Store speed challenge tokens
-  await execute(
-    `INSERT INTO speed_tokens (challenge_id, token_a, token_b, token_c)
-     VALUES ($1, $2, $3, $4)`,
-    [challengeId, speedTokenA, speedTokenB, speedTokenC]
-  );
-  
-  // Store dynamic challenge for validation
-  await execute(
-    `INSERT INTO dynamic_challenges (id, challenge_id, language, code, answer_line, answer_issue, answer_fix, bug_type, difficulty)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-    [
-      dynamicChallenge.id,
-      challengeId,
-      dynamicChallenge.language,
-      dynamicChallenge.code,
-      dynamicChallenge.answer.line,
-      dynamicChallenge.answer.issue,
-      dynamicChallenge.answer.fix,
-      dynamicChallenge.bugType,
-      dynamicChallenge.difficulty,
-    ]
-  );
+  // Store task answer data (speed tokens, dynamic bugs, ...)
+  for (const { plugin, state } of generated) {
+    if (plugin.persist) {
+      await plugin.persist(ctx, state);
+    }
+  }
 
   return {
     id: challengeId,
+    agent_id: renewAgentId,
     agent_name: agentName,
     agent_description: agentDescription,
     nonce,
@@ -237,8 +170,9 @@ Return JSON: {"bio": "<your unique bio>"}`,
     expires_at: expiresAt,
     created_at: new Date().toISOString(),
     time_limit_seconds: timeLimit,
-    reasoning_challenge: reasoningChallenge,
-    dynamic_challenge: dynamicChallenge,
+    capabilities,
+    model_family: modelFamily,
+    framework,
     ip_address: ipAddress,
     fingerprint,
   };
@@ -287,6 +221,7 @@ export async function getChallenge(challengeId: string): Promise<Challenge | nul
 
   return {
     id: row.id,
+    agent_id: row.agent_id || undefined,
     agent_name: row.agent_name,
     agent_description: row.agent_description,
     nonce: row.nonce,
@@ -296,6 +231,9 @@ export async function getChallenge(challengeId: string): Promise<Challenge | nul
     expires_at: row.expires_at,
     created_at: row.created_at,
     time_limit_seconds: tasksData.timeLimit || 30,
+    capabilities: JSON.parse(row.capabilities || "[]"),
+    model_family: row.model_family,
+    framework: row.framework,
     reasoning_challenge: reasoningChallenge,
     dynamic_challenge: dynamicChallenge,
     ip_address: row.ip_address,
@@ -303,67 +241,34 @@ export async function getChallenge(challengeId: string): Promise<Challenge | nul
 }
 
 /**
- * Get tool-use step data
+ * Store task plugin state for a challenge
  */
-export async function getToolUseStep(
+export async function saveTaskState(
   challengeId: string,
-  step: number
-): Promise<{ expectedValue: string; receivedValue?: string } | null> {
-  const row = await queryOne<any>(
-    "SELECT * FROM challenge_progress WHERE challenge_id = $1 AND step = $2",
-    [challengeId, step]
+  taskType: string,
+  state: unknown
+): Promise<void> {
+  await execute(
+    `INSERT INTO challenge_task_state (challenge_id, task_type, state) VALUES ($1, $2, $3)`,
+    [challengeId, taskType, JSON.stringify(state)]
   );
-
-  if (!row) return null;
-
-  return {
-    expectedValue: row.expected_value,
-    receivedValue: row.received_value,
-  };
 }
 
 /**
- * Mark tool-use step as completed
+ * Get task plugin state for a challenge
  */
-export async function completeToolUseStep(
+export async function getTaskState<T>(
   challengeId: string,
-  step: number,
-  receivedValue: string
-): Promise<boolean> {
-  const result = await execute(
-    `UPDATE challenge_progress 
-     SET received_value = $1, completed_at = NOW()
-     WHERE challenge_id = $2 AND step = $3`,
-    [receivedValue, challengeId, step]
+  taskType: string
+): Promise<T | null> {
+  const row = await queryOne<{ state: string }>(
+    "SELECT state FROM challenge_task_state WHERE challenge_id = $1 AND task_type = $2",
+    [challengeId, taskType]
   );
-  return result.rowCount > 0;
-}
 
-/**
- * Check if all tool-use steps are completed correctly
- */
-export async function validateToolUseCompletion(challengeId: string): Promise<{
-  passed: boolean;
-  error?: string;
-}> {
-  const steps = await query<any>(
-    "SELECT * FROM challenge_progress WHERE challenge_id = $1 ORDER BY step",
-    [challengeId]
-  );
-
-  for (const step of steps) {
-    if (!step.completed_at) {
-      return { passed: false, error: `Step ${step.step} not completed` };
-    }
-  }
-
-  // Check step 3 has correct final value
-  const step3 = steps.find((s) => s.step === 3);
-  if (step3 && step3.received_value !== step3.expected_value) {
-    return { passed: false, error: "Invalid final value from step 3" };
-  }
+  if (!row) return null;
 
-  return { passed: true };
+  return JSON.parse(row.state) as T;
 }
 
 /**
@@ -378,7 +283,7 @@ export async function updateChallengeStatus(
   if (status === "completed" || status === "failed") {
     await execute(
       `UPDATE challenges 
-       SET status = $1, agent_id = $2, completed_at = NOW(), time_taken_ms = $3
+       SET status = $1, agent_id = COALESCE($2, agent_id), completed_at = NOW(), time_taken_ms = $3
        WHERE id = $4`,
       [status, agentId, timeTakenMs, challengeId]
     );
@@ -412,85 +317,4 @@ export async function storeBio(agentId: string, bio: string): Promise<void> {
 // Import for reasoning validation
 import { reasoningChallenges } from "../lib/reasoning-challenges.js";
 
-/**
- * Get speed token for a challenge
- */
-export async function getSpeedToken(
-  challengeId: string,
-  endpoint: "a" | "b" | "c"
-): Promise<{ token: string } | null> {
-  const row = await queryOne<any>(
-    "SELECT * FROM speed_tokens WHERE challenge_id = $1",
-    [challengeId]
-  );
-  
-  if (!row) return null;
-  
-  const tokenKey = `token_${endpoint}` as keyof typeof row;
-  
-  // Record fetch time
-  await execute(
-    `UPDATE speed_tokens SET fetch_${endpoint}_at = NOW() WHERE challenge_id = $1`,
-    [challengeId]
-  );
-  
-  return { token: row[tokenKey] };
-}
-
-/**
- * Validate speed challenge - tokens must be fetched in parallel (within 2 seconds of each other)
- */
-export async function validateSpeedChallenge(
-  challengeId: string,
-  submittedCombined: string
-): Promise<{ passed: boolean; error?: string; wasParallel: boolean }> {
-  const row = await queryOne<any>(
-    "SELECT * FROM speed_tokens WHERE challenge_id = $1",
-    [challengeId]
-  );
-  
-  if (!row) {
-    return { passed: false, error: "Speed challenge not found", wasParallel: false };
-  }
-  
-  // Check if all tokens were fetched
-  if (!row.fetch_a_at || !row.fetch_b_at || !row.fetch_c_at) {
-    return { 
-      passed: false, 
-      error: "Not all speed endpoints were fetched",
-      wasParallel: false,
-    };
-  }
-  
-  // Check if combined value is correct
-  const expectedCombined = `${row.token_a}${row.token_b}${row.token_c}`;
-  if (submittedCombined !== expectedCombined) {
-    return { 
-      passed: false, 
-      error: "Incorrect combined token value",
-      wasParallel: false,
-    };
-  }
-  
-  // Check if fetches were parallel (within 2 seconds of each other)
-  const fetchTimes = [
-    new Date(row.fetch_a_at).getTime(),
-    new Date(row.fetch_b_at).getTime(),
-    new Date(row.fetch_c_at).getTime(),
-  ];
-  
-  const maxDiff = Math.max(...fetchTimes) - Math.min(...fetchTimes);
-  const wasParallel = maxDiff < 2000; // 2 second tolerance
-  
-  if (!wasParallel) {
-    return {
-      passed: false,
-      error: `Speed endpoints must be fetched in parallel. Your fetches were ${Math.round(maxDiff / 1000)}s apart.`,
-      wasParallel: false,
-    };
-  }
-  
-  return { passed: true, wasParallel: true };
-}
-
 export { validateReasoningAnswer, validateBio, checkBioUniqueness, validateDynamicAnswer };
@@ -0,0 +1,169 @@
+/**
+ * Domain Verification Service
+ * Platforms prove they control the domain they registered with by publishing
+ * a token in a DNS TXT record or at a well-known URL on the domain.
+ *
+ * DNS and HTTP go through a DomainLookup, so tests can pass a local stand-in.
+ */
+
+import { promises as dns } from "dns";
+import { queryOne, execute } from "../db/index.js";
+import { generateToken } from "../lib/crypto.js";
+
+export interface DomainLookup {
+  // TXT records for a hostname (each record is a list of strings)
+  resolveTxt(hostname: string): Promise<string[][]>;
+  // Body of an HTTPS URL, or null if it could not be fetched
+  fetchText(url: string): Promise<string | null>;
+}
+
+const TXT_RECORD_PREFIX = "knowyourclaw-verification=";
+const WELL_KNOWN_PATH = "/.well-known/knowyourclaw-verification";
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_FILE_BYTES = 1024;
+
+export const defaultDomainLookup: DomainLookup = {
+  async resolveTxt(hostname) {
+    try {
+      return await dns.resolveTxt(hostname);
+    } catch {
+      return [];
+    }
+  },
+
+  async fetchText(url) {
+    try {
+      const response = await fetch(url, {
+        redirect: "manual",
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) return null;
+      const text = await response.text();
+      return text.slice(0, MAX_FILE_BYTES);
+    } catch {
+      return null;
+    }
+  },
+};
+
+/**
+ * Reduce a registered domain ("https://Example.com/path") to its hostname
+ */
+export function normalizeDomain(domain: string): string | null {
+  try {
+    const hostname = new URL(domain.includes("://") ? domain : `https://${domain}`).hostname;
+    // Must look like a public DNS name, not an IP or single label
+    if (!/^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/.test(hostname)) {
+      return null;
+    }
+    return hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get (or create) the platform's verification token and publishing instructions
+ */
+export async function startDomainVerification(platformId: string): Promise<{
+  domain: string;
+  token: string;
+  verified_at?: string;
+  txt_record: { name: string; value: string };
+  well_known_url: string;
+}> {
+  const platform = await queryOne<any>(
+    "SELECT id, domain, domain_verification_token, domain_verified_at FROM platforms WHERE id = $1",
+    [platformId]
+  );
+  if (!platform) {
+    throw new Error("Platform not found");
+  }
+
+  const domain = platform.domain ? normalizeDomain(platform.domain) : null;
+  if (!domain) {
+    throw new Error("Platform has no valid domain to verify");
+  }
+
+  let token: string = platform.domain_verification_token;
+  if (!token) {
+    token = generateToken(24);
+    await execute(
+      "UPDATE platforms SET domain_verification_token = $1, updated_at = NOW() WHERE id = $2",
+      [token, platformId]
+    );
+  }
+
+  return {
+    domain,
+    token,
+    verified_at: platform.domain_verified_at || undefined,
+    txt_record: { name: `_knowyourclaw.${domain}`, value: `${TXT_RECORD_PREFIX}${token}` },
+    well_known_url: `https://${domain}${WELL_KNOWN_PATH}`,
+  };
+}
+
+/**
+ * Look for the token in DNS, then at the well-known URL, and record success
+ * Other platforms with an unverified claim on the same domain lose it.
+ */
+export async function verifyPlatformDomain(
+  platformId: string,
+  lookup: DomainLookup = defaultDomainLookup
+): Promise<{ domain: string; method: "dns" | "http"; verified_at: string }> {
+  const platform = await queryOne<any>(
+    "SELECT id, domain, domain_verification_token FROM platforms WHERE id = $1",
+    [platformId]
+  );
+  if (!platform) {
+    throw new Error("Platform not found");
+  }
+
+  const domain = platform.domain ? normalizeDomain(platform.domain) : null;
+  if (!domain) {
+    throw new Error("Platform has no valid domain to verify");
+  }
+
+  const token: string | null = platform.domain_verification_token;
+  if (!token) {
+    throw new Error("Domain verification not started");
+  }
+
+  const expected = `${TXT_RECORD_PREFIX}${token}`;
+  let method: "dns" | "http" | null = null;
+
+  for (const hostname of [`_knowyourclaw.${domain}`, domain]) {
+    const records = await lookup.resolveTxt(hostname);
+    if (records.some((chunks) => chunks.join("").trim() === expected)) {
+      method = "dns";
+      break;
+    }
+  }
+
+  if (!method) {
+    const body = await lookup.fetchText(`https://${domain}${WELL_KNOWN_PATH}`);
+    if (body !== null && body.trim() === token) {
+      method = "http";
+    }
+  }
+
+  if (!method) {
+    throw new Error(`Verification token not found for ${domain}`);
+  }
+
+  const row = await queryOne<{ domain_verified_at: string }>(
+    `UPDATE platforms SET domain = $1, domain_verified_at = NOW(), updated_at = NOW()
+     WHERE id = $2
+     RETURNING domain_verified_at`,
+    [domain, platformId]
+  );
+
+  // The domain now belongs to this platform
+  await execute(
+    `UPDATE platforms SET domain = NULL, domain_verification_token = NULL, updated_at = NOW()
+     WHERE id != $1 AND domain_verified_at IS NULL AND (domain = $2 OR domain = $3)`,
+    [platformId, domain, platform.domain]
+  );
+
+  return { domain, method, verified_at: row!.domain_verified_at };
+}
@@ -0,0 +1,147 @@
+/**
+ * Key Service
+ * Handles agent key rotation and key history
+ */
+
+import { query, queryOne, execute, withTransaction } from "../db/index.js";
+import { verifyEd25519Signature, createKeyRotationMessage } from "../lib/crypto.js";
+import { getAgent, reissueProofs, type Agent, type Proof } from "./proof.service.js";
+
+// How far a rotation request timestamp may drift from server time
+const ROTATION_MAX_SKEW_SECONDS = 5 * 60;
+
+export interface AgentKey {
+  public_key: string;
+  status: string;
+  created_at: string;
+  rotated_at?: string;
+  compromised_at?: string;
+}
+
+/**
+ * Rotate an agent's public key
+ * The rotation message must be signed by both the current key and the new key.
+ * If the current key is marked compromised, proofs issued under it are revoked
+ * and tokens carrying it are rejected by /api/v1/verify.
+ */
+export async function rotateAgentKey(
+  agentId: string,
+  newPublicKey: string,
+  timestamp: number,
+  oldSignature: string,
+  newSignature: string,
+  compromised: boolean = false
+): Promise<{ agent: Agent; proofs: Proof[] }> {
+  const agent = await getAgent(agentId);
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  if (agent.status !== "verified") {
+    throw new Error(`Agent status is ${agent.status}`);
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > ROTATION_MAX_SKEW_SECONDS) {
+    throw new Error("Rotation timestamp is too old or in the future");
+  }
+
+  if (newPublicKey === agent.public_key) {
+    throw new Error("New public key must differ from the current key");
+  }
+
+  // Keys can never be reused, by this agent or any other
+  const keyInUse = await queryOne<{ id: number }>(
+    `SELECT id FROM agent_keys WHERE public_key = $1
+     UNION ALL
+     SELECT 1 FROM agents WHERE public_key = $1`,
+    [newPublicKey]
+  );
+  if (keyInUse) {
+    throw new Error("This public key has already been used");
+  }
+
+  const message = createKeyRotationMessage(agentId, newPublicKey, timestamp);
+
+  const oldValid = await verifyEd25519Signature(agent.public_key, oldSignature, message);
+  if (!oldValid) {
+    throw new Error("Invalid signature from current key");
+  }
+
+  const newValid = await verifyEd25519Signature(newPublicKey, newSignature, message);
+  if (!newValid) {
+    throw new Error("Invalid signature from new key");
+  }
+
+  // Key history, the agent's key and its proofs change together or not at all
+  const proofs = await withTransaction(async () => {
+    // Only one rotation can move the agent off its current key
+    const { rowCount } = await execute(
+      "UPDATE agents SET public_key = $1, updated_at = NOW() WHERE id = $2 AND public_key = $3",
+      [newPublicKey, agentId, agent.public_key]
+    );
+    if (rowCount === 0) {
+      throw new Error("Agent key changed during rotation");
+    }
+
+    // Agents created before key history existed have no row for their current key
+    await execute(
+      `INSERT INTO agent_keys (agent_id, public_key, status, created_at)
+       VALUES ($1, $2, 'active', $3)
+       ON CONFLICT (public_key) DO NOTHING`,
+      [agentId, agent.public_key, agent.verified_at || agent.created_at]
+    );
+
+    if (compromised) {
+      await execute(
+        `UPDATE agent_keys SET status = 'compromised', rotated_at = NOW(), compromised_at = NOW()
+         WHERE public_key = $1`,
+        [agent.public_key]
+      );
+    } else {
+      await execute(
+        `UPDATE agent_keys SET status = 'rotated', rotated_at = NOW() WHERE public_key = $1`,
+        [agent.public_key]
+      );
+    }
+
+    await execute(
+      `INSERT INTO agent_keys (agent_id, public_key, status) VALUES ($1, $2, 'active')`,
+      [agentId, newPublicKey]
+    );
+
+    return reissueProofs(agentId, newPublicKey, compromised);
+  });
+
+  return { agent: { ...agent, public_key: newPublicKey }, proofs };
+}
+
+/**
+ * Get an agent's key history (newest first)
+ */
+export async function getKeyHistory(agentId: string): Promise<AgentKey[]> {
+  const rows = await query<any>(
+    `SELECT public_key, status, created_at, rotated_at, compromised_at
+     FROM agent_keys WHERE agent_id = $1
+     ORDER BY created_at DESC`,
+    [agentId]
+  );
+
+  return rows.map((row) => ({
+    public_key: row.public_key,
+    status: row.status,
+    created_at: row.created_at,
+    rotated_at: row.rotated_at || undefined,
+    compromised_at: row.compromised_at || undefined,
+  }));
+}
+
+/**
+ * Check whether a public key has been marked compromised
+ */
+export async function isKeyCompromised(publicKey: string): Promise<boolean> {
+  const row = await queryOne<{ status: string }>(
+    "SELECT status FROM agent_keys WHERE public_key = $1",
+    [publicKey]
+  );
+  return row?.status === "compromised";
+}
@@ -0,0 +1,314 @@
+/**
+ * OAuth Service
+ * "Sign in with KnowYourClaw": an OAuth 2.0 authorization-code flow with PKCE
+ * and OpenID Connect ID tokens. Platforms are the clients (client_id is the
+ * platform id); agents approve a request by signing a server nonce with their
+ * registered key instead of entering a password.
+ */
+
+import { createHash } from "crypto";
+import { queryOne, execute, generateId } from "../db/index.js";
+import {
+  generateNonce,
+  generateToken,
+  createAuthorizationMessage,
+  verifyEd25519Signature,
+} from "../lib/crypto.js";
+import { signIdToken, signAccessToken, verifyAccessToken, decodeToken } from "../lib/jwt.js";
+import { getAgent, getProofByAgentId, type Agent } from "./proof.service.js";
+import { getPlatform, validateApiKey } from "./platform.service.js";
+
+const AUTHORIZATION_REQUEST_EXPIRY_SECONDS = 10 * 60;
+const AUTHORIZATION_CODE_EXPIRY_SECONDS = 60;
+const OAUTH_TOKEN_EXPIRY_SECONDS = parseInt(
+  process.env.OAUTH_TOKEN_EXPIRY_SECONDS || "3600",
+  10
+);
+
+export const SUPPORTED_SCOPES = ["openid", "profile", "agent"];
+
+export interface AuthorizationRequestParams {
+  responseType: string;
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  state?: string;
+  nonce?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+}
+
+function hashCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+/**
+ * Claims released for the granted scopes
+ */
+function claimsForScope(agent: Agent, scope: string): Record<string, unknown> {
+  const scopes = scope.split(" ");
+  const claims: Record<string, unknown> = {};
+
+  if (scopes.includes("profile")) {
+    claims.name = agent.name;
+  }
+
+  if (scopes.includes("agent")) {
+    claims.agent_status = agent.status;
+    claims.verified_at = agent.verified_at;
+    claims.capabilities = agent.capabilities;
+    claims.model_family = agent.model_family;
+    claims.framework = agent.framework;
+    claims.public_key = agent.public_key;
+  }
+
+  return claims;
+}
+
+/**
+ * Start an authorization request (GET /oauth/authorize)
+ * Returns the message the agent must sign to approve it.
+ */
+export async function createAuthorizationRequest(params: AuthorizationRequestParams): Promise<{
+  requestId: string;
+  client: { id: string; name: string; domain?: string; domain_verified: boolean };
+  scope: string;
+  message: string;
+  expiresAt: string;
+}> {
+  // Client and redirect URI are checked first: errors before this point must
+  // never be sent to an unverified redirect URI
+  const platform = await getPlatform(params.clientId);
+  if (!platform || platform.status !== "active") {
+    throw new Error("Unknown client");
+  }
+
+  if (!platform.redirect_uris?.includes(params.redirectUri)) {
+    throw new Error("Redirect URI is not registered for this client");
+  }
+
+  if (params.responseType !== "code") {
+    throw new Error("unsupported_response_type: only response_type=code is supported");
+  }
+
+  const scopes = params.scope.split(" ").filter(Boolean);
+  if (!scopes.includes("openid")) {
+    throw new Error("invalid_scope: the openid scope is required");
+  }
+  const unsupported = scopes.find((scope) => !SUPPORTED_SCOPES.includes(scope));
+  if (unsupported) {
+    throw new Error(`invalid_scope: unsupported scope ${unsupported}`);
+  }
+
+  if (!params.codeChallenge || params.codeChallengeMethod !== "S256") {
+    throw new Error("invalid_request: PKCE with code_challenge_method=S256 is required");
+  }
+
+  const requestId = generateId("authz");
+  const serverNonce = generateNonce(32);
+  const scope = [...new Set(scopes)].join(" ");
+  const expiresAt = new Date(Date.now() + AUTHORIZATION_REQUEST_EXPIRY_SECONDS * 1000).toISOString();
+
+  await execute(
+    `INSERT INTO oauth_authorizations
+     (id, platform_id, redirect_uri, scope, state, oidc_nonce, code_challenge, server_nonce, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      requestId,
+      platform.id,
+      params.redirectUri,
+      scope,
+      params.state,
+      params.nonce,
+      params.codeChallenge,
+      serverNonce,
+      expiresAt,
+    ]
+  );
+
+  return {
+    requestId,
+    // Agents should only trust the domain shown if it is verified
+    client: {
+      id: platform.id,
+      name: platform.name,
+      domain: platform.domain,
+      domain_verified: !!platform.domain_verified_at,
+    },
+    scope,
+    message: createAuthorizationMessage(requestId, platform.id, serverNonce),
+    expiresAt,
+  };
+}
+
+/**
+ * Approve an authorization request with the agent's key signature
+ * Returns where to send the agent back to, with a single-use code.
+ */
+export async function approveAuthorizationRequest(
+  requestId: string,
+  agentId: string,
+  signature: string
+): Promise<{ redirectUri: string; code: string; state?: string }> {
+  const request = await queryOne<any>(
+    `SELECT * FROM oauth_authorizations
+     WHERE id = $1 AND approved_at IS NULL AND expires_at > NOW()`,
+    [requestId]
+  );
+  if (!request) {
+    throw new Error("Authorization request not found or expired");
+  }
+
+  const agent = await getAgent(agentId);
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  if (agent.status !== "verified") {
+    throw new Error(`Agent status is ${agent.status}`);
+  }
+
+  const valid = await verifyEd25519Signature(
+    agent.public_key,
+    signature,
+    createAuthorizationMessage(request.id, request.platform_id, request.server_nonce)
+  );
+  if (!valid) {
+    throw new Error("Invalid signature");
+  }
+
+  const proof = await getProofByAgentId(agentId);
+  if (!proof || new Date(proof.expires_at) < new Date()) {
+    throw new Error("Agent has no active proof");
+  }
+
+  const code = generateToken(32);
+  const codeExpiresAt = new Date(Date.now() + AUTHORIZATION_CODE_EXPIRY_SECONDS * 1000).toISOString();
+
+  // Approve at most once, even under concurrent requests
+  const { rowCount } = await execute(
+    `UPDATE oauth_authorizations
+     SET agent_id = $1, code_hash = $2, approved_at = NOW(), expires_at = $3
+     WHERE id = $4 AND approved_at IS NULL`,
+    [agentId, hashCode(code), codeExpiresAt, request.id]
+  );
+  if (rowCount === 0) {
+    throw new Error("Authorization request not found or expired");
+  }
+
+  return { redirectUri: request.redirect_uri, code, state: request.state || undefined };
+}
+
+/**
+ * Exchange an authorization code for an ID token and access token (POST /oauth/token)
+ * Client authentication with the platform API key is optional (public clients
+ * rely on PKCE alone), but a supplied secret must be valid.
+ */
+export async function exchangeAuthorizationCode(params: {
+  code: string;
+  clientId: string;
+  redirectUri: string;
+  codeVerifier: string;
+  clientSecret?: string;
+}): Promise<{
+  idToken: string;
+  accessToken: string;
+  expiresIn: number;
+  scope: string;
+}> {
+  if (params.clientSecret) {
+    const platform = await validateApiKey(params.clientSecret);
+    if (!platform || platform.id !== params.clientId) {
+      throw new Error("invalid_client: client authentication failed");
+    }
+  }
+
+  // Codes are single use: consume before checking anything else
+  const request = await queryOne<any>(
+    `UPDATE oauth_authorizations SET used_at = NOW()
+     WHERE code_hash = $1 AND used_at IS NULL AND approved_at IS NOT NULL
+     RETURNING *`,
+    [hashCode(params.code)]
+  );
+  if (!request || new Date(request.expires_at) < new Date()) {
+    throw new Error("invalid_grant: authorization code is invalid or expired");
+  }
+
+  if (request.platform_id !== params.clientId) {
+    throw new Error("invalid_grant: code was issued to another client");
+  }
+
+  if (request.redirect_uri !== params.redirectUri) {
+    throw new Error("invalid_grant: redirect_uri does not match the authorization request");
+  }
+
+  const challenge = createHash("sha256").update(params.codeVerifier).digest("base64url");
+  if (challenge !== request.code_challenge) {
+    throw new Error("invalid_grant: code_verifier does not match the code challenge");
+  }
+
+  const agent = await getAgent(request.agent_id);
+  if (!agent || agent.status !== "verified") {
+    throw new Error("invalid_grant: agent is no longer verified");
+  }
+
+  const proof = await getProofByAgentId(agent.id);
+  if (!proof || new Date(proof.expires_at) < new Date()) {
+    throw new Error("invalid_grant: agent has no active proof");
+  }
+
+  const authTime = Math.floor(new Date(request.approved_at).getTime() / 1000);
+
+  const idToken = await signIdToken(
+    agent.id,
+    request.platform_id,
+    {
+      auth_time: authTime,
+      ...(request.oidc_nonce ? { nonce: request.oidc_nonce } : {}),
+      ...claimsForScope(agent, request.scope),
+    },
+    OAUTH_TOKEN_EXPIRY_SECONDS
+  );
+
+  const accessToken = await signAccessToken(
+    agent.id,
+    request.platform_id,
+    generateId("ses"),
+    { proof_id: proof.id, public_key: agent.public_key, scope: request.scope },
+    OAUTH_TOKEN_EXPIRY_SECONDS
+  );
+
+  return {
+    idToken,
+    accessToken,
+    expiresIn: OAUTH_TOKEN_EXPIRY_SECONDS,
+    scope: request.scope,
+  };
+}
+
+/**
+ * Claims for an OAuth access token (GET /oauth/userinfo)
+ */
+export async function getUserInfo(accessToken: string): Promise<Record<string, unknown>> {
+  // The token names its own audience; verifyAccessToken still checks the signature
+  const audience = decodeToken<{ aud?: string }>(accessToken)?.payload.aud;
+  if (typeof audience !== "string") {
+    throw new Error("invalid_token: malformed access token");
+  }
+
+  const result = await verifyAccessToken(accessToken, audience);
+  if (!result.valid || !result.payload) {
+    throw new Error(`invalid_token: ${result.error || "invalid access token"}`);
+  }
+
+  if (!result.payload.scope?.split(" ").includes("openid")) {
+    throw new Error("insufficient_scope: token was not issued with the openid scope");
+  }
+
+  const agent = await getAgent(result.payload.sub);
+  if (!agent || agent.status !== "verified") {
+    throw new Error("invalid_token: agent is no longer verified");
+  }
+
+  return { sub: agent.id, ...claimsForScope(agent, result.payload.scope) };
+}
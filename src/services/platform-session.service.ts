@@ -0,0 +1,212 @@
+/**
+ * Platform Session Service
+ * Dashboard sign-in for platform owners: a one-time link is emailed to the
+ * platform's contact address and traded for a session token. That address is
+ * the only sign-in factor, so changing it takes a link sent to the new address.
+ * Only hashes of links and session tokens are stored.
+ */
+
+import * as crypto from "crypto";
+import { queryOne, execute } from "../db/index.js";
+import { getPlatform, type Platform } from "./platform.service.js";
+
+const LOGIN_LINK_EXPIRY_MINUTES = 15;
+// Unused links a platform may have outstanding at once
+const MAX_PENDING_LOGIN_LINKS = 3;
+const EMAIL_CHANGE_LINK_EXPIRY_MINUTES = 60;
+const SESSION_EXPIRY_HOURS = parseInt(process.env.PLATFORM_SESSION_EXPIRY_HOURS || "24", 10);
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create a sign-in link token for the active platform with this contact email
+ * Returns null when there is no such platform, so callers can answer the same
+ * way whether or not the address is registered.
+ */
+export async function requestPlatformLogin(
+  email: string
+): Promise<{ platform: Platform; loginToken: string; expiresInMinutes: number } | null> {
+  const row = await queryOne<{ id: string }>(
+    "SELECT id FROM platforms WHERE contact_email = $1 AND status = 'active'",
+    [email]
+  );
+  if (!row) {
+    return null;
+  }
+
+  await execute(
+    "DELETE FROM platform_login_tokens WHERE platform_id = $1 AND (expires_at < NOW() OR used_at IS NOT NULL)",
+    [row.id]
+  );
+
+  const pending = await queryOne<{ count: string }>(
+    "SELECT COUNT(*) AS count FROM platform_login_tokens WHERE platform_id = $1",
+    [row.id]
+  );
+  if (parseInt(pending?.count || "0", 10) >= MAX_PENDING_LOGIN_LINKS) {
+    throw new Error("Too many sign-in links requested. Use the latest email or try again later.");
+  }
+
+  const loginToken = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + LOGIN_LINK_EXPIRY_MINUTES * 60 * 1000).toISOString();
+
+  await execute(
+    "INSERT INTO platform_login_tokens (token_hash, platform_id, expires_at) VALUES ($1, $2, $3)",
+    [hashToken(loginToken), row.id, expiresAt]
+  );
+
+  const platform = await getPlatform(row.id);
+  return { platform: platform!, loginToken, expiresInMinutes: LOGIN_LINK_EXPIRY_MINUTES };
+}
+
+/**
+ * Trade a sign-in link token (single use) for a session
+ */
+export async function completePlatformLogin(
+  loginToken: string,
+  ip?: string
+): Promise<{ sessionToken: string; expiresAt: string; platform: Platform }> {
+  const used = await queryOne<{ platform_id: string }>(
+    `UPDATE platform_login_tokens SET used_at = NOW()
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING platform_id`,
+    [hashToken(loginToken)]
+  );
+  if (!used) {
+    throw new Error("Invalid or expired sign-in link");
+  }
+
+  const platform = await getPlatform(used.platform_id);
+  if (!platform || platform.status !== "active") {
+    throw new Error("Platform is not active");
+  }
+
+  const sessionToken = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_EXPIRY_HOURS * 60 * 60 * 1000).toISOString();
+
+  await execute(
+    "INSERT INTO platform_sessions (token_hash, platform_id, ip, expires_at) VALUES ($1, $2, $3, $4)",
+    [hashToken(sessionToken), platform.id, ip ?? null, expiresAt]
+  );
+
+  return { sessionToken, expiresAt, platform };
+}
+
+/**
+ * Platform for a session token, or null if the session is unknown, expired,
+ * or its platform is no longer active
+ */
+export async function getSessionPlatform(sessionToken: string): Promise<Platform | null> {
+  const session = await queryOne<{ platform_id: string }>(
+    "SELECT platform_id FROM platform_sessions WHERE token_hash = $1 AND expires_at > NOW()",
+    [hashToken(sessionToken)]
+  );
+  if (!session) return null;
+
+  const platform = await getPlatform(session.platform_id);
+  if (!platform || platform.status !== "active") return null;
+
+  // Track activity, at most once a minute (don't block the request)
+  execute(
+    `UPDATE platform_sessions SET last_used_at = NOW()
+     WHERE token_hash = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute')`,
+    [hashToken(sessionToken)]
+  ).catch(console.error);
+
+  return platform;
+}
+
+/**
+ * End a session (sign out)
+ */
+export async function endPlatformSession(sessionToken: string): Promise<void> {
+  await execute("DELETE FROM platform_sessions WHERE token_hash = $1", [hashToken(sessionToken)]);
+}
+
+/**
+ * End every session of a platform, except optionally the current one
+ */
+export async function endAllPlatformSessions(platformId: string, exceptToken?: string): Promise<void> {
+  await execute(
+    "DELETE FROM platform_sessions WHERE platform_id = $1 AND token_hash != $2",
+    [platformId, exceptToken ? hashToken(exceptToken) : ""]
+  );
+}
+
+/**
+ * Start a contact email change: returns the token for the confirmation link
+ * sent to the new address. Only the latest requested change can be confirmed.
+ */
+export async function requestContactEmailChange(
+  platformId: string,
+  newEmail: string
+): Promise<{ changeToken: string; expiresInMinutes: number }> {
+  const existingEmail = await queryOne<{ id: string }>(
+    "SELECT id FROM platforms WHERE contact_email = $1 AND id != $2",
+    [newEmail, platformId]
+  );
+  if (existingEmail) {
+    throw new Error("A platform with this email already exists");
+  }
+
+  await execute("DELETE FROM platform_email_changes WHERE platform_id = $1", [platformId]);
+
+  const changeToken = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + EMAIL_CHANGE_LINK_EXPIRY_MINUTES * 60 * 1000).toISOString();
+
+  await execute(
+    "INSERT INTO platform_email_changes (token_hash, platform_id, new_email, expires_at) VALUES ($1, $2, $3, $4)",
+    [hashToken(changeToken), platformId, newEmail, expiresAt]
+  );
+
+  return { changeToken, expiresInMinutes: EMAIL_CHANGE_LINK_EXPIRY_MINUTES };
+}
+
+/**
+ * Drop a platform's pending contact email change
+ */
+export async function cancelContactEmailChange(platformId: string): Promise<void> {
+  await execute("DELETE FROM platform_email_changes WHERE platform_id = $1", [platformId]);
+}
+
+/**
+ * Apply a contact email change from its confirmation link (single use)
+ * Every session ends: the owner signs in again with the new address.
+ */
+export async function confirmContactEmailChange(
+  changeToken: string
+): Promise<{ platform: Platform; previousEmail: string }> {
+  const change = await queryOne<{ platform_id: string; new_email: string }>(
+    `UPDATE platform_email_changes SET used_at = NOW()
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING platform_id, new_email`,
+    [hashToken(changeToken)]
+  );
+  if (!change) {
+    throw new Error("Invalid or expired confirmation link");
+  }
+
+  const platform = await getPlatform(change.platform_id);
+  if (!platform || platform.status !== "active") {
+    throw new Error("Platform is not active");
+  }
+
+  const existingEmail = await queryOne<{ id: string }>(
+    "SELECT id FROM platforms WHERE contact_email = $1 AND id != $2",
+    [change.new_email, platform.id]
+  );
+  if (existingEmail) {
+    throw new Error("A platform with this email already exists");
+  }
+
+  await execute(
+    "UPDATE platforms SET contact_email = $1, updated_at = NOW() WHERE id = $2",
+    [change.new_email, platform.id]
+  );
+  await execute("DELETE FROM platform_email_changes WHERE platform_id = $1", [platform.id]);
+  await endAllPlatformSessions(platform.id);
+
+  return { platform: { ...platform, contact_email: change.new_email }, previousEmail: platform.contact_email };
+}
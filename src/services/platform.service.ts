@@ -1,10 +1,12 @@
 /**
  * Platform Service
- * Handles platform registration, email verification, and API key management
+ * Handles platform registration, email verification, account settings and
+ * API key management
  */
 
-import { query, queryOne, execute, generateId } from "../db/index.js";
+import { query, queryOne, execute, generateId, withTransaction } from "../db/index.js";
 import { generateApiKey, hashApiKey } from "../lib/crypto.js";
+import { normalizeDomain } from "./domain-verification.service.js";
 import * as crypto from "crypto";
 
 export interface Platform {
@@ -13,15 +15,76 @@ export interface Platform {
   domain?: string;
   contact_email: string;
   tier: string;
-  rate_limit: number;
+  // Admin override in requests per minute; null uses the tier limit
+  rate_limit: number | null;
   status: string;
   email_verified_at?: string;
+  // Set once the platform proved it controls `domain`
+  domain_verified_at?: string;
   verifications_count: number;
-  verifications_this_month: number;
+  // OAuth redirect URIs for "Sign in with KnowYourClaw" (client_id is the platform id)
+  redirect_uris?: string[];
   created_at: string;
 }
 
+// What an API key may be used for
+export const API_KEY_SCOPES = [
+  "verify",
+  "introspect",
+  "keys:manage",
+  "oauth:manage",
+  "webhooks:manage",
+  "domains:manage",
+  "policies:manage",
+  "usage:read",
+  "reports:manage",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Stored scopes of default keys: every scope, including ones added later
+const ALL_SCOPES = "*";
+
+function parseScopes(stored: string): ApiKeyScope[] {
+  return stored === ALL_SCOPES ? [...API_KEY_SCOPES] : JSON.parse(stored);
+}
+
+export interface PlatformApiKey {
+  id: string;
+  platform_id: string;
+  name: string;
+  key_prefix?: string;
+  scopes: ApiKeyScope[];
+  expires_at?: string;
+  last_used_at?: string;
+  revoked_at?: string;
+  created_at: string;
+}
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  // Requests per window
+  limit: number;
+  remaining: number;
+  // Seconds until the current window ends
+  reset: number;
+  // Seconds to wait, when not allowed
+  retryAfter?: number;
+}
+
 const EMAIL_VERIFICATION_EXPIRY_HOURS = 24;
+const MAX_API_KEYS_PER_PLATFORM = 10;
+// Longest a rotated-out key may keep working
+const MAX_ROTATION_OVERLAP_SECONDS = 7 * 24 * 60 * 60;
+
+// Platform API rate limits: requests per minute
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const TIER_RATE_LIMITS: Record<string, number> = {
+  free: 100,
+  platform: 1000,
+  enterprise: 10000,
+};
+let lastRateLimitCleanup = 0;
 
 // Feature flag: set to "true" to require email verification for new platforms
 const REQUIRE_EMAIL_VERIFICATION = process.env.REQUIRE_EMAIL_VERIFICATION === "true";
@@ -61,11 +124,13 @@ export async function registerPlatform(
     throw new Error("A platform with this email already exists");
   }
 
-  // Check if platform with same domain exists
+  // Check if another platform has proved it owns this domain (unverified
+  // claims don't block registration, so a domain can't be squatted).
+  // Verified domains are stored normalized.
   if (domain) {
     const existingDomain = await queryOne<{ id: string }>(
-      "SELECT id FROM platforms WHERE domain = $1",
-      [domain]
+      "SELECT id FROM platforms WHERE (domain = $1 OR domain = $2) AND domain_verified_at IS NOT NULL",
+      [domain, normalizeDomain(domain)]
     );
 
     if (existingDomain) {
@@ -95,10 +160,9 @@ export async function registerPlatform(
       domain,
       contact_email: contactEmail,
       tier: "free",
-      rate_limit: 100,
+      rate_limit: null,
       status: "pending_email_verification",
       verifications_count: 0,
-      verifications_this_month: 0,
       created_at: new Date().toISOString(),
     };
 
@@ -111,6 +175,7 @@ export async function registerPlatform(
        VALUES ($1, $2, $3, $4, $5, 'active')`,
       [platformId, name, domain, contactEmail, apiKeyHash]
     );
+    await insertApiKey(platformId, "Default key", [...API_KEY_SCOPES], apiKey, undefined, true);
 
     const platform: Platform = {
       id: platformId,
@@ -118,10 +183,9 @@ export async function registerPlatform(
       domain,
       contact_email: contactEmail,
       tier: "free",
-      rate_limit: 100,
+      rate_limit: null,
       status: "active",
       verifications_count: 0,
-      verifications_this_month: 0,
       created_at: new Date().toISOString(),
     };
 
@@ -170,6 +234,7 @@ export async function verifyPlatformEmail(
      WHERE id = $2`,
     [apiKeyHash, row.id]
   );
+  await insertApiKey(row.id, "Default key", [...API_KEY_SCOPES], apiKey, undefined, true);
 
   const platform: Platform = {
     id: row.id,
@@ -177,11 +242,11 @@ export async function verifyPlatformEmail(
     domain: row.domain,
     contact_email: row.contact_email,
     tier: row.tier,
-    rate_limit: row.rate_limit,
+    rate_limit: row.rate_limit ?? null,
     status: "active",
     email_verified_at: new Date().toISOString(),
     verifications_count: row.verifications_count,
-    verifications_this_month: row.verifications_this_month,
+    redirect_uris: row.redirect_uris ? JSON.parse(row.redirect_uris) : [],
     created_at: row.created_at,
   };
 
@@ -225,10 +290,10 @@ export async function resendVerificationEmail(
     domain: row.domain,
     contact_email: row.contact_email,
     tier: row.tier,
-    rate_limit: row.rate_limit,
+    rate_limit: row.rate_limit ?? null,
     status: "pending_email_verification",
     verifications_count: row.verifications_count,
-    verifications_this_month: row.verifications_this_month,
+    redirect_uris: row.redirect_uris ? JSON.parse(row.redirect_uris) : [],
     created_at: row.created_at,
   };
 
@@ -236,31 +301,43 @@ export async function resendVerificationEmail(
 }
 
 /**
- * Validate platform API key
+ * Authenticate a platform API key
+ * Returns the platform and the key (with its scopes), or null if the key is
+ * unknown, revoked or expired, or the platform is not active.
  */
-export async function validateApiKey(apiKey: string): Promise<Platform | null> {
+export async function authenticateApiKey(
+  apiKey: string
+): Promise<{ platform: Platform; key: PlatformApiKey } | null> {
   const apiKeyHash = await hashApiKey(apiKey);
 
   const row = await queryOne<any>(
-    "SELECT * FROM platforms WHERE api_key_hash = $1 AND status = 'active'",
+    `SELECT * FROM platform_api_keys
+     WHERE key_hash = $1 AND revoked_at IS NULL
+       AND (expires_at IS NULL OR expires_at > NOW())`,
     [apiKeyHash]
   );
 
   if (!row) return null;
 
-  return {
-    id: row.id,
-    name: row.name,
-    domain: row.domain,
-    contact_email: row.contact_email,
-    tier: row.tier,
-    rate_limit: row.rate_limit,
-    status: row.status,
-    email_verified_at: row.email_verified_at,
-    verifications_count: row.verifications_count,
-    verifications_this_month: row.verifications_this_month,
-    created_at: row.created_at,
-  };
+  const platform = await getPlatform(row.platform_id);
+  if (!platform || platform.status !== "active") return null;
+
+  // Track usage, at most once a minute per key (don't block the request)
+  execute(
+    `UPDATE platform_api_keys SET last_used_at = NOW()
+     WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute')`,
+    [row.id]
+  ).catch(console.error);
+
+  return { platform, key: mapApiKey(row) };
+}
+
+/**
+ * Validate platform API key (any scope)
+ */
+export async function validateApiKey(apiKey: string): Promise<Platform | null> {
+  const result = await authenticateApiKey(apiKey);
+  return result?.platform ?? null;
 }
 
 /**
@@ -280,40 +357,366 @@ export async function getPlatform(platformId: string): Promise<Platform | null>
     domain: row.domain,
     contact_email: row.contact_email,
     tier: row.tier,
-    rate_limit: row.rate_limit,
+    rate_limit: row.rate_limit ?? null,
     status: row.status,
     email_verified_at: row.email_verified_at,
+    domain_verified_at: row.domain_verified_at || undefined,
     verifications_count: row.verifications_count,
-    verifications_this_month: row.verifications_this_month,
+    redirect_uris: row.redirect_uris ? JSON.parse(row.redirect_uris) : [],
+    created_at: row.created_at,
+  };
+}
+
+function mapApiKey(row: any): PlatformApiKey {
+  return {
+    id: row.id,
+    platform_id: row.platform_id,
+    name: row.name,
+    key_prefix: row.key_prefix || undefined,
+    scopes: parseScopes(row.scopes),
+    expires_at: row.expires_at || undefined,
+    last_used_at: row.last_used_at || undefined,
+    revoked_at: row.revoked_at || undefined,
     created_at: row.created_at,
   };
 }
 
+/**
+ * Store an API key (only its hash is kept)
+ * Default keys are stored with every scope, whatever scopes are passed.
+ */
+async function insertApiKey(
+  platformId: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  apiKey: string,
+  expiresAt?: Date,
+  isDefault: boolean = false
+): Promise<PlatformApiKey> {
+  const keyId = generateId("key");
+  const uniqueScopes = isDefault ? [...API_KEY_SCOPES] : [...new Set(scopes)];
+
+  await execute(
+    `INSERT INTO platform_api_keys (id, platform_id, name, key_hash, key_prefix, scopes, expires_at, is_default)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      keyId,
+      platformId,
+      name,
+      await hashApiKey(apiKey),
+      apiKey.slice(0, 12),
+      isDefault ? ALL_SCOPES : JSON.stringify(uniqueScopes),
+      expiresAt?.toISOString() ?? null,
+      isDefault,
+    ]
+  );
+
+  return {
+    id: keyId,
+    platform_id: platformId,
+    name,
+    key_prefix: apiKey.slice(0, 12),
+    scopes: uniqueScopes,
+    expires_at: expiresAt?.toISOString(),
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * List a platform's API keys (revoked keys included, newest first)
+ */
+export async function listApiKeys(platformId: string): Promise<PlatformApiKey[]> {
+  const rows = await query<any>(
+    "SELECT * FROM platform_api_keys WHERE platform_id = $1 ORDER BY created_at DESC",
+    [platformId]
+  );
+  return rows.map(mapApiKey);
+}
+
+/**
+ * Create an additional API key
+ */
+export async function createApiKey(
+  platformId: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresInDays?: number
+): Promise<{ key: PlatformApiKey; apiKey: string }> {
+  const active = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) AS count FROM platform_api_keys
+     WHERE platform_id = $1 AND revoked_at IS NULL
+       AND (expires_at IS NULL OR expires_at > NOW())`,
+    [platformId]
+  );
+  if (parseInt(active?.count || "0", 10) >= MAX_API_KEYS_PER_PLATFORM) {
+    throw new Error(`API key limit reached (${MAX_API_KEYS_PER_PLATFORM} active keys)`);
+  }
+
+  const apiKey = generateApiKey("plt");
+  const expiresAt = expiresInDays
+    ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+    : undefined;
+
+  const key = await insertApiKey(platformId, name, scopes, apiKey, expiresAt);
+  return { key, apiKey };
+}
+
+/**
+ * Replace an API key with a new one that has the same name and scopes
+ * The old key keeps working for overlapSeconds so deployments can switch over.
+ */
+export async function rotateApiKey(
+  platformId: string,
+  keyId: string,
+  overlapSeconds: number
+): Promise<{ key: PlatformApiKey; apiKey: string; previous: PlatformApiKey }> {
+  if (overlapSeconds < 0 || overlapSeconds > MAX_ROTATION_OVERLAP_SECONDS) {
+    throw new Error(`Invalid overlap: must be between 0 and ${MAX_ROTATION_OVERLAP_SECONDS} seconds`);
+  }
+
+  const overlapEnds = new Date(Date.now() + overlapSeconds * 1000);
+
+  // Shorten the old key's life (never extend it); only one rotation can win
+  const previous = await queryOne<any>(
+    `UPDATE platform_api_keys
+     SET expires_at = CASE WHEN expires_at IS NULL OR expires_at > $1 THEN $1 ELSE expires_at END
+     WHERE id = $2 AND platform_id = $3 AND revoked_at IS NULL
+       AND (expires_at IS NULL OR expires_at > NOW())
+     RETURNING *`,
+    [overlapEnds.toISOString(), keyId, platformId]
+  );
+  if (!previous) {
+    throw new Error("API key not found");
+  }
+
+  const apiKey = generateApiKey("plt");
+  const key = await insertApiKey(
+    platformId,
+    previous.name,
+    parseScopes(previous.scopes),
+    apiKey,
+    undefined,
+    !!previous.is_default
+  );
+  return { key, apiKey, previous: mapApiKey(previous) };
+}
+
+/**
+ * Revoke an API key immediately
+ */
+export async function revokeApiKey(platformId: string, keyId: string): Promise<void> {
+  const { rowCount } = await execute(
+    `UPDATE platform_api_keys SET revoked_at = NOW()
+     WHERE id = $1 AND platform_id = $2 AND revoked_at IS NULL`,
+    [keyId, platformId]
+  );
+  if (rowCount === 0) {
+    throw new Error("API key not found");
+  }
+}
+
+/**
+ * Validate an OAuth redirect URI: absolute, no fragment, HTTPS unless loopback
+ */
+export function isValidRedirectUri(uri: string): boolean {
+  try {
+    const url = new URL(uri);
+    if (url.hash) return false;
+    if (url.protocol === "https:") return true;
+    return url.protocol === "http:" && ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Replace a platform's OAuth redirect URIs
+ */
+export async function setRedirectUris(platformId: string, redirectUris: string[]): Promise<string[]> {
+  const invalid = redirectUris.find((uri) => !isValidRedirectUri(uri));
+  if (invalid) {
+    throw new Error(`Invalid redirect URI: ${invalid} (must be HTTPS, or http on localhost, without a fragment)`);
+  }
+
+  const unique = [...new Set(redirectUris)];
+  await execute(
+    "UPDATE platforms SET redirect_uris = $1, updated_at = NOW() WHERE id = $2",
+    [JSON.stringify(unique), platformId]
+  );
+  return unique;
+}
+
+/**
+ * Update a platform's name or domain
+ * A new domain has to be verified again. The contact email changes through
+ * requestContactEmailChange, which needs the new address confirmed.
+ */
+export async function updatePlatformProfile(
+  platformId: string,
+  changes: { name?: string; domain?: string | null }
+): Promise<Platform> {
+  const platform = await getPlatform(platformId);
+  if (!platform) {
+    throw new Error("Platform not found");
+  }
+
+  const domainChanged = changes.domain !== undefined && (changes.domain || null) !== (platform.domain || null);
+  if (domainChanged && changes.domain) {
+    const existingDomain = await queryOne<{ id: string }>(
+      `SELECT id FROM platforms
+       WHERE (domain = $1 OR domain = $2) AND domain_verified_at IS NOT NULL AND id != $3`,
+      [changes.domain, normalizeDomain(changes.domain), platformId]
+    );
+    if (existingDomain) {
+      throw new Error("A platform with this domain already exists");
+    }
+  }
+
+  await execute(
+    `UPDATE platforms
+     SET name = $1,
+         domain = $2,
+         domain_verification_token = CASE WHEN $3::boolean THEN NULL ELSE domain_verification_token END,
+         domain_verified_at = CASE WHEN $3::boolean THEN NULL ELSE domain_verified_at END,
+         updated_at = NOW()
+     WHERE id = $4`,
+    [
+      changes.name ?? platform.name,
+      domainChanged ? changes.domain || null : platform.domain ?? null,
+      domainChanged,
+      platformId,
+    ]
+  );
+
+  return (await getPlatform(platformId))!;
+}
+
+/**
+ * Delete a platform with its keys, webhooks, policies and usage
+ * The verification audit log is kept, and so are the reports it filed (with
+ * no reporting platform) so their history and admin decisions survive.
+ */
+export async function deletePlatform(platformId: string): Promise<void> {
+  await withTransaction(async () => {
+    await execute("DELETE FROM webhook_deliveries WHERE platform_id = $1", [platformId]);
+    await execute("DELETE FROM webhook_endpoints WHERE platform_id = $1", [platformId]);
+    await execute("DELETE FROM verification_policies WHERE platform_id = $1", [platformId]);
+    await execute("DELETE FROM agent_platforms WHERE platform_id = $1", [platformId]);
+    await execute("UPDATE agent_reports SET platform_id = NULL WHERE platform_id = $1", [platformId]);
+    await execute("DELETE FROM oauth_authorizations WHERE platform_id = $1", [platformId]);
+    await execute("DELETE FROM platform_api_keys WHERE platform_id = $1", [platformId]);
+    await execute("DELETE FROM platform_usage_daily WHERE platform_id = $1", [platformId]);
+    await execute("DELETE FROM platform_rate_limits WHERE bucket = $1", [platformId]);
+
+    // Sign-in links and sessions go with the platform (ON DELETE CASCADE)
+    const { rowCount } = await execute("DELETE FROM platforms WHERE id = $1", [platformId]);
+    if (rowCount === 0) {
+      throw new Error("Platform not found");
+    }
+  });
+}
+
 /**
  * Increment platform verification count
  */
-export async function incrementVerificationCount(platformId: string): Promise<void> {
+export async function incrementVerificationCount(platformId: string, count: number = 1): Promise<void> {
   await execute(
     `UPDATE platforms 
-     SET verifications_count = verifications_count + 1,
-         verifications_this_month = verifications_this_month + 1,
+     SET verifications_count = verifications_count + $2,
          last_verification_at = NOW()
      WHERE id = $1`,
-    [platformId]
+    [platformId, count]
   );
 }
 
 /**
- * Check if platform is within rate limits
+ * Requests per minute for a platform
+ * The admin-set rate_limit wins; the tier default applies when it is null.
+ */
+export function getRateLimit(platform: Platform): number {
+  return platform.rate_limit ?? TIER_RATE_LIMITS[platform.tier] ?? TIER_RATE_LIMITS.free;
+}
+
+/**
+ * Seconds until a rejected request would be allowed again
  */
-export function checkRateLimit(platform: Platform): boolean {
-  // Simple check - in production, use Redis with sliding window
-  return platform.verifications_this_month < platform.rate_limit * 30 * 24 * 60;
+function getRetryAfter(
+  limit: number,
+  previous: number,
+  current: number,
+  windowStart: number,
+  now: number
+): number {
+  let allowedAt: number;
+  if (current < limit && previous > 0) {
+    // Later in this window the previous window weighs less
+    allowedAt = windowStart + (1 - (limit - current) / previous) * RATE_LIMIT_WINDOW_MS;
+  } else {
+    // This window must become the previous one and drain
+    allowedAt = windowStart + RATE_LIMIT_WINDOW_MS + Math.max(0, 1 - limit / current) * RATE_LIMIT_WINDOW_MS;
+  }
+  return Math.max(1, Math.ceil((allowedAt - now) / 1000));
 }
 
 /**
- * Reset monthly verification counts (run via cron)
+ * Count a platform API request against its rate limit
+ * Sliding window counter: the previous minute's count, weighted by how much of
+ * it still overlaps the last 60 seconds, plus this minute's count. Counts live
+ * in the database so every instance shares them; rejected requests are not counted.
+ * Requests that do the work of several (batches) pass a higher cost.
  */
-export async function resetMonthlyCounts(): Promise<void> {
-  await execute("UPDATE platforms SET verifications_this_month = 0");
+export async function checkRateLimit(platform: Platform, cost: number = 1): Promise<RateLimitStatus> {
+  const limit = getRateLimit(platform);
+  // One bucket per platform, so a tier change keeps the current count
+  const bucket = platform.id;
+  const now = Date.now();
+  const windowStart = Math.floor(now / RATE_LIMIT_WINDOW_MS) * RATE_LIMIT_WINDOW_MS;
+  const reset = Math.ceil((windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000);
+
+  if (now - lastRateLimitCleanup > RATE_LIMIT_WINDOW_MS) {
+    lastRateLimitCleanup = now;
+    execute(
+      "DELETE FROM platform_rate_limits WHERE window_start < $1",
+      [windowStart - RATE_LIMIT_WINDOW_MS]
+    ).catch(console.error);
+  }
+
+  const previousRow = await queryOne<{ count: number }>(
+    "SELECT count FROM platform_rate_limits WHERE bucket = $1 AND window_start = $2",
+    [bucket, windowStart - RATE_LIMIT_WINDOW_MS]
+  );
+  const previous = previousRow?.count ?? 0;
+  const weight = 1 - (now - windowStart) / RATE_LIMIT_WINDOW_MS;
+  const maxCurrent = limit - Math.floor(previous * weight);
+
+  // Increment only while under the limit, so concurrent instances can't overshoot
+  const row = maxCurrent >= cost
+    ? await queryOne<{ count: number }>(
+        `INSERT INTO platform_rate_limits (bucket, window_start, count)
+         VALUES ($1, $2, $4)
+         ON CONFLICT (bucket, window_start) DO UPDATE
+         SET count = platform_rate_limits.count + $4
+         WHERE platform_rate_limits.count + $4 <= $3
+         RETURNING count`,
+        [bucket, windowStart, maxCurrent, cost]
+      )
+    : null;
+
+  if (row) {
+    return { allowed: true, limit, remaining: Math.max(0, maxCurrent - row.count), reset };
+  }
+
+  const currentRow = await queryOne<{ count: number }>(
+    "SELECT count FROM platform_rate_limits WHERE bucket = $1 AND window_start = $2",
+    [bucket, windowStart]
+  );
+  const current = currentRow?.count ?? 0;
+
+  return {
+    allowed: false,
+    limit,
+    remaining: 0,
+    reset,
+    retryAfter: getRetryAfter(limit - cost + 1, previous, current, windowStart, now),
+  };
 }
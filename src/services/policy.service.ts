@@ -0,0 +1,185 @@
+/**
+ * Verification Policy Service
+ * Named sets of extra rules a platform applies on top of token validity
+ * (minimum difficulty, required tasks, claimed owner, proof age, ...).
+ * A verify request names a policy; the response reports every rule.
+ */
+
+import { query, queryOne, execute, generateId } from "../db/index.js";
+import { getVisibleAgentClaims, type VerifiedToken } from "./verification.service.js";
+
+export const DIFFICULTY_LEVELS = ["easy", "standard", "hard"] as const;
+
+export interface PolicyRules {
+  min_difficulty?: (typeof DIFFICULTY_LEVELS)[number];
+  required_tasks?: string[];
+  owner_claimed?: boolean;
+  max_proof_age_days?: number;
+  required_capabilities?: string[];
+}
+
+export interface VerificationPolicy {
+  id: string;
+  name: string;
+  rules: PolicyRules;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PolicyRuleResult {
+  rule: keyof PolicyRules;
+  passed: boolean;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface PolicyEvaluation {
+  name: string;
+  passed: boolean;
+  rules: PolicyRuleResult[];
+}
+
+const MAX_POLICIES_PER_PLATFORM = 20;
+
+function mapPolicy(row: any): VerificationPolicy {
+  return {
+    id: row.id,
+    name: row.name,
+    rules: JSON.parse(row.rules),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * List a platform's policies
+ */
+export async function listPolicies(platformId: string): Promise<VerificationPolicy[]> {
+  const rows = await query<any>(
+    "SELECT * FROM verification_policies WHERE platform_id = $1 ORDER BY name ASC",
+    [platformId]
+  );
+  return rows.map(mapPolicy);
+}
+
+/**
+ * Get a platform's policy by name
+ */
+export async function getPolicy(platformId: string, name: string): Promise<VerificationPolicy | null> {
+  const row = await queryOne<any>(
+    "SELECT * FROM verification_policies WHERE platform_id = $1 AND name = $2",
+    [platformId, name]
+  );
+  return row ? mapPolicy(row) : null;
+}
+
+/**
+ * Create or replace a named policy
+ */
+export async function savePolicy(
+  platformId: string,
+  name: string,
+  rules: PolicyRules
+): Promise<VerificationPolicy> {
+  const existing = await getPolicy(platformId, name);
+  if (!existing) {
+    const count = await queryOne<{ count: string }>(
+      "SELECT COUNT(*) AS count FROM verification_policies WHERE platform_id = $1",
+      [platformId]
+    );
+    if (parseInt(count?.count || "0", 10) >= MAX_POLICIES_PER_PLATFORM) {
+      throw new Error(`Policy limit reached (${MAX_POLICIES_PER_PLATFORM})`);
+    }
+  }
+
+  const row = await queryOne<any>(
+    `INSERT INTO verification_policies (id, platform_id, name, rules)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (platform_id, name) DO UPDATE SET rules = EXCLUDED.rules, updated_at = NOW()
+     RETURNING *`,
+    [generateId("pol"), platformId, name, JSON.stringify(rules)]
+  );
+  return mapPolicy(row);
+}
+
+/**
+ * Delete a named policy
+ */
+export async function deletePolicy(platformId: string, name: string): Promise<void> {
+  const { rowCount } = await execute(
+    "DELETE FROM verification_policies WHERE platform_id = $1 AND name = $2",
+    [platformId, name]
+  );
+  if (rowCount === 0) {
+    throw new Error("Policy not found");
+  }
+}
+
+/**
+ * Check a verified token against a policy's rules
+ * Claims the agent did not disclose (SD-JWT, exchanged tokens) count as failing.
+ */
+export function evaluatePolicy(policy: VerificationPolicy, result: VerifiedToken): PolicyEvaluation {
+  const { rules } = policy;
+  const { agent, payload } = result;
+  const claims = getVisibleAgentClaims(result);
+  const outcomes: PolicyRuleResult[] = [];
+
+  if (rules.min_difficulty) {
+    const actual = claims.difficulty;
+    outcomes.push({
+      rule: "min_difficulty",
+      passed:
+        DIFFICULTY_LEVELS.indexOf(actual as (typeof DIFFICULTY_LEVELS)[number]) >=
+        DIFFICULTY_LEVELS.indexOf(rules.min_difficulty),
+      expected: rules.min_difficulty,
+      actual: actual ?? "not disclosed",
+    });
+  }
+
+  if (rules.required_tasks?.length) {
+    const actual = claims.tasks_passed;
+    outcomes.push({
+      rule: "required_tasks",
+      passed: !!actual && rules.required_tasks.every((task) => actual.includes(task)),
+      expected: rules.required_tasks,
+      actual: actual ?? "not disclosed",
+    });
+  }
+
+  if (rules.owner_claimed !== undefined) {
+    const actual = !!agent.owner_id;
+    outcomes.push({
+      rule: "owner_claimed",
+      passed: actual === rules.owner_claimed,
+      expected: rules.owner_claimed,
+      actual,
+    });
+  }
+
+  if (rules.max_proof_age_days !== undefined) {
+    const actual = Math.floor((Date.now() / 1000 - payload.iat) / (24 * 60 * 60));
+    outcomes.push({
+      rule: "max_proof_age_days",
+      passed: Date.now() / 1000 - payload.iat <= rules.max_proof_age_days * 24 * 60 * 60,
+      expected: rules.max_proof_age_days,
+      actual,
+    });
+  }
+
+  if (rules.required_capabilities?.length) {
+    const actual = claims.capabilities;
+    outcomes.push({
+      rule: "required_capabilities",
+      passed: !!actual && rules.required_capabilities.every((cap) => actual.includes(cap)),
+      expected: rules.required_capabilities,
+      actual: actual ?? "not disclosed",
+    });
+  }
+
+  return {
+    name: policy.name,
+    passed: outcomes.every((outcome) => outcome.passed),
+    rules: outcomes,
+  };
+}
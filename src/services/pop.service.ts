@@ -0,0 +1,59 @@
+/**
+ * Proof-of-Possession Service
+ * DPoP-style binding for presented tokens: the agent signs the request it made
+ * to the platform (method, URL, timestamp, nonce and a hash of the token) with
+ * the key in agp.agent.public_key, and the platform forwards that signature to
+ * /api/v1/verify. Nonces are remembered until the timestamp window closes, so
+ * a captured signature cannot be replayed.
+ */
+
+import { createHash } from "crypto";
+import { execute } from "../db/index.js";
+import { createPopMessage, verifyEd25519Signature } from "../lib/crypto.js";
+
+// How far a proof-of-possession timestamp may drift from server time
+const POP_MAX_SKEW_SECONDS = 60;
+
+export interface ProofOfPossession {
+  method: string;
+  url: string;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+/**
+ * Check that the presenter of a token controls the given public key
+ */
+export async function verifyProofOfPossession(
+  token: string,
+  publicKey: string,
+  pop: ProofOfPossession
+): Promise<{ valid: boolean; error?: string }> {
+  if (Math.abs(Date.now() / 1000 - pop.timestamp) > POP_MAX_SKEW_SECONDS) {
+    return { valid: false, error: "Proof of possession timestamp is too old or in the future" };
+  }
+
+  const tokenHash = createHash("sha256").update(token).digest("base64url");
+  const message = createPopMessage(pop.method, pop.url, pop.timestamp, pop.nonce, tokenHash);
+
+  const valid = await verifyEd25519Signature(publicKey, pop.signature, message);
+  if (!valid) {
+    return { valid: false, error: "Invalid proof of possession signature" };
+  }
+
+  // Only remember nonces of valid signatures, or anyone could burn them
+  await execute("DELETE FROM pop_nonces WHERE expires_at < NOW()");
+  const expiresAt = new Date(Date.now() + POP_MAX_SKEW_SECONDS * 2 * 1000).toISOString();
+  const { rowCount } = await execute(
+    `INSERT INTO pop_nonces (public_key, nonce, expires_at)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (public_key, nonce) DO NOTHING`,
+    [publicKey, pop.nonce, expiresAt]
+  );
+  if (rowCount === 0) {
+    return { valid: false, error: "Proof of possession has already been used" };
+  }
+
+  return { valid: true };
+}
@@ -3,9 +3,17 @@
  * Handles agent creation and proof token generation
  */
 
-import { query, queryOne, execute, generateId } from "../db/index.js";
-import { signProofToken, type AgentProofPayload } from "../lib/jwt.js";
+import { query, queryOne, execute, afterCommit, generateId, withTransaction } from "../db/index.js";
+import {
+  signProofToken,
+  signProofCredential,
+  signProofSdJwt,
+  decodeToken,
+  type AgentProofPayload,
+} from "../lib/jwt.js";
 import { generateToken } from "../lib/crypto.js";
+import { allocateStatusIndex, invalidateStatusList } from "./status-list.service.js";
+import { emitWebhookEvent } from "./webhook.service.js";
 
 export interface Agent {
   id: string;
@@ -28,11 +36,98 @@ export interface Proof {
   agent_id: string;
   challenge_id: string;
   token: string;
+  // Same proof as a W3C Verifiable Credential (VC-JWT)
+  credential?: string;
+  // Same proof as an SD-JWT with every disclosure attached
+  sd_jwt?: string;
   issued_at: string;
   expires_at: string;
   status: string;
 }
 
+export interface ProofHistoryEntry {
+  id: string;
+  challenge_id: string;
+  difficulty: string;
+  time_taken_ms: number | null;
+  issued_at: string;
+  expires_at: string;
+  status: string;
+  superseded_by: string | null;
+}
+
+// Public view of an agent's current standing (badges, embeddable widget)
+export interface AgentCard {
+  id: string;
+  name: string;
+  // "expired": verified, but no active proof left
+  status: "verified" | "expired" | "pending" | "suspended" | "revoked";
+  owner: { claimed: boolean; handle: string | null; provider: string | null };
+  difficulty: string | null;
+  verified_at: string | null;
+}
+
+/**
+ * Sign and store a new proof token for an agent
+ */
+async function issueProof(
+  agentId: string,
+  challengeId: string,
+  difficulty: string,
+  tasksPassed: string[],
+  timeTakenMs: number,
+  agentClaims: AgentProofPayload["agent"]
+): Promise<Proof> {
+  const proofId = generateId("prf");
+  const expiresInDays = parseInt(process.env.PROOF_EXPIRY_DAYS || "365", 10);
+  const issuedAt = new Date().toISOString();
+  const proofExpiresAt = new Date(
+    Date.now() + expiresInDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const payload: AgentProofPayload = {
+    version: "1.0",
+    challenge_id: challengeId,
+    difficulty,
+    tasks_passed: tasksPassed,
+    time_taken_ms: timeTakenMs,
+    agent: agentClaims,
+  };
+
+  const status = await allocateStatusIndex();
+  const token = await signProofToken(agentId, proofId, payload, expiresInDays, status);
+  const credential = await signProofCredential(agentId, proofId, payload, expiresInDays, status);
+  const sdJwt = await signProofSdJwt(agentId, proofId, payload, expiresInDays, status);
+
+  // Store proof
+  await execute(
+    `INSERT INTO proofs (id, agent_id, challenge_id, token, credential, sd_jwt, expires_at, status_index)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      proofId,
+      agentId,
+      challengeId,
+      token,
+      credential,
+      sdJwt,
+      proofExpiresAt,
+      status.status_list.idx,
+    ]
+  );
+
+  return {
+    id: proofId,
+    agent_id: agentId,
+    challenge_id: challengeId,
+    token,
+    credential,
+    sd_jwt: sdJwt,
+    issued_at: issuedAt,
+    expires_at: proofExpiresAt,
+    status: "active",
+  };
+}
+
 /**
  * Create a new verified agent and generate proof token
  */
@@ -48,9 +143,11 @@ export async function createVerifiedAgent(
   tasksPassed: string[],
   timeTakenMs: number
 ): Promise<{ agent: Agent; proof: Proof }> {
-  // Check if agent with this public key already exists
+  // Keys can never be reused, including ones rotated away or marked compromised
   const existing = await queryOne<{ id: string }>(
-    "SELECT id FROM agents WHERE public_key = $1",
+    `SELECT id FROM agents WHERE public_key = $1
+     UNION ALL
+     SELECT agent_id FROM agent_keys WHERE public_key = $1`,
     [publicKey]
   );
 
@@ -64,53 +161,40 @@ export async function createVerifiedAgent(
   const claimExpiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(); // 7 days
   const verifiedAt = new Date().toISOString();
 
-  await execute(
-    `INSERT INTO agents (id, name, description, public_key, status, capabilities, model_family, framework, claim_token, claim_expires_at, verified_at)
-     VALUES ($1, $2, $3, $4, 'verified', $5, $6, $7, $8, $9, $10)`,
-    [
-      agentId,
-      name,
-      description,
-      publicKey,
-      JSON.stringify(capabilities),
-      modelFamily,
-      framework,
-      claimToken,
-      claimExpiresAt,
-      verifiedAt,
-    ]
-  );
-
-  // Generate proof token
-  const proofId = generateId("prf");
-  const expiresInDays = parseInt(process.env.PROOF_EXPIRY_DAYS || "365", 10);
-  const proofExpiresAt = new Date(
-    Date.now() + expiresInDays * 24 * 60 * 60 * 1000
-  ).toISOString();
-
-  const payload: AgentProofPayload = {
-    version: "1.0",
-    challenge_id: challengeId,
-    difficulty,
-    tasks_passed: tasksPassed,
-    time_taken_ms: timeTakenMs,
-    agent: {
-      name,
-      public_key: publicKey,
-      capabilities,
-    },
-  };
-
-  const token = await signProofToken(agentId, proofId, payload, expiresInDays);
+  // The agent, its key history and its first proof exist together or not at all
+  const proof = await withTransaction(async () => {
+    await execute(
+      `INSERT INTO agents (id, name, description, public_key, status, capabilities, model_family, framework, claim_token, claim_expires_at, verified_at)
+       VALUES ($1, $2, $3, $4, 'verified', $5, $6, $7, $8, $9, $10)`,
+      [
+        agentId,
+        name,
+        description,
+        publicKey,
+        JSON.stringify(capabilities),
+        modelFamily,
+        framework,
+        claimToken,
+        claimExpiresAt,
+        verifiedAt,
+      ]
+    );
 
-  // Store proof
-  await execute(
-    `INSERT INTO proofs (id, agent_id, challenge_id, token, expires_at)
-     VALUES ($1, $2, $3, $4, $5)`,
-    [proofId, agentId, challengeId, token, proofExpiresAt]
-  );
+    // Start the agent's key history
+    await execute(
+      `INSERT INTO agent_keys (agent_id, public_key, status) VALUES ($1, $2, 'active')`,
+      [agentId, publicKey]
+    );
 
-  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+    return issueProof(
+      agentId,
+      challengeId,
+      difficulty,
+      tasksPassed,
+      timeTakenMs,
+      { name, public_key: publicKey, capabilities, model_family: modelFamily, framework }
+    );
+  });
 
   const agent: Agent = {
     id: agentId,
@@ -127,30 +211,251 @@ export async function createVerifiedAgent(
     created_at: verifiedAt,
   };
 
-  const proof: Proof = {
-    id: proofId,
-    agent_id: agentId,
-    challenge_id: challengeId,
-    token,
-    issued_at: verifiedAt,
-    expires_at: proofExpiresAt,
-    status: "active",
+  return { agent, proof };
+}
+
+/**
+ * Issue a new proof for an existing agent after it passes a fresh challenge
+ * (renewal before expiry, or moving up to a harder difficulty).
+ * Previous proofs stay valid unless supersedePrevious is set.
+ */
+export async function renewProof(
+  agent: Agent,
+  capabilities: string[],
+  modelFamily: string | undefined,
+  framework: string | undefined,
+  challengeId: string,
+  difficulty: string,
+  tasksPassed: string[],
+  timeTakenMs: number,
+  supersedePrevious: boolean = false
+): Promise<{ agent: Agent; proof: Proof; supersededCount: number }> {
+  if (agent.status !== "verified") {
+    throw new Error(`Agent status is ${agent.status}`);
+  }
+
+  // Re-tested declarations replace the previous ones
+  await execute(
+    `UPDATE agents
+     SET capabilities = $1, model_family = $2, framework = $3, updated_at = NOW()
+     WHERE id = $4`,
+    [JSON.stringify(capabilities), modelFamily, framework, agent.id]
+  );
+
+  const proof = await issueProof(
+    agent.id,
+    challengeId,
+    difficulty,
+    tasksPassed,
+    timeTakenMs,
+    {
+      name: agent.name,
+      public_key: agent.public_key,
+      capabilities,
+      model_family: modelFamily,
+      framework,
+    }
+  );
+
+  let supersededCount = 0;
+  if (supersedePrevious) {
+    const result = await execute(
+      `UPDATE proofs
+       SET status = 'superseded', superseded_at = NOW(), superseded_by = $1
+       WHERE agent_id = $2 AND status = 'active' AND id != $1`,
+      [proof.id, agent.id]
+    );
+    supersededCount = result.rowCount;
+    invalidateStatusList();
+  }
+
+  emitWebhookEvent("proof.renewed", agent.id, {
+    proof_id: proof.id,
+    expires_at: proof.expires_at,
+    difficulty,
+    previous_proofs_superseded: supersededCount,
+  }).catch(console.error);
+
+  return {
+    agent: {
+      ...agent,
+      capabilities,
+      model_family: modelFamily,
+      framework,
+    },
+    proof,
+    supersededCount,
   };
+}
 
-  return { agent, proof };
+/**
+ * Reissue an agent's active proofs for a new public key (after key rotation).
+ * New proofs keep the original claims and expiry; the old ones are superseded,
+ * or revoked when the old key was compromised.
+ */
+export async function reissueProofs(
+  agentId: string,
+  newPublicKey: string,
+  revokeOld: boolean
+): Promise<Proof[]> {
+  const rows = await query<any>(
+    "SELECT * FROM proofs WHERE agent_id = $1 AND status = 'active' AND expires_at > NOW()",
+    [agentId]
+  );
+
+  const reissued: Proof[] = [];
+
+  for (const row of rows) {
+    const decoded = decodeToken(row.token);
+    if (!decoded) continue;
+
+    const payload: AgentProofPayload = {
+      ...decoded.payload.agp,
+      agent: { ...decoded.payload.agp.agent, public_key: newPublicKey },
+    };
+
+    const proofId = generateId("prf");
+    const expiresAt = new Date(row.expires_at);
+    const remainingDays = (expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    const status = await allocateStatusIndex();
+    const token = await signProofToken(agentId, proofId, payload, remainingDays, status);
+    const credential = await signProofCredential(agentId, proofId, payload, remainingDays, status);
+    const sdJwt = await signProofSdJwt(agentId, proofId, payload, remainingDays, status);
+
+    await execute(
+      `INSERT INTO proofs (id, agent_id, challenge_id, token, credential, sd_jwt, expires_at, status_index)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        proofId,
+        agentId,
+        row.challenge_id,
+        token,
+        credential,
+        sdJwt,
+        expiresAt.toISOString(),
+        status.status_list.idx,
+      ]
+    );
+
+    if (revokeOld) {
+      await execute(
+        `UPDATE proofs
+         SET status = 'revoked', revoked_at = NOW(), revoke_reason = 'Key compromised', superseded_by = $1
+         WHERE id = $2`,
+        [proofId, row.id]
+      );
+      afterCommit(() => {
+        emitWebhookEvent("proof.revoked", agentId, {
+          proof_id: row.id,
+          reason: "Key compromised",
+          replaced_by: proofId,
+        }).catch(console.error);
+      });
+    } else {
+      await execute(
+        `UPDATE proofs
+         SET status = 'superseded', superseded_at = NOW(), superseded_by = $1
+         WHERE id = $2`,
+        [proofId, row.id]
+      );
+    }
+
+    afterCommit(() => {
+      emitWebhookEvent("proof.renewed", agentId, {
+        proof_id: proofId,
+        expires_at: expiresAt.toISOString(),
+        previous_proof_id: row.id,
+        reason: "key_rotation",
+      }).catch(console.error);
+    });
+
+    reissued.push({
+      id: proofId,
+      agent_id: agentId,
+      challenge_id: row.challenge_id,
+      token,
+      credential,
+      sd_jwt: sdJwt,
+      issued_at: new Date().toISOString(),
+      expires_at: expiresAt.toISOString(),
+      status: "active",
+    });
+  }
+
+  if (reissued.length > 0) {
+    afterCommit(invalidateStatusList);
+  }
+
+  return reissued;
 }
 
 /**
- * Get agent by ID
+ * Get an agent's verification history (all proofs, newest first)
  */
-export async function getAgent(agentId: string): Promise<Agent | null> {
-  const row = await queryOne<any>(
-    "SELECT * FROM agents WHERE id = $1",
+export async function getProofHistory(agentId: string): Promise<ProofHistoryEntry[]> {
+  const rows = await query<any>(
+    `SELECT p.id, p.challenge_id, p.issued_at, p.expires_at, p.status, p.superseded_by,
+            c.difficulty, c.time_taken_ms
+     FROM proofs p
+     LEFT JOIN challenges c ON p.challenge_id = c.id
+     WHERE p.agent_id = $1
+     ORDER BY p.issued_at DESC`,
     [agentId]
   );
 
+  return rows.map((row) => ({
+    id: row.id,
+    challenge_id: row.challenge_id,
+    difficulty: row.difficulty,
+    time_taken_ms: row.time_taken_ms,
+    issued_at: row.issued_at,
+    expires_at: row.expires_at,
+    status: row.status,
+    superseded_by: row.superseded_by,
+  }));
+}
+
+/**
+ * Get an agent's public card: status, owner and latest active proof
+ */
+export async function getAgentCard(agentId: string): Promise<AgentCard | null> {
+  const row = await queryOne<any>(
+    `SELECT a.id, a.name, a.status, a.owner_id, a.verified_at,
+            o.handle AS owner_handle, o.provider AS owner_provider
+     FROM agents a
+     LEFT JOIN owners o ON a.owner_id = o.id
+     WHERE a.id = $1`,
+    [agentId]
+  );
   if (!row) return null;
 
+  const proof = await queryOne<{ issued_at: string; difficulty: string }>(
+    `SELECT p.issued_at, c.difficulty
+     FROM proofs p
+     LEFT JOIN challenges c ON p.challenge_id = c.id
+     WHERE p.agent_id = $1 AND p.status = 'active' AND p.expires_at > NOW()
+     ORDER BY p.issued_at DESC
+     LIMIT 1`,
+    [agentId]
+  );
+
+  const verifiedAt = proof?.issued_at ?? row.verified_at;
+
+  return {
+    id: row.id,
+    name: row.name,
+    status: row.status === "verified" && !proof ? "expired" : row.status,
+    owner: {
+      claimed: !!row.owner_id,
+      handle: row.owner_handle || null,
+      provider: row.owner_provider || null,
+    },
+    difficulty: proof?.difficulty || null,
+    verified_at: verifiedAt ? new Date(verifiedAt).toISOString() : null,
+  };
+}
+
+function mapAgent(row: any): Agent {
   return {
     id: row.id,
     name: row.name,
@@ -168,6 +473,37 @@ export async function getAgent(agentId: string): Promise<Agent | null> {
   };
 }
 
+/**
+ * Get agent by ID
+ */
+export async function getAgent(agentId: string): Promise<Agent | null> {
+  const row = await queryOne<any>(
+    "SELECT * FROM agents WHERE id = $1",
+    [agentId]
+  );
+
+  if (!row) return null;
+
+  return mapAgent(row);
+}
+
+/**
+ * Get several agents in one query, keyed by ID (unknown IDs are absent)
+ */
+export async function getAgents(agentIds: string[]): Promise<Map<string, Agent>> {
+  const agents = new Map<string, Agent>();
+  if (agentIds.length === 0) return agents;
+
+  const rows = await query<any>(
+    "SELECT * FROM agents WHERE id = ANY($1)",
+    [[...new Set(agentIds)]]
+  );
+  for (const row of rows) {
+    agents.set(row.id, mapAgent(row));
+  }
+  return agents;
+}
+
 /**
  * Get agent by public key
  */
@@ -179,21 +515,7 @@ export async function getAgentByPublicKey(publicKey: string): Promise<Agent | nu
 
   if (!row) return null;
 
-  return {
-    id: row.id,
-    name: row.name,
-    description: row.description,
-    public_key: row.public_key,
-    status: row.status,
-    capabilities: JSON.parse(row.capabilities || "[]"),
-    model_family: row.model_family,
-    framework: row.framework,
-    claim_token: row.claim_token,
-    claim_expires_at: row.claim_expires_at,
-    owner_id: row.owner_id,
-    verified_at: row.verified_at,
-    created_at: row.created_at,
-  };
+  return mapAgent(row);
 }
 
 /**
@@ -212,12 +534,49 @@ export async function getProof(proofId: string): Promise<Proof | null> {
     agent_id: row.agent_id,
     challenge_id: row.challenge_id,
     token: row.token,
+    credential: row.credential || undefined,
+    sd_jwt: row.sd_jwt || undefined,
     issued_at: row.issued_at,
     expires_at: row.expires_at,
     status: row.status,
   };
 }
 
+/**
+ * Get a proof in another format (W3C Verifiable Credential or SD-JWT)
+ * Proofs issued before that format existed get it signed on first request,
+ * with the same claims and expiry as their token.
+ */
+export async function getProofFormat(
+  proof: Proof,
+  format: "credential" | "sd_jwt"
+): Promise<string | null> {
+  const existing = proof[format];
+  if (existing) {
+    return existing;
+  }
+
+  const decoded = decodeToken(proof.token);
+  if (!decoded) return null;
+
+  const remainingDays = (decoded.payload.exp * 1000 - Date.now()) / (24 * 60 * 60 * 1000);
+  if (remainingDays <= 0) return null;
+
+  const sign = format === "credential" ? signProofCredential : signProofSdJwt;
+  const signed = await sign(
+    proof.agent_id,
+    proof.id,
+    decoded.payload.agp,
+    remainingDays,
+    decoded.payload.status
+  );
+
+  // Column name comes from the union above, never from input
+  await execute(`UPDATE proofs SET ${format} = $1 WHERE id = $2`, [signed, proof.id]);
+
+  return signed;
+}
+
 /**
  * Get proof by agent ID
  */
@@ -234,6 +593,8 @@ export async function getProofByAgentId(agentId: string): Promise<Proof | null>
     agent_id: row.agent_id,
     challenge_id: row.challenge_id,
     token: row.token,
+    credential: row.credential || undefined,
+    sd_jwt: row.sd_jwt || undefined,
     issued_at: row.issued_at,
     expires_at: row.expires_at,
     status: row.status,
@@ -258,10 +619,16 @@ export async function recordVerification(proofId: string, platformId: string): P
  * Revoke a proof
  */
 export async function revokeProof(proofId: string, reason: string): Promise<void> {
-  await execute(
+  const row = await queryOne<{ agent_id: string }>(
     `UPDATE proofs 
      SET status = 'revoked', revoked_at = NOW(), revoke_reason = $1
-     WHERE id = $2`,
+     WHERE id = $2
+     RETURNING agent_id`,
     [reason, proofId]
   );
+  invalidateStatusList();
+
+  if (row) {
+    emitWebhookEvent("proof.revoked", row.agent_id, { proof_id: proofId, reason }).catch(console.error);
+  }
 }
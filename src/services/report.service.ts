@@ -0,0 +1,327 @@
+/**
+ * Report Service
+ * Platforms report agents they saw misbehave. Reports feed a reputation score
+ * returned on verification, and enough platforms reporting the same agent puts
+ * it in the admin review queue.
+ */
+
+import { query, queryOne, execute, generateId } from "../db/index.js";
+import { getAgent } from "./proof.service.js";
+
+export const REPORT_CATEGORIES = [
+  "spam",
+  "impersonation",
+  "human_operated",
+  "malicious",
+  "other",
+] as const;
+
+export type ReportCategory = (typeof REPORT_CATEGORIES)[number];
+
+export interface AgentReport {
+  id: string;
+  agent_id: string;
+  // Unset once the reporting platform has been deleted
+  platform_id?: string;
+  category: ReportCategory;
+  description?: string;
+  evidence: string[];
+  status: "open" | "upheld" | "dismissed";
+  resolution_note?: string;
+  resolved_at?: string;
+  created_at: string;
+}
+
+export interface AgentReputation {
+  // 0-100, starting at 50 for an agent nobody has verified or reported
+  score: number;
+  level: "high" | "medium" | "low";
+  verifications: number;
+  platforms: number;
+  // open: platforms with an open report; upheld: reports an admin upheld
+  reports: { open: number; upheld: number };
+  under_review: boolean;
+}
+
+export type ReviewDecision = "cleared" | "suspended" | "revoked";
+
+// Distinct platforms with open reports that put an agent up for review
+const REVIEW_THRESHOLD_PLATFORMS = 3;
+// Only recent reports count towards the threshold
+const REVIEW_WINDOW_DAYS = 30;
+
+function mapReport(row: any): AgentReport {
+  return {
+    id: row.id,
+    agent_id: row.agent_id,
+    platform_id: row.platform_id || undefined,
+    category: row.category,
+    description: row.description || undefined,
+    evidence: JSON.parse(row.evidence || "[]"),
+    status: row.status,
+    resolution_note: row.resolution_note || undefined,
+    resolved_at: row.resolved_at || undefined,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * File a report against an agent
+ * The platform needs a verified domain and must have verified the agent. It can
+ * have one open report per agent and category. Returns whether this report put
+ * the agent in the review queue.
+ */
+export async function createAgentReport(
+  platformId: string,
+  agentId: string,
+  category: ReportCategory,
+  description?: string,
+  evidence: string[] = []
+): Promise<{ report: AgentReport; escalated: boolean }> {
+  const agent = await getAgent(agentId);
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  // Registration is free: only platforms with a verified domain that have
+  // actually verified the agent get a say in its reputation
+  const reporter = await queryOne<{ domain_verified_at: string | null; verified_agent: boolean }>(
+    `SELECT p.domain_verified_at,
+            EXISTS (
+              SELECT 1 FROM agent_platforms ap WHERE ap.agent_id = $1 AND ap.platform_id = p.id
+            ) AS verified_agent
+     FROM platforms p WHERE p.id = $2`,
+    [agentId, platformId]
+  );
+  if (!reporter?.domain_verified_at) {
+    throw new Error("Verify your platform's domain before reporting agents");
+  }
+  if (!reporter.verified_agent) {
+    throw new Error("Only platforms that have verified this agent can report it");
+  }
+
+  const row = await queryOne<any>(
+    `INSERT INTO agent_reports (id, agent_id, platform_id, category, description, evidence)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (agent_id, platform_id, category) WHERE status = 'open' DO NOTHING
+     RETURNING *`,
+    [generateId("rpt"), agentId, platformId, category, description ?? null, JSON.stringify(evidence)]
+  );
+  if (!row) {
+    throw new Error(`Agent already has an open ${category} report from this platform`);
+  }
+
+  // Several platforms independently reporting the agent sends it to review
+  const reporters = await queryOne<{ count: string }>(
+    `SELECT COUNT(DISTINCT platform_id) AS count FROM agent_reports
+     WHERE agent_id = $1 AND status = 'open' AND created_at > NOW() - $2 * INTERVAL '1 day'`,
+    [agentId, REVIEW_WINDOW_DAYS]
+  );
+
+  let escalated = false;
+  if (parseInt(reporters?.count || "0", 10) >= REVIEW_THRESHOLD_PLATFORMS) {
+    const { rowCount } = await execute(
+      `UPDATE agents SET review_requested_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND review_requested_at IS NULL`,
+      [agentId]
+    );
+    escalated = rowCount > 0;
+  }
+
+  return { report: mapReport(row), escalated };
+}
+
+/**
+ * Page through reports, newest first
+ */
+export async function listAgentReports(
+  filter: { agentId?: string; platformId?: string; status?: AgentReport["status"] },
+  page: number,
+  limit: number
+): Promise<{ reports: AgentReport[]; total: number }> {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (filter.agentId) {
+    values.push(filter.agentId);
+    conditions.push(`agent_id = $${values.length}`);
+  }
+  if (filter.platformId) {
+    values.push(filter.platformId);
+    conditions.push(`platform_id = $${values.length}`);
+  }
+  if (filter.status) {
+    values.push(filter.status);
+    conditions.push(`status = $${values.length}`);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  const total = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) AS count FROM agent_reports ${where}`,
+    values
+  );
+
+  const rows = await query<any>(
+    `SELECT * FROM agent_reports ${where}
+     ORDER BY created_at DESC
+     LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+    [...values, limit, (page - 1) * limit]
+  );
+
+  return { reports: rows.map(mapReport), total: parseInt(total?.count || "0", 10) };
+}
+
+/**
+ * Agents waiting for admin review, oldest first, with their open reports by category
+ */
+export async function getReviewQueue(): Promise<
+  {
+    agent_id: string;
+    name: string;
+    status: string;
+    review_requested_at: string;
+    open_reports: number;
+    reporting_platforms: number;
+    categories: Record<string, number>;
+  }[]
+> {
+  const rows = await query<any>(
+    `SELECT a.id, a.name, a.status, a.review_requested_at,
+            COUNT(r.id) AS open_reports,
+            COUNT(DISTINCT r.platform_id) AS reporting_platforms
+     FROM agents a
+     LEFT JOIN agent_reports r ON r.agent_id = a.id AND r.status = 'open'
+     WHERE a.review_requested_at IS NOT NULL
+     GROUP BY a.id
+     ORDER BY a.review_requested_at ASC`
+  );
+
+  const counts = await query<{ agent_id: string; category: string; count: string }>(
+    `SELECT agent_id, category, COUNT(*) AS count FROM agent_reports
+     WHERE status = 'open' AND agent_id = ANY($1)
+     GROUP BY agent_id, category`,
+    [rows.map((row) => row.id)]
+  );
+
+  return rows.map((row) => ({
+    agent_id: row.id,
+    name: row.name,
+    status: row.status,
+    review_requested_at: row.review_requested_at,
+    open_reports: parseInt(row.open_reports, 10),
+    reporting_platforms: parseInt(row.reporting_platforms, 10),
+    categories: Object.fromEntries(
+      counts
+        .filter((count) => count.agent_id === row.id)
+        .map((count) => [count.category, parseInt(count.count, 10)])
+    ),
+  }));
+}
+
+/**
+ * Close an agent's review: open reports are upheld (suspended, revoked) or
+ * dismissed (cleared), and the agent leaves the queue
+ * Returns the agent's previous status; the caller applies status side effects.
+ */
+export async function resolveAgentReview(
+  agentId: string,
+  decision: ReviewDecision,
+  note?: string
+): Promise<{ previousStatus: string; resolvedReports: number }> {
+  const agent = await getAgent(agentId);
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  const { rowCount } = await execute(
+    `UPDATE agent_reports
+     SET status = $1, resolution_note = $2, resolved_at = NOW()
+     WHERE agent_id = $3 AND status = 'open'`,
+    [decision === "cleared" ? "dismissed" : "upheld", note ?? null, agentId]
+  );
+
+  await execute(
+    `UPDATE agents
+     SET review_requested_at = NULL,
+         status = CASE WHEN $1::text = 'cleared' THEN status ELSE $1::text END,
+         updated_at = NOW()
+     WHERE id = $2`,
+    [decision, agentId]
+  );
+
+  return { previousStatus: agent.status, resolvedReports: rowCount };
+}
+
+/**
+ * Reputation of several agents, keyed by agent id
+ *
+ * Score: 50, plus up to 25 for the number of platforms that verified the
+ * agent (5 each) and up to 25 for valid verifications (log scale), minus 10
+ * per platform with an open report and 25 per upheld report.
+ */
+export async function getAgentReputations(agentIds: string[]): Promise<Map<string, AgentReputation>> {
+  const ids = [...new Set(agentIds)];
+  const reputations = new Map<string, AgentReputation>();
+  if (ids.length === 0) return reputations;
+
+  const [agents, platforms, reports] = await Promise.all([
+    query<{ id: string; review_requested_at: string | null }>(
+      "SELECT id, review_requested_at FROM agents WHERE id = ANY($1)",
+      [ids]
+    ),
+    // Running counts kept by recordAgentPlatform, not a scan of the audit log
+    query<{ agent_id: string; platforms: string; verifications: string }>(
+      `SELECT agent_id, COUNT(*) AS platforms, COALESCE(SUM(verification_count), 0) AS verifications
+       FROM agent_platforms
+       WHERE agent_id = ANY($1)
+       GROUP BY agent_id`,
+      [ids]
+    ),
+    query<{ agent_id: string; open_platforms: string; upheld: string }>(
+      `SELECT agent_id,
+              COUNT(DISTINCT platform_id) FILTER (WHERE status = 'open') AS open_platforms,
+              COUNT(*) FILTER (WHERE status = 'upheld') AS upheld
+       FROM agent_reports
+       WHERE agent_id = ANY($1)
+       GROUP BY agent_id`,
+      [ids]
+    ),
+  ]);
+
+  for (const agent of agents) {
+    const platformRow = platforms.find((row) => row.agent_id === agent.id);
+    const verified = parseInt(platformRow?.verifications || "0", 10);
+    const platformCount = parseInt(platformRow?.platforms || "0", 10);
+    const reportRow = reports.find((row) => row.agent_id === agent.id);
+    const open = parseInt(reportRow?.open_platforms || "0", 10);
+    const upheld = parseInt(reportRow?.upheld || "0", 10);
+
+    const raw =
+      50 +
+      Math.min(25, platformCount * 5) +
+      Math.min(25, Math.round(6 * Math.log10(1 + verified))) -
+      open * 10 -
+      upheld * 25;
+    const score = Math.max(0, Math.min(100, raw));
+
+    reputations.set(agent.id, {
+      score,
+      level: score >= 70 ? "high" : score >= 40 ? "medium" : "low",
+      verifications: verified,
+      platforms: platformCount,
+      reports: { open, upheld },
+      under_review: !!agent.review_requested_at,
+    });
+  }
+
+  return reputations;
+}
+
+/**
+ * Reputation of one agent (null if the agent does not exist)
+ */
+export async function getAgentReputation(agentId: string): Promise<AgentReputation | null> {
+  const reputations = await getAgentReputations([agentId]);
+  return reputations.get(agentId) ?? null;
+}
@@ -0,0 +1,220 @@
+/**
+ * Session Service
+ * Challenge-response login: agents sign a server nonce with their registered key
+ * and get back a short-lived access token bound to one platform.
+ * Token exchange: agents trade a proof (plus a key signature) for a short-lived
+ * token bound to one platform that carries only the claims they choose.
+ */
+
+import { queryOne, execute, generateId } from "../db/index.js";
+import {
+  generateNonce,
+  createSigningMessage,
+  createTokenExchangeMessage,
+  verifyEd25519Signature,
+} from "../lib/crypto.js";
+import {
+  signAccessToken,
+  signExchangedToken,
+  verifyProofToken,
+  type ExchangeableClaim,
+  type ExchangedTokenPayload,
+} from "../lib/jwt.js";
+import { getAgent, getProof, getProofByAgentId } from "./proof.service.js";
+import { getPlatform } from "./platform.service.js";
+
+const AUTH_NONCE_EXPIRY_SECONDS = 5 * 60;
+const ACCESS_TOKEN_EXPIRY_SECONDS = parseInt(
+  process.env.AGENT_ACCESS_TOKEN_EXPIRY_SECONDS || "900",
+  10
+);
+const EXCHANGED_TOKEN_EXPIRY_SECONDS = parseInt(
+  process.env.EXCHANGED_TOKEN_EXPIRY_SECONDS || "300",
+  10
+);
+// How far a token exchange timestamp may drift from server time
+const EXCHANGE_MAX_SKEW_SECONDS = 5 * 60;
+
+/**
+ * Issue a login nonce for an agent
+ */
+export async function createAuthNonce(
+  agentId: string
+): Promise<{ nonce: string; message: string; expiresAt: string }> {
+  const agent = await getAgent(agentId);
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  if (agent.status !== "verified") {
+    throw new Error(`Agent status is ${agent.status}`);
+  }
+
+  const nonce = generateNonce(32);
+  const expiresAt = new Date(Date.now() + AUTH_NONCE_EXPIRY_SECONDS * 1000).toISOString();
+
+  await execute(
+    `INSERT INTO agent_auth_nonces (nonce, agent_id, expires_at) VALUES ($1, $2, $3)`,
+    [nonce, agentId, expiresAt]
+  );
+
+  return { nonce, message: createSigningMessage(nonce, agent.name), expiresAt };
+}
+
+/**
+ * Exchange a signed nonce for an access token bound to one platform
+ */
+export async function authenticateAgent(
+  agentId: string,
+  nonce: string,
+  signature: string,
+  audience: string
+): Promise<{ token: string; expiresAt: string; expiresIn: number }> {
+  const agent = await getAgent(agentId);
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  if (agent.status !== "verified") {
+    throw new Error(`Agent status is ${agent.status}`);
+  }
+
+  const platform = await getPlatform(audience);
+  if (!platform || platform.status !== "active") {
+    throw new Error("Unknown audience platform");
+  }
+
+  // Consume the nonce (single use, even if the signature turns out invalid)
+  const row = await queryOne<{ nonce: string }>(
+    `UPDATE agent_auth_nonces SET used_at = NOW()
+     WHERE nonce = $1 AND agent_id = $2 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING nonce`,
+    [nonce, agentId]
+  );
+  if (!row) {
+    throw new Error("Invalid or expired nonce");
+  }
+
+  const valid = await verifyEd25519Signature(
+    agent.public_key,
+    signature,
+    createSigningMessage(nonce, agent.name)
+  );
+  if (!valid) {
+    throw new Error("Invalid signature");
+  }
+
+  const proof = await getProofByAgentId(agentId);
+  if (!proof || new Date(proof.expires_at) < new Date()) {
+    throw new Error("Agent has no active proof");
+  }
+
+  const token = await signAccessToken(
+    agentId,
+    platform.id,
+    generateId("ses"),
+    { proof_id: proof.id, public_key: agent.public_key },
+    ACCESS_TOKEN_EXPIRY_SECONDS
+  );
+
+  return {
+    token,
+    expiresAt: new Date(Date.now() + ACCESS_TOKEN_EXPIRY_SECONDS * 1000).toISOString(),
+    expiresIn: ACCESS_TOKEN_EXPIRY_SECONDS,
+  };
+}
+
+/**
+ * Exchange a proof token for a short-lived token bound to one platform
+ * The agent signs agentproof:exchange:<proof_id>:<audience>:<timestamp> with
+ * its registered key; only the requested claims are copied into the new token.
+ */
+export async function exchangeProofToken(
+  subjectToken: string,
+  audience: string,
+  timestamp: number,
+  signature: string,
+  requestedClaims: ExchangeableClaim[]
+): Promise<{ token: string; expiresAt: string; expiresIn: number }> {
+  const result = await verifyProofToken(subjectToken);
+  if (!result.valid || !result.payload) {
+    throw new Error(`Invalid subject token: ${result.error || "verification failed"}`);
+  }
+  const { payload } = result;
+
+  const proof = await getProof(payload.jti);
+  if (!proof || proof.status !== "active") {
+    throw new Error("Invalid subject token: proof is not active");
+  }
+
+  const agent = await getAgent(payload.sub);
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  if (agent.status !== "verified") {
+    throw new Error(`Agent status is ${agent.status}`);
+  }
+
+  const platform = await getPlatform(audience);
+  if (!platform || platform.status !== "active") {
+    throw new Error("Unknown audience platform");
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > EXCHANGE_MAX_SKEW_SECONDS) {
+    throw new Error("Invalid timestamp: too old or in the future");
+  }
+
+  const valid = await verifyEd25519Signature(
+    agent.public_key,
+    signature,
+    createTokenExchangeMessage(proof.id, platform.id, timestamp)
+  );
+  if (!valid) {
+    throw new Error("Invalid signature");
+  }
+
+  const claims: ExchangedTokenPayload["agent"] = { name: agent.name };
+  for (const claim of new Set(requestedClaims)) {
+    switch (claim) {
+      case "public_key":
+        claims.public_key = agent.public_key;
+        break;
+      case "capabilities":
+        claims.capabilities = payload.agp.agent.capabilities;
+        break;
+      case "model_family":
+        claims.model_family = payload.agp.agent.model_family;
+        break;
+      case "framework":
+        claims.framework = payload.agp.agent.framework;
+        break;
+      case "difficulty":
+        claims.difficulty = payload.agp.difficulty;
+        break;
+      case "tasks_passed":
+        claims.tasks_passed = payload.agp.tasks_passed;
+        break;
+    }
+  }
+
+  // Never outlive the proof it was derived from
+  const expiresIn = Math.max(
+    0,
+    Math.min(EXCHANGED_TOKEN_EXPIRY_SECONDS, payload.exp - Math.floor(Date.now() / 1000))
+  );
+
+  const token = await signExchangedToken(
+    agent.id,
+    platform.id,
+    generateId("xch"),
+    { proof_id: proof.id, agent: claims },
+    expiresIn
+  );
+
+  return {
+    token,
+    expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    expiresIn,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Status List Service
+ * Publishes proof revocations as a signed, compressed bitstring
+ * (IETF OAuth Token Status List) so platforms can honour them offline.
+ *
+ * Every proof gets a status_index at issue time, embedded in its token as
+ * status.status_list.idx. Bit idx is set when the proof is no longer valid.
+ */
+
+import { query, queryOne } from "../db/index.js";
+import { signStatusListToken, type TokenStatusReference } from "../lib/jwt.js";
+import { deflateSync } from "zlib";
+
+// How long verifiers may cache the list before refetching
+const STATUS_LIST_TTL_SECONDS = 5 * 60;
+// Hard expiry of a signed list, so a stale copy cannot be replayed forever
+const STATUS_LIST_EXPIRY_SECONDS = 24 * 60 * 60;
+// Pad small lists so a single index does not stand out (herd privacy)
+const MIN_STATUS_LIST_ENTRIES = 131072;
+
+let cached: { token: string; expiresAt: number } | null = null;
+
+/**
+ * URL the proof status list is published at
+ */
+export function getStatusListUri(): string {
+  const baseUrl = process.env.BASE_URL || "https://knowyourclaw.com";
+  return `${baseUrl}/api/v1/status-lists/proofs`;
+}
+
+/**
+ * Reserve the next status list index for a new proof
+ */
+export async function allocateStatusIndex(): Promise<TokenStatusReference> {
+  const row = await queryOne<{ idx: string }>(
+    "SELECT nextval('proof_status_index_seq') AS idx"
+  );
+  return {
+    status_list: {
+      idx: parseInt(row!.idx, 10),
+      uri: getStatusListUri(),
+    },
+  };
+}
+
+/**
+ * Status list entry of an agent's current proof (null without an active,
+ * unexpired proof that has one)
+ */
+export async function getActiveStatusReference(agentId: string): Promise<TokenStatusReference | null> {
+  const row = await queryOne<{ status_index: number }>(
+    `SELECT status_index FROM proofs
+     WHERE agent_id = $1 AND status = 'active' AND expires_at > NOW() AND status_index IS NOT NULL
+     ORDER BY issued_at DESC
+     LIMIT 1`,
+    [agentId]
+  );
+  if (!row) return null;
+
+  return {
+    status_list: {
+      idx: row.status_index,
+      uri: getStatusListUri(),
+    },
+  };
+}
+
+/**
+ * Build the status list bitstring (1 bit per proof, LSB first)
+ * A proof is invalid once it is revoked or superseded, or its agent is no
+ * longer verified.
+ */
+async function buildStatusList(): Promise<Buffer> {
+  const maxRow = await queryOne<{ max: number | null }>(
+    "SELECT MAX(status_index) AS max FROM proofs"
+  );
+  const entries = Math.max((maxRow?.max ?? -1) + 1, MIN_STATUS_LIST_ENTRIES);
+  const bits = Buffer.alloc(Math.ceil(entries / 8));
+
+  const invalid = await query<{ status_index: number }>(
+    `SELECT p.status_index FROM proofs p
+     JOIN agents a ON a.id = p.agent_id
+     WHERE p.status_index IS NOT NULL
+       AND (p.status != 'active' OR a.status != 'verified')`
+  );
+
+  for (const { status_index } of invalid) {
+    bits[status_index >> 3] |= 1 << (status_index & 7);
+  }
+
+  return bits;
+}
+
+/**
+ * Get the signed status list token (cached for the list TTL)
+ */
+export async function getStatusListToken(): Promise<{ token: string; ttl: number }> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return { token: cached.token, ttl: STATUS_LIST_TTL_SECONDS };
+  }
+
+  const bits = await buildStatusList();
+  const token = await signStatusListToken(
+    getStatusListUri(),
+    { bits: 1, lst: deflateSync(bits).toString("base64url") },
+    STATUS_LIST_TTL_SECONDS,
+    STATUS_LIST_EXPIRY_SECONDS
+  );
+
+  cached = { token, expiresAt: Date.now() + STATUS_LIST_TTL_SECONDS * 1000 };
+  return { token, ttl: STATUS_LIST_TTL_SECONDS };
+}
+
+/**
+ * Drop the cached list so the next request reflects a status change
+ */
+export function invalidateStatusList(): void {
+  cached = null;
+}
@@ -0,0 +1,183 @@
+/**
+ * Verification Event Service
+ * Append-only log of every token verification a platform requests, with a
+ * daily per-platform rollup for usage reporting.
+ */
+
+import { query, queryOne, execute } from "../db/index.js";
+
+export type VerificationSource = "verify" | "batch" | "introspect";
+
+export interface VerificationEventInput {
+  platformId: string;
+  agentId?: string;
+  proofId?: string;
+  valid: boolean;
+  failureReason?: string;
+  source: VerificationSource;
+  ip?: string;
+}
+
+export interface VerificationEvent {
+  id: string;
+  platform_id: string;
+  agent_id?: string;
+  proof_id?: string;
+  result: "valid" | "invalid";
+  failure_reason?: string;
+  source: VerificationSource;
+  ip?: string;
+  created_at: string;
+}
+
+export interface VerificationEventFilter {
+  platformId?: string;
+  agentId?: string;
+  result?: "valid" | "invalid";
+  since?: Date;
+  until?: Date;
+}
+
+export interface DailyUsage {
+  day: string;
+  valid: number;
+  invalid: number;
+}
+
+function mapEvent(row: any): VerificationEvent {
+  return {
+    id: String(row.id),
+    platform_id: row.platform_id,
+    agent_id: row.agent_id || undefined,
+    proof_id: row.proof_id || undefined,
+    result: row.result,
+    failure_reason: row.failure_reason || undefined,
+    source: row.source,
+    ip: row.ip || undefined,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Append verification events and add them to the daily rollup
+ */
+export async function recordVerificationEvents(events: VerificationEventInput[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const values: unknown[] = [];
+  const rows = events.map((event, i) => {
+    values.push(
+      event.platformId,
+      event.agentId ?? null,
+      event.proofId ?? null,
+      event.valid ? "valid" : "invalid",
+      event.failureReason ?? null,
+      event.source,
+      event.ip ?? null
+    );
+    const base = i * 7;
+    return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`;
+  });
+
+  await execute(
+    `INSERT INTO verification_events
+     (platform_id, agent_id, proof_id, result, failure_reason, source, ip)
+     VALUES ${rows.join(", ")}`,
+    values
+  );
+
+  // One rollup row per platform per day
+  const totals = new Map<string, { valid: number; invalid: number }>();
+  for (const event of events) {
+    const total = totals.get(event.platformId) ?? { valid: 0, invalid: 0 };
+    if (event.valid) total.valid++;
+    else total.invalid++;
+    totals.set(event.platformId, total);
+  }
+
+  for (const [platformId, total] of totals) {
+    await execute(
+      `INSERT INTO platform_usage_daily (platform_id, day, valid_count, invalid_count)
+       VALUES ($1, CURRENT_DATE, $2, $3)
+       ON CONFLICT (platform_id, day) DO UPDATE
+       SET valid_count = platform_usage_daily.valid_count + EXCLUDED.valid_count,
+           invalid_count = platform_usage_daily.invalid_count + EXCLUDED.invalid_count`,
+      [platformId, total.valid, total.invalid]
+    );
+  }
+}
+
+/**
+ * Page through verification events, newest first
+ */
+export async function listVerificationEvents(
+  filter: VerificationEventFilter,
+  page: number,
+  limit: number
+): Promise<{ events: VerificationEvent[]; total: number }> {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (filter.platformId) {
+    values.push(filter.platformId);
+    conditions.push(`platform_id = $${values.length}`);
+  }
+  if (filter.agentId) {
+    values.push(filter.agentId);
+    conditions.push(`agent_id = $${values.length}`);
+  }
+  if (filter.result) {
+    values.push(filter.result);
+    conditions.push(`result = $${values.length}`);
+  }
+  if (filter.since) {
+    values.push(filter.since.toISOString());
+    conditions.push(`created_at >= $${values.length}`);
+  }
+  if (filter.until) {
+    values.push(filter.until.toISOString());
+    conditions.push(`created_at < $${values.length}`);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  const total = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) AS count FROM verification_events ${where}`,
+    values
+  );
+
+  const rows = await query<any>(
+    `SELECT * FROM verification_events ${where}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+    [...values, limit, (page - 1) * limit]
+  );
+
+  return { events: rows.map(mapEvent), total: parseInt(total?.count || "0", 10) };
+}
+
+/**
+ * Daily verification counts for a platform (most recent days first)
+ */
+export async function getDailyUsage(platformId: string, days: number): Promise<DailyUsage[]> {
+  const rows = await query<any>(
+    `SELECT TO_CHAR(day, 'YYYY-MM-DD') AS day, valid_count, invalid_count
+     FROM platform_usage_daily
+     WHERE platform_id = $1 AND day > CURRENT_DATE - $2::int
+     ORDER BY day DESC`,
+    [platformId, days]
+  );
+  return rows.map((row) => ({ day: row.day, valid: row.valid_count, invalid: row.invalid_count }));
+}
+
+/**
+ * Valid verifications this calendar month (what the monthly counter used to hold)
+ */
+export async function getMonthlyVerificationCount(platformId: string): Promise<number> {
+  const row = await queryOne<{ count: string }>(
+    `SELECT COALESCE(SUM(valid_count), 0) AS count FROM platform_usage_daily
+     WHERE platform_id = $1 AND day >= DATE_TRUNC('month', CURRENT_DATE)`,
+    [platformId]
+  );
+  return parseInt(row?.count || "0", 10);
+}
@@ -0,0 +1,283 @@
+/**
+ * Verification Service
+ * Checks a token a platform received from an agent: signature, audience,
+ * proof status, key compromise, optional proof of possession and agent status.
+ * Shared by /api/v1/verify and /oauth/introspect.
+ */
+
+import {
+  verifyProofToken,
+  verifyAccessToken,
+  verifyExchangedToken,
+  decodeToken,
+  type ProofTokenPayload,
+  type AccessTokenPayload,
+  type ExchangedTokenPayload,
+  type DisclosableClaim,
+} from "../lib/jwt.js";
+import {
+  getAgent,
+  getAgents,
+  getProof,
+  recordVerification,
+  type Agent,
+} from "./proof.service.js";
+import { isKeyCompromised } from "./key.service.js";
+import { verifyProofOfPossession, type ProofOfPossession } from "./pop.service.js";
+import { incrementVerificationCount } from "./platform.service.js";
+import { recordAgentPlatform } from "./webhook.service.js";
+import {
+  recordVerificationEvents,
+  type VerificationEventInput,
+  type VerificationSource,
+} from "./verification-event.service.js";
+
+export interface VerifiedToken {
+  valid: true;
+  agent: Agent;
+  // Claims of the proof the token stands for
+  payload: ProofTokenPayload;
+  // Set when an access token (/api/v1/agents/auth) was presented
+  session?: AccessTokenPayload;
+  // Set when an exchanged token (/api/v1/agents/token/exchange) was presented
+  exchanged?: ExchangedTokenPayload;
+  // Set when an SD-JWT was presented: the only claims the agent revealed
+  disclosed?: DisclosableClaim[];
+}
+
+export type TokenVerificationResult = VerifiedToken | { valid: false; error: string };
+
+// Where a verification came from, for the audit log
+export interface VerificationContext {
+  source: VerificationSource;
+  ip?: string;
+}
+
+/**
+ * Agent claims the platform may see: everything for regular tokens, only the
+ * disclosed ones for SD-JWT presentations and exchanged tokens
+ */
+export function getVisibleAgentClaims(result: VerifiedToken): {
+  name?: string;
+  description?: string;
+  capabilities?: string[];
+  model_family?: string;
+  framework?: string;
+  difficulty?: string;
+  tasks_passed?: string[];
+} {
+  // An exchanged token carries exactly the claims the agent chose for this platform
+  if (result.exchanged) {
+    const { name, capabilities, model_family, framework, difficulty, tasks_passed } = result.exchanged.agent;
+    return { name, capabilities, model_family, framework, difficulty, tasks_passed };
+  }
+
+  const { difficulty, tasks_passed } = result.payload.agp;
+
+  if (!result.disclosed) {
+    const { agent } = result;
+    return {
+      name: agent.name,
+      description: agent.description,
+      capabilities: agent.capabilities,
+      model_family: agent.model_family,
+      framework: agent.framework,
+      difficulty,
+      tasks_passed,
+    };
+  }
+
+  // Undisclosed claims are absent from an SD-JWT payload
+  const { name, capabilities, model_family, framework } = result.payload.agp.agent;
+  return { name, capabilities, model_family, framework, difficulty, tasks_passed };
+}
+
+/**
+ * Run every check on a token presented to a platform (nothing is recorded)
+ */
+async function checkToken(
+  token: string,
+  platformId: string,
+  proofOfPossession: ProofOfPossession | undefined,
+  loadAgent: (agentId: string) => Promise<Agent | null>
+): Promise<TokenVerificationResult> {
+  // Access tokens and exchanged tokens must be bound to this platform; they
+  // stand in for the agent's proof token they were issued against
+  let session: AccessTokenPayload | undefined;
+  let exchanged: ExchangedTokenPayload | undefined;
+  let proofToken = token;
+
+  const tokenUse = decodeToken<{ token_use?: string }>(token)?.payload.token_use;
+  if (tokenUse === "access" || tokenUse === "exchange") {
+    const bound =
+      tokenUse === "access"
+        ? await verifyAccessToken(token, platformId)
+        : await verifyExchangedToken(token, platformId);
+
+    if (!bound.valid || !bound.payload) {
+      return { valid: false, error: bound.error || "Invalid token" };
+    }
+
+    const backingProof = await getProof(bound.payload.proof_id);
+    if (!backingProof || backingProof.agent_id !== bound.payload.sub) {
+      return { valid: false, error: "Proof not found" };
+    }
+
+    if (tokenUse === "access") {
+      session = bound.payload as AccessTokenPayload;
+    } else {
+      exchanged = bound.payload as ExchangedTokenPayload;
+    }
+    proofToken = backingProof.token;
+  }
+
+  // Verify the JWT token (or VC-JWT / SD-JWT presentation)
+  const result = await verifyProofToken(proofToken);
+  if (!result.valid || !result.payload) {
+    return { valid: false, error: result.error || "Invalid token" };
+  }
+
+  // Revoked and superseded proofs are also published in the status list
+  const storedProof = await getProof(result.payload.jti);
+  if (!storedProof) {
+    return { valid: false, error: "Proof not found" };
+  }
+  if (storedProof.status !== "active") {
+    return { valid: false, error: `Proof has been ${storedProof.status}` };
+  }
+
+  // Reject tokens issued under a key the agent reported as compromised
+  if (await isKeyCompromised(result.payload.agp.agent.public_key)) {
+    return { valid: false, error: "Token was issued under a compromised key" };
+  }
+
+  // The presenter must hold the key the proof was issued to
+  if (proofOfPossession) {
+    const pop = await verifyProofOfPossession(
+      token,
+      result.payload.agp.agent.public_key,
+      proofOfPossession
+    );
+    if (!pop.valid) {
+      return { valid: false, error: pop.error || "Invalid proof of possession" };
+    }
+  }
+
+  const agent = await loadAgent(result.payload.sub);
+  if (!agent) {
+    return { valid: false, error: "Agent not found" };
+  }
+
+  if (agent.status !== "verified") {
+    return { valid: false, error: `Agent status is ${agent.status}` };
+  }
+
+  return {
+    valid: true,
+    agent,
+    payload: result.payload,
+    session,
+    exchanged,
+    disclosed: result.disclosed,
+  };
+}
+
+/**
+ * Audit log entry for a checked token
+ * Failed tokens are logged with whatever agent and proof ids they claim.
+ */
+function toVerificationEvent(
+  token: string,
+  result: TokenVerificationResult,
+  platformId: string,
+  context: VerificationContext
+): VerificationEventInput {
+  if (result.valid) {
+    return {
+      platformId,
+      agentId: result.agent.id,
+      proofId: result.payload.jti,
+      valid: true,
+      source: context.source,
+      ip: context.ip,
+    };
+  }
+
+  // Access and exchanged tokens name their proof in proof_id, proof tokens in jti
+  const claims = decodeToken<{ sub?: unknown; jti?: unknown; proof_id?: unknown; token_use?: unknown }>(
+    token.split("~")[0]
+  )?.payload;
+  const proofId = claims?.token_use ? claims.proof_id : claims?.jti;
+
+  return {
+    platformId,
+    agentId: typeof claims?.sub === "string" ? claims.sub : undefined,
+    proofId: typeof proofId === "string" ? proofId : undefined,
+    valid: false,
+    failureReason: result.error,
+    source: context.source,
+    ip: context.ip,
+  };
+}
+
+/**
+ * Verify a token presented to a platform and record the verification
+ */
+export async function verifyTokenForPlatform(
+  token: string,
+  platformId: string,
+  context: VerificationContext,
+  proofOfPossession?: ProofOfPossession
+): Promise<TokenVerificationResult> {
+  const result = await checkToken(token, platformId, proofOfPossession, getAgent);
+
+  if (result.valid) {
+    await recordVerification(result.payload.jti, platformId);
+    await recordAgentPlatform(result.agent.id, platformId);
+    await incrementVerificationCount(platformId);
+  }
+  await recordVerificationEvents([toVerificationEvent(token, result, platformId, context)]);
+
+  return result;
+}
+
+/**
+ * Verify many tokens for a platform, results in the same order
+ * Agents are loaded in one query up front; every valid token is recorded and
+ * counted as one verification, and every token gets an audit log entry.
+ */
+export async function verifyTokensForPlatform(
+  tokens: string[],
+  platformId: string,
+  context: VerificationContext
+): Promise<TokenVerificationResult[]> {
+  // Every token format carries the agent id as sub (SD-JWT: before the first ~)
+  const agentIds = tokens
+    .map((token) => decodeToken<{ sub?: string }>(token.split("~")[0])?.payload.sub)
+    .filter((sub): sub is string => typeof sub === "string");
+  const agents = await getAgents(agentIds);
+  const loadAgent = async (agentId: string) => agents.get(agentId) ?? null;
+
+  const results: TokenVerificationResult[] = [];
+  for (const token of tokens) {
+    results.push(await checkToken(token, platformId, undefined, loadAgent));
+  }
+
+  let verified = 0;
+  for (const result of results) {
+    if (result.valid) {
+      await recordVerification(result.payload.jti, platformId);
+      await recordAgentPlatform(result.agent.id, platformId);
+      verified++;
+    }
+  }
+
+  if (verified > 0) {
+    await incrementVerificationCount(platformId, verified);
+  }
+  await recordVerificationEvents(
+    results.map((result, i) => toVerificationEvent(tokens[i], result, platformId, context))
+  );
+
+  return results;
+}
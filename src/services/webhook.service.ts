@@ -0,0 +1,524 @@
+/**
+ * Webhook Service
+ * Tells platforms about agent lifecycle events (suspension, revocation,
+ * claiming, proof changes) without waiting for them to re-verify.
+ *
+ * Events go only to platforms that have verified the agent. Each delivery is
+ * queued in the database, signed with the endpoint's secret and retried with
+ * exponential backoff; the queue doubles as the delivery log. Endpoints must
+ * resolve to public addresses, and are disabled after repeated failures.
+ */
+
+import { createHmac } from "crypto";
+import * as http from "http";
+import * as https from "https";
+import { query, queryOne, execute, generateId } from "../db/index.js";
+import { generateApiKey } from "../lib/crypto.js";
+import { assertPublicHost, publicOnlyLookup } from "../lib/network.js";
+
+export const WEBHOOK_EVENTS = [
+  "agent.suspended",
+  "agent.revoked",
+  "agent.claimed",
+  "proof.revoked",
+  "proof.renewed",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookEndpoint {
+  id: string;
+  platform_id: string;
+  url: string;
+  events: WebhookEventType[];
+  status: string;
+  consecutive_failures: number;
+  created_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  status: string;
+  attempts: number;
+  next_attempt_at?: string;
+  last_attempt_at?: string;
+  response_status?: number;
+  last_error?: string;
+  delivered_at?: string;
+  created_at: string;
+}
+
+const MAX_ENDPOINTS_PER_PLATFORM = 5;
+const MAX_DELIVERY_ATTEMPTS = 8;
+// Deliveries in a row that fail after every retry before the endpoint is disabled
+const MAX_CONSECUTIVE_FAILURES = 5;
+// Backoff: 30s, 1m, 2m, 4m, ... capped at 6 hours
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_BATCH_SIZE = 20;
+// A delivery stuck in 'sending' this long (instance died mid-send) is retried
+const SENDING_STALE_SECONDS = 5 * 60;
+const WORKER_INTERVAL_MS = 30 * 1000;
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let processing = false;
+
+function mapEndpoint(row: any): WebhookEndpoint {
+  return {
+    id: row.id,
+    platform_id: row.platform_id,
+    url: row.url,
+    events: JSON.parse(row.events),
+    status: row.status,
+    consecutive_failures: row.consecutive_failures ?? 0,
+    created_at: row.created_at,
+  };
+}
+
+function mapDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    endpoint_id: row.endpoint_id,
+    event_id: row.event_id,
+    event_type: row.event_type,
+    status: row.status,
+    attempts: row.attempts,
+    next_attempt_at: row.status === "pending" ? row.next_attempt_at : undefined,
+    last_attempt_at: row.last_attempt_at || undefined,
+    response_status: row.response_status ?? undefined,
+    last_error: row.last_error || undefined,
+    delivered_at: row.delivered_at || undefined,
+    created_at: row.created_at,
+  };
+}
+
+// http://localhost endpoints for local development
+function isLocalDevUrl(url: URL): boolean {
+  return (
+    process.env.NODE_ENV !== "production" &&
+    url.protocol === "http:" &&
+    ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname)
+  );
+}
+
+/**
+ * Validate a webhook URL: HTTPS (http on localhost outside production)
+ */
+export function isValidWebhookUrl(uri: string): boolean {
+  try {
+    const url = new URL(uri);
+    return url.protocol === "https:" || isLocalDevUrl(url);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a webhook URL's host is on the public internet
+ */
+async function assertPublicWebhookUrl(uri: string): Promise<void> {
+  const url = new URL(uri);
+  if (isLocalDevUrl(url)) return;
+
+  try {
+    await assertPublicHost(url.hostname);
+  } catch {
+    throw new Error("Invalid webhook URL (must resolve to a public address)");
+  }
+}
+
+/**
+ * Signature header value: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Register a webhook endpoint
+ * The signing secret is returned once.
+ */
+export async function createWebhookEndpoint(
+  platformId: string,
+  url: string,
+  events: WebhookEventType[]
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  if (!isValidWebhookUrl(url)) {
+    throw new Error("Invalid webhook URL (must be HTTPS)");
+  }
+  await assertPublicWebhookUrl(url);
+
+  const count = await queryOne<{ count: string }>(
+    "SELECT COUNT(*) AS count FROM webhook_endpoints WHERE platform_id = $1",
+    [platformId]
+  );
+  if (parseInt(count?.count || "0", 10) >= MAX_ENDPOINTS_PER_PLATFORM) {
+    throw new Error(`Webhook endpoint limit reached (${MAX_ENDPOINTS_PER_PLATFORM})`);
+  }
+
+  const endpointId = generateId("whk");
+  const secret = generateApiKey("whsec");
+  const uniqueEvents = [...new Set(events)];
+
+  await execute(
+    `INSERT INTO webhook_endpoints (id, platform_id, url, secret, events)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [endpointId, platformId, url, secret, JSON.stringify(uniqueEvents)]
+  );
+
+  return {
+    endpoint: {
+      id: endpointId,
+      platform_id: platformId,
+      url,
+      events: uniqueEvents,
+      status: "active",
+      consecutive_failures: 0,
+      created_at: new Date().toISOString(),
+    },
+    secret,
+  };
+}
+
+/**
+ * List a platform's webhook endpoints
+ */
+export async function listWebhookEndpoints(platformId: string): Promise<WebhookEndpoint[]> {
+  const rows = await query<any>(
+    "SELECT * FROM webhook_endpoints WHERE platform_id = $1 ORDER BY created_at ASC",
+    [platformId]
+  );
+  return rows.map(mapEndpoint);
+}
+
+/**
+ * Delete a webhook endpoint (and its delivery log)
+ */
+export async function deleteWebhookEndpoint(platformId: string, endpointId: string): Promise<void> {
+  const { rowCount } = await execute(
+    "DELETE FROM webhook_endpoints WHERE id = $1 AND platform_id = $2",
+    [endpointId, platformId]
+  );
+  if (rowCount === 0) {
+    throw new Error("Webhook endpoint not found");
+  }
+}
+
+/**
+ * Re-enable an endpoint that was disabled after repeated failures
+ */
+export async function enableWebhookEndpoint(platformId: string, endpointId: string): Promise<WebhookEndpoint> {
+  const endpoint = await queryOne<any>(
+    "SELECT * FROM webhook_endpoints WHERE id = $1 AND platform_id = $2",
+    [endpointId, platformId]
+  );
+  if (!endpoint) {
+    throw new Error("Webhook endpoint not found");
+  }
+  await assertPublicWebhookUrl(endpoint.url);
+
+  const row = await queryOne<any>(
+    `UPDATE webhook_endpoints SET status = 'active', consecutive_failures = 0, updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [endpointId]
+  );
+  return mapEndpoint(row);
+}
+
+/**
+ * List recent deliveries for a platform, newest first
+ */
+export async function listWebhookDeliveries(
+  platformId: string,
+  endpointId?: string,
+  limit: number = 50
+): Promise<WebhookDelivery[]> {
+  const rows = endpointId
+    ? await query<any>(
+        `SELECT * FROM webhook_deliveries WHERE platform_id = $1 AND endpoint_id = $2
+         ORDER BY created_at DESC LIMIT $3`,
+        [platformId, endpointId, limit]
+      )
+    : await query<any>(
+        `SELECT * FROM webhook_deliveries WHERE platform_id = $1
+         ORDER BY created_at DESC LIMIT $2`,
+        [platformId, limit]
+      );
+  return rows.map(mapDelivery);
+}
+
+/**
+ * Send a past delivery again (same event id, so receivers can deduplicate)
+ */
+export async function replayWebhookDelivery(
+  platformId: string,
+  deliveryId: string
+): Promise<WebhookDelivery> {
+  const original = await queryOne<any>(
+    `SELECT d.*, e.status AS endpoint_status FROM webhook_deliveries d
+     JOIN webhook_endpoints e ON e.id = d.endpoint_id
+     WHERE d.id = $1 AND d.platform_id = $2`,
+    [deliveryId, platformId]
+  );
+  if (!original) {
+    throw new Error("Webhook delivery not found");
+  }
+  if (original.endpoint_status !== "active") {
+    throw new Error("Webhook endpoint is disabled");
+  }
+
+  const row = await queryOne<any>(
+    `INSERT INTO webhook_deliveries (id, endpoint_id, platform_id, event_id, event_type, payload)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      generateId("whd"),
+      original.endpoint_id,
+      platformId,
+      original.event_id,
+      original.event_type,
+      original.payload,
+    ]
+  );
+
+  processWebhookQueue().catch(console.error);
+  return mapDelivery(row);
+}
+
+/**
+ * Remember that a platform verified an agent, so it receives the agent's events
+ * Called once per valid verification; keeps the per-platform count reputation uses.
+ */
+export async function recordAgentPlatform(agentId: string, platformId: string): Promise<void> {
+  await execute(
+    `INSERT INTO agent_platforms (agent_id, platform_id, verification_count)
+     VALUES ($1, $2, 1)
+     ON CONFLICT (agent_id, platform_id) DO UPDATE
+     SET last_verified_at = NOW(),
+         verification_count = COALESCE(agent_platforms.verification_count, 0) + 1`,
+    [agentId, platformId]
+  );
+}
+
+/**
+ * Queue an event for every subscribed endpoint of the platforms that have
+ * verified the agent
+ */
+export async function emitWebhookEvent(
+  type: WebhookEventType,
+  agentId: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  // proofs.last_verified_by covers verifications from before agent_platforms existed
+  const endpoints = await query<any>(
+    `SELECT e.* FROM webhook_endpoints e
+     WHERE e.status = 'active'
+       AND e.platform_id IN (
+         SELECT platform_id FROM agent_platforms WHERE agent_id = $1
+         UNION
+         SELECT last_verified_by FROM proofs WHERE agent_id = $1 AND last_verified_by IS NOT NULL
+       )`,
+    [agentId]
+  );
+
+  const subscribed = endpoints.filter((row) => JSON.parse(row.events).includes(type));
+  if (subscribed.length === 0) {
+    return;
+  }
+
+  const eventId = generateId("evt");
+  const payload = JSON.stringify({
+    id: eventId,
+    type,
+    created_at: new Date().toISOString(),
+    data: { agent_id: agentId, ...data },
+  });
+
+  for (const endpoint of subscribed) {
+    await execute(
+      `INSERT INTO webhook_deliveries (id, endpoint_id, platform_id, event_id, event_type, payload)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [generateId("whd"), endpoint.id, endpoint.platform_id, eventId, type, payload]
+    );
+  }
+
+  processWebhookQueue().catch(console.error);
+}
+
+/**
+ * POST a payload and resolve with the response status
+ * Redirects are not followed. The connection only goes to public addresses:
+ * the host is checked again here, not just when the endpoint was registered.
+ */
+async function postWebhook(uri: string, headers: Record<string, string>, body: string): Promise<number> {
+  const url = new URL(uri);
+  const localDev = isLocalDevUrl(url);
+  if (!localDev) {
+    // IP literals never reach the lookup below
+    await assertPublicWebhookUrl(uri);
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body).toString() },
+        lookup: localDev ? undefined : publicOnlyLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Attempt one delivery and record the outcome
+ */
+async function deliver(delivery: any): Promise<void> {
+  const endpoint = await queryOne<any>(
+    "SELECT * FROM webhook_endpoints WHERE id = $1",
+    [delivery.endpoint_id]
+  );
+  if (!endpoint) {
+    return;
+  }
+
+  if (endpoint.status !== "active") {
+    await execute(
+      `UPDATE webhook_deliveries SET status = 'failed', last_error = 'Endpoint disabled'
+       WHERE id = $1`,
+      [delivery.id]
+    );
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const timestamp = Math.floor(Date.now() / 1000);
+    responseStatus = await postWebhook(
+      endpoint.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "KnowYourClaw-Webhooks/1.0",
+        "X-KnowYourClaw-Event": delivery.event_type,
+        "X-KnowYourClaw-Delivery": delivery.id,
+        "X-KnowYourClaw-Signature": signWebhookPayload(endpoint.secret, delivery.payload, timestamp),
+      },
+      delivery.payload
+    );
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `HTTP ${responseStatus}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!error) {
+    await execute(
+      `UPDATE webhook_deliveries
+       SET status = 'delivered', attempts = $1, last_attempt_at = NOW(), delivered_at = NOW(),
+           response_status = $2, last_error = NULL
+       WHERE id = $3`,
+      [attempts, responseStatus, delivery.id]
+    );
+    await execute(
+      "UPDATE webhook_endpoints SET consecutive_failures = 0 WHERE id = $1 AND consecutive_failures != 0",
+      [endpoint.id]
+    );
+    return;
+  }
+
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    await execute(
+      `UPDATE webhook_deliveries
+       SET status = 'failed', attempts = $1, last_attempt_at = NOW(), response_status = $2, last_error = $3
+       WHERE id = $4`,
+      [attempts, responseStatus, error, delivery.id]
+    );
+    await execute(
+      `UPDATE webhook_endpoints
+       SET consecutive_failures = consecutive_failures + 1,
+           status = CASE WHEN consecutive_failures + 1 >= $1 THEN 'disabled' ELSE status END,
+           updated_at = NOW()
+       WHERE id = $2`,
+      [MAX_CONSECUTIVE_FAILURES, endpoint.id]
+    );
+    return;
+  }
+
+  const delaySeconds = Math.min(RETRY_BASE_SECONDS * 2 ** (attempts - 1), RETRY_MAX_SECONDS);
+  await execute(
+    `UPDATE webhook_deliveries
+     SET status = 'pending', attempts = $1, last_attempt_at = NOW(), response_status = $2,
+         last_error = $3, next_attempt_at = $4
+     WHERE id = $5`,
+    [attempts, responseStatus, error, new Date(Date.now() + delaySeconds * 1000).toISOString(), delivery.id]
+  );
+}
+
+/**
+ * Send every due delivery
+ * Rows are claimed with SKIP LOCKED so instances never send the same delivery twice.
+ */
+export async function processWebhookQueue(): Promise<void> {
+  if (processing) {
+    return;
+  }
+  processing = true;
+
+  try {
+    while (true) {
+      const batch = await query<any>(
+        `UPDATE webhook_deliveries SET status = 'sending', last_attempt_at = NOW()
+         WHERE id IN (
+           SELECT id FROM webhook_deliveries
+           WHERE (status = 'pending' AND next_attempt_at <= NOW())
+              OR (status = 'sending' AND last_attempt_at < NOW() - INTERVAL '${SENDING_STALE_SECONDS} seconds')
+           ORDER BY next_attempt_at ASC
+           LIMIT ${DELIVERY_BATCH_SIZE}
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`
+      );
+
+      if (batch.length === 0) {
+        break;
+      }
+
+      await Promise.all(batch.map((delivery) => deliver(delivery)));
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Periodically send due deliveries (retries, and events queued by other instances)
+ */
+export function startWebhookWorker(): void {
+  if (workerTimer) {
+    return;
+  }
+
+  workerTimer = setInterval(() => {
+    processWebhookQueue().catch((error) => {
+      console.error("❌ Webhook delivery failed:", error);
+    });
+  }, WORKER_INTERVAL_MS);
+  workerTimer.unref();
+}
@@ -0,0 +1,81 @@
+/**
+ * Code Execution Task (capability: code_execution)
+ * Agent runs a hash chain that is trivial to execute but impractical to do by hand
+ */
+
+import { z } from "zod";
+import { createHash } from "crypto";
+import { generateToken } from "../lib/crypto.js";
+import { saveTaskState, getTaskState } from "../services/challenge.service.js";
+import type { TaskPlugin } from "./types.js";
+
+// Rounds of SHA-256 by difficulty
+const ROUNDS = {
+  easy: 1000,
+  standard: 5000,
+  hard: 20000,
+};
+
+interface HashChainState {
+  seed: string;
+  rounds: number;
+}
+
+const responseSchema = z.object({
+  type: z.literal("code_execution"),
+  result: z.string(),
+});
+
+/**
+ * Apply SHA-256 (hex) to the seed `rounds` times
+ */
+function runHashChain(seed: string, rounds: number): string {
+  let value = seed;
+  for (let i = 0; i < rounds; i++) {
+    value = createHash("sha256").update(value).digest("hex");
+  }
+  return value;
+}
+
+export const codeExecutionTask: TaskPlugin<z.infer<typeof responseSchema>, HashChainState> = {
+  type: "code_execution",
+  includeByDefault: false,
+  capability: "code_execution",
+  responseSchema,
+
+  generate(ctx) {
+    const state = { seed: generateToken(12), rounds: ROUNDS[ctx.difficulty] };
+
+    return {
+      task: {
+        type: "code_execution",
+        prompt: `CODE EXECUTION: Write and run code for this computation.
+
+Start with the string "${state.seed}". Replace it with its SHA-256 hex digest (lowercase), ${state.rounds} times in total.
+
+Return JSON: {"result": "<final hex digest>"}`,
+      },
+      state,
+    };
+  },
+
+  async persist(ctx, state) {
+    await saveTaskState(ctx.challengeId, "code_execution", state);
+  },
+
+  async validate(challenge, response) {
+    const state = await getTaskState<HashChainState>(challenge.id, "code_execution");
+
+    if (!state) {
+      return { passed: false, error: "Code execution task not found" };
+    }
+
+    if (response.result.trim().toLowerCase() !== runHashChain(state.seed, state.rounds)) {
+      return { passed: false, error: "Incorrect hash chain result" };
+    }
+
+    return { passed: true };
+  },
+};
+
+export default codeExecutionTask;
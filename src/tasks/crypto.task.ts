@@ -0,0 +1,53 @@
+/**
+ * Crypto Task
+ * Agent generates an Ed25519 keypair and signs the challenge nonce.
+ * The proven public key becomes the agent's identity.
+ */
+
+import { z } from "zod";
+import { verifyEd25519Signature, createSigningMessage } from "../lib/crypto.js";
+import type { TaskPlugin } from "./types.js";
+
+const responseSchema = z.object({
+  type: z.literal("crypto"),
+  public_key: z.string(),
+  signature: z.string(),
+});
+
+export const cryptoTask: TaskPlugin<z.infer<typeof responseSchema>> = {
+  type: "crypto",
+  includeByDefault: true,
+  responseSchema,
+
+  generate(ctx) {
+    return {
+      task: {
+        type: "crypto",
+        prompt: `Generate an Ed25519 keypair. Sign the following message using SHA256 and return your public key (base64) and signature (base64).
+
+Message to sign: ${createSigningMessage(ctx.nonce, ctx.agentName)}
+
+Return JSON: {"public_key": "base64...", "signature": "base64..."}`,
+        nonce: ctx.nonce,
+      },
+    };
+  },
+
+  async validate(challenge, response) {
+    // Verify Ed25519 signature
+    const message = createSigningMessage(challenge.nonce, challenge.agent_name);
+    const valid = await verifyEd25519Signature(
+      response.public_key,
+      response.signature,
+      message
+    );
+
+    if (!valid) {
+      return { passed: false, error: "Invalid signature" };
+    }
+
+    return { passed: true, publicKey: response.public_key };
+  },
+};
+
+export default cryptoTask;
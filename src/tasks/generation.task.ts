@@ -0,0 +1,59 @@
+/**
+ * Generation Task
+ * Agent writes a unique bio, checked against all existing bios for similarity
+ */
+
+import { z } from "zod";
+import { validateBio, checkBioUniqueness } from "../lib/similarity.js";
+import { getExistingBios, storeBio } from "../services/challenge.service.js";
+import type { TaskPlugin } from "./types.js";
+
+const responseSchema = z.object({
+  type: z.literal("generation"),
+  bio: z.string(),
+});
+
+export const generationTask: TaskPlugin<z.infer<typeof responseSchema>> = {
+  type: "generation",
+  includeByDefault: true,
+  responseSchema,
+
+  generate() {
+    return {
+      task: {
+        type: "generation",
+        prompt: `Write a unique 2-3 sentence bio for yourself as an AI agent (50-100 words).
+Be specific about what makes YOU unique. Generic bios will be rejected.
+
+Return JSON: {"bio": "<your unique bio>"}`,
+      },
+    };
+  },
+
+  async validate(_challenge, response) {
+    // Validate bio
+    const bioValidation = validateBio(response.bio);
+    if (!bioValidation.valid) {
+      return { passed: false, error: bioValidation.error };
+    }
+
+    // Check uniqueness
+    const existingBios = await getExistingBios();
+    const uniquenessResult = checkBioUniqueness(response.bio, existingBios);
+
+    if (!uniquenessResult.unique) {
+      return {
+        passed: false,
+        error: `Bio too similar to existing agent (${Math.round(uniquenessResult.similarity! * 100)}% similar)`,
+      };
+    }
+
+    return { passed: true };
+  },
+
+  async onVerified(agentId, response) {
+    await storeBio(agentId, response.bio);
+  },
+};
+
+export default generationTask;
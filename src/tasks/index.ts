@@ -0,0 +1,45 @@
+/**
+ * Challenge Tasks
+ * Registers the built-in task plugins
+ *
+ * Custom task types need no changes to this file: implement TaskPlugin in
+ * your own module, call registerTask from it and import that module before
+ * the app (task routes are mounted when the challenge router loads).
+ * Registration order is the order tasks appear in new challenges, so custom
+ * tasks come after the built-ins.
+ */
+
+import { registerTask } from "./registry.js";
+import { cryptoTask } from "./crypto.task.js";
+import { speedTask } from "./speed.task.js";
+import { reasoningTask } from "./reasoning.task.js";
+import { generationTask } from "./generation.task.js";
+import { toolUseTask } from "./tool-use.task.js";
+import { webBrowsingTask } from "./web-browsing.task.js";
+import { codeExecutionTask } from "./code-execution.task.js";
+
+registerTask(cryptoTask);
+registerTask(speedTask);
+registerTask(reasoningTask);
+registerTask(generationTask);
+registerTask(toolUseTask);
+
+// Capability tasks (added when the agent declares the capability)
+registerTask(webBrowsingTask);
+registerTask(codeExecutionTask);
+
+export {
+  registerTask,
+  getTask,
+  listTasks,
+  getDefaultTasks,
+  getCapabilityTask,
+  listCapabilities,
+} from "./registry.js";
+export type {
+  TaskPlugin,
+  TaskContext,
+  GeneratedTask,
+  TaskValidationResult,
+  Difficulty,
+} from "./types.js";
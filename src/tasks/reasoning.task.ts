@@ -0,0 +1,89 @@
+/**
+ * Reasoning Task
+ * Agent finds the bug in a dynamically generated code snippet (unique every time, can't memorize)
+ */
+
+import { z } from "zod";
+import { execute } from "../db/index.js";
+import {
+  generateDynamicChallenge,
+  validateDynamicAnswer,
+  type DynamicChallenge,
+} from "../lib/dynamic-challenges.js";
+import { validateReasoningAnswer } from "../lib/reasoning-challenges.js";
+import type { TaskPlugin } from "./types.js";
+
+const responseSchema = z.object({
+  type: z.literal("reasoning"),
+  line: z.number(),
+  issue: z.string(),
+  fix: z.string().optional(),
+});
+
+export const reasoningTask: TaskPlugin<z.infer<typeof responseSchema>, DynamicChallenge> = {
+  type: "reasoning",
+  includeByDefault: true,
+  responseSchema,
+
+  generate(ctx) {
+    // Generate DYNAMIC code bug (unique every time, can't memorize)
+    const dynamicChallenge = generateDynamicChallenge(ctx.difficulty);
+
+    return {
+      task: {
+        type: "reasoning",
+        prompt: `Find the bug in this ${dynamicChallenge.language} code:
+
+\`\`\`${dynamicChallenge.language}
+${dynamicChallenge.code}
+\`\`\`
+
+Return JSON: {"line": <line_number>, "issue": "<description of the bug>", "fix": "<suggested fix>"}`,
+        code: dynamicChallenge.code,
+        language: dynamicChallenge.language,
+      },
+      state: dynamicChallenge,
+    };
+  },
+
+  async persist(ctx, dynamicChallenge) {
+    // Store dynamic challenge for validation
+    await execute(
+      `INSERT INTO dynamic_challenges (id, challenge_id, language, code, answer_line, answer_issue, answer_fix, bug_type, difficulty)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        dynamicChallenge.id,
+        ctx.challengeId,
+        dynamicChallenge.language,
+        dynamicChallenge.code,
+        dynamicChallenge.answer.line,
+        dynamicChallenge.answer.issue,
+        dynamicChallenge.answer.fix,
+        dynamicChallenge.bugType,
+        dynamicChallenge.difficulty,
+      ]
+    );
+  },
+
+  async validate(challenge, response) {
+    const answer = {
+      line: response.line,
+      issue: response.issue,
+      fix: response.fix,
+    };
+
+    // Prefer dynamic challenge validation (unique bugs)
+    if (challenge.dynamic_challenge) {
+      return validateDynamicAnswer(challenge.dynamic_challenge, answer);
+    }
+
+    // Fallback to static challenge validation (challenges created before dynamic bugs)
+    if (challenge.reasoning_challenge) {
+      return validateReasoningAnswer(challenge.reasoning_challenge, answer);
+    }
+
+    return { passed: false, error: "Reasoning challenge not found" };
+  },
+};
+
+export default reasoningTask;
@@ -0,0 +1,60 @@
+/**
+ * Challenge Task Registry
+ * Holds the task plugins used to build and validate challenges
+ *
+ * Task routes are mounted when the challenge router loads, so custom tasks
+ * must be registered before the app module is imported (see tasks/index.ts).
+ */
+
+import type { TaskPlugin } from "./types.js";
+
+const tasks = new Map<string, TaskPlugin<any, any>>();
+
+/**
+ * Register a task plugin
+ */
+export function registerTask<TResponse extends { type: string }, TState>(
+  plugin: TaskPlugin<TResponse, TState>
+): void {
+  if (tasks.has(plugin.type)) {
+    throw new Error(`Task type "${plugin.type}" is already registered`);
+  }
+  tasks.set(plugin.type, plugin);
+}
+
+/**
+ * Get a task plugin by type
+ */
+export function getTask(type: string): TaskPlugin<any, any> | undefined {
+  return tasks.get(type);
+}
+
+/**
+ * List all registered task plugins (in registration order)
+ */
+export function listTasks(): TaskPlugin<any, any>[] {
+  return Array.from(tasks.values());
+}
+
+/**
+ * Task plugins included in every new challenge
+ */
+export function getDefaultTasks(): TaskPlugin<any, any>[] {
+  return listTasks().filter((task) => task.includeByDefault);
+}
+
+/**
+ * Get the task plugin that tests a declared capability
+ */
+export function getCapabilityTask(capability: string): TaskPlugin<any, any> | undefined {
+  return listTasks().find((task) => task.capability === capability);
+}
+
+/**
+ * List capabilities that agents can declare (those with a task that tests them)
+ */
+export function listCapabilities(): string[] {
+  return listTasks()
+    .map((task) => task.capability)
+    .filter((capability): capability is string => !!capability);
+}
@@ -0,0 +1,203 @@
+/**
+ * Speed Task
+ * Agent must fetch 3 endpoints IN PARALLEL and combine their tokens.
+ * The server tracks fetch times - sequential fetches will fail.
+ *
+ * Routes (under /api/v1/challenges):
+ * GET /:id/speed/a,b,c - Speed challenge endpoints
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { queryOne, execute } from "../db/index.js";
+import { generateToken } from "../lib/crypto.js";
+import { getChallenge } from "../services/challenge.service.js";
+import type { TaskPlugin } from "./types.js";
+
+type SpeedEndpoint = "a" | "b" | "c";
+
+const SPEED_ENDPOINTS: SpeedEndpoint[] = ["a", "b", "c"];
+
+interface SpeedTokens {
+  a: string;
+  b: string;
+  c: string;
+}
+
+const responseSchema = z.object({
+  type: z.literal("speed"),
+  combined: z.string(),
+});
+
+/**
+ * Get speed token for a challenge
+ */
+export async function getSpeedToken(
+  challengeId: string,
+  endpoint: SpeedEndpoint
+): Promise<{ token: string } | null> {
+  const row = await queryOne<any>(
+    "SELECT * FROM speed_tokens WHERE challenge_id = $1",
+    [challengeId]
+  );
+
+  if (!row) return null;
+
+  const tokenKey = `token_${endpoint}` as keyof typeof row;
+
+  // Record fetch time
+  await execute(
+    `UPDATE speed_tokens SET fetch_${endpoint}_at = NOW() WHERE challenge_id = $1`,
+    [challengeId]
+  );
+
+  return { token: row[tokenKey] };
+}
+
+/**
+ * Validate speed challenge - tokens must be fetched in parallel (within 2 seconds of each other)
+ */
+export async function validateSpeedChallenge(
+  challengeId: string,
+  submittedCombined: string
+): Promise<{ passed: boolean; error?: string; wasParallel: boolean }> {
+  const row = await queryOne<any>(
+    "SELECT * FROM speed_tokens WHERE challenge_id = $1",
+    [challengeId]
+  );
+
+  if (!row) {
+    return { passed: false, error: "Speed challenge not found", wasParallel: false };
+  }
+
+  // Check if all tokens were fetched
+  if (!row.fetch_a_at || !row.fetch_b_at || !row.fetch_c_at) {
+    return {
+      passed: false,
+      error: "Not all speed endpoints were fetched",
+      wasParallel: false,
+    };
+  }
+
+  // Check if combined value is correct
+  const expectedCombined = `${row.token_a}${row.token_b}${row.token_c}`;
+  if (submittedCombined !== expectedCombined) {
+    return {
+      passed: false,
+      error: "Incorrect combined token value",
+      wasParallel: false,
+    };
+  }
+
+  // Check if fetches were parallel (within 2 seconds of each other)
+  const fetchTimes = [
+    new Date(row.fetch_a_at).getTime(),
+    new Date(row.fetch_b_at).getTime(),
+    new Date(row.fetch_c_at).getTime(),
+  ];
+
+  const maxDiff = Math.max(...fetchTimes) - Math.min(...fetchTimes);
+  const wasParallel = maxDiff < 2000; // 2 second tolerance
+
+  if (!wasParallel) {
+    return {
+      passed: false,
+      error: `Speed endpoints must be fetched in parallel. Your fetches were ${Math.round(maxDiff / 1000)}s apart.`,
+      wasParallel: false,
+    };
+  }
+
+  return { passed: true, wasParallel: true };
+}
+
+const routes = new Hono();
+
+/**
+ * GET /api/v1/challenges/:id/speed/:endpoint
+ * Speed challenge endpoints A, B and C - must be fetched in parallel
+ */
+routes.get("/:id/speed/:endpoint", async (c) => {
+  const challengeId = c.req.param("id");
+  const endpoint = c.req.param("endpoint") as SpeedEndpoint;
+
+  if (!SPEED_ENDPOINTS.includes(endpoint)) {
+    return c.json({ success: false, error: "Not found" }, 404);
+  }
+
+  const challenge = await getChallenge(challengeId);
+
+  if (!challenge) {
+    return c.json({ success: false, error: "Challenge not found" }, 404);
+  }
+
+  if (new Date(challenge.expires_at) < new Date()) {
+    return c.json({ success: false, error: "Challenge expired" }, 410);
+  }
+
+  const tokenData = await getSpeedToken(challengeId, endpoint);
+  if (!tokenData) {
+    return c.json({ success: false, error: "Speed token not found" }, 404);
+  }
+
+  const others = SPEED_ENDPOINTS.filter((e) => e !== endpoint);
+
+  return c.json({
+    success: true,
+    token: tokenData.token,
+    hint: `Combine this with tokens from /speed/${others[0]} and /speed/${others[1]}`,
+  });
+});
+
+export const speedTask: TaskPlugin<z.infer<typeof responseSchema>, SpeedTokens> = {
+  type: "speed",
+  includeByDefault: true,
+  responseSchema,
+  routes,
+
+  generate(ctx) {
+    const endpoints = SPEED_ENDPOINTS.map(
+      (e) => `${ctx.baseUrl}/api/v1/challenges/${ctx.challengeId}/speed/${e}`
+    );
+
+    return {
+      task: {
+        type: "speed",
+        prompt: `SPEED TEST: Fetch these 3 endpoints IN PARALLEL and combine their values.
+The server tracks fetch times - sequential fetches will fail.
+
+Endpoints:
+${endpoints.map((url) => `- GET ${url}`).join("\n")}
+
+Each returns {"token": "..."} - Combine all 3 tokens.
+
+Return JSON: {"combined": "<tokenA><tokenB><tokenC>"}`,
+        base_url: ctx.baseUrl,
+        endpoints,
+      },
+      state: {
+        a: generateToken(6),
+        b: generateToken(6),
+        c: generateToken(6),
+      },
+    };
+  },
+
+  async persist(ctx, tokens) {
+    await execute(
+      `INSERT INTO speed_tokens (challenge_id, token_a, token_b, token_c)
+       VALUES ($1, $2, $3, $4)`,
+      [ctx.challengeId, tokens.a, tokens.b, tokens.c]
+    );
+  },
+
+  async validate(challenge, response) {
+    const result = await validateSpeedChallenge(challenge.id, response.combined);
+    return {
+      passed: result.passed,
+      error: result.error,
+      meta: { speed_test_parallel: result.wasParallel },
+    };
+  },
+};
+
+export default speedTask;
@@ -0,0 +1,259 @@
+/**
+ * Tool-Use Task (legacy, not part of new challenges by default)
+ * Agent walks a 3-step chain of HTTP calls and reports the final value
+ *
+ * Routes (under /api/v1/challenges):
+ * GET /:id/step1 - Get step 1 value
+ * POST /:id/step2 - Submit step 1 value, get step 2 token
+ * GET /:id/step3 - Submit step 2 token, get final value
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { query, queryOne, execute } from "../db/index.js";
+import { generateToken } from "../lib/crypto.js";
+import { getChallenge } from "../services/challenge.service.js";
+import type { TaskPlugin } from "./types.js";
+
+const responseSchema = z.object({
+  type: z.literal("tool_use"),
+  completed: z.boolean(),
+  final_value: z.string(),
+});
+
+/**
+ * Get tool-use step data
+ */
+export async function getToolUseStep(
+  challengeId: string,
+  step: number
+): Promise<{ expectedValue: string; receivedValue?: string } | null> {
+  const row = await queryOne<any>(
+    "SELECT * FROM challenge_progress WHERE challenge_id = $1 AND step = $2",
+    [challengeId, step]
+  );
+
+  if (!row) return null;
+
+  return {
+    expectedValue: row.expected_value,
+    receivedValue: row.received_value,
+  };
+}
+
+/**
+ * Mark tool-use step as completed
+ */
+export async function completeToolUseStep(
+  challengeId: string,
+  step: number,
+  receivedValue: string
+): Promise<boolean> {
+  const result = await execute(
+    `UPDATE challenge_progress
+     SET received_value = $1, completed_at = NOW()
+     WHERE challenge_id = $2 AND step = $3`,
+    [receivedValue, challengeId, step]
+  );
+  return result.rowCount > 0;
+}
+
+/**
+ * Check if all tool-use steps are completed correctly
+ */
+export async function validateToolUseCompletion(challengeId: string): Promise<{
+  passed: boolean;
+  error?: string;
+}> {
+  const steps = await query<any>(
+    "SELECT * FROM challenge_progress WHERE challenge_id = $1 ORDER BY step",
+    [challengeId]
+  );
+
+  for (const step of steps) {
+    if (!step.completed_at) {
+      return { passed: false, error: `Step ${step.step} not completed` };
+    }
+  }
+
+  // Check step 3 has correct final value
+  const step3 = steps.find((s) => s.step === 3);
+  if (step3 && step3.received_value !== step3.expected_value) {
+    return { passed: false, error: "Invalid final value from step 3" };
+  }
+
+  return { passed: true };
+}
+
+const routes = new Hono();
+
+/**
+ * GET /api/v1/challenges/:id/step1
+ * Tool-use challenge step 1
+ */
+routes.get("/:id/step1", async (c) => {
+  const challengeId = c.req.param("id");
+  const challenge = await getChallenge(challengeId);
+
+  if (!challenge) {
+    return c.json({ success: false, error: "Challenge not found" }, 404);
+  }
+
+  if (new Date(challenge.expires_at) < new Date()) {
+    return c.json({ success: false, error: "Challenge expired" }, 410);
+  }
+
+  const step = await getToolUseStep(challengeId, 1);
+  if (!step) {
+    return c.json({ success: false, error: "Step not found" }, 404);
+  }
+
+  // Mark step 1 as accessed
+  await completeToolUseStep(challengeId, 1, "accessed");
+
+  return c.json({
+    success: true,
+    value: step.expectedValue,
+    next_step: "POST this value to /step2",
+    hint: "Send JSON body: {\"value\": \"" + step.expectedValue + "\"}",
+  });
+});
+
+/**
+ * POST /api/v1/challenges/:id/step2
+ * Tool-use challenge step 2
+ */
+routes.post("/:id/step2", async (c) => {
+  const challengeId = c.req.param("id");
+  const challenge = await getChallenge(challengeId);
+
+  if (!challenge) {
+    return c.json({ success: false, error: "Challenge not found" }, 404);
+  }
+
+  if (new Date(challenge.expires_at) < new Date()) {
+    return c.json({ success: false, error: "Challenge expired" }, 410);
+  }
+
+  try {
+    const body = await c.req.json();
+    const { value } = body;
+
+    // Verify step 1 was completed and value matches
+    const step1 = await getToolUseStep(challengeId, 1);
+    if (!step1 || step1.expectedValue !== value) {
+      return c.json({ success: false, error: "Invalid value from step 1" }, 400);
+    }
+
+    // Get step 2 token
+    const step2 = await getToolUseStep(challengeId, 2);
+    if (!step2) {
+      return c.json({ success: false, error: "Step not found" }, 404);
+    }
+
+    // Mark step 2 as completed with the received value
+    await completeToolUseStep(challengeId, 2, value);
+
+    return c.json({
+      success: true,
+      token: step2.expectedValue,
+      next_step: "GET /step3 with this token as query param",
+      hint: `GET /step3?token=${step2.expectedValue}`,
+    });
+  } catch (error) {
+    return c.json({ success: false, error: "Invalid request body" }, 400);
+  }
+});
+
+/**
+ * GET /api/v1/challenges/:id/step3
+ * Tool-use challenge step 3
+ */
+routes.get("/:id/step3", async (c) => {
+  const challengeId = c.req.param("id");
+  const token = c.req.query("token");
+
+  const challenge = await getChallenge(challengeId);
+
+  if (!challenge) {
+    return c.json({ success: false, error: "Challenge not found" }, 404);
+  }
+
+  if (new Date(challenge.expires_at) < new Date()) {
+    return c.json({ success: false, error: "Challenge expired" }, 410);
+  }
+
+  // Verify token from step 2
+  const step2 = await getToolUseStep(challengeId, 2);
+  if (!step2 || step2.expectedValue !== token) {
+    return c.json({ success: false, error: "Invalid token from step 2" }, 400);
+  }
+
+  // Get final value
+  const step3 = await getToolUseStep(challengeId, 3);
+  if (!step3) {
+    return c.json({ success: false, error: "Step not found" }, 404);
+  }
+
+  // Mark step 3 as completed
+  await completeToolUseStep(challengeId, 3, step3.expectedValue);
+
+  return c.json({
+    success: true,
+    final_value: step3.expectedValue,
+    message: "Tool-use challenge completed! Include this final_value in your submission.",
+  });
+});
+
+export const toolUseTask: TaskPlugin<z.infer<typeof responseSchema>, string[]> = {
+  type: "tool_use",
+  includeByDefault: false,
+  responseSchema,
+  routes,
+
+  generate(ctx) {
+    const base = `${ctx.baseUrl}/api/v1/challenges/${ctx.challengeId}`;
+
+    return {
+      task: {
+        type: "tool_use",
+        prompt: `TOOL USE: Complete this 3-step chain of HTTP calls.
+
+1. GET ${base}/step1 - returns a value
+2. POST ${base}/step2 with {"value": "<value>"} - returns a token
+3. GET ${base}/step3?token=<token> - returns the final value
+
+Return JSON: {"completed": true, "final_value": "<final value>"}`,
+        base_url: ctx.baseUrl,
+      },
+      state: [generateToken(8), generateToken(12), generateToken(8)],
+    };
+  },
+
+  async persist(ctx, stepValues) {
+    for (let i = 0; i < stepValues.length; i++) {
+      await execute(
+        `INSERT INTO challenge_progress (challenge_id, step, expected_value) VALUES ($1, $2, $3)`,
+        [ctx.challengeId, i + 1, stepValues[i]]
+      );
+    }
+  },
+
+  async validate(challenge, response) {
+    const toolResult = await validateToolUseCompletion(challenge.id);
+
+    if (!toolResult.passed) {
+      return { passed: false, error: toolResult.error };
+    }
+
+    const step3 = await getToolUseStep(challenge.id, 3);
+
+    if (!step3 || step3.expectedValue !== response.final_value) {
+      return { passed: false, error: "Incorrect final value" };
+    }
+
+    return { passed: true };
+  },
+};
+
+export default toolUseTask;
@@ -0,0 +1,62 @@
+/**
+ * Challenge task plugin types
+ * Every task type (crypto, speed, reasoning, ...) implements TaskPlugin
+ */
+
+import type { Hono } from "hono";
+import type { z } from "zod";
+import type { Challenge, ChallengeTask } from "../services/challenge.service.js";
+
+export type Difficulty = "easy" | "standard" | "hard";
+
+/**
+ * Context shared by all tasks of a challenge while it is being created
+ */
+export interface TaskContext {
+  challengeId: string;
+  agentName: string;
+  nonce: string;
+  difficulty: Difficulty;
+  baseUrl: string;
+}
+
+/**
+ * Output of TaskPlugin.generate
+ * `task` is shown to the agent, `state` stays on the server and is handed to persist()
+ */
+export interface GeneratedTask<TState = unknown> {
+  task: ChallengeTask;
+  state?: TState;
+}
+
+export interface TaskValidationResult {
+  passed: boolean;
+  error?: string;
+  // Public key proven by this task (set by the crypto task)
+  publicKey?: string;
+  // Extra values reported back in the submit response
+  meta?: Record<string, unknown>;
+}
+
+export interface TaskPlugin<
+  TResponse extends { type: string } = { type: string },
+  TState = unknown,
+> {
+  type: string;
+  // Added to every new challenge when true
+  includeByDefault: boolean;
+  // Capability this task tests; added to challenges that declare it
+  capability?: string;
+  // Build the prompt (and any server-side answer data) for a new challenge
+  generate(ctx: TaskContext): GeneratedTask<TState> | Promise<GeneratedTask<TState>>;
+  // Store server-side answer data (runs after the challenge row exists)
+  persist?(ctx: TaskContext, state: TState): Promise<void>;
+  // Extra endpoints the task needs, mounted under /api/v1/challenges
+  routes?: Hono;
+  // Schema for the agent's response to this task
+  responseSchema: z.ZodType<TResponse, z.ZodTypeDef, unknown>;
+  // Check a submitted response
+  validate(challenge: Challenge, response: TResponse): Promise<TaskValidationResult>;
+  // Runs for passed tasks once the agent has been created
+  onVerified?(agentId: string, response: TResponse): Promise<void>;
+}
@@ -0,0 +1,111 @@
+/**
+ * Web Browsing Task (capability: web_browsing)
+ * Agent loads an HTML page and reads a token out of the rendered document
+ *
+ * Routes (under /api/v1/challenges):
+ * GET /:id/browse - HTML page containing the token
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { generateToken } from "../lib/crypto.js";
+import {
+  getChallenge,
+  saveTaskState,
+  getTaskState,
+} from "../services/challenge.service.js";
+import type { TaskPlugin } from "./types.js";
+
+interface BrowseState {
+  token: string;
+}
+
+const responseSchema = z.object({
+  type: z.literal("web_browsing"),
+  token: z.string(),
+});
+
+const routes = new Hono();
+
+/**
+ * GET /api/v1/challenges/:id/browse
+ * HTML page for the web browsing task
+ */
+routes.get("/:id/browse", async (c) => {
+  const challengeId = c.req.param("id");
+  const challenge = await getChallenge(challengeId);
+
+  if (!challenge) {
+    return c.json({ success: false, error: "Challenge not found" }, 404);
+  }
+
+  if (new Date(challenge.expires_at) < new Date()) {
+    return c.json({ success: false, error: "Challenge expired" }, 410);
+  }
+
+  const state = await getTaskState<BrowseState>(challengeId, "web_browsing");
+  if (!state) {
+    return c.json({ success: false, error: "Browsing task not found" }, 404);
+  }
+
+  return c.html(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>KnowYourClaw browsing check</title>
+</head>
+<body>
+  <h1>Browsing check</h1>
+  <p>Your token is in the table below, in the row labelled "verification".</p>
+  <table>
+    <tr><th>label</th><th>value</th></tr>
+    <tr><td>decoy</td><td>${generateToken(9)}</td></tr>
+    <tr><td>verification</td><td id="kyc-token">${state.token}</td></tr>
+    <tr><td>decoy</td><td>${generateToken(9)}</td></tr>
+  </table>
+</body>
+</html>`);
+});
+
+export const webBrowsingTask: TaskPlugin<z.infer<typeof responseSchema>, BrowseState> = {
+  type: "web_browsing",
+  includeByDefault: false,
+  capability: "web_browsing",
+  responseSchema,
+  routes,
+
+  generate(ctx) {
+    return {
+      task: {
+        type: "web_browsing",
+        prompt: `WEB BROWSING: Open this page and read the value in the row labelled "verification".
+
+GET ${ctx.baseUrl}/api/v1/challenges/${ctx.challengeId}/browse
+
+Return JSON: {"token": "<value>"}`,
+        base_url: ctx.baseUrl,
+      },
+      state: { token: generateToken(9) },
+    };
+  },
+
+  async persist(ctx, state) {
+    await saveTaskState(ctx.challengeId, "web_browsing", state);
+  },
+
+  async validate(challenge, response) {
+    const state = await getTaskState<BrowseState>(challenge.id, "web_browsing");
+
+    if (!state) {
+      return { passed: false, error: "Browsing task not found" };
+    }
+
+    if (response.token.trim() !== state.token) {
+      return { passed: false, error: "Incorrect token from browsing page" };
+    }
+
+    return { passed: true };
+  },
+};
+
+export default webBrowsingTask;
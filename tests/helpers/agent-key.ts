@@ -0,0 +1,14 @@
+import { createHash, generateKeyPairSync, sign } from "crypto";
+
+/**
+ * An Ed25519 agent key in the format agents register (base64 raw public key),
+ * signing the way agents do: Ed25519 over the SHA-256 of the message
+ */
+export function createAgentKey(): { publicKey: string; sign: (message: string) => string } {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+
+  return {
+    publicKey: publicKey.export({ type: "spki", format: "der" }).subarray(-32).toString("base64"),
+    sign: (message) => sign(null, createHash("sha256").update(message).digest(), privateKey).toString("base64"),
+  };
+}
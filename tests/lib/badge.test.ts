@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { renderBadge } from "../../src/lib/badge.js";
+
+describe("renderBadge", () => {
+  it("renders a flat badge with the status and difficulty", () => {
+    const svg = renderBadge({ status: "claimed", name: "Claw", difficulty: "hard", verifiedAt: "2026-01-01T00:00:00Z" });
+
+    expect(svg).toContain("verified · claimed · hard");
+    expect(svg).toContain('fill="#2f81f7"');
+    expect(svg).toContain("<title>Claw - KnowYourClaw: verified · claimed - hard difficulty - verified 2026-01-01</title>");
+  });
+
+  it("leaves the difficulty off badges of agents that aren't verified", () => {
+    const svg = renderBadge({ status: "revoked", name: "Claw", difficulty: "hard" });
+
+    expect(svg).not.toContain("revoked · hard");
+    expect(svg).toContain('fill="#f85149"');
+  });
+
+  it("escapes agent names", () => {
+    const svg = renderBadge({ status: "verified", name: `<script>alert("x")</script>` }, "large");
+
+    expect(svg).not.toContain("<script>");
+    expect(svg).toContain("&lt;script&gt;alert(&quot;x&quot;)&lt;/s");
+  });
+
+  it("truncates long names on cards", () => {
+    const svg = renderBadge({ status: "verified", name: "A".repeat(40) }, "large");
+
+    expect(svg).toContain(`>${"A".repeat(27)}…</text>`);
+  });
+
+  it("draws the check mark only for verified agents", () => {
+    expect(renderBadge({ status: "verified", name: "Claw" }, "large")).toContain('opacity="1"');
+    expect(renderBadge({ status: "suspended", name: "Claw" }, "large")).toContain('opacity="0"');
+  });
+
+  it("uses a dark background for the dark style", () => {
+    expect(renderBadge({ status: "verified" }, "dark")).toContain('fill="#0d1117"');
+    expect(renderBadge({ status: "verified" }, "large")).toContain('fill="#ffffff"');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import * as jose from "jose";
+import {
+  initializeKeys,
+  rotateSigningKey,
+  signProofToken,
+  verifyProofToken,
+  getJwks,
+  type AgentProofPayload,
+} from "../../src/lib/jwt.js";
+import type { StoredSigningKey } from "../../src/lib/signing-keys.js";
+
+// signing_keys, kept in memory
+const store = vi.hoisted(() => [] as StoredSigningKey[]);
+
+vi.mock("../../src/lib/signing-keys.js", () => ({
+  isKeyStoreEnabled: () => true,
+  loadStoredKeys: async () => store.map((key) => ({ ...key })),
+  insertActiveKey: async (kid: string, publicKeyPem: string, privateKeyPem: string) => {
+    if (store.some((key) => !key.retiredAt)) return false;
+    store.push({ kid, publicKeyPem, privateKeyPem, createdAt: Math.floor(Date.now() / 1000) });
+    return true;
+  },
+  rotateStoredKey: async (currentKid: string, kid: string, publicKeyPem: string, privateKeyPem: string) => {
+    const current = store.find((key) => key.kid === currentKid && !key.retiredAt);
+    if (!current) return false;
+    current.retiredAt = Math.floor(Date.now() / 1000);
+    current.privateKeyPem = null;
+    store.push({ kid, publicKeyPem, privateKeyPem, createdAt: Math.floor(Date.now() / 1000) });
+    return true;
+  },
+  deleteExpiredKeys: async () => {},
+}));
+
+const PROOF = {
+  version: "1.0",
+  agent: { name: "Claw", public_key: "cHVibGljLWtleQ==", capabilities: [] },
+  challenge_id: "chl_1",
+  difficulty: "hard",
+  tasks_passed: [],
+  time_taken_ms: 1234,
+} as AgentProofPayload;
+
+beforeAll(async () => {
+  await initializeKeys();
+});
+
+describe("rotateSigningKey with the key store", () => {
+  it("signs with the new key and keeps old tokens verifiable", async () => {
+    const oldToken = await signProofToken("agt_1", "prf_1", PROOF);
+    const oldKid = jose.decodeProtectedHeader(oldToken).kid;
+
+    const newKid = await rotateSigningKey();
+    const newToken = await signProofToken("agt_1", "prf_2", PROOF);
+
+    expect(newKid).not.toBe(oldKid);
+    expect(jose.decodeProtectedHeader(newToken).kid).toBe(newKid);
+    expect((await verifyProofToken(oldToken)).valid).toBe(true);
+    expect((await verifyProofToken(newToken)).valid).toBe(true);
+    expect((await getJwks()).keys.map((key) => key.kid)).toEqual(expect.arrayContaining([oldKid, newKid]));
+  });
+
+  it("wipes the retired private key", () => {
+    expect(store.filter((key) => key.privateKeyPem)).toHaveLength(1);
+    expect(store.find((key) => key.privateKeyPem)!.retiredAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { createHash, randomBytes } from "crypto";
+import {
+  decodeToken,
+  initializeKeys,
+  rotateSigningKey,
+  signAccessToken,
+  signProofCredential,
+  signProofSdJwt,
+  signProofToken,
+  verifyProofToken,
+  type AgentProofPayload,
+  type ProofCredentialPayload,
+} from "../../src/lib/jwt.js";
+import { getVisibleAgentClaims, type VerifiedToken } from "../../src/services/verification.service.js";
+import type { Agent } from "../../src/services/proof.service.js";
+
+const PROOF: AgentProofPayload = {
+  version: "1.0",
+  agent: {
+    name: "Claw",
+    public_key: "cHVibGljLWtleQ==",
+    capabilities: ["code_execution", "web_browsing"],
+    model_family: "example-model",
+    framework: "example-framework",
+  },
+  challenge_id: "chl_1",
+  difficulty: "hard",
+  tasks_passed: ["crypto", "reasoning"],
+  time_taken_ms: 1234,
+} as AgentProofPayload;
+
+// Claim name of a disclosure ([salt, name, value])
+function claimName(disclosure: string): string {
+  return JSON.parse(Buffer.from(disclosure, "base64url").toString("utf-8"))[1];
+}
+
+// Keep only the disclosures of the given claims
+function present(sdJwt: string, keep: string[]): string {
+  const [jwt, ...disclosures] = sdJwt.split("~").slice(0, -1);
+  return [jwt, ...disclosures.filter((d) => keep.includes(claimName(d))), ""].join("~");
+}
+
+function disclosure(name: string, value: unknown): string {
+  return Buffer.from(JSON.stringify([randomBytes(16).toString("base64url"), name, value])).toString("base64url");
+}
+
+let sdJwt: string;
+
+beforeAll(async () => {
+  await initializeKeys();
+  sdJwt = await signProofSdJwt("agt_1", "prf_1", PROOF);
+});
+
+describe("SD-JWT proofs", () => {
+  it("hides every disclosable claim from the issuer-signed part", () => {
+    const payload = JSON.parse(Buffer.from(sdJwt.split(".")[1], "base64url").toString("utf-8"));
+
+    expect(payload.agp.agent).toEqual({ public_key: PROOF.agent.public_key, _sd: expect.any(Array) });
+    expect(payload.agp._sd).toHaveLength(4);
+    expect(JSON.stringify(payload)).not.toContain("Claw");
+    expect(JSON.stringify(payload)).not.toContain("code_execution");
+  });
+
+  it("rebuilds the full proof when everything is disclosed", async () => {
+    const result = await verifyProofToken(sdJwt);
+
+    expect(result.valid).toBe(true);
+    expect(result.payload!.agp).toMatchObject(PROOF);
+    expect(result.disclosed).toHaveLength(8);
+  });
+
+  it("leaves withheld claims out of the payload", async () => {
+    const result = await verifyProofToken(present(sdJwt, ["name", "difficulty"]));
+
+    expect(result.valid).toBe(true);
+    expect(result.disclosed?.sort()).toEqual(["difficulty", "name"]);
+    expect(result.payload!.agp.agent).toEqual({ public_key: PROOF.agent.public_key, name: "Claw" });
+    expect(result.payload!.agp.difficulty).toBe("hard");
+    expect(result.payload!.agp.tasks_passed).toBeUndefined();
+  });
+
+  it("shows platforms only the disclosed claims, not the agent record", async () => {
+    const result = await verifyProofToken(present(sdJwt, ["name", "model_family"]));
+    const agent = {
+      id: "agt_1",
+      name: "Claw",
+      description: "Private description",
+      capabilities: PROOF.agent.capabilities,
+      model_family: "example-model",
+      framework: "example-framework",
+    } as Agent;
+
+    const claims = getVisibleAgentClaims({
+      valid: true,
+      agent,
+      payload: result.payload!,
+      disclosed: result.disclosed,
+    } as VerifiedToken);
+
+    expect(claims).toEqual({ name: "Claw", model_family: "example-model" });
+  });
+
+  it("rejects a disclosure the issuer never signed", async () => {
+    const forged = present(sdJwt, ["name"]).replace(/~$/, `~${disclosure("difficulty", "hard")}~`);
+
+    expect(await verifyProofToken(forged)).toMatchObject({
+      valid: false,
+      error: "Disclosure does not belong to this token",
+    });
+  });
+
+  it("rejects a disclosure whose value was changed", async () => {
+    const [jwt, ...disclosures] = sdJwt.split("~").slice(0, -1);
+    const tampered = disclosures.map((d) => {
+      if (claimName(d) !== "difficulty") return d;
+      const [salt, name] = JSON.parse(Buffer.from(d, "base64url").toString("utf-8"));
+      return Buffer.from(JSON.stringify([salt, name, "easy"])).toString("base64url");
+    });
+
+    expect(await verifyProofToken([jwt, ...tampered, ""].join("~"))).toMatchObject({
+      valid: false,
+      error: "Disclosure does not belong to this token",
+    });
+  });
+
+  it("rejects the same disclosure twice", async () => {
+    const [jwt, first] = sdJwt.split("~");
+
+    expect(await verifyProofToken(`${jwt}~${first}~${first}~`)).toMatchObject({
+      valid: false,
+      error: "Duplicate disclosure",
+    });
+  });
+
+  it("rejects a tampered issuer-signed part", async () => {
+    const [header, payload, signature] = sdJwt.split("~")[0].split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    claims.agp._sd.push(createHash("sha256").update("x").digest("base64url"));
+    const tampered = `${header}.${Buffer.from(JSON.stringify(claims)).toString("base64url")}.${signature}`;
+
+    expect((await verifyProofToken(`${tampered}~`)).valid).toBe(false);
+  });
+
+  it("discloses nothing when the issuer JWT is presented on its own", async () => {
+    const result = await verifyProofToken(sdJwt.split("~")[0]);
+
+    expect(result.valid).toBe(true);
+    expect(result.disclosed).toEqual([]);
+    expect(result.payload!.agp.agent).toEqual({ public_key: PROOF.agent.public_key });
+  });
+
+  it("shows platforms nothing from the agent record for a bare issuer JWT", async () => {
+    const result = await verifyProofToken(sdJwt.split("~")[0]);
+
+    const claims = getVisibleAgentClaims({
+      valid: true,
+      agent: { id: "agt_1", name: "Claw", description: "Private description", capabilities: ["code_execution"] } as Agent,
+      payload: result.payload!,
+      disclosed: result.disclosed,
+    } as VerifiedToken);
+
+    expect(Object.values(claims).filter((value) => value !== undefined)).toEqual([]);
+  });
+
+  it("rejects presentations with a key binding JWT", async () => {
+    expect(await verifyProofToken(`${present(sdJwt, ["name"])}kb.jwt.value`)).toMatchObject({
+      valid: false,
+      error: expect.stringContaining("Key binding JWTs are not supported"),
+    });
+  });
+});
+
+describe("VC-JWT credentials", () => {
+  const STATUS = { status_list: { idx: 3, uri: "https://example.test/status" } };
+
+  it("puts the proof in the W3C credential data model", async () => {
+    const credential = await signProofCredential("agt_1", "prf_1", PROOF, 30, STATUS);
+    const { header, payload } = decodeToken<ProofCredentialPayload>(credential)!;
+
+    expect(header).toMatchObject({ alg: "EdDSA", typ: "vc+jwt", cty: "vc" });
+    expect(payload["@context"]).toEqual(["https://www.w3.org/ns/credentials/v2"]);
+    expect(payload.type).toEqual(["VerifiableCredential", "AgentProofCredential"]);
+    expect(payload.issuer).toBe(payload.iss);
+    expect(payload.id).toMatch(/\/api\/v1\/proofs\/prf_1$/);
+    expect(payload.credentialSubject).toEqual({
+      id: expect.stringMatching(/\/api\/v1\/agents\/agt_1$/),
+      agent: PROOF.agent,
+      verification: {
+        version: "1.0",
+        challenge_id: "chl_1",
+        difficulty: "hard",
+        tasks_passed: ["crypto", "reasoning"],
+        time_taken_ms: 1234,
+      },
+    });
+    expect(Date.parse(payload.validUntil) / 1000).toBe(payload.exp);
+    expect(payload.jti).toBe("prf_1");
+    expect(payload.status).toEqual(STATUS);
+  });
+
+  it("verifies to the same claims as the proof token", async () => {
+    const fromToken = await verifyProofToken(await signProofToken("agt_1", "prf_1", PROOF, 30, STATUS));
+    const fromCredential = await verifyProofToken(await signProofCredential("agt_1", "prf_1", PROOF, 30, STATUS));
+
+    expect(fromCredential.valid).toBe(true);
+    const { iat: _iat, exp: _exp, ...claims } = fromToken.payload!;
+    expect(fromCredential.payload).toMatchObject(claims);
+    expect(fromCredential.disclosed).toBeUndefined();
+  });
+
+  it("rejects a credential whose subject was changed", async () => {
+    const [header, payload, signature] = (await signProofCredential("agt_1", "prf_1", PROOF)).split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    claims.credentialSubject.agent.capabilities.push("admin");
+    const tampered = [header, Buffer.from(JSON.stringify(claims)).toString("base64url"), signature].join(".");
+
+    expect((await verifyProofToken(tampered)).valid).toBe(false);
+  });
+});
+
+describe("verifyProofToken", () => {
+  it("only accepts plain proofs with typ JWT", async () => {
+    // Access tokens are signed by the same key; one issued for "*" must not pass as a proof
+    const accessToken = await signAccessToken("agt_1", "*", "ses_1", { proof_id: "prf_1", public_key: "key" }, 60);
+
+    expect((await verifyProofToken(accessToken)).valid).toBe(false);
+  });
+});
+
+describe("rotateSigningKey", () => {
+  it("refuses to rotate keys that only live in memory", async () => {
+    await expect(rotateSigningKey()).rejects.toThrow("requires the database key store");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { isPublicAddress, assertPublicHost, publicOnlyLookup } from "../../src/lib/network.js";
+
+describe("isPublicAddress", () => {
+  it.each(["8.8.8.8", "1.1.1.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"])("allows %s", (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "224.0.0.1",
+    "::1",
+    "::",
+    "fe80::1",
+    "fd00::1",
+    "ff02::1",
+    "64:ff9b::7f00:1",
+  ])("blocks %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  // IPv4 loopback and link-local written as IPv6
+  it.each([
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "::ffff:169.254.169.254",
+    "::ffff:a9fe:a9fe",
+    "::ffff:10.0.0.1",
+    "::127.0.0.1",
+  ])("blocks the IPv4-mapped or compatible address %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it("treats hostnames and garbage as non-public", () => {
+    expect(isPublicAddress("example.com")).toBe(false);
+    expect(isPublicAddress("")).toBe(false);
+  });
+});
+
+describe("assertPublicHost", () => {
+  it("accepts public IP literals without a lookup", async () => {
+    await expect(assertPublicHost("8.8.8.8")).resolves.toBeUndefined();
+    await expect(assertPublicHost("[2606:4700:4700::1111]")).resolves.toBeUndefined();
+  });
+
+  it.each(["[::ffff:127.0.0.1]", "[::ffff:7f00:1]", "[::1]", "169.254.169.254"])(
+    "rejects the literal %s",
+    async (host) => {
+      await expect(assertPublicHost(host)).rejects.toThrow(`${host} does not resolve to a public address`);
+    }
+  );
+
+  it("rejects hostnames that resolve to loopback", async () => {
+    await expect(assertPublicHost("localhost")).rejects.toThrow("does not resolve to a public address");
+  });
+});
+
+describe("publicOnlyLookup", () => {
+  it("refuses to connect to hostnames that resolve to loopback", async () => {
+    const error = await new Promise<Error | null>((resolve) =>
+      publicOnlyLookup("localhost", {}, (err) => resolve(err))
+    );
+
+    expect(error?.message).toBe("localhost does not resolve to a public address");
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { queryOne, execute } from "../../src/db/index.js";
+import { hashApiKey } from "../../src/lib/crypto.js";
+import { platformAuth, type PlatformApiKeyEnv } from "../../src/middleware/platform-auth.js";
+import { API_KEY_SCOPES, authenticateApiKey } from "../../src/services/platform.service.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+const DEFAULT_KEY = "kyc_default";
+const VERIFY_KEY = "kyc_verify_only";
+
+// platform_api_keys rows by key hash
+let apiKeys: Record<string, Record<string, unknown>>;
+
+const app = new Hono<PlatformApiKeyEnv>()
+  .use("/webhooks", platformAuth("webhooks:manage"))
+  .get("/webhooks", (c) => c.json({ platform: c.get("platform").id, scopes: c.get("apiKey").scopes }));
+
+function basicAuth(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+}
+
+beforeEach(async () => {
+  apiKeys = {
+    [await hashApiKey(DEFAULT_KEY)]: { id: "key_default", platform_id: "plt_a", name: "Default", scopes: "*" },
+    [await hashApiKey(VERIFY_KEY)]: {
+      id: "key_verify",
+      platform_id: "plt_a",
+      name: "Verify only",
+      scopes: JSON.stringify(["verify"]),
+    },
+  };
+
+  vi.mocked(execute).mockReset().mockResolvedValue({ rowCount: 1 });
+  vi.mocked(queryOne).mockReset().mockImplementation(async (sql: string, params?: unknown[]) => {
+    if (sql.includes("FROM platform_api_keys")) return apiKeys[params![0] as string] ?? null;
+    if (sql.includes("FROM platforms")) return { id: "plt_a", name: "Platform A", tier: "free", status: "active" };
+    if (sql.includes("INSERT INTO platform_rate_limits")) return { count: 1 };
+    return null;
+  });
+});
+
+describe("authenticateApiKey", () => {
+  it("gives default keys every scope", async () => {
+    const result = await authenticateApiKey(DEFAULT_KEY);
+
+    expect(result!.key.scopes).toEqual([...API_KEY_SCOPES]);
+  });
+
+  it("gives other keys only their stored scopes", async () => {
+    const result = await authenticateApiKey(VERIFY_KEY);
+
+    expect(result!.key.scopes).toEqual(["verify"]);
+  });
+
+  it("rejects keys of suspended platforms", async () => {
+    vi.mocked(queryOne).mockImplementation(async (sql: string, params?: unknown[]) =>
+      sql.includes("FROM platform_api_keys")
+        ? apiKeys[params![0] as string] ?? null
+        : { id: "plt_a", tier: "free", status: "suspended" }
+    );
+
+    expect(await authenticateApiKey(DEFAULT_KEY)).toBeNull();
+  });
+});
+
+describe("platformAuth", () => {
+  it("requires an API key", async () => {
+    const res = await app.request("/webhooks");
+
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects unknown keys", async () => {
+    const res = await app.request("/webhooks", { headers: { "X-API-Key": "kyc_unknown" } });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ error: "Invalid API key" });
+  });
+
+  it("rejects keys without the route's scope", async () => {
+    const res = await app.request("/webhooks", { headers: { "X-API-Key": VERIFY_KEY } });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ error: "API key is missing the webhooks:manage scope" });
+  });
+
+  it("lets keys with the scope through", async () => {
+    const res = await app.request("/webhooks", { headers: { "X-API-Key": DEFAULT_KEY } });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ platform: "plt_a" });
+    expect(res.headers.get("RateLimit-Limit")).not.toBeNull();
+  });
+
+  it("reports the rate limit in RateLimit headers", async () => {
+    const res = await app.request("/webhooks", { headers: { "X-API-Key": DEFAULT_KEY } });
+
+    expect(res.headers.get("RateLimit-Limit")).toBe("100");
+    expect(res.headers.get("RateLimit-Remaining")).toBe("99");
+    expect(Number(res.headers.get("RateLimit-Reset"))).toBeGreaterThan(0);
+    expect(Number(res.headers.get("RateLimit-Reset"))).toBeLessThanOrEqual(60);
+  });
+
+  it("answers requests over the limit with 429 and Retry-After", async () => {
+    vi.mocked(queryOne).mockImplementation(async (sql: string, params?: unknown[]) => {
+      if (sql.includes("FROM platform_api_keys")) return apiKeys[params![0] as string] ?? null;
+      if (sql.includes("FROM platforms")) return { id: "plt_a", name: "Platform A", tier: "free", status: "active" };
+      if (sql.includes("SELECT count FROM platform_rate_limits")) return { count: 100 };
+      return null;
+    });
+
+    const res = await app.request("/webhooks", { headers: { "X-API-Key": DEFAULT_KEY } });
+    const body = await res.json();
+
+    expect(res.status).toBe(429);
+    expect(body).toMatchObject({ error: "Rate limit exceeded", limit: 100 });
+    expect(res.headers.get("Retry-After")).toBe(String(body.retry_after));
+    expect(res.headers.get("RateLimit-Remaining")).toBe("0");
+  });
+
+  it("accepts the key as the Basic auth password", async () => {
+    const res = await app.request("/webhooks", { headers: { Authorization: basicAuth("plt_a", DEFAULT_KEY) } });
+
+    expect(res.status).toBe(200);
+  });
+
+  it("answers malformed Basic auth passwords with 401", async () => {
+    const res = await app.request("/webhooks", { headers: { Authorization: basicAuth("plt_a", "%E0%A4%A") } });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ error: "Invalid API key" });
+  });
+});
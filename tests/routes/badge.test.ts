@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getAgentCard, type AgentCard } from "../../src/services/proof.service.js";
+import badge from "../../src/routes/badge.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  getAgentCard: vi.fn(),
+}));
+
+let card: AgentCard;
+
+beforeEach(() => {
+  card = {
+    id: "agt_1",
+    name: "Claw",
+    status: "verified",
+    owner: { claimed: false, handle: null, provider: null },
+    difficulty: "standard",
+    verified_at: "2026-01-01T00:00:00.000Z",
+  } as AgentCard;
+  vi.mocked(getAgentCard).mockReset().mockImplementation(async (id: string) => (id === card.id ? card : null));
+});
+
+describe("GET /badge/:id.svg", () => {
+  it("serves the agent's badge as a locked-down SVG", async () => {
+    const res = await badge.request("/agt_1.svg");
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("image/svg+xml; charset=utf-8");
+    expect(res.headers.get("Cache-Control")).toBe("public, max-age=300");
+    expect(res.headers.get("Content-Security-Policy")).toBe("default-src 'none'; style-src 'unsafe-inline'");
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect(await res.text()).toContain("verified · standard");
+  });
+
+  it("shows claimed agents as claimed", async () => {
+    card.owner = { claimed: true, handle: "clawmaker", provider: "github" };
+
+    expect(await (await badge.request("/agt_1.svg")).text()).toContain("verified · claimed · standard");
+  });
+
+  it("shows the agent's current status", async () => {
+    card.status = "suspended";
+
+    expect(await (await badge.request("/agt_1.svg")).text()).toContain(">suspended</text>");
+  });
+
+  it("serves a short-lived not found badge for unknown agents", async () => {
+    const res = await badge.request("/agt_missing.svg");
+
+    expect(res.status).toBe(404);
+    expect(res.headers.get("Cache-Control")).toBe("public, max-age=60");
+    expect(await res.text()).toContain("not found");
+  });
+
+  it("only serves .svg files", async () => {
+    expect((await badge.request("/agt_1.png")).status).toBe(404);
+    expect(vi.mocked(getAgentCard)).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the flat style for unknown styles", async () => {
+    const flat = await (await badge.request("/agt_1.svg")).text();
+
+    expect(await (await badge.request("/agt_1.svg?style=huge")).text()).toBe(flat);
+    expect(await (await badge.request("/agt_1.svg?style=dark")).text()).not.toBe(flat);
+  });
+
+  it("answers 304 while the badge is unchanged", async () => {
+    const etag = (await badge.request("/agt_1.svg")).headers.get("ETag")!;
+
+    const unchanged = await badge.request("/agt_1.svg", { headers: { "If-None-Match": etag } });
+    expect(unchanged.status).toBe(304);
+
+    card.status = "revoked";
+    const changed = await badge.request("/agt_1.svg", { headers: { "If-None-Match": etag } });
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get("ETag")).not.toBe(etag);
+  });
+});
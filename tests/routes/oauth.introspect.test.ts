@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import {
+  initializeKeys,
+  signAccessToken,
+  signProofSdJwt,
+  signProofToken,
+  type AgentProofPayload,
+} from "../../src/lib/jwt.js";
+import { authenticateApiKey, checkRateLimit, type Platform } from "../../src/services/platform.service.js";
+import { getAgent, getProof, recordVerification, type Agent, type Proof } from "../../src/services/proof.service.js";
+import { recordVerificationEvents } from "../../src/services/verification-event.service.js";
+import oauth from "../../src/routes/oauth.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+vi.mock("../../src/services/platform.service.js", () => ({
+  authenticateApiKey: vi.fn(),
+  checkRateLimit: vi.fn(),
+  incrementVerificationCount: vi.fn(),
+}));
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  getAgent: vi.fn(),
+  getAgents: vi.fn(),
+  getProof: vi.fn(),
+  recordVerification: vi.fn(),
+}));
+
+vi.mock("../../src/services/key.service.js", () => ({
+  isKeyCompromised: vi.fn(async () => false),
+}));
+
+vi.mock("../../src/services/webhook.service.js", () => ({
+  recordAgentPlatform: vi.fn(),
+}));
+
+vi.mock("../../src/services/verification-event.service.js", () => ({
+  recordVerificationEvents: vi.fn(),
+}));
+
+const API_KEY = "kyc_secret";
+
+const PAYLOAD: AgentProofPayload = {
+  version: "1.0",
+  challenge_id: "chl_1",
+  difficulty: "hard",
+  tasks_passed: ["crypto", "reasoning"],
+  time_taken_ms: 1234,
+  agent: {
+    name: "Claw",
+    public_key: "cHVibGljLWtleQ==",
+    capabilities: ["code_execution"],
+    model_family: "example-model",
+  },
+};
+
+let proof: Proof;
+let scopes: string[];
+
+function introspect(body: string, headers: Record<string, string> = {}) {
+  return oauth.request("/introspect", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", "X-API-Key": API_KEY, ...headers },
+    body,
+  });
+}
+
+function introspectToken(token: string) {
+  return introspect(new URLSearchParams({ token }).toString());
+}
+
+beforeAll(async () => {
+  await initializeKeys();
+});
+
+beforeEach(async () => {
+  scopes = ["introspect"];
+  proof = {
+    id: "prf_1",
+    agent_id: "agt_1",
+    status: "active",
+    token: await signProofToken("agt_1", "prf_1", PAYLOAD),
+  } as Proof;
+
+  vi.mocked(authenticateApiKey).mockReset().mockImplementation(async (apiKey: string) =>
+    apiKey === API_KEY
+      ? { platform: { id: "plt_a", status: "active" } as Platform, key: { scopes } as any }
+      : null
+  );
+  vi.mocked(checkRateLimit).mockReset().mockResolvedValue({ allowed: true, limit: 100, remaining: 99, reset: 60 });
+  vi.mocked(getProof).mockReset().mockImplementation(async (id: string) => (id === proof.id ? proof : null));
+  vi.mocked(getAgent).mockReset().mockResolvedValue({
+    id: "agt_1",
+    name: "Claw",
+    description: "Writes code",
+    status: "verified",
+    capabilities: ["code_execution"],
+    model_family: "example-model",
+    verified_at: "2026-01-01T00:00:00Z",
+  } as Agent);
+  vi.mocked(recordVerification).mockReset();
+  vi.mocked(recordVerificationEvents).mockReset();
+});
+
+describe("POST /introspect", () => {
+  it("describes an active proof token", async () => {
+    const res = await introspectToken(proof.token);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    expect(body).toMatchObject({
+      active: true,
+      token_type: "Bearer",
+      token_use: "proof",
+      client_id: "plt_a",
+      sub: "agt_1",
+      aud: "*",
+      jti: "prf_1",
+      agent_name: "Claw",
+      agent_status: "verified",
+      capabilities: ["code_execution"],
+      proof_id: "prf_1",
+      challenge_difficulty: "hard",
+      tasks_passed: ["crypto", "reasoning"],
+    });
+    expect(body.exp).toBe(body.proof_expires_at);
+  });
+
+  it("records the verification like /api/v1/verify", async () => {
+    await introspectToken(proof.token);
+
+    expect(vi.mocked(recordVerification)).toHaveBeenCalledWith("prf_1", "plt_a");
+    expect(vi.mocked(recordVerificationEvents)).toHaveBeenCalledWith([
+      expect.objectContaining({ platformId: "plt_a", proofId: "prf_1", valid: true, source: "introspect" }),
+    ]);
+  });
+
+  it("describes the access token, not its proof, for platform-bound tokens", async () => {
+    const token = await signAccessToken("agt_1", "plt_a", "ses_1", { proof_id: "prf_1", public_key: "key" }, 60);
+
+    const body = await (await introspectToken(token)).json();
+
+    expect(body).toMatchObject({ active: true, token_use: "access", aud: "plt_a", jti: "ses_1", proof_id: "prf_1" });
+  });
+
+  it("accepts JSON bodies", async () => {
+    const res = await introspect(JSON.stringify({ token: proof.token }), { "Content-Type": "application/json" });
+
+    expect(await res.json()).toMatchObject({ active: true });
+  });
+
+  it("shows only the disclosed claims of an SD-JWT", async () => {
+    const sdJwt = await signProofSdJwt("agt_1", "prf_1", PAYLOAD);
+    const [jwt, ...disclosures] = sdJwt.split("~").slice(0, -1);
+    const nameOnly = disclosures.filter(
+      (d) => JSON.parse(Buffer.from(d, "base64url").toString("utf-8"))[1] === "name"
+    );
+
+    const body = await (await introspectToken([jwt, ...nameOnly, ""].join("~"))).json();
+
+    expect(body).toMatchObject({ active: true, agent_name: "Claw", disclosed_claims: ["name"] });
+    expect(body.capabilities).toBeUndefined();
+    expect(body.model_family).toBeUndefined();
+  });
+
+  it.each([
+    ["a revoked proof", async () => {
+      proof.status = "revoked";
+      return proof.token;
+    }],
+    ["a token for another platform", () =>
+      signAccessToken("agt_1", "plt_b", "ses_1", { proof_id: "prf_1", public_key: "key" }, 60)],
+    ["a suspended agent", async () => {
+      vi.mocked(getAgent).mockResolvedValue({ id: "agt_1", status: "suspended" } as Agent);
+      return proof.token;
+    }],
+    ["garbage", async () => "not-a-token"],
+  ])("answers only active: false for %s", async (_, token) => {
+    const res = await introspectToken(await token());
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ active: false });
+  });
+
+  it("requires the token parameter", async () => {
+    const res = await introspect("");
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: "invalid_request" });
+  });
+
+  it("requires the platform's API key", async () => {
+    const res = await introspect(new URLSearchParams({ token: proof.token }).toString(), {
+      "X-API-Key": "kyc_wrong",
+    });
+
+    expect(res.status).toBe(401);
+    expect(vi.mocked(recordVerificationEvents)).not.toHaveBeenCalled();
+  });
+
+  it("requires the introspect scope", async () => {
+    scopes = ["verify"];
+
+    const res = await introspectToken(proof.token);
+
+    expect(res.status).toBe(403);
+  });
+});
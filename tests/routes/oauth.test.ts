@@ -0,0 +1,325 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { createHash } from "crypto";
+import { queryOne, execute, generateId } from "../../src/db/index.js";
+import { initializeKeys, decodeToken, signAccessToken } from "../../src/lib/jwt.js";
+import { getAgent, getProofByAgentId, type Agent } from "../../src/services/proof.service.js";
+import { getPlatform, validateApiKey, type Platform } from "../../src/services/platform.service.js";
+import oauth from "../../src/routes/oauth.js";
+import { createAgentKey } from "../helpers/agent-key.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  getAgent: vi.fn(),
+  getProofByAgentId: vi.fn(),
+}));
+
+vi.mock("../../src/services/platform.service.js", () => ({
+  getPlatform: vi.fn(),
+  validateApiKey: vi.fn(),
+}));
+
+const REDIRECT_URI = "https://platform.example/callback";
+const CODE_VERIFIER = "a-code-verifier-that-is-long-enough-for-pkce-0123456789";
+const CODE_CHALLENGE = createHash("sha256").update(CODE_VERIFIER).digest("base64url");
+
+const key = createAgentKey();
+
+// oauth_authorizations rows by id
+let authorizations: Map<string, Record<string, any>>;
+
+function authorizeQuery(overrides: Record<string, string> = {}): string {
+  return new URLSearchParams({
+    response_type: "code",
+    client_id: "plt_a",
+    redirect_uri: REDIRECT_URI,
+    scope: "openid profile",
+    state: "state-1",
+    nonce: "oidc-nonce",
+    code_challenge: CODE_CHALLENGE,
+    code_challenge_method: "S256",
+    ...overrides,
+  }).toString();
+}
+
+// Runs the agent's side of the flow and returns the authorization code
+async function authorize(overrides: Record<string, string> = {}): Promise<string> {
+  const start = await (await oauth.request(`/authorize?${authorizeQuery(overrides)}`)).json();
+  const res = await oauth.request("/authorize", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({
+      request_id: start.request_id,
+      agent_id: "agt_1",
+      signature: key.sign(start.message_to_sign),
+    }),
+  });
+  return new URL((await res.json()).redirect_to).searchParams.get("code")!;
+}
+
+function requestToken(params: Record<string, string>, headers: Record<string, string> = {}) {
+  return oauth.request("/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", ...headers },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      redirect_uri: REDIRECT_URI,
+      client_id: "plt_a",
+      code_verifier: CODE_VERIFIER,
+      ...params,
+    }).toString(),
+  });
+}
+
+function basicAuth(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+}
+
+beforeAll(async () => {
+  await initializeKeys();
+});
+
+beforeEach(() => {
+  authorizations = new Map();
+  let ids = 0;
+  vi.mocked(generateId).mockReset().mockImplementation((prefix: string) => `${prefix}_${++ids}`);
+
+  vi.mocked(execute).mockReset().mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.includes("INSERT INTO oauth_authorizations")) {
+      const [id, platform_id, redirect_uri, scope, state, oidc_nonce, code_challenge, server_nonce, expires_at] = params;
+      authorizations.set(id, { id, platform_id, redirect_uri, scope, state, oidc_nonce, code_challenge, server_nonce, expires_at });
+      return { rowCount: 1 };
+    }
+    if (sql.includes("UPDATE oauth_authorizations")) {
+      const row = authorizations.get(params[3]);
+      if (!row || row.approved_at) return { rowCount: 0 };
+      Object.assign(row, {
+        agent_id: params[0],
+        code_hash: params[1],
+        approved_at: new Date().toISOString(),
+        expires_at: params[2],
+      });
+      return { rowCount: 1 };
+    }
+    return { rowCount: 0 };
+  });
+  vi.mocked(queryOne).mockReset().mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.includes("SELECT * FROM oauth_authorizations")) {
+      const row = authorizations.get(params[0]);
+      return row && !row.approved_at && new Date(row.expires_at) > new Date() ? row : null;
+    }
+    if (sql.includes("UPDATE oauth_authorizations SET used_at")) {
+      const row = [...authorizations.values()].find(
+        (candidate) => candidate.code_hash === params[0] && !candidate.used_at && candidate.approved_at
+      );
+      if (!row) return null;
+      row.used_at = new Date().toISOString();
+      return { ...row };
+    }
+    return null;
+  });
+
+  vi.mocked(getPlatform).mockReset().mockImplementation(async (id: string) =>
+    id === "plt_a"
+      ? ({ id, name: "Platform A", status: "active", redirect_uris: [REDIRECT_URI] } as Platform)
+      : null
+  );
+  vi.mocked(validateApiKey).mockReset().mockImplementation(async (apiKey: string) =>
+    apiKey === "kyc_secret" ? ({ id: "plt_a", status: "active" } as Platform) : null
+  );
+  vi.mocked(getAgent).mockReset().mockResolvedValue({
+    id: "agt_1",
+    name: "Claw",
+    public_key: key.publicKey,
+    status: "verified",
+    capabilities: ["code_execution"],
+  } as Agent);
+  vi.mocked(getProofByAgentId).mockReset().mockResolvedValue({
+    id: "prf_1",
+    expires_at: new Date(Date.now() + 86_400_000).toISOString(),
+  } as any);
+});
+
+describe("authorization code flow", () => {
+  it("issues tokens for the code and the matching code_verifier", async () => {
+    const code = await authorize();
+
+    const res = await requestToken({ code });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ token_type: "Bearer", scope: "openid profile" });
+    expect(decodeToken(body.id_token)!.payload).toMatchObject({
+      sub: "agt_1",
+      aud: "plt_a",
+      nonce: "oidc-nonce",
+      name: "Claw",
+    });
+  });
+
+  it("sends the code and state back to the registered redirect URI", async () => {
+    const start = await (await oauth.request(`/authorize?${authorizeQuery()}`)).json();
+    const res = await oauth.request("/authorize", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        request_id: start.request_id,
+        agent_id: "agt_1",
+        signature: key.sign(start.message_to_sign),
+      }).toString(),
+    });
+
+    expect(res.status).toBe(302);
+    const location = new URL(res.headers.get("Location")!);
+    expect(`${location.origin}${location.pathname}`).toBe(REDIRECT_URI);
+    expect(location.searchParams.get("state")).toBe("state-1");
+  });
+
+  it("refuses approvals signed by another key", async () => {
+    const start = await (await oauth.request(`/authorize?${authorizeQuery()}`)).json();
+    const res = await oauth.request("/authorize", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        request_id: start.request_id,
+        agent_id: "agt_1",
+        signature: createAgentKey().sign(start.message_to_sign),
+      }),
+    });
+
+    expect(res.status).toBe(401);
+  });
+
+  it("refuses redirect URIs the client didn't register", async () => {
+    const res = await oauth.request(`/authorize?${authorizeQuery({ redirect_uri: "https://evil.example/cb" })}`);
+
+    expect(res.status).toBe(400);
+    expect(authorizations.size).toBe(0);
+  });
+});
+
+describe("PKCE", () => {
+  it.each([
+    ["missing", { code_challenge: "" }],
+    ["plain", { code_challenge_method: "plain" }],
+  ])("requires S256 (%s challenge)", async (_, overrides) => {
+    const res = await oauth.request(`/authorize?${authorizeQuery(overrides)}`);
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: "invalid_request" });
+  });
+
+  it("refuses a wrong code_verifier and burns the code", async () => {
+    const code = await authorize();
+
+    const wrong = await requestToken({ code, code_verifier: "another-verifier-0123456789-0123456789-0123" });
+    expect(wrong.status).toBe(400);
+    expect(await wrong.json()).toMatchObject({ error: "invalid_grant" });
+
+    expect((await requestToken({ code })).status).toBe(400);
+  });
+});
+
+describe("POST /token", () => {
+  it("accepts each code once", async () => {
+    const code = await authorize();
+
+    expect((await requestToken({ code })).status).toBe(200);
+
+    const replay = await requestToken({ code });
+    expect(replay.status).toBe(400);
+    expect(await replay.json()).toMatchObject({ error: "invalid_grant" });
+  });
+
+  it("refuses a redirect_uri other than the one authorized", async () => {
+    const code = await authorize();
+
+    const res = await requestToken({ code, redirect_uri: "https://platform.example/other" });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: "invalid_grant" });
+  });
+
+  it("authenticates confidential clients with HTTP Basic", async () => {
+    const code = await authorize();
+
+    const res = await requestToken({ code }, { Authorization: basicAuth("plt_a", "kyc_secret") });
+
+    expect(res.status).toBe(200);
+  });
+
+  it("refuses a wrong client secret", async () => {
+    const code = await authorize();
+
+    const res = await requestToken({ code }, { Authorization: basicAuth("plt_a", "kyc_wrong") });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ error: "invalid_client" });
+  });
+
+  it.each([["%zz", "kyc_secret"], ["plt_a", "%E0%A4%A"]])(
+    "answers malformed Basic credentials (%s:%s) with invalid_client",
+    async (username, password) => {
+      const res = await requestToken({ code: "code" }, { Authorization: basicAuth(username, password) });
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toMatchObject({ error: "invalid_client" });
+    }
+  );
+});
+
+describe("userinfo", () => {
+  it("returns the claims of the granted scopes", async () => {
+    const { access_token } = await (await requestToken({ code: await authorize() })).json();
+
+    const res = await oauth.request("/userinfo", { headers: { Authorization: `Bearer ${access_token}` } });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ sub: "agt_1", name: "Claw" });
+  });
+
+  it("adds agent claims for the agent scope", async () => {
+    const code = await authorize({ scope: "openid agent" });
+    const { access_token } = await (await requestToken({ code })).json();
+
+    const res = await oauth.request("/userinfo", { headers: { Authorization: `Bearer ${access_token}` } });
+
+    expect(await res.json()).toMatchObject({
+      sub: "agt_1",
+      agent_status: "verified",
+      capabilities: ["code_execution"],
+      public_key: key.publicKey,
+    });
+  });
+
+  it("requires a bearer token", async () => {
+    const res = await oauth.request("/userinfo");
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get("WWW-Authenticate")).toContain("invalid_request");
+  });
+
+  it("refuses access tokens issued without the openid scope", async () => {
+    const token = await signAccessToken("agt_1", "plt_a", "ses_1", { proof_id: "prf_1", public_key: key.publicKey }, 60);
+
+    const res = await oauth.request("/userinfo", { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ error: "insufficient_scope" });
+  });
+
+  it("refuses tokens of agents that are no longer verified", async () => {
+    const { access_token } = await (await requestToken({ code: await authorize() })).json();
+    vi.mocked(getAgent).mockResolvedValue({ id: "agt_1", status: "suspended" } as Agent);
+
+    const res = await oauth.request("/userinfo", { headers: { Authorization: `Bearer ${access_token}` } });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ error: "invalid_token" });
+  });
+});
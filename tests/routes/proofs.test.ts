@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import {
+  initializeKeys,
+  signProofCredential,
+  signProofSdJwt,
+  signProofToken,
+  type AgentProofPayload,
+} from "../../src/lib/jwt.js";
+import { getProof, getProofFormat } from "../../src/services/proof.service.js";
+import proofs from "../../src/routes/proofs.js";
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  getProof: vi.fn(),
+  getProofFormat: vi.fn(),
+}));
+
+const PROOF = {
+  version: "1.0",
+  agent: { name: "Claw", public_key: "cHVibGljLWtleQ==", capabilities: ["code_execution"] },
+  challenge_id: "chl_1",
+  difficulty: "hard",
+  tasks_passed: ["crypto"],
+  time_taken_ms: 1234,
+} as AgentProofPayload;
+
+let sdJwt: string;
+
+function getFullProof(token: string, accept?: string) {
+  return proofs.request("/prf_1", {
+    headers: { Authorization: `Bearer ${token}`, ...(accept ? { Accept: accept } : {}) },
+  });
+}
+
+beforeAll(async () => {
+  await initializeKeys();
+  sdJwt = await signProofSdJwt("agt_1", "prf_1", PROOF);
+});
+
+beforeEach(() => {
+  vi.mocked(getProof).mockReset().mockResolvedValue({ id: "prf_1", token: "proof-token" } as any);
+  vi.mocked(getProofFormat).mockReset().mockResolvedValue(undefined);
+});
+
+describe("GET /:id", () => {
+  it("returns the proof to the holder of its token", async () => {
+    const res = await getFullProof(await signProofToken("agt_1", "prf_1", PROOF));
+
+    expect(res.status).toBe(200);
+  });
+
+  it.each([
+    ["a presentation", () => sdJwt.replace(/~.*$/, "~")],
+    ["the issuer JWT without disclosures", () => sdJwt.split("~")[0]],
+  ])("refuses SD-JWTs: %s", async (_, token) => {
+    const res = await getFullProof(token());
+
+    expect(res.status).toBe(401);
+    expect(vi.mocked(getProof)).not.toHaveBeenCalled();
+  });
+
+  it("accepts the credential in place of the proof token", async () => {
+    const res = await getFullProof(await signProofCredential("agt_1", "prf_1", PROOF));
+
+    expect(res.status).toBe(200);
+  });
+
+  it("returns the credential for Accept: application/vc+jwt", async () => {
+    vi.mocked(getProofFormat).mockImplementation(async (_, format) =>
+      format === "credential" ? "vc-credential" : "sd-jwt"
+    );
+
+    const res = await getFullProof(await signProofToken("agt_1", "prf_1", PROOF), "application/vc+jwt");
+
+    expect(res.headers.get("Content-Type")).toBe("application/vc+jwt");
+    expect(res.headers.get("Vary")).toBe("Accept");
+    expect(await res.text()).toBe("vc-credential");
+  });
+
+  it("answers 406 when no credential can be issued", async () => {
+    const res = await getFullProof(await signProofToken("agt_1", "prf_1", PROOF), "application/vc+jwt");
+
+    expect(res.status).toBe(406);
+  });
+
+  it("returns every format as JSON by default", async () => {
+    vi.mocked(getProofFormat).mockImplementation(async (_, format) =>
+      format === "credential" ? "vc-credential" : "sd-jwt"
+    );
+
+    const res = await getFullProof(await signProofToken("agt_1", "prf_1", PROOF));
+
+    expect((await res.json()).proof).toMatchObject({
+      token: "proof-token",
+      credential: "vc-credential",
+      sd_jwt: "sd-jwt",
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import { getChallenge, type Challenge } from "../../src/services/challenge.service.js";
+import { createVerifiedAgent } from "../../src/services/proof.service.js";
+import { registerTask } from "../../src/tasks/index.js";
+import submit from "../../src/routes/submit.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+vi.mock("../../src/services/challenge.service.js", () => ({
+  getChallenge: vi.fn(),
+  updateChallengeStatus: vi.fn(),
+}));
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  createVerifiedAgent: vi.fn(),
+  renewProof: vi.fn(),
+  getAgent: vi.fn(),
+}));
+
+vi.mock("../../src/lib/rate-limiter.js", () => ({
+  generateFingerprint: vi.fn(() => "fingerprint"),
+  recordCompletionTiming: vi.fn(),
+  assessSubmission: vi.fn(async () => ({ isLikelyAgent: true, confidence: 1, flags: [] })),
+}));
+
+// Operators register their own tasks without touching the submit route
+registerTask({
+  type: "test_key",
+  includeByDefault: true,
+  generate: () => ({ task: { type: "test_key" } as any }),
+  responseSchema: z.object({ type: z.literal("test_key"), public_key: z.string() }),
+  validate: async (_challenge, response) => ({ passed: true, publicKey: response.public_key }),
+});
+
+registerTask({
+  type: "test_telepathy",
+  includeByDefault: false,
+  capability: "telepathy",
+  generate: () => ({ task: { type: "test_telepathy" } as any }),
+  responseSchema: z.object({ type: z.literal("test_telepathy"), answer: z.string() }),
+  validate: async (_challenge, response) =>
+    response.answer === "42" ? { passed: true } : { passed: false, error: "Wrong answer" },
+});
+
+function postSubmit(responses: unknown[]) {
+  return submit.request("/chl_1/submit", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ responses }),
+  });
+}
+
+beforeEach(() => {
+  vi.mocked(getChallenge).mockReset().mockResolvedValue({
+    id: "chl_1",
+    agent_name: "Claw",
+    nonce: "nonce",
+    difficulty: "standard",
+    tasks: [],
+    status: "pending",
+    expires_at: new Date(Date.now() + 60_000).toISOString(),
+    created_at: new Date().toISOString(),
+    time_limit_seconds: 60,
+    // web_browsing is declared but its task is never submitted
+    capabilities: ["telepathy", "web_browsing"],
+  } as Challenge);
+  vi.mocked(createVerifiedAgent).mockReset().mockResolvedValue({
+    agent: { id: "agt_1", name: "Claw", status: "verified", claim_token: "claim" },
+    proof: { id: "prf_1", token: "token", expires_at: "2027-01-01T00:00:00Z" },
+  } as any);
+});
+
+describe("POST /:id/submit", () => {
+  it("validates responses with the registered plugins", async () => {
+    const res = await postSubmit([
+      { type: "test_key", public_key: "key" },
+      { type: "test_telepathy", answer: "42" },
+    ]);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ success: true, tasks_passed: 2 });
+  });
+
+  it("rejects unknown task types", async () => {
+    const res = await postSubmit([{ type: "test_key", public_key: "key" }, { type: "levitation" }]);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).details).toEqual([
+      expect.objectContaining({ message: "Unknown task type: levitation" }),
+    ]);
+    expect(vi.mocked(createVerifiedAgent)).not.toHaveBeenCalled();
+  });
+
+  it("checks responses against the plugin's schema", async () => {
+    const res = await postSubmit([{ type: "test_telepathy", answer: 42 }]);
+
+    expect(res.status).toBe(400);
+  });
+
+  it("records only the capabilities whose task passed", async () => {
+    await postSubmit([
+      { type: "test_key", public_key: "key" },
+      { type: "test_telepathy", answer: "42" },
+    ]);
+
+    const capabilities = vi.mocked(createVerifiedAgent).mock.calls[0][3];
+    expect(capabilities).toEqual(["telepathy"]);
+  });
+
+  it("records no capability whose task was skipped", async () => {
+    await postSubmit([{ type: "test_key", public_key: "key" }]);
+
+    expect(vi.mocked(createVerifiedAgent).mock.calls[0][3]).toEqual([]);
+  });
+
+  it("creates no agent when a capability task fails", async () => {
+    const res = await postSubmit([
+      { type: "test_key", public_key: "key" },
+      { type: "test_telepathy", answer: "41" },
+    ]);
+
+    expect(await res.json()).toMatchObject({
+      success: false,
+      errors: [{ type: "test_telepathy", error: "Wrong answer" }],
+    });
+    expect(vi.mocked(createVerifiedAgent)).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { authenticateApiKey, checkRateLimit, type Platform } from "../../src/services/platform.service.js";
+import { verifyTokensForPlatform, type VerifiedToken } from "../../src/services/verification.service.js";
+import verify from "../../src/routes/verify.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+vi.mock("../../src/services/platform.service.js", () => ({
+  authenticateApiKey: vi.fn(),
+  checkRateLimit: vi.fn(),
+}));
+
+vi.mock("../../src/services/verification.service.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/services/verification.service.js")>()),
+  verifyTokenForPlatform: vi.fn(),
+  verifyTokensForPlatform: vi.fn(),
+}));
+
+vi.mock("../../src/services/report.service.js", () => ({
+  getAgentReputations: vi.fn(async () => new Map()),
+}));
+
+const PLATFORM = { id: "plt_a", name: "Platform A", status: "active" } as Platform;
+
+// A valid result for "ok:<agent id>" tokens, an error for anything else
+function resultFor(token: string) {
+  if (!token.startsWith("ok:")) return { valid: false as const, error: "Invalid token" };
+  const agentId = token.slice("ok:".length);
+  return {
+    valid: true,
+    agent: { id: agentId, name: agentId, status: "verified", capabilities: [] },
+    payload: {
+      jti: `prf_${agentId}`,
+      iat: 1_700_000_000,
+      exp: 1_800_000_000,
+      agp: { difficulty: "standard", tasks_passed: ["crypto"], agent: { name: agentId } },
+    },
+  } as unknown as VerifiedToken;
+}
+
+function postBatch(tokens: unknown[]) {
+  return verify.request("/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-API-Key": "kyc_secret" },
+    body: JSON.stringify({ tokens }),
+  });
+}
+
+beforeEach(() => {
+  vi.mocked(authenticateApiKey).mockReset().mockResolvedValue({
+    platform: PLATFORM,
+    key: { scopes: ["verify"] } as any,
+  });
+  vi.mocked(checkRateLimit).mockReset().mockResolvedValue({ allowed: true, limit: 100, remaining: 90, reset: 30 });
+  vi.mocked(verifyTokensForPlatform).mockReset().mockImplementation(async (tokens: string[]) =>
+    tokens.map(resultFor)
+  );
+});
+
+describe("POST /batch", () => {
+  it("returns per-token results in order", async () => {
+    const res = await postBatch(["ok:agt_1", "bad", "ok:agt_2"]);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ success: true, count: 3, valid_count: 2 });
+    expect(body.results).toEqual([
+      expect.objectContaining({ index: 0, valid: true, agent: expect.objectContaining({ id: "agt_1" }) }),
+      { index: 1, valid: false, error: "Invalid token" },
+      expect.objectContaining({ index: 2, valid: true, agent: expect.objectContaining({ id: "agt_2" }) }),
+    ]);
+    expect(vi.mocked(verifyTokensForPlatform)).toHaveBeenCalledWith(
+      ["ok:agt_1", "bad", "ok:agt_2"],
+      "plt_a",
+      expect.objectContaining({ source: "batch" })
+    );
+  });
+
+  it("charges the rest of the batch against the rate limit", async () => {
+    await postBatch(["ok:agt_1", "ok:agt_2", "ok:agt_3"]);
+
+    // platformAuth counts the request itself, the route the other tokens
+    expect(vi.mocked(checkRateLimit).mock.calls).toEqual([[PLATFORM], [PLATFORM, 2]]);
+  });
+
+  it("charges nothing extra for a single token", async () => {
+    await postBatch(["ok:agt_1"]);
+
+    expect(vi.mocked(checkRateLimit).mock.calls).toEqual([[PLATFORM]]);
+  });
+
+  it("verifies nothing when the batch doesn't fit the rate limit", async () => {
+    vi.mocked(checkRateLimit)
+      .mockResolvedValueOnce({ allowed: true, limit: 100, remaining: 1, reset: 30 })
+      .mockResolvedValueOnce({ allowed: false, limit: 100, remaining: 0, reset: 30, retryAfter: 12 });
+
+    const res = await postBatch(["ok:agt_1", "ok:agt_2", "ok:agt_3"]);
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("12");
+    expect(await res.json()).toMatchObject({
+      error: "Rate limit exceeded: a batch of 3 tokens counts as 3 requests",
+      retry_after: 12,
+    });
+    expect(vi.mocked(verifyTokensForPlatform)).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["no tokens", []],
+    ["more than 100 tokens", Array.from({ length: 101 }, (_, i) => `ok:agt_${i}`)],
+  ])("rejects %s", async (_, tokens) => {
+    const res = await postBatch(tokens);
+
+    expect(res.status).toBe(400);
+    expect(vi.mocked(verifyTokensForPlatform)).not.toHaveBeenCalled();
+  });
+});
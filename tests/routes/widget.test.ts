@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+import { deflateSync } from "zlib";
+import { query, queryOne } from "../../src/db/index.js";
+import { getJwks, initializeKeys, signStatusListToken } from "../../src/lib/jwt.js";
+import { getAgentCard, type AgentCard } from "../../src/services/proof.service.js";
+import { invalidateStatusList } from "../../src/services/status-list.service.js";
+import publicRoutes from "../../src/routes/public.js";
+import statusLists from "../../src/routes/status-lists.js";
+import widget from "../../src/routes/widget.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  getAgentCard: vi.fn(),
+}));
+
+const ORIGIN = "https://knowyourclaw.com";
+const STATUS_INDEX = 42;
+// Vitest sets BASE_URL to "/"
+const originalBaseUrl = process.env.BASE_URL;
+
+// Minimal DOM node: enough for the widget to render into and for us to read back
+class FakeNode {
+  children: FakeNode[] = [];
+  attributes: Record<string, string> = {};
+  textContent = "";
+  href = "";
+
+  setAttribute(name: string, value: string) {
+    this.attributes[name] = value;
+  }
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+  appendChild(child: FakeNode) {
+    this.children.push(child);
+    return child;
+  }
+  removeChild(child: FakeNode) {
+    this.children.splice(this.children.indexOf(child), 1);
+  }
+  get firstChild(): FakeNode | null {
+    return this.children[0] ?? null;
+  }
+  text(): string {
+    return [this.textContent, ...this.children.map((child) => child.text())].filter(Boolean).join(" | ");
+  }
+}
+
+let revokedIndexes: number[];
+let fetched: string[];
+// Serves the status list in place of the real route when set
+let statusListOverride: string | null;
+
+async function fakeFetch(url: string): Promise<Response> {
+  fetched.push(url);
+  if (url === `${ORIGIN}/.well-known/jwks.json`) {
+    return Response.json(await getJwks());
+  }
+  if (url.startsWith(`${ORIGIN}/api/v1/status-lists/`)) {
+    if (statusListOverride) return new Response(statusListOverride);
+    return statusLists.request(url.slice(`${ORIGIN}/api/v1/status-lists`.length));
+  }
+  if (url.startsWith(`${ORIGIN}/api/v1/public/`)) {
+    return publicRoutes.request(url.slice(`${ORIGIN}/api/v1/public`.length));
+  }
+  return new Response("Not found", { status: 404 });
+}
+
+// Loads a fresh copy of the served bundle and renders one agent card
+async function renderWidget(agentId = "agt_1"): Promise<string> {
+  const source = await (await widget.request("/v1.js")).text();
+  const window: Record<string, any> = {};
+  const document = {
+    currentScript: { src: `${ORIGIN}/widget/v1.js` },
+    readyState: "complete",
+    createElement: () => new FakeNode(),
+    querySelectorAll: () => [],
+    addEventListener: () => {},
+  };
+  new Function("window", "document", "fetch", source)(window, document, fakeFetch);
+
+  const target = new FakeNode();
+  target.setAttribute("data-knowyourclaw-agent", agentId);
+  await window.KnowYourClaw.render(target);
+  return target.text();
+}
+
+beforeAll(async () => {
+  await initializeKeys();
+});
+
+beforeEach(() => {
+  process.env.BASE_URL = ORIGIN;
+  revokedIndexes = [];
+  fetched = [];
+  statusListOverride = null;
+  invalidateStatusList();
+
+  vi.mocked(getAgentCard).mockReset().mockImplementation(async (id: string) =>
+    id === "agt_1"
+      ? ({
+          id,
+          name: "Claw",
+          status: "verified",
+          owner: { claimed: true, handle: "clawmaker", provider: "github" },
+          difficulty: "standard",
+          verified_at: "2026-01-01T00:00:00.000Z",
+        } as AgentCard)
+      : null
+  );
+  vi.mocked(queryOne).mockReset().mockImplementation(async (sql: string) => {
+    if (sql.includes("SELECT status_index FROM proofs")) return { status_index: STATUS_INDEX };
+    if (sql.includes("MAX(status_index)")) return { max: 100 };
+    return null;
+  });
+  vi.mocked(query).mockReset().mockImplementation(async () =>
+    revokedIndexes.map((status_index) => ({ status_index }))
+  );
+});
+
+afterAll(() => {
+  process.env.BASE_URL = originalBaseUrl;
+});
+
+describe("GET /agents/:id/widget", () => {
+  it("returns the proof's status list entry and no token", async () => {
+    const res = await publicRoutes.request("/agents/agt_1/widget");
+    const body = await res.json();
+
+    expect(body.status).toEqual({
+      status_list: { idx: STATUS_INDEX, uri: `${ORIGIN}/api/v1/status-lists/proofs` },
+    });
+    expect(body).not.toHaveProperty("card_token");
+    expect(JSON.stringify(body)).not.toMatch(/eyJ/);
+  });
+
+  it("has no status entry for agents that aren't verified", async () => {
+    vi.mocked(getAgentCard).mockResolvedValue({ id: "agt_1", name: "Claw", status: "suspended" } as AgentCard);
+
+    const body = await (await publicRoutes.request("/agents/agt_1/widget")).json();
+
+    expect(body.status).toBeNull();
+  });
+});
+
+describe("widget v1.js", () => {
+  it("shows verified agents once their status list entry checks out", async () => {
+    const text = await renderWidget();
+
+    expect(text).toContain("Claw");
+    expect(text).toContain("verified · claimed");
+    expect(text).toContain("Owner: @clawmaker");
+    expect(text).toContain("✓ Status checked with KnowYourClaw");
+    expect(fetched).toContain(`${ORIGIN}/api/v1/status-lists/proofs`);
+  });
+
+  it("shows an agent as revoked when the signed list says so", async () => {
+    revokedIndexes = [STATUS_INDEX];
+
+    const text = await renderWidget();
+
+    expect(text).toContain("revoked");
+    expect(text).not.toContain("verified");
+  });
+
+  it("refuses a status list from another issuer", async () => {
+    process.env.BASE_URL = "https://evil.example";
+    const bits = Buffer.alloc(16);
+    statusListOverride = await signStatusListToken(
+      `${ORIGIN}/api/v1/status-lists/proofs`,
+      { bits: 1, lst: deflateSync(bits).toString("base64url") },
+      300,
+      3600
+    );
+    process.env.BASE_URL = ORIGIN;
+
+    const text = await renderWidget();
+
+    expect(text).toBe("KnowYourClaw: Could not verify this agent's status");
+    expect(fetched).toContain(`${ORIGIN}/api/v1/status-lists/proofs`);
+  });
+
+  it("refuses a status list that isn't signed by us", async () => {
+    const token = await signStatusListToken(
+      `${ORIGIN}/api/v1/status-lists/proofs`,
+      { bits: 1, lst: deflateSync(Buffer.alloc(16)).toString("base64url") },
+      300,
+      3600
+    );
+    const [header, payload] = token.split(".");
+    statusListOverride = `${header}.${payload}.${Buffer.alloc(64).toString("base64url")}`;
+
+    const text = await renderWidget();
+
+    expect(text).toBe("KnowYourClaw: Could not verify this agent's status");
+  });
+
+  it("doesn't trust status lists on other origins", async () => {
+    process.env.BASE_URL = "https://evil.example";
+
+    const text = await renderWidget();
+
+    expect(text).toBe("KnowYourClaw: Could not verify this agent's status");
+    expect(fetched.some((url) => url.startsWith("https://evil.example"))).toBe(false);
+  });
+
+  it("says so when there is no proof to check", async () => {
+    vi.mocked(getAgentCard).mockResolvedValue({
+      id: "agt_1",
+      name: "Claw",
+      status: "expired",
+      owner: { claimed: false, handle: null, provider: null },
+      difficulty: null,
+      verified_at: null,
+    } as AgentCard);
+
+    const text = await renderWidget();
+
+    expect(text).toContain("expired");
+    expect(text).toContain("No active proof");
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queryOne, execute } from "../../src/db/index.js";
+import {
+  normalizeDomain,
+  verifyPlatformDomain,
+  type DomainLookup,
+} from "../../src/services/domain-verification.service.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+const TOKEN = "tok_123";
+
+function stubLookup(txt: Record<string, string[][]> = {}, files: Record<string, string> = {}) {
+  return {
+    resolveTxt: vi.fn(async (hostname: string) => txt[hostname] ?? []),
+    fetchText: vi.fn(async (url: string) => files[url] ?? null),
+  } satisfies DomainLookup;
+}
+
+function givenPlatform(row: Record<string, unknown>) {
+  vi.mocked(queryOne).mockImplementation(async (sql: string) =>
+    sql.startsWith("SELECT") ? { id: "plt_a", ...row } : { domain_verified_at: "2026-01-01T00:00:00Z" }
+  );
+}
+
+beforeEach(() => {
+  vi.mocked(queryOne).mockReset();
+  vi.mocked(execute).mockReset().mockResolvedValue({ rowCount: 1 });
+});
+
+describe("normalizeDomain", () => {
+  it("reduces URLs and mixed case to the hostname", () => {
+    expect(normalizeDomain("Example.com")).toBe("example.com");
+    expect(normalizeDomain("https://Example.com/path?q=1")).toBe("example.com");
+    expect(normalizeDomain("app.example.co.uk")).toBe("app.example.co.uk");
+  });
+
+  it("rejects IPs, single labels and garbage", () => {
+    expect(normalizeDomain("127.0.0.1")).toBeNull();
+    expect(normalizeDomain("localhost")).toBeNull();
+    expect(normalizeDomain("not a domain")).toBeNull();
+  });
+});
+
+describe("verifyPlatformDomain", () => {
+  it("finds the token in the _knowyourclaw TXT record", async () => {
+    givenPlatform({ domain: "https://Example.com/", domain_verification_token: TOKEN });
+    const lookup = stubLookup({ "_knowyourclaw.example.com": [[`knowyourclaw-verification=${TOKEN}`]] });
+
+    const result = await verifyPlatformDomain("plt_a", lookup);
+
+    expect(result.domain).toBe("example.com");
+    expect(result.method).toBe("dns");
+    expect(lookup.fetchText).not.toHaveBeenCalled();
+    // The normalized domain is what gets stored
+    expect(vi.mocked(queryOne).mock.calls[1][1]).toEqual(["example.com", "plt_a"]);
+  });
+
+  it("joins TXT record chunks and accepts the record on the domain itself", async () => {
+    givenPlatform({ domain: "example.com", domain_verification_token: TOKEN });
+    const lookup = stubLookup({ "example.com": [["v=spf1 -all"], ["knowyourclaw-verif", `ication=${TOKEN}`]] });
+
+    const result = await verifyPlatformDomain("plt_a", lookup);
+
+    expect(result.method).toBe("dns");
+  });
+
+  it("falls back to the well-known file over HTTPS", async () => {
+    givenPlatform({ domain: "example.com", domain_verification_token: TOKEN });
+    const lookup = stubLookup({}, {
+      "https://example.com/.well-known/knowyourclaw-verification": `${TOKEN}\n`,
+    });
+
+    const result = await verifyPlatformDomain("plt_a", lookup);
+
+    expect(result.method).toBe("http");
+    expect(lookup.resolveTxt).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops unverified claims on the domain by other platforms", async () => {
+    givenPlatform({ domain: "Example.com", domain_verification_token: TOKEN });
+    const lookup = stubLookup({ "_knowyourclaw.example.com": [[`knowyourclaw-verification=${TOKEN}`]] });
+
+    await verifyPlatformDomain("plt_a", lookup);
+
+    expect(vi.mocked(execute)).toHaveBeenCalledWith(
+      expect.stringContaining("domain_verified_at IS NULL"),
+      ["plt_a", "example.com", "Example.com"]
+    );
+  });
+
+  it("fails when neither DNS nor the file has the token", async () => {
+    givenPlatform({ domain: "example.com", domain_verification_token: TOKEN });
+    const lookup = stubLookup(
+      { "_knowyourclaw.example.com": [["knowyourclaw-verification=someone-else"]] },
+      { "https://example.com/.well-known/knowyourclaw-verification": "someone-else" }
+    );
+
+    await expect(verifyPlatformDomain("plt_a", lookup)).rejects.toThrow("Verification token not found for example.com");
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+
+  it("fails before any lookup when verification was not started", async () => {
+    givenPlatform({ domain: "example.com", domain_verification_token: null });
+    const lookup = stubLookup();
+
+    await expect(verifyPlatformDomain("plt_a", lookup)).rejects.toThrow("Domain verification not started");
+    expect(lookup.resolveTxt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queryOne, execute } from "../../src/db/index.js";
+import { createKeyRotationMessage } from "../../src/lib/crypto.js";
+import { getAgent, reissueProofs, type Agent } from "../../src/services/proof.service.js";
+import { rotateAgentKey } from "../../src/services/key.service.js";
+import { createAgentKey } from "../helpers/agent-key.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+  withTransaction: vi.fn((fn: () => Promise<unknown>) => fn()),
+}));
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  getAgent: vi.fn(),
+  reissueProofs: vi.fn(),
+}));
+
+const currentKey = createAgentKey();
+const newKey = createAgentKey();
+
+function signRotation(timestamp: number) {
+  const message = createKeyRotationMessage("agt_1", newKey.publicKey, timestamp);
+  return { oldSignature: currentKey.sign(message), newSignature: newKey.sign(message) };
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+beforeEach(() => {
+  vi.mocked(getAgent).mockReset().mockResolvedValue({
+    id: "agt_1",
+    name: "Claw",
+    public_key: currentKey.publicKey,
+    status: "verified",
+    created_at: "2026-01-01T00:00:00Z",
+  } as Agent);
+  vi.mocked(reissueProofs).mockReset().mockResolvedValue([]);
+  vi.mocked(queryOne).mockReset().mockResolvedValue(null);
+  vi.mocked(execute).mockReset().mockResolvedValue({ rowCount: 1 });
+});
+
+describe("rotateAgentKey", () => {
+  it("moves the agent to the new key and reissues its proofs", async () => {
+    const timestamp = now();
+    const { oldSignature, newSignature } = signRotation(timestamp);
+
+    const { agent } = await rotateAgentKey("agt_1", newKey.publicKey, timestamp, oldSignature, newSignature);
+
+    expect(agent.public_key).toBe(newKey.publicKey);
+    expect(vi.mocked(execute)).toHaveBeenCalledWith(
+      expect.stringContaining("status = 'rotated'"),
+      [currentKey.publicKey]
+    );
+    expect(vi.mocked(reissueProofs)).toHaveBeenCalledWith("agt_1", newKey.publicKey, false);
+  });
+
+  it("marks the old key compromised and has its proofs revoked", async () => {
+    const timestamp = now();
+    const { oldSignature, newSignature } = signRotation(timestamp);
+
+    await rotateAgentKey("agt_1", newKey.publicKey, timestamp, oldSignature, newSignature, true);
+
+    expect(vi.mocked(execute)).toHaveBeenCalledWith(
+      expect.stringContaining("status = 'compromised'"),
+      [currentKey.publicKey]
+    );
+    expect(vi.mocked(reissueProofs)).toHaveBeenCalledWith("agt_1", newKey.publicKey, true);
+  });
+
+  it("requires a signature from the current key", async () => {
+    const timestamp = now();
+    const { newSignature } = signRotation(timestamp);
+    const message = createKeyRotationMessage("agt_1", newKey.publicKey, timestamp);
+
+    await expect(
+      rotateAgentKey("agt_1", newKey.publicKey, timestamp, newKey.sign(message), newSignature)
+    ).rejects.toThrow("Invalid signature from current key");
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+
+  it("requires a signature from the new key", async () => {
+    const timestamp = now();
+    const { oldSignature } = signRotation(timestamp);
+
+    await expect(
+      rotateAgentKey("agt_1", newKey.publicKey, timestamp, oldSignature, oldSignature)
+    ).rejects.toThrow("Invalid signature from new key");
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+
+  it("refuses keys that were used before", async () => {
+    vi.mocked(queryOne).mockResolvedValue({ id: 1 });
+    const timestamp = now();
+    const { oldSignature, newSignature } = signRotation(timestamp);
+
+    await expect(
+      rotateAgentKey("agt_1", newKey.publicKey, timestamp, oldSignature, newSignature)
+    ).rejects.toThrow("This public key has already been used");
+  });
+
+  it("refuses stale rotation requests", async () => {
+    const timestamp = now() - 10 * 60;
+    const { oldSignature, newSignature } = signRotation(timestamp);
+
+    await expect(
+      rotateAgentKey("agt_1", newKey.publicKey, timestamp, oldSignature, newSignature)
+    ).rejects.toThrow("Rotation timestamp is too old or in the future");
+  });
+
+  it("lets only one concurrent rotation win", async () => {
+    vi.mocked(execute).mockResolvedValue({ rowCount: 0 });
+    const timestamp = now();
+    const { oldSignature, newSignature } = signRotation(timestamp);
+
+    await expect(
+      rotateAgentKey("agt_1", newKey.publicKey, timestamp, oldSignature, newSignature)
+    ).rejects.toThrow("Agent key changed during rotation");
+    expect(vi.mocked(reissueProofs)).not.toHaveBeenCalled();
+  });
+});
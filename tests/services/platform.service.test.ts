@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { queryOne, execute, withTransaction } from "../../src/db/index.js";
+import { checkRateLimit, deletePlatform, registerPlatform, type Platform } from "../../src/services/platform.service.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn((prefix: string) => `${prefix}_test`),
+  withTransaction: vi.fn(),
+}));
+
+beforeEach(() => {
+  vi.mocked(execute).mockReset().mockResolvedValue({ rowCount: 1 });
+  // example.com is verified by another platform (stored normalized)
+  vi.mocked(queryOne).mockReset().mockImplementation(async (sql: string, params?: unknown[]) =>
+    sql.includes("domain_verified_at IS NOT NULL") && params?.includes("example.com") ? { id: "plt_owner" } : null
+  );
+});
+
+describe("registerPlatform", () => {
+  it.each(["example.com", "Example.com", "https://example.com/"])(
+    "refuses %s when another platform verified example.com",
+    async (domain) => {
+      await expect(registerPlatform("Copycat", "copy@cat.test", domain)).rejects.toThrow(
+        "A platform with this domain already exists"
+      );
+      expect(vi.mocked(execute)).not.toHaveBeenCalled();
+    }
+  );
+});
+
+describe("deletePlatform", () => {
+  // Statements run inside withTransaction, and those that were committed
+  let pending: string[];
+  let committed: string[];
+
+  beforeEach(() => {
+    pending = [];
+    committed = [];
+    vi.mocked(execute).mockImplementation(async (sql: string) => {
+      pending.push(sql);
+      return { rowCount: 1 };
+    });
+    vi.mocked(withTransaction).mockReset().mockImplementation(async (fn: () => Promise<unknown>) => {
+      pending = [];
+      const result = await fn();
+      committed.push(...pending);
+      return result;
+    });
+  });
+
+  it("keeps the reports the platform filed, without a reporter", async () => {
+    await deletePlatform("plt_a");
+
+    expect(committed).toContain("UPDATE agent_reports SET platform_id = NULL WHERE platform_id = $1");
+    expect(committed.some((sql) => sql.includes("DELETE FROM agent_reports"))).toBe(false);
+    expect(committed.at(-1)).toBe("DELETE FROM platforms WHERE id = $1");
+  });
+
+  it("deletes nothing when the platform doesn't exist", async () => {
+    vi.mocked(execute).mockImplementation(async (sql: string) => {
+      pending.push(sql);
+      return { rowCount: sql.startsWith("DELETE FROM platforms") ? 0 : 1 };
+    });
+
+    await expect(deletePlatform("plt_missing")).rejects.toThrow("Platform not found");
+    expect(committed).toEqual([]);
+  });
+});
+
+describe("checkRateLimit", () => {
+  const platform = { id: "plt_a", tier: "free", rate_limit: 10 } as Platform;
+  // Minute windows start on the minute
+  const WINDOW_START = Date.parse("2026-01-01T00:01:00Z");
+
+  // platform_rate_limits counts by bucket and window start
+  let counts: Map<string, number>;
+
+  function setCount(windowStart: number, count: number) {
+    counts.set(`plt_a:${windowStart}`, count);
+  }
+
+  function at(secondsIntoWindow: number) {
+    vi.setSystemTime(WINDOW_START + secondsIntoWindow * 1000);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    counts = new Map();
+    vi.mocked(queryOne).mockImplementation(async (sql: string, params?: unknown[]) => {
+      const [bucket, windowStart, maxCurrent, cost] = params as [string, number, number, number];
+      const key = `${bucket}:${windowStart}`;
+      if (sql.includes("SELECT count FROM platform_rate_limits")) {
+        return counts.has(key) ? { count: counts.get(key)! } : null;
+      }
+      if (sql.includes("INSERT INTO platform_rate_limits")) {
+        const count = (counts.get(key) ?? 0) + cost;
+        if (counts.has(key) && count > maxCurrent) return null;
+        counts.set(key, count);
+        return { count };
+      }
+      return null;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows the limit within a minute and reports what is left", async () => {
+    at(15);
+
+    for (let i = 1; i <= 10; i++) {
+      expect(await checkRateLimit(platform)).toEqual({ allowed: true, limit: 10, remaining: 10 - i, reset: 45 });
+    }
+  });
+
+  it("rejects requests over the limit without counting them", async () => {
+    at(15);
+    setCount(WINDOW_START, 10);
+
+    const status = await checkRateLimit(platform);
+
+    expect(status).toMatchObject({ allowed: false, limit: 10, remaining: 0, reset: 45 });
+    expect(status.retryAfter).toBe(45);
+    expect(counts.get(`plt_a:${WINDOW_START}`)).toBe(10);
+  });
+
+  it("weighs the previous minute by how much of it is still in the window", async () => {
+    setCount(WINDOW_START - 60_000, 10);
+
+    // Half of the previous minute still counts: 5 of 10
+    at(30);
+    expect(await checkRateLimit(platform)).toMatchObject({ allowed: true, remaining: 4 });
+    setCount(WINDOW_START, 5);
+    const status = await checkRateLimit(platform);
+    expect(status.allowed).toBe(false);
+    // Just past the half-way point less than 5 of the previous minute count
+    expect(status.retryAfter).toBe(1);
+
+    at(31);
+    expect(await checkRateLimit(platform)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it("charges batches their cost", async () => {
+    at(0);
+
+    expect(await checkRateLimit(platform, 4)).toMatchObject({ allowed: true, remaining: 6 });
+    expect(await checkRateLimit(platform, 7)).toMatchObject({ allowed: false });
+    expect(await checkRateLimit(platform, 6)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it("refuses a batch larger than the whole limit", async () => {
+    at(0);
+
+    expect(await checkRateLimit(platform, 11)).toMatchObject({ allowed: false });
+    expect(counts.size).toBe(0);
+  });
+
+  it("uses the tier limit when no limit is set", async () => {
+    at(0);
+
+    expect(await checkRateLimit({ ...platform, tier: "platform", rate_limit: undefined } as Platform)).toMatchObject({
+      limit: 1000,
+      remaining: 999,
+    });
+  });
+});
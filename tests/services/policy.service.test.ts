@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { execute, generateId, queryOne } from "../../src/db/index.js";
+import type { Agent } from "../../src/services/proof.service.js";
+import type { VerifiedToken } from "../../src/services/verification.service.js";
+import {
+  deletePolicy,
+  evaluatePolicy,
+  savePolicy,
+  type PolicyRules,
+  type VerificationPolicy,
+} from "../../src/services/policy.service.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+const NOW = new Date("2026-03-01T00:00:00Z");
+const DAY = 24 * 60 * 60;
+
+function policy(rules: PolicyRules): VerificationPolicy {
+  return { id: "pol_1", name: "strict", rules, created_at: "", updated_at: "" };
+}
+
+function verified(overrides: Partial<VerifiedToken> = {}): VerifiedToken {
+  return {
+    valid: true,
+    agent: {
+      id: "agt_1",
+      name: "Claw",
+      status: "verified",
+      owner_id: "own_1",
+      capabilities: ["code_execution", "web_browsing"],
+    } as Agent,
+    payload: {
+      sub: "agt_1",
+      jti: "prf_1",
+      iat: NOW.getTime() / 1000 - 3 * DAY,
+      exp: NOW.getTime() / 1000 + 27 * DAY,
+      agp: {
+        version: "1.0",
+        challenge_id: "chl_1",
+        difficulty: "standard",
+        tasks_passed: ["crypto", "speed"],
+        time_taken_ms: 1234,
+        agent: { name: "Claw", public_key: "key", capabilities: ["code_execution", "web_browsing"] },
+      },
+    },
+    ...overrides,
+  } as VerifiedToken;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("evaluatePolicy", () => {
+  it("passes when every rule is met", () => {
+    const evaluation = evaluatePolicy(
+      policy({
+        min_difficulty: "standard",
+        required_tasks: ["crypto"],
+        owner_claimed: true,
+        max_proof_age_days: 7,
+        required_capabilities: ["code_execution"],
+      }),
+      verified()
+    );
+
+    expect(evaluation.name).toBe("strict");
+    expect(evaluation.passed).toBe(true);
+    expect(evaluation.rules.map((rule) => [rule.rule, rule.passed])).toEqual([
+      ["min_difficulty", true],
+      ["required_tasks", true],
+      ["owner_claimed", true],
+      ["max_proof_age_days", true],
+      ["required_capabilities", true],
+    ]);
+  });
+
+  it("reports each failing rule with what was expected and found", () => {
+    const evaluation = evaluatePolicy(
+      policy({
+        min_difficulty: "hard",
+        required_tasks: ["crypto", "reasoning"],
+        owner_claimed: false,
+        max_proof_age_days: 2,
+      }),
+      verified()
+    );
+
+    expect(evaluation.passed).toBe(false);
+    expect(evaluation.rules).toEqual([
+      { rule: "min_difficulty", passed: false, expected: "hard", actual: "standard" },
+      {
+        rule: "required_tasks",
+        passed: false,
+        expected: ["crypto", "reasoning"],
+        actual: ["crypto", "speed"],
+      },
+      { rule: "owner_claimed", passed: false, expected: false, actual: true },
+      { rule: "max_proof_age_days", passed: false, expected: 2, actual: 3 },
+    ]);
+  });
+
+  it("checks only the rules the policy sets", () => {
+    const evaluation = evaluatePolicy(policy({}), verified());
+
+    expect(evaluation).toEqual({ name: "strict", passed: true, rules: [] });
+  });
+
+  it("fails rules on claims an SD-JWT left undisclosed", () => {
+    const result = verified({ disclosed: ["name"] });
+    // Capabilities weren't disclosed, so they are absent from the payload
+    result.payload.agp.agent = { name: "Claw", public_key: "key" };
+
+    const evaluation = evaluatePolicy(policy({ required_capabilities: ["code_execution"] }), result);
+
+    expect(evaluation.passed).toBe(false);
+    expect(evaluation.rules).toEqual([
+      { rule: "required_capabilities", passed: false, expected: ["code_execution"], actual: "not disclosed" },
+    ]);
+  });
+
+  it("uses the claims an exchanged token carries, not the agent record", () => {
+    const result = verified({
+      exchanged: {
+        agent: { name: "Claw", capabilities: ["web_browsing"], difficulty: "easy" },
+      } as VerifiedToken["exchanged"],
+    });
+
+    const evaluation = evaluatePolicy(
+      policy({ min_difficulty: "standard", required_tasks: ["crypto"], required_capabilities: ["web_browsing"] }),
+      result
+    );
+
+    expect(evaluation.rules).toEqual([
+      { rule: "min_difficulty", passed: false, expected: "standard", actual: "easy" },
+      { rule: "required_tasks", passed: false, expected: ["crypto"], actual: "not disclosed" },
+      { rule: "required_capabilities", passed: true, expected: ["web_browsing"], actual: ["web_browsing"] },
+    ]);
+  });
+});
+
+describe("savePolicy", () => {
+  beforeEach(() => {
+    vi.mocked(generateId).mockReturnValue("pol_new");
+    vi.mocked(queryOne).mockReset();
+  });
+
+  it("refuses new policies past the per-platform limit", async () => {
+    vi.mocked(queryOne).mockImplementation(async (sql: string) =>
+      sql.includes("COUNT(*)") ? { count: "20" } : null
+    );
+
+    await expect(savePolicy("plt_a", "strict", {})).rejects.toThrow("Policy limit reached (20)");
+  });
+
+  it("still replaces an existing policy at the limit", async () => {
+    const row = { id: "pol_1", name: "strict", rules: '{"owner_claimed":true}', created_at: "", updated_at: "" };
+    vi.mocked(queryOne).mockImplementation(async (sql: string) => {
+      if (sql.includes("COUNT(*)")) return { count: "20" };
+      return row;
+    });
+
+    const saved = await savePolicy("plt_a", "strict", { owner_claimed: true });
+
+    expect(saved.rules).toEqual({ owner_claimed: true });
+    expect(vi.mocked(queryOne).mock.calls.some(([sql]) => sql.includes("COUNT(*)"))).toBe(false);
+  });
+});
+
+describe("deletePolicy", () => {
+  it("throws when there is no such policy", async () => {
+    vi.mocked(execute).mockResolvedValue({ rowCount: 0 } as any);
+
+    await expect(deletePolicy("plt_a", "missing")).rejects.toThrow("Policy not found");
+  });
+});
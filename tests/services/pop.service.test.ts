@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHash } from "crypto";
+import { execute } from "../../src/db/index.js";
+import { createPopMessage } from "../../src/lib/crypto.js";
+import { verifyProofOfPossession, type ProofOfPossession } from "../../src/services/pop.service.js";
+import { createAgentKey } from "../helpers/agent-key.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+const TOKEN = "header.payload.signature";
+const key = createAgentKey();
+
+function signedPop(overrides: Partial<ProofOfPossession> = {}, token = TOKEN): ProofOfPossession {
+  const pop = {
+    method: "POST",
+    url: "https://platform.example/api/login",
+    timestamp: Math.floor(Date.now() / 1000),
+    nonce: "nonce-1",
+    ...overrides,
+  };
+  const tokenHash = createHash("sha256").update(token).digest("base64url");
+  return { ...pop, signature: key.sign(createPopMessage(pop.method, pop.url, pop.timestamp, pop.nonce, tokenHash)) };
+}
+
+// pop_nonces, with the (public_key, nonce) primary key
+let usedNonces: Set<string>;
+
+beforeEach(() => {
+  usedNonces = new Set();
+  vi.mocked(execute).mockReset().mockImplementation(async (sql: string, params?: unknown[]) => {
+    if (!sql.startsWith("INSERT INTO pop_nonces")) return { rowCount: 0 };
+    const id = `${params![0]}:${params![1]}`;
+    if (usedNonces.has(id)) return { rowCount: 0 };
+    usedNonces.add(id);
+    return { rowCount: 1 };
+  });
+});
+
+describe("verifyProofOfPossession", () => {
+  it("accepts a signature over the request and token", async () => {
+    expect(await verifyProofOfPossession(TOKEN, key.publicKey, signedPop())).toEqual({ valid: true });
+  });
+
+  it("accepts each nonce only once", async () => {
+    const pop = signedPop();
+
+    await verifyProofOfPossession(TOKEN, key.publicKey, pop);
+
+    expect(await verifyProofOfPossession(TOKEN, key.publicKey, pop)).toEqual({
+      valid: false,
+      error: "Proof of possession has already been used",
+    });
+    expect((await verifyProofOfPossession(TOKEN, key.publicKey, signedPop({ nonce: "nonce-2" }))).valid).toBe(true);
+  });
+
+  it("doesn't burn the nonce on an invalid signature", async () => {
+    const forged = { ...signedPop(), signature: createAgentKey().sign("anything") };
+
+    expect(await verifyProofOfPossession(TOKEN, key.publicKey, forged)).toEqual({
+      valid: false,
+      error: "Invalid proof of possession signature",
+    });
+    expect(usedNonces.size).toBe(0);
+    expect((await verifyProofOfPossession(TOKEN, key.publicKey, signedPop())).valid).toBe(true);
+  });
+
+  it("rejects a signature made for another token", async () => {
+    const result = await verifyProofOfPossession(TOKEN, key.publicKey, signedPop({}, "other.token.value"));
+
+    expect(result).toEqual({ valid: false, error: "Invalid proof of possession signature" });
+  });
+
+  it("rejects a signature for another request", async () => {
+    const pop = { ...signedPop(), url: "https://platform.example/api/admin" };
+
+    expect((await verifyProofOfPossession(TOKEN, key.publicKey, pop)).valid).toBe(false);
+  });
+
+  it("rejects timestamps outside the window", async () => {
+    const stale = signedPop({ timestamp: Math.floor(Date.now() / 1000) - 120 });
+
+    expect(await verifyProofOfPossession(TOKEN, key.publicKey, stale)).toEqual({
+      valid: false,
+      error: "Proof of possession timestamp is too old or in the future",
+    });
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { queryOne, execute, withTransaction } from "../../src/db/index.js";
+import {
+  initializeKeys,
+  signProofToken,
+  verifyProofToken,
+  type AgentProofPayload,
+  type ProofCredentialPayload,
+} from "../../src/lib/jwt.js";
+import { createVerifiedAgent, getProofFormat, type Proof } from "../../src/services/proof.service.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  afterCommit: vi.fn((callback: () => void) => callback()),
+  generateId: vi.fn((prefix: string) => `${prefix}_test`),
+  withTransaction: vi.fn(),
+}));
+
+vi.mock("../../src/services/status-list.service.js", () => ({
+  allocateStatusIndex: vi.fn(async () => ({ status_list: { idx: 0, uri: "https://example.test/status/1" } })),
+  invalidateStatusList: vi.fn(),
+}));
+
+vi.mock("../../src/services/webhook.service.js", () => ({
+  emitWebhookEvent: vi.fn(),
+}));
+
+// Statements run inside withTransaction, and those that were committed
+let pending: string[];
+let committed: string[];
+
+function register() {
+  return createVerifiedAgent(
+    "Claw",
+    undefined,
+    "cHVibGljLWtleQ==",
+    [],
+    undefined,
+    undefined,
+    "chl_1",
+    "standard",
+    ["crypto"],
+    1234
+  );
+}
+
+beforeAll(async () => {
+  await initializeKeys();
+});
+
+beforeEach(() => {
+  pending = [];
+  committed = [];
+  vi.mocked(queryOne).mockReset().mockResolvedValue(null);
+  vi.mocked(execute).mockReset().mockImplementation(async (sql: string) => {
+    pending.push(sql);
+    return { rowCount: 1 };
+  });
+  vi.mocked(withTransaction).mockReset().mockImplementation(async (fn: () => Promise<unknown>) => {
+    pending = [];
+    const result = await fn();
+    committed.push(...pending);
+    return result;
+  });
+});
+
+describe("createVerifiedAgent", () => {
+  it("creates the agent, its key and its proof in one transaction", async () => {
+    const { agent, proof } = await register();
+
+    expect(agent.status).toBe("verified");
+    expect(proof.agent_id).toBe(agent.id);
+    expect(committed.map((sql) => sql.trim().split("(")[0].trim())).toEqual([
+      "INSERT INTO agents",
+      "INSERT INTO agent_keys",
+      "INSERT INTO proofs",
+    ]);
+  });
+
+  it("refuses keys from another agent's key history", async () => {
+    vi.mocked(queryOne).mockImplementation(async (sql: string) =>
+      sql.includes("FROM agent_keys") ? { id: "agt_other" } : null
+    );
+
+    await expect(register()).rejects.toThrow("An agent with this public key already exists");
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+
+  it("leaves no agent behind when the key can't be stored", async () => {
+    vi.mocked(execute).mockImplementation(async (sql: string) => {
+      if (sql.includes("INSERT INTO agent_keys")) {
+        throw new Error('duplicate key value violates unique constraint "agent_keys_public_key_key"');
+      }
+      pending.push(sql);
+      return { rowCount: 1 };
+    });
+
+    await expect(register()).rejects.toThrow("duplicate key value");
+    expect(committed).toEqual([]);
+  });
+});
+
+describe("getProofFormat", () => {
+  const PAYLOAD: AgentProofPayload = {
+    version: "1.0",
+    challenge_id: "chl_1",
+    difficulty: "standard",
+    tasks_passed: ["crypto"],
+    time_taken_ms: 1234,
+    agent: { name: "Claw", public_key: "cHVibGljLWtleQ==", capabilities: [] },
+  };
+
+  it("returns the stored credential", async () => {
+    const proof = { id: "prf_1", agent_id: "agt_1", token: "token", credential: "stored" } as Proof;
+
+    expect(await getProofFormat(proof, "credential")).toBe("stored");
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+
+  it("signs a credential for older proofs with the token's claims and expiry", async () => {
+    const status = { status_list: { idx: 3, uri: "https://example.test/status" } };
+    const token = await signProofToken("agt_1", "prf_1", PAYLOAD, 10, status);
+    const proof = { id: "prf_1", agent_id: "agt_1", token } as Proof;
+
+    const credential = (await getProofFormat(proof, "credential"))!;
+
+    const fromToken = (await verifyProofToken(token)).payload!;
+    const fromCredential = (await verifyProofToken(credential)).payload!;
+    expect(fromCredential).toMatchObject({ sub: "agt_1", jti: "prf_1", agp: PAYLOAD, status });
+    expect(Math.abs(fromCredential.exp - fromToken.exp)).toBeLessThanOrEqual(1);
+    expect((JSON.parse(Buffer.from(credential.split(".")[1], "base64url").toString()) as ProofCredentialPayload).type)
+      .toContain("VerifiableCredential");
+    expect(vi.mocked(execute)).toHaveBeenCalledWith("UPDATE proofs SET credential = $1 WHERE id = $2", [
+      credential,
+      "prf_1",
+    ]);
+  });
+
+  it("signs nothing for expired proofs", async () => {
+    const token = await signProofToken("agt_1", "prf_1", PAYLOAD, -1);
+
+    expect(await getProofFormat({ id: "prf_1", agent_id: "agt_1", token } as Proof, "credential")).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { execute, generateId, query, queryOne } from "../../src/db/index.js";
+import { getAgent, type Agent } from "../../src/services/proof.service.js";
+import {
+  createAgentReport,
+  getAgentReputation,
+  getAgentReputations,
+  resolveAgentReview,
+} from "../../src/services/report.service.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  getAgent: vi.fn(),
+}));
+
+const REPORT_ROW = {
+  id: "rpt_1",
+  agent_id: "agt_1",
+  platform_id: "plt_a",
+  category: "spam",
+  description: null,
+  evidence: '["https://example.com/log"]',
+  status: "open",
+  created_at: "2026-03-01T00:00:00Z",
+};
+
+beforeEach(() => {
+  vi.mocked(getAgent).mockReset().mockResolvedValue({ id: "agt_1", status: "verified" } as Agent);
+  vi.mocked(generateId).mockReturnValue("rpt_1");
+  vi.mocked(query).mockReset();
+  vi.mocked(queryOne).mockReset();
+  vi.mocked(execute).mockReset().mockResolvedValue({ rowCount: 1 } as any);
+});
+
+describe("createAgentReport", () => {
+  let reporter: { domain_verified_at: string | null; verified_agent: boolean } | null;
+  let inserted: typeof REPORT_ROW | null;
+  let reportingPlatforms: string;
+
+  beforeEach(() => {
+    reporter = { domain_verified_at: "2026-01-01T00:00:00Z", verified_agent: true };
+    inserted = REPORT_ROW;
+    reportingPlatforms = "1";
+    vi.mocked(queryOne).mockImplementation(async (sql: string) => {
+      if (sql.includes("FROM platforms p")) return reporter;
+      if (sql.includes("INSERT INTO agent_reports")) return inserted;
+      if (sql.includes("COUNT(DISTINCT platform_id)")) return { count: reportingPlatforms };
+      return null;
+    });
+  });
+
+  it("files the report without escalating a first report", async () => {
+    const { report, escalated } = await createAgentReport("plt_a", "agt_1", "spam", undefined, [
+      "https://example.com/log",
+    ]);
+
+    expect(report).toMatchObject({ id: "rpt_1", platform_id: "plt_a", evidence: ["https://example.com/log"] });
+    expect(report.description).toBeUndefined();
+    expect(escalated).toBe(false);
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+
+  it("puts the agent up for review once enough platforms report it", async () => {
+    reportingPlatforms = "3";
+
+    const { escalated } = await createAgentReport("plt_a", "agt_1", "spam");
+
+    expect(escalated).toBe(true);
+    expect(vi.mocked(execute).mock.calls[0][0]).toContain("review_requested_at IS NULL");
+  });
+
+  it("doesn't escalate an agent already under review", async () => {
+    reportingPlatforms = "4";
+    vi.mocked(execute).mockResolvedValue({ rowCount: 0 } as any);
+
+    const { escalated } = await createAgentReport("plt_a", "agt_1", "spam");
+
+    expect(escalated).toBe(false);
+  });
+
+  it.each([
+    ["the agent doesn't exist", () => vi.mocked(getAgent).mockResolvedValue(null), "Agent not found"],
+    [
+      "the platform's domain isn't verified",
+      () => (reporter!.domain_verified_at = null),
+      "Verify your platform's domain before reporting agents",
+    ],
+    [
+      "the platform never verified the agent",
+      () => (reporter!.verified_agent = false),
+      "Only platforms that have verified this agent can report it",
+    ],
+    [
+      "the platform already has an open report in that category",
+      () => (inserted = null),
+      "Agent already has an open spam report from this platform",
+    ],
+  ])("refuses the report when %s", async (_, setup, message) => {
+    setup();
+
+    await expect(createAgentReport("plt_a", "agt_1", "spam")).rejects.toThrow(message);
+  });
+});
+
+describe("resolveAgentReview", () => {
+  it.each([
+    ["cleared", "dismissed"],
+    ["suspended", "upheld"],
+    ["revoked", "upheld"],
+  ] as const)("%s marks open reports %s", async (decision, reportStatus) => {
+    vi.mocked(execute).mockResolvedValueOnce({ rowCount: 2 } as any);
+
+    const result = await resolveAgentReview("agt_1", decision, "Checked the logs");
+
+    expect(result).toEqual({ previousStatus: "verified", resolvedReports: 2 });
+    expect(vi.mocked(execute).mock.calls[0][1]).toEqual([reportStatus, "Checked the logs", "agt_1"]);
+    expect(vi.mocked(execute).mock.calls[1][1]).toEqual([decision, "agt_1"]);
+  });
+
+  it("throws for unknown agents", async () => {
+    vi.mocked(getAgent).mockResolvedValue(null);
+
+    await expect(resolveAgentReview("agt_x", "cleared")).rejects.toThrow("Agent not found");
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+});
+
+describe("getAgentReputations", () => {
+  beforeEach(() => {
+    vi.mocked(query).mockImplementation(async (sql: string) => {
+      if (sql.includes("FROM agents")) {
+        return [
+          { id: "agt_new", review_requested_at: null },
+          { id: "agt_known", review_requested_at: null },
+          { id: "agt_bad", review_requested_at: "2026-03-01T00:00:00Z" },
+        ];
+      }
+      if (sql.includes("FROM agent_platforms")) {
+        return [
+          { agent_id: "agt_known", platforms: "3", verifications: "99" },
+          { agent_id: "agt_bad", platforms: "10", verifications: "5" },
+        ];
+      }
+      if (sql.includes("FROM agent_reports")) {
+        return [
+          { agent_id: "agt_known", open_platforms: "1", upheld: "0" },
+          { agent_id: "agt_bad", open_platforms: "2", upheld: "3" },
+        ];
+      }
+      return [];
+    });
+  });
+
+  it("scores agents from their platforms, verifications and reports", async () => {
+    const reputations = await getAgentReputations(["agt_new", "agt_known", "agt_bad", "agt_known"]);
+
+    expect(reputations.get("agt_new")).toEqual({
+      score: 50,
+      level: "medium",
+      verifications: 0,
+      platforms: 0,
+      reports: { open: 0, upheld: 0 },
+      under_review: false,
+    });
+    // 50 + 3 platforms * 5 + round(6 * log10(100)) - 1 open * 10
+    expect(reputations.get("agt_known")).toMatchObject({ score: 67, level: "medium", platforms: 3, verifications: 99 });
+    // Platform credit is capped at 25 and the score at 0
+    expect(reputations.get("agt_bad")).toMatchObject({
+      score: 0,
+      level: "low",
+      reports: { open: 2, upheld: 3 },
+      under_review: true,
+    });
+    expect(vi.mocked(query).mock.calls[0][1]).toEqual([["agt_new", "agt_known", "agt_bad"]]);
+  });
+
+  it("queries nothing for no agents", async () => {
+    expect((await getAgentReputations([])).size).toBe(0);
+    expect(vi.mocked(query)).not.toHaveBeenCalled();
+  });
+
+  it("has no reputation for agents that don't exist", async () => {
+    expect(await getAgentReputation("agt_missing")).toBeNull();
+  });
+});
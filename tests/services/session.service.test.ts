@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { initializeKeys, signProofToken, verifyExchangedToken, type AgentProofPayload } from "../../src/lib/jwt.js";
+import { createTokenExchangeMessage } from "../../src/lib/crypto.js";
+import { getAgent, getProof, type Agent } from "../../src/services/proof.service.js";
+import { getPlatform, type Platform } from "../../src/services/platform.service.js";
+import { exchangeProofToken } from "../../src/services/session.service.js";
+import { createAgentKey } from "../helpers/agent-key.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn((prefix: string) => `${prefix}_test`),
+}));
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  getAgent: vi.fn(),
+  getProof: vi.fn(),
+  getProofByAgentId: vi.fn(),
+}));
+
+vi.mock("../../src/services/platform.service.js", () => ({
+  getPlatform: vi.fn(),
+}));
+
+const key = createAgentKey();
+
+const PROOF: AgentProofPayload = {
+  version: "1.0",
+  agent: {
+    name: "Claw",
+    public_key: key.publicKey,
+    capabilities: ["code_execution"],
+    model_family: "example-model",
+    framework: "example-framework",
+  },
+  challenge_id: "chl_1",
+  difficulty: "hard",
+  tasks_passed: ["crypto", "reasoning"],
+  time_taken_ms: 1234,
+};
+
+let subjectToken: string;
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function exchangeSignature(audience: string, timestamp: number): string {
+  return key.sign(createTokenExchangeMessage("prf_1", audience, timestamp));
+}
+
+beforeAll(async () => {
+  await initializeKeys();
+  subjectToken = await signProofToken("agt_1", "prf_1", PROOF);
+});
+
+beforeEach(() => {
+  vi.mocked(getAgent).mockReset().mockResolvedValue({
+    id: "agt_1",
+    name: "Claw",
+    public_key: key.publicKey,
+    status: "verified",
+  } as Agent);
+  vi.mocked(getProof).mockReset().mockResolvedValue({ id: "prf_1", status: "active" } as any);
+  vi.mocked(getPlatform).mockReset().mockImplementation(async (id: string) =>
+    ["plt_a", "plt_b"].includes(id) ? ({ id, status: "active" } as Platform) : null
+  );
+});
+
+describe("exchangeProofToken", () => {
+  it("copies only the requested claims into a token for the audience", async () => {
+    const timestamp = now();
+    const { token, expiresIn } = await exchangeProofToken(
+      subjectToken,
+      "plt_a",
+      timestamp,
+      exchangeSignature("plt_a", timestamp),
+      ["model_family", "difficulty"]
+    );
+
+    const result = await verifyExchangedToken(token, "plt_a");
+
+    expect(expiresIn).toBe(300);
+    expect(result.valid).toBe(true);
+    expect(result.payload!.proof_id).toBe("prf_1");
+    expect(result.payload!.agent).toEqual({ name: "Claw", model_family: "example-model", difficulty: "hard" });
+  });
+
+  it("gives out only the name when no claims are requested", async () => {
+    const timestamp = now();
+    const { token } = await exchangeProofToken(
+      subjectToken,
+      "plt_a",
+      timestamp,
+      exchangeSignature("plt_a", timestamp),
+      []
+    );
+
+    expect((await verifyExchangedToken(token, "plt_a")).payload!.agent).toEqual({ name: "Claw" });
+  });
+
+  it("issues tokens other platforms can't use", async () => {
+    const timestamp = now();
+    const { token } = await exchangeProofToken(
+      subjectToken,
+      "plt_a",
+      timestamp,
+      exchangeSignature("plt_a", timestamp),
+      []
+    );
+
+    expect(await verifyExchangedToken(token, "plt_b")).toMatchObject({
+      valid: false,
+      error: "Token was issued for a different platform",
+    });
+  });
+
+  it("rejects a signature made for another audience", async () => {
+    const timestamp = now();
+
+    await expect(
+      exchangeProofToken(subjectToken, "plt_b", timestamp, exchangeSignature("plt_a", timestamp), [])
+    ).rejects.toThrow("Invalid signature");
+  });
+
+  it("rejects a signature from another key", async () => {
+    const timestamp = now();
+    const signature = createAgentKey().sign(createTokenExchangeMessage("prf_1", "plt_a", timestamp));
+
+    await expect(exchangeProofToken(subjectToken, "plt_a", timestamp, signature, [])).rejects.toThrow(
+      "Invalid signature"
+    );
+  });
+
+  it("rejects stale timestamps", async () => {
+    const timestamp = now() - 10 * 60;
+
+    await expect(
+      exchangeProofToken(subjectToken, "plt_a", timestamp, exchangeSignature("plt_a", timestamp), [])
+    ).rejects.toThrow("Invalid timestamp");
+  });
+
+  it("rejects revoked proofs", async () => {
+    vi.mocked(getProof).mockResolvedValue({ id: "prf_1", status: "revoked" } as any);
+    const timestamp = now();
+
+    await expect(
+      exchangeProofToken(subjectToken, "plt_a", timestamp, exchangeSignature("plt_a", timestamp), [])
+    ).rejects.toThrow("proof is not active");
+  });
+
+  it("never outlives the proof", async () => {
+    const shortLived = await signProofToken("agt_1", "prf_1", PROOF, 60 / 86400);
+    const timestamp = now();
+
+    const { expiresIn } = await exchangeProofToken(
+      shortLived,
+      "plt_a",
+      timestamp,
+      exchangeSignature("plt_a", timestamp),
+      []
+    );
+
+    expect(expiresIn).toBeGreaterThan(0);
+    expect(expiresIn).toBeLessThanOrEqual(60);
+  });
+});
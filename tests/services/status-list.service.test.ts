@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+import { inflateSync } from "zlib";
+import * as jose from "jose";
+import { query, queryOne } from "../../src/db/index.js";
+import { getJwks, initializeKeys, type StatusListTokenPayload } from "../../src/lib/jwt.js";
+import {
+  allocateStatusIndex,
+  getStatusListToken,
+  invalidateStatusList,
+} from "../../src/services/status-list.service.js";
+import statusLists from "../../src/routes/status-lists.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+const ISSUER = "https://knowyourclaw.com";
+const URI = `${ISSUER}/api/v1/status-lists/proofs`;
+// Vitest sets BASE_URL to "/"
+const originalBaseUrl = process.env.BASE_URL;
+
+let maxIndex: number | null;
+let invalidIndexes: number[];
+
+async function verifyList(token: string): Promise<{ payload: StatusListTokenPayload; bits: Buffer }> {
+  const { payload, protectedHeader } = await jose.jwtVerify(token, jose.createLocalJWKSet(await getJwks()), {
+    issuer: ISSUER,
+    subject: URI,
+  });
+  expect(protectedHeader.typ).toBe("statuslist+jwt");
+  const statusList = payload as unknown as StatusListTokenPayload;
+  return { payload: statusList, bits: inflateSync(Buffer.from(statusList.status_list.lst, "base64url")) };
+}
+
+function bit(bits: Buffer, idx: number): number {
+  return (bits[idx >> 3] >> (idx & 7)) & 1;
+}
+
+beforeAll(async () => {
+  process.env.BASE_URL = ISSUER;
+  await initializeKeys();
+});
+
+afterAll(() => {
+  process.env.BASE_URL = originalBaseUrl;
+});
+
+beforeEach(() => {
+  maxIndex = 10;
+  invalidIndexes = [];
+  invalidateStatusList();
+  vi.mocked(queryOne).mockReset().mockImplementation(async (sql: string) => {
+    if (sql.includes("MAX(status_index)")) return { max: maxIndex };
+    if (sql.includes("nextval('proof_status_index_seq')")) return { idx: "7" };
+    return null;
+  });
+  vi.mocked(query).mockReset().mockImplementation(async () =>
+    invalidIndexes.map((status_index) => ({ status_index }))
+  );
+});
+
+describe("getStatusListToken", () => {
+  it("signs a status list with one bit per proof", async () => {
+    invalidIndexes = [0, 3, 9];
+
+    const { token, ttl } = await getStatusListToken();
+    const { payload, bits } = await verifyList(token);
+
+    expect(payload.ttl).toBe(ttl);
+    expect(payload.status_list.bits).toBe(1);
+    expect([0, 1, 2, 3, 4, 8, 9, 10].map((idx) => bit(bits, idx))).toEqual([1, 0, 0, 1, 0, 0, 1, 0]);
+  });
+
+  it("pads small lists", async () => {
+    const { bits } = await verifyList((await getStatusListToken()).token);
+
+    expect(bits.length).toBe(131072 / 8);
+  });
+
+  it("grows past the padding with the highest index", async () => {
+    maxIndex = 200_000;
+    invalidIndexes = [200_000];
+
+    const { bits } = await verifyList((await getStatusListToken()).token);
+
+    expect(bits.length).toBe(Math.ceil(200_001 / 8));
+    expect(bit(bits, 200_000)).toBe(1);
+  });
+
+  it("serves the cached list until it is invalidated", async () => {
+    const first = await getStatusListToken();
+    invalidIndexes = [5];
+
+    expect((await getStatusListToken()).token).toBe(first.token);
+
+    invalidateStatusList();
+    const { bits } = await verifyList((await getStatusListToken()).token);
+    expect(bit(bits, 5)).toBe(1);
+  });
+});
+
+describe("allocateStatusIndex", () => {
+  it("points new proofs at the published list", async () => {
+    expect(await allocateStatusIndex()).toEqual({ status_list: { idx: 7, uri: URI } });
+  });
+});
+
+describe("GET /proofs", () => {
+  it("returns the list as a statuslist+jwt", async () => {
+    const res = await statusLists.request("/proofs");
+
+    expect(res.headers.get("Content-Type")).toBe("application/statuslist+jwt");
+    expect(res.headers.get("Cache-Control")).toBe("public, max-age=300");
+    await verifyList(await res.text());
+  });
+
+  it("wraps the list in JSON on request", async () => {
+    const res = await statusLists.request("/proofs", { headers: { Accept: "application/json" } });
+    const body = await res.json();
+
+    expect(body).toMatchObject({ success: true, ttl: 300 });
+    await verifyList(body.status_list_token);
+  });
+});
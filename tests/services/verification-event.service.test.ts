@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { query, queryOne, execute } from "../../src/db/index.js";
+import {
+  getDailyUsage,
+  getMonthlyVerificationCount,
+  listVerificationEvents,
+  recordVerificationEvents,
+} from "../../src/services/verification-event.service.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+function statements() {
+  return vi.mocked(execute).mock.calls.map(([sql, params]) => ({ sql: sql as string, params: params as unknown[] }));
+}
+
+beforeEach(() => {
+  vi.mocked(execute).mockReset().mockResolvedValue({ rowCount: 1 });
+  vi.mocked(query).mockReset().mockResolvedValue([]);
+  vi.mocked(queryOne).mockReset().mockResolvedValue({ count: "0" });
+});
+
+describe("recordVerificationEvents", () => {
+  it("appends every event in one insert", async () => {
+    await recordVerificationEvents([
+      { platformId: "plt_a", agentId: "agt_1", proofId: "prf_1", valid: true, source: "batch", ip: "203.0.113.7" },
+      { platformId: "plt_a", valid: false, failureReason: "expired", source: "batch" },
+    ]);
+
+    const [insert] = statements();
+    expect(insert.sql).toContain("INSERT INTO verification_events");
+    expect(insert.sql).toContain("($1, $2, $3, $4, $5, $6, $7), ($8, $9, $10, $11, $12, $13, $14)");
+    expect(insert.params).toEqual([
+      "plt_a", "agt_1", "prf_1", "valid", null, "batch", "203.0.113.7",
+      "plt_a", null, null, "invalid", "expired", "batch", null,
+    ]);
+  });
+
+  it("adds one rollup row per platform", async () => {
+    await recordVerificationEvents([
+      { platformId: "plt_a", valid: true, source: "batch" },
+      { platformId: "plt_b", valid: false, source: "batch" },
+      { platformId: "plt_a", valid: true, source: "batch" },
+      { platformId: "plt_a", valid: false, source: "batch" },
+    ]);
+
+    const rollups = statements().filter(({ sql }) => sql.includes("INSERT INTO platform_usage_daily"));
+    expect(rollups.map(({ params }) => params)).toEqual([
+      ["plt_a", 2, 1],
+      ["plt_b", 0, 1],
+    ]);
+    expect(rollups[0].sql).toContain("valid_count = platform_usage_daily.valid_count + EXCLUDED.valid_count");
+  });
+
+  it("writes nothing without events", async () => {
+    await recordVerificationEvents([]);
+
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+});
+
+describe("listVerificationEvents", () => {
+  it("filters, pages and maps events", async () => {
+    vi.mocked(queryOne).mockResolvedValue({ count: "41" });
+    vi.mocked(query).mockResolvedValue([
+      {
+        id: 7,
+        platform_id: "plt_a",
+        agent_id: null,
+        proof_id: null,
+        result: "invalid",
+        failure_reason: "revoked",
+        source: "verify",
+        ip: null,
+        created_at: "2026-01-01T00:00:00Z",
+      },
+    ]);
+    const since = new Date("2026-01-01T00:00:00Z");
+
+    const { events, total } = await listVerificationEvents(
+      { platformId: "plt_a", result: "invalid", since },
+      3,
+      20
+    );
+
+    expect(total).toBe(41);
+    expect(events).toEqual([
+      {
+        id: "7",
+        platform_id: "plt_a",
+        agent_id: undefined,
+        proof_id: undefined,
+        result: "invalid",
+        failure_reason: "revoked",
+        source: "verify",
+        ip: undefined,
+        created_at: "2026-01-01T00:00:00Z",
+      },
+    ]);
+
+    const [countSql, countParams] = vi.mocked(queryOne).mock.calls[0];
+    expect(countSql).toContain("WHERE platform_id = $1 AND result = $2 AND created_at >= $3");
+    expect(countParams).toEqual(["plt_a", "invalid", since.toISOString()]);
+
+    const [listSql, listParams] = vi.mocked(query).mock.calls[0];
+    expect(listSql).toContain("ORDER BY created_at DESC, id DESC");
+    expect(listSql).toContain("LIMIT $4 OFFSET $5");
+    expect(listParams).toEqual(["plt_a", "invalid", since.toISOString(), 20, 40]);
+  });
+
+  it("lists everything without filters", async () => {
+    await listVerificationEvents({}, 1, 50);
+
+    const [listSql, listParams] = vi.mocked(query).mock.calls[0];
+    expect(listSql).not.toContain("WHERE");
+    expect(listParams).toEqual([50, 0]);
+  });
+});
+
+describe("usage aggregates", () => {
+  it("returns daily counts from the rollup", async () => {
+    vi.mocked(query).mockResolvedValue([
+      { day: "2026-01-02", valid_count: 5, invalid_count: 1 },
+      { day: "2026-01-01", valid_count: 3, invalid_count: 0 },
+    ]);
+
+    const usage = await getDailyUsage("plt_a", 30);
+
+    expect(usage).toEqual([
+      { day: "2026-01-02", valid: 5, invalid: 1 },
+      { day: "2026-01-01", valid: 3, invalid: 0 },
+    ]);
+    expect(vi.mocked(query).mock.calls[0][1]).toEqual(["plt_a", 30]);
+  });
+
+  it("sums this month's valid verifications", async () => {
+    vi.mocked(queryOne).mockResolvedValue({ count: "12" });
+
+    expect(await getMonthlyVerificationCount("plt_a")).toBe(12);
+    const [sql, params] = vi.mocked(queryOne).mock.calls[0];
+    expect(sql).toContain("SUM(valid_count)");
+    expect(sql).toContain("day >= DATE_TRUNC('month', CURRENT_DATE)");
+    expect(params).toEqual(["plt_a"]);
+  });
+
+  it("counts zero for platforms without usage", async () => {
+    vi.mocked(queryOne).mockResolvedValue(null);
+
+    expect(await getMonthlyVerificationCount("plt_new")).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { initializeKeys, signProofToken, type AgentProofPayload } from "../../src/lib/jwt.js";
+import {
+  getAgent,
+  getAgents,
+  getProof,
+  recordVerification,
+  type Agent,
+  type Proof,
+} from "../../src/services/proof.service.js";
+import { incrementVerificationCount } from "../../src/services/platform.service.js";
+import { recordVerificationEvents } from "../../src/services/verification-event.service.js";
+import { verifyTokenForPlatform, verifyTokensForPlatform } from "../../src/services/verification.service.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+vi.mock("../../src/services/proof.service.js", () => ({
+  getAgent: vi.fn(),
+  getAgents: vi.fn(),
+  getProof: vi.fn(),
+  recordVerification: vi.fn(),
+}));
+
+vi.mock("../../src/services/key.service.js", () => ({
+  isKeyCompromised: vi.fn(async () => false),
+}));
+
+vi.mock("../../src/services/platform.service.js", () => ({
+  incrementVerificationCount: vi.fn(),
+}));
+
+vi.mock("../../src/services/webhook.service.js", () => ({
+  recordAgentPlatform: vi.fn(),
+}));
+
+vi.mock("../../src/services/verification-event.service.js", () => ({
+  recordVerificationEvents: vi.fn(),
+}));
+
+const CONTEXT = { source: "verify" as const, ip: "203.0.113.7" };
+
+const PAYLOAD: AgentProofPayload = {
+  version: "1.0",
+  challenge_id: "chl_1",
+  difficulty: "standard",
+  tasks_passed: ["crypto", "speed"],
+  time_taken_ms: 1234,
+  agent: { name: "Claw", public_key: "cHVibGljLWtleQ==", capabilities: ["code_execution"] },
+};
+
+// proofs rows by id, agents rows by id
+let proofs: Map<string, Proof>;
+let agents: Map<string, Agent>;
+
+function issue(proofId: string, agentId = "agt_1") {
+  proofs.set(proofId, { id: proofId, agent_id: agentId, status: "active" } as Proof);
+  return signProofToken(agentId, proofId, PAYLOAD);
+}
+
+beforeAll(async () => {
+  await initializeKeys();
+});
+
+beforeEach(() => {
+  proofs = new Map();
+  agents = new Map([
+    ["agt_1", { id: "agt_1", name: "Claw", status: "verified", capabilities: ["code_execution"] } as Agent],
+  ]);
+  vi.mocked(getProof).mockReset().mockImplementation(async (id: string) => proofs.get(id) ?? null);
+  vi.mocked(getAgent).mockReset().mockImplementation(async (id: string) => agents.get(id) ?? null);
+  vi.mocked(getAgents).mockReset().mockImplementation(
+    async (ids: string[]) => new Map(ids.flatMap((id) => (agents.has(id) ? [[id, agents.get(id)!]] : [])))
+  );
+  vi.mocked(incrementVerificationCount).mockReset();
+  vi.mocked(recordVerification).mockReset();
+  vi.mocked(recordVerificationEvents).mockReset();
+});
+
+describe("verifyTokenForPlatform", () => {
+  it("accepts active proofs of verified agents", async () => {
+    const token = await issue("prf_1");
+
+    const result = await verifyTokenForPlatform(token, "plt_a", CONTEXT);
+
+    expect(result).toMatchObject({ valid: true, agent: { id: "agt_1" }, payload: { jti: "prf_1" } });
+    expect(vi.mocked(recordVerification)).toHaveBeenCalledWith("prf_1", "plt_a");
+  });
+
+  it.each(["revoked", "superseded"])("refuses %s proofs even though the token still verifies", async (status) => {
+    const token = await issue("prf_1");
+    proofs.get("prf_1")!.status = status;
+
+    const result = await verifyTokenForPlatform(token, "plt_a", CONTEXT);
+
+    expect(result).toEqual({ valid: false, error: `Proof has been ${status}` });
+    expect(vi.mocked(recordVerification)).not.toHaveBeenCalled();
+    expect(vi.mocked(recordVerificationEvents)).toHaveBeenCalledWith([
+      expect.objectContaining({ proofId: "prf_1", valid: false, failureReason: `Proof has been ${status}` }),
+    ]);
+  });
+
+  it("refuses tokens whose proof isn't on record", async () => {
+    const token = await issue("prf_1");
+    proofs.delete("prf_1");
+
+    expect(await verifyTokenForPlatform(token, "plt_a", CONTEXT)).toEqual({ valid: false, error: "Proof not found" });
+  });
+
+  it("refuses proofs of agents that are no longer verified", async () => {
+    const token = await issue("prf_1");
+    agents.get("agt_1")!.status = "suspended";
+
+    expect(await verifyTokenForPlatform(token, "plt_a", CONTEXT)).toEqual({
+      valid: false,
+      error: "Agent status is suspended",
+    });
+  });
+});
+
+describe("verifyTokensForPlatform", () => {
+  beforeEach(() => {
+    agents.set("agt_2", { id: "agt_2", name: "Paw", status: "verified" } as Agent);
+  });
+
+  it("returns results in the order the tokens were sent", async () => {
+    const tokens = [await issue("prf_1"), "not-a-token", await issue("prf_2", "agt_2"), await issue("prf_3")];
+    proofs.get("prf_3")!.status = "revoked";
+
+    const results = await verifyTokensForPlatform(tokens, "plt_a", { source: "batch" });
+
+    expect(results.map((result) => (result.valid ? result.payload.jti : result.error))).toEqual([
+      "prf_1",
+      "Unknown signing key",
+      "prf_2",
+      "Proof has been revoked",
+    ]);
+  });
+
+  it("loads all agents in one lookup", async () => {
+    const tokens = [await issue("prf_1"), await issue("prf_2", "agt_2"), await issue("prf_3")];
+
+    await verifyTokensForPlatform(tokens, "plt_a", { source: "batch" });
+
+    expect(vi.mocked(getAgents)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(getAgents)).toHaveBeenCalledWith(["agt_1", "agt_2", "agt_1"]);
+    expect(vi.mocked(getAgent)).not.toHaveBeenCalled();
+  });
+
+  it("counts each valid token once and logs every token", async () => {
+    const tokens = [await issue("prf_1"), await issue("prf_2", "agt_2"), "not-a-token"];
+
+    await verifyTokensForPlatform(tokens, "plt_a", { source: "batch", ip: "203.0.113.7" });
+
+    expect(vi.mocked(incrementVerificationCount)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(incrementVerificationCount)).toHaveBeenCalledWith("plt_a", 2);
+    expect(vi.mocked(recordVerification).mock.calls).toEqual([
+      ["prf_1", "plt_a"],
+      ["prf_2", "plt_a"],
+    ]);
+    expect(vi.mocked(recordVerificationEvents)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(recordVerificationEvents).mock.calls[0][0].map((event) => event.valid)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("counts nothing when no token is valid", async () => {
+    await verifyTokensForPlatform(["not-a-token"], "plt_a", { source: "batch" });
+
+    expect(vi.mocked(incrementVerificationCount)).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { createHmac } from "crypto";
+import { createServer, type IncomingHttpHeaders, type Server } from "http";
+import type { AddressInfo } from "net";
+import { query, queryOne, execute } from "../../src/db/index.js";
+import {
+  createWebhookEndpoint,
+  processWebhookQueue,
+  signWebhookPayload,
+} from "../../src/services/webhook.service.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn((prefix: string) => `${prefix}_test`),
+}));
+
+const SECRET = "whsec_test";
+const PAYLOAD = JSON.stringify({ id: "evt_1", type: "agent.suspended", data: { agent_id: "agt_1" } });
+
+// Local receiver (http://127.0.0.1 is allowed outside production)
+let server: Server;
+let receiverUrl: string;
+let responseStatus: number;
+let received: { headers: IncomingHttpHeaders; body: string }[];
+
+function endpoint(overrides: Record<string, unknown> = {}) {
+  return { id: "whk_1", platform_id: "plt_a", url: receiverUrl, secret: SECRET, status: "active", ...overrides };
+}
+
+// Deliver one queued delivery and return the statements that recorded the outcome
+async function deliverOnce(endpointRow: Record<string, unknown>, attempts = 0) {
+  vi.mocked(query)
+    .mockResolvedValueOnce([
+      { id: "whd_1", endpoint_id: "whk_1", event_type: "agent.suspended", payload: PAYLOAD, attempts },
+    ])
+    .mockResolvedValueOnce([]);
+  vi.mocked(queryOne).mockResolvedValue(endpointRow);
+
+  await processWebhookQueue();
+
+  return vi.mocked(execute).mock.calls.map(([sql, params]) => ({ sql: sql as string, params: params as unknown[] }));
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = responseStatus;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  responseStatus = 200;
+  received = [];
+  vi.mocked(query).mockReset();
+  vi.mocked(queryOne).mockReset();
+  vi.mocked(execute).mockReset().mockResolvedValue({ rowCount: 1 });
+});
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", SECRET).update(`1700000000.${PAYLOAD}`).digest("hex");
+
+    expect(signWebhookPayload(SECRET, PAYLOAD, 1700000000)).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  it("changes with the body and the timestamp", () => {
+    const signature = signWebhookPayload(SECRET, PAYLOAD, 1700000000);
+
+    expect(signWebhookPayload(SECRET, `${PAYLOAD} `, 1700000000)).not.toBe(signature);
+    expect(signWebhookPayload(SECRET, PAYLOAD, 1700000001)).not.toBe(signature);
+  });
+});
+
+describe("webhook delivery", () => {
+  it("sends the payload with event, delivery and signature headers", async () => {
+    await deliverOnce(endpoint());
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(body).toBe(PAYLOAD);
+    expect(headers["x-knowyourclaw-event"]).toBe("agent.suspended");
+    expect(headers["x-knowyourclaw-delivery"]).toBe("whd_1");
+
+    const [, t, v1] = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(headers["x-knowyourclaw-signature"] as string)!;
+    expect(Math.abs(Date.now() / 1000 - Number(t))).toBeLessThan(5);
+    expect(v1).toBe(createHmac("sha256", SECRET).update(`${t}.${body}`).digest("hex"));
+  });
+
+  it("records success and resets the endpoint's failure count", async () => {
+    const statements = await deliverOnce(endpoint());
+
+    expect(statements[0].sql).toContain("status = 'delivered'");
+    expect(statements[0].params).toEqual([1, 200, "whd_1"]);
+    expect(statements[1].sql).toContain("consecutive_failures = 0");
+  });
+
+  it.each([
+    [0, 30],
+    [1, 60],
+    [3, 240],
+  ])("retries with exponential backoff after %i earlier attempts", async (attempts, delaySeconds) => {
+    responseStatus = 500;
+
+    const statements = await deliverOnce(endpoint(), attempts);
+
+    expect(statements).toHaveLength(1);
+    expect(statements[0].sql).toContain("status = 'pending'");
+    const [recordedAttempts, status, error, nextAttemptAt] = statements[0].params as [number, number, string, string];
+    expect([recordedAttempts, status, error]).toEqual([attempts + 1, 500, "HTTP 500"]);
+    expect(new Date(nextAttemptAt).getTime() - Date.now()).toBeGreaterThan((delaySeconds - 5) * 1000);
+    expect(new Date(nextAttemptAt).getTime() - Date.now()).toBeLessThanOrEqual(delaySeconds * 1000);
+  });
+
+  it("gives up after the last attempt and counts a failure against the endpoint", async () => {
+    responseStatus = 503;
+
+    const statements = await deliverOnce(endpoint(), 7);
+
+    expect(statements[0].sql).toContain("status = 'failed'");
+    expect(statements[0].params).toEqual([8, 503, "HTTP 503", "whd_1"]);
+    expect(statements[1].sql).toContain("consecutive_failures = consecutive_failures + 1");
+    expect(statements[1].sql).toContain("THEN 'disabled'");
+    expect(statements[1].params).toEqual([5, "whk_1"]);
+  });
+
+  it("sends nothing to disabled endpoints", async () => {
+    const statements = await deliverOnce(endpoint({ status: "disabled" }));
+
+    expect(received).toHaveLength(0);
+    expect(statements).toEqual([
+      { sql: expect.stringContaining("last_error = 'Endpoint disabled'"), params: ["whd_1"] },
+    ]);
+  });
+
+  it.each(["https://127.0.0.1/hook", "https://[::ffff:127.0.0.1]/hook", "https://169.254.169.254/latest"])(
+    "refuses to deliver to %s",
+    async (url) => {
+      const statements = await deliverOnce(endpoint({ url }));
+
+      expect(statements[0].sql).toContain("status = 'pending'");
+      expect(statements[0].params[2]).toBe("Invalid webhook URL (must resolve to a public address)");
+    }
+  );
+});
+
+describe("createWebhookEndpoint", () => {
+  beforeEach(() => {
+    vi.mocked(queryOne).mockResolvedValue({ count: "0" });
+  });
+
+  it.each([
+    "https://127.0.0.1/hook",
+    "https://[::1]/hook",
+    "https://[::ffff:127.0.0.1]/hook",
+    "https://[::ffff:a9fe:a9fe]/hook",
+    "https://169.254.169.254/latest/meta-data",
+    "https://2130706433/hook",
+    "https://localhost/hook",
+  ])("refuses %s", async (url) => {
+    await expect(createWebhookEndpoint("plt_a", url, ["agent.suspended"])).rejects.toThrow(
+      "Invalid webhook URL (must resolve to a public address)"
+    );
+    expect(vi.mocked(execute)).not.toHaveBeenCalled();
+  });
+
+  it("refuses plain HTTP outside localhost", async () => {
+    await expect(createWebhookEndpoint("plt_a", "http://8.8.8.8/hook", ["agent.suspended"])).rejects.toThrow(
+      "Invalid webhook URL (must be HTTPS)"
+    );
+  });
+
+  it("accepts public HTTPS endpoints and returns the secret once", async () => {
+    const { endpoint: created, secret } = await createWebhookEndpoint("plt_a", "https://8.8.8.8/hook", [
+      "agent.suspended",
+      "agent.suspended",
+    ]);
+
+    expect(created.events).toEqual(["agent.suspended"]);
+    expect(secret).toMatch(/^whsec_/);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import {
+  registerTask,
+  getTask,
+  listTasks,
+  getDefaultTasks,
+  getCapabilityTask,
+  listCapabilities,
+  type TaskPlugin,
+} from "../../src/tasks/index.js";
+
+vi.mock("../../src/db/index.js", () => ({
+  query: vi.fn(),
+  queryOne: vi.fn(),
+  execute: vi.fn(),
+  generateId: vi.fn(),
+}));
+
+function plugin(overrides: Partial<TaskPlugin> = {}): TaskPlugin {
+  return {
+    type: "test_task",
+    includeByDefault: false,
+    generate: () => ({ task: { type: "test_task", prompt: "Say hi" } as any }),
+    responseSchema: z.object({ type: z.string() }),
+    validate: async () => ({ passed: true }),
+    ...overrides,
+  };
+}
+
+describe("task registry", () => {
+  it("registers the built-in tasks", () => {
+    expect(getDefaultTasks().map((task) => task.type)).toEqual(["crypto", "speed", "reasoning", "generation"]);
+    expect(listCapabilities()).toEqual(expect.arrayContaining(["web_browsing", "code_execution"]));
+  });
+
+  it("adds custom tasks after the built-ins", () => {
+    const task = plugin({ type: "custom_default", includeByDefault: true });
+
+    registerTask(task);
+
+    expect(getTask("custom_default")).toBe(task);
+    expect(listTasks().at(-1)).toBe(task);
+    expect(getDefaultTasks().at(-1)).toBe(task);
+  });
+
+  it("makes a custom task's capability declarable", () => {
+    const task = plugin({ type: "custom_capability", capability: "telepathy" });
+
+    registerTask(task);
+
+    expect(getCapabilityTask("telepathy")).toBe(task);
+    expect(listCapabilities()).toContain("telepathy");
+    expect(getDefaultTasks()).not.toContain(task);
+  });
+
+  it("refuses a second task with the same type", () => {
+    expect(() => registerTask(plugin({ type: "crypto" }))).toThrow('Task type "crypto" is already registered');
+    expect(getTask("crypto")!.includeByDefault).toBe(true);
+  });
+
+  it("knows nothing about unregistered types", () => {
+    expect(getTask("nonexistent")).toBeUndefined();
+    expect(getCapabilityTask("nonexistent")).toBeUndefined();
+  });
+});
@@ -8,9 +8,11 @@ import ForAgentsPage from './pages/ForAgentsPage'
 import ForPlatformsPage from './pages/ForPlatformsPage'
 import PlatformsPage from './pages/PlatformsPage'
 import PlatformVerifyPage from './pages/PlatformVerifyPage'
+import PlatformDashboardPage from './pages/PlatformDashboardPage'
 import ClaimPage from './pages/ClaimPage'
 import AdminPage from './pages/AdminPage'
 import SkillScannerPage from './pages/SkillScannerPage'
+import WidgetPage from './pages/WidgetPage'
 
 function App() {
   return (
@@ -25,8 +27,10 @@ function App() {
         <Route path="platforms" element={<PlatformsPage />} />
         <Route path="platforms/register" element={<PlatformsPage />} />
         <Route path="platforms/verify" element={<PlatformVerifyPage />} />
+        <Route path="platforms/dashboard" element={<PlatformDashboardPage />} />
         <Route path="claim/:token" element={<ClaimPage />} />
         <Route path="skill-scanner" element={<SkillScannerPage />} />
+        <Route path="widget" element={<WidgetPage />} />
         {/* Admin page - ONLY available if VITE_ADMIN_PATH is set in .env */}
         {import.meta.env.VITE_ADMIN_PATH && (
           <Route path={import.meta.env.VITE_ADMIN_PATH} element={<AdminPage />} />
@@ -19,7 +19,7 @@ interface Platform {
   domain: string | null
   contact_email: string | null
   tier: string
-  rate_limit: number
+  rate_limit: number | null
   status: string
   verifications_count: number
   verifications_this_month: number
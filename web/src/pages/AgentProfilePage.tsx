@@ -233,6 +233,12 @@ export default function AgentProfilePage() {
           <Copy className="w-4 h-4" />
           {copied ? 'Copied!' : 'Copy Markdown'}
         </button>
+        <Link
+          to={`/widget?agent=${encodeURIComponent(agent.id)}`}
+          className="ml-4 text-sm text-indigo-400 hover:text-indigo-300"
+        >
+          More embed options (widget, iframe) →
+        </Link>
       </div>
       
       {/* Verification Details */}
@@ -0,0 +1,822 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import {
+  Activity, Key, Webhook, ShieldCheck, Settings, LogOut, RefreshCw,
+  Mail, Trash2, Plus, Copy, Check, AlertTriangle, Loader2, CheckCircle2
+} from 'lucide-react'
+
+interface Profile {
+  id: string
+  name: string
+  domain: string | null
+  domain_verified: boolean
+  contact_email: string
+  tier: string
+  rate_limit: number
+  status: string
+  verifications_count: number
+  created_at: string
+}
+
+interface DailyUsage {
+  day: string
+  valid: number
+  invalid: number
+}
+
+interface VerificationEvent {
+  id: string
+  agent_id?: string
+  result: 'valid' | 'invalid'
+  failure_reason?: string
+  source: string
+  created_at: string
+}
+
+interface ApiKey {
+  id: string
+  name: string
+  prefix?: string
+  scopes: string[]
+  status: string
+  expires_at?: string
+  last_used_at?: string
+  created_at: string
+}
+
+interface WebhookEndpoint {
+  id: string
+  url: string
+  events: string[]
+  status: string
+  created_at: string
+}
+
+interface Policy {
+  id: string
+  name: string
+  rules: Record<string, unknown>
+  updated_at: string
+}
+
+const USAGE_DAYS = 30
+
+// Every day of the chart, oldest first (days without verifications are zero)
+function fillDays(daily: DailyUsage[]): DailyUsage[] {
+  const byDay = new Map(daily.map((d) => [d.day, d]))
+  const days: DailyUsage[] = []
+  for (let i = USAGE_DAYS - 1; i >= 0; i--) {
+    const day = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    days.push(byDay.get(day) || { day, valid: 0, invalid: 0 })
+  }
+  return days
+}
+
+export default function PlatformDashboardPage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const loginToken = searchParams.get('token')
+  const emailChangeToken = searchParams.get('email_token')
+
+  const [sessionToken, setSessionToken] = useState<string | null>(() => localStorage.getItem('platformSessionToken'))
+  const [email, setEmail] = useState('')
+  const [linkSent, setLinkSent] = useState(false)
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [signingIn, setSigningIn] = useState(!!loginToken)
+  // Sign-in and email change links work once; don't spend the token twice
+  const signInStarted = useRef(false)
+  const emailChangeStarted = useRef(false)
+
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [thisMonth, setThisMonth] = useState(0)
+  const [usage, setUsage] = useState<DailyUsage[]>([])
+  const [events, setEvents] = useState<VerificationEvent[]>([])
+  const [keys, setKeys] = useState<ApiKey[]>([])
+  const [scopes, setScopes] = useState<string[]>([])
+  const [webhooks, setWebhooks] = useState<WebhookEndpoint[]>([])
+  const [webhookEvents, setWebhookEvents] = useState<string[]>([])
+  const [policies, setPolicies] = useState<Policy[]>([])
+  const [activeTab, setActiveTab] = useState<'usage' | 'keys' | 'webhooks' | 'policies' | 'settings'>('usage')
+
+  // Values shown once (new API key, webhook secret)
+  const [secret, setSecret] = useState<{ label: string; value: string } | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // Forms
+  const [newKeyName, setNewKeyName] = useState('')
+  const [newKeyScopes, setNewKeyScopes] = useState<string[]>(['verify'])
+  const [newWebhookUrl, setNewWebhookUrl] = useState('')
+  const [policyName, setPolicyName] = useState('')
+  const [policyRules, setPolicyRules] = useState('{\n  "min_difficulty": "standard"\n}')
+  const [settings, setSettings] = useState({ name: '', domain: '', contact_email: '' })
+  const [deleteConfirm, setDeleteConfirm] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const clearSession = useCallback(() => {
+    setSessionToken(null)
+    localStorage.removeItem('platformSessionToken')
+    setProfile(null)
+  }, [])
+
+  // Sign in with the token from the emailed link
+  useEffect(() => {
+    if (!loginToken || signInStarted.current) return
+    signInStarted.current = true
+
+    const signIn = async () => {
+      try {
+        const res = await fetch('/api/v1/platforms/login/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: loginToken })
+        })
+        const data = await res.json()
+
+        if (data.success) {
+          setSessionToken(data.session_token)
+          localStorage.setItem('platformSessionToken', data.session_token)
+          setError('')
+        } else {
+          setError(data.error || 'Sign-in failed')
+        }
+      } catch {
+        setError('Connection error')
+      } finally {
+        setSigningIn(false)
+        setSearchParams({}, { replace: true })
+      }
+    }
+
+    signIn()
+  }, [loginToken, setSearchParams])
+
+  // Confirm a contact email change from the emailed link. Every session ends.
+  useEffect(() => {
+    if (!emailChangeToken || emailChangeStarted.current) return
+    emailChangeStarted.current = true
+
+    const confirmEmailChange = async () => {
+      try {
+        const res = await fetch('/api/v1/platforms/email-change/confirm', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: emailChangeToken })
+        })
+        const data = await res.json()
+
+        if (data.success) {
+          clearSession()
+          setNotice(data.message)
+          setError('')
+        } else {
+          setError(data.error || 'Could not change the contact email')
+        }
+      } catch {
+        setError('Connection error')
+      } finally {
+        setSearchParams({}, { replace: true })
+      }
+    }
+
+    confirmEmailChange()
+  }, [emailChangeToken, clearSession, setSearchParams])
+
+  const fetchWithAuth = useCallback(async (url: string, options: RequestInit = {}) => {
+    if (!sessionToken) throw new Error('No session')
+
+    const res = await fetch(url, {
+      ...options,
+      headers: {
+        ...options.headers,
+        'Authorization': `Bearer ${sessionToken}`,
+        'Content-Type': 'application/json',
+      },
+    })
+
+    if (res.status === 401) {
+      clearSession()
+      setError('Session expired. Please sign in again.')
+    }
+
+    return res
+  }, [sessionToken, clearSession])
+
+  const fetchData = useCallback(async () => {
+    if (!sessionToken) return
+
+    setLoading(true)
+    try {
+      const [meRes, usageRes, eventsRes, keysRes, webhooksRes, policiesRes] = await Promise.all([
+        fetchWithAuth('/api/v1/platforms/me'),
+        fetchWithAuth(`/api/v1/platforms/me/usage?days=${USAGE_DAYS}`),
+        fetchWithAuth('/api/v1/platforms/me/verifications?limit=20'),
+        fetchWithAuth('/api/v1/platforms/me/keys'),
+        fetchWithAuth('/api/v1/platforms/me/webhooks'),
+        fetchWithAuth('/api/v1/platforms/me/policies')
+      ])
+
+      if (meRes.status === 401) return
+
+      const me = await meRes.json()
+      const usageData = await usageRes.json()
+      const eventsData = await eventsRes.json()
+      const keysData = await keysRes.json()
+      const webhooksData = await webhooksRes.json()
+      const policiesData = await policiesRes.json()
+
+      setProfile(me.platform)
+      setThisMonth(me.verifications_this_month || 0)
+      setSettings({
+        name: me.platform.name,
+        domain: me.platform.domain || '',
+        contact_email: me.platform.contact_email,
+      })
+      setUsage(fillDays(usageData.daily || []))
+      setEvents(eventsData.events || [])
+      setKeys(keysData.keys || [])
+      setScopes(keysData.available_scopes || [])
+      setWebhooks(webhooksData.endpoints || [])
+      setWebhookEvents(webhooksData.available_events || [])
+      setPolicies(policiesData.policies || [])
+      setError('')
+    } catch (err) {
+      console.error('Fetch error:', err)
+      setError('Failed to load dashboard')
+    } finally {
+      setLoading(false)
+    }
+  }, [sessionToken, fetchWithAuth])
+
+  useEffect(() => {
+    if (sessionToken) {
+      fetchData()
+    }
+  }, [sessionToken, fetchData])
+
+  // Run a dashboard action, then reload
+  const act = async <T,>(request: () => Promise<Response>, onSuccess?: (data: T) => void) => {
+    setError('')
+    setNotice('')
+    try {
+      const res = await request()
+      const data = await res.json()
+      if (!data.success) {
+        setError(data.error || 'Request failed')
+        return
+      }
+      onSuccess?.(data)
+      fetchData()
+    } catch {
+      setError('Connection error')
+    }
+  }
+
+  const requestLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      const res = await fetch('/api/v1/platforms/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      const data = await res.json()
+
+      if (!data.success) {
+        setError(data.error || 'Failed to send sign-in link')
+        return
+      }
+      setLinkSent(true)
+    } catch {
+      setError('Connection error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleLogout = async () => {
+    try {
+      await fetchWithAuth('/api/v1/platforms/me/logout', { method: 'POST' })
+    } catch {
+      // Ignore errors on logout
+    }
+    clearSession()
+  }
+
+  const copySecret = () => {
+    if (secret) {
+      navigator.clipboard.writeText(secret.value)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  const createKey = (e: React.FormEvent) => {
+    e.preventDefault()
+    act<{ key: ApiKey; api_key: string }>(
+      () => fetchWithAuth('/api/v1/platforms/me/keys', {
+        method: 'POST',
+        body: JSON.stringify({ name: newKeyName, scopes: newKeyScopes })
+      }),
+      (data) => {
+        setSecret({ label: `API key "${data.key.name}"`, value: data.api_key })
+        setNewKeyName('')
+      }
+    )
+  }
+
+  const createWebhook = (e: React.FormEvent) => {
+    e.preventDefault()
+    act<{ endpoint: WebhookEndpoint; secret: string }>(
+      () => fetchWithAuth('/api/v1/platforms/me/webhooks', {
+        method: 'POST',
+        body: JSON.stringify({ url: newWebhookUrl })
+      }),
+      (data) => {
+        setSecret({ label: `Signing secret for ${data.endpoint.url}`, value: data.secret })
+        setNewWebhookUrl('')
+      }
+    )
+  }
+
+  const savePolicy = (e: React.FormEvent) => {
+    e.preventDefault()
+    let rules: unknown
+    try {
+      rules = JSON.parse(policyRules)
+    } catch {
+      setError('Policy rules must be valid JSON')
+      return
+    }
+    act(
+      () => fetchWithAuth(`/api/v1/platforms/me/policies/${encodeURIComponent(policyName)}`, {
+        method: 'PUT',
+        body: JSON.stringify(rules)
+      }),
+      () => setNotice(`Policy ${policyName} saved`)
+    )
+  }
+
+  const saveSettings = (e: React.FormEvent) => {
+    e.preventDefault()
+    act<{ message?: string }>(
+      () => fetchWithAuth('/api/v1/platforms/me', {
+        method: 'PATCH',
+        body: JSON.stringify({
+          name: settings.name,
+          domain: settings.domain || null,
+          contact_email: settings.contact_email,
+        })
+      }),
+      (data) => setNotice(data.message || 'Settings saved')
+    )
+  }
+
+  const deleteAccount = async () => {
+    setError('')
+    try {
+      const res = await fetchWithAuth('/api/v1/platforms/me', {
+        method: 'DELETE',
+        body: JSON.stringify({ confirm: deleteConfirm })
+      })
+      const data = await res.json()
+      if (!data.success) {
+        setError(data.error || 'Failed to delete platform')
+        return
+      }
+      clearSession()
+      setNotice(data.message)
+    } catch {
+      setError('Connection error')
+    }
+  }
+
+  const errorBox = error && (
+    <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2 mb-6">
+      <AlertTriangle className="w-4 h-4 text-red-400" />
+      <p className="text-red-400 text-sm">{error}</p>
+    </div>
+  )
+
+  if (signingIn) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-12 h-12 text-indigo-400 animate-spin mx-auto mb-4" />
+          <p className="text-gray-400">Signing you in...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Sign-in screen
+  if (!sessionToken) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="card p-8 max-w-md w-full">
+          <div className="text-center mb-6">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-indigo-500/20 rounded-2xl mb-4">
+              <Mail className="w-8 h-8 text-indigo-400" />
+            </div>
+            <h1 className="text-2xl font-bold text-white">Platform Dashboard</h1>
+            <p className="text-gray-400 mt-2">We'll email a sign-in link to your platform's contact address</p>
+          </div>
+
+          {notice && <p className="text-green-400 text-sm text-center mb-4">{notice}</p>}
+          {errorBox}
+
+          {linkSent ? (
+            <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg flex items-start gap-3">
+              <CheckCircle2 className="w-5 h-5 text-green-400 flex-shrink-0" />
+              <p className="text-green-400 text-sm">
+                If a platform is registered with {email}, a sign-in link is on its way. It expires in 15 minutes.
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={requestLink} className="space-y-4">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="admin@yourplatform.com"
+                className="input w-full"
+                required
+              />
+              <button type="submit" disabled={loading} className="btn-primary w-full">
+                {loading ? 'Sending...' : 'Email me a sign-in link'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const maxDaily = Math.max(1, ...usage.map((d) => d.valid + d.invalid))
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white">{profile?.name || 'Platform Dashboard'}</h1>
+          <p className="text-gray-400 mt-1">
+            {profile?.domain || 'No domain'}
+            {profile?.domain && (profile.domain_verified ? ' (verified)' : ' (not verified)')}
+            {profile && ` · ${profile.tier} tier · ${profile.rate_limit} requests/min`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={fetchData} disabled={loading} className="btn-secondary flex items-center gap-2">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+          <button onClick={handleLogout} className="btn-secondary flex items-center gap-2 text-red-400 hover:text-red-300">
+            <LogOut className="w-4 h-4" />
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      {errorBox}
+      {notice && <p className="text-green-400 text-sm mb-6">{notice}</p>}
+
+      {secret && (
+        <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg mb-6">
+          <p className="text-yellow-400 text-sm mb-2">
+            <strong>⚠️ {secret.label}:</strong> save it now, it won't be shown again.
+          </p>
+          <div className="flex gap-2">
+            <code className="flex-1 bg-gray-950 border border-gray-800 rounded-lg px-4 py-3 text-sm text-indigo-300 font-mono break-all">
+              {secret.value}
+            </code>
+            <button onClick={copySecret} className="btn-secondary px-3 flex-shrink-0">
+              {copied ? <Check className="w-5 h-5 text-green-400" /> : <Copy className="w-5 h-5" />}
+            </button>
+            <button onClick={() => setSecret(null)} className="btn-secondary px-3 flex-shrink-0">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="flex gap-2 mb-8 border-b border-gray-800 pb-4">
+        {([
+          ['usage', Activity],
+          ['keys', Key],
+          ['webhooks', Webhook],
+          ['policies', ShieldCheck],
+          ['settings', Settings],
+        ] as const).map(([tab, Icon]) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+              activeTab === tab
+                ? 'bg-indigo-500 text-white'
+                : 'text-gray-400 hover:text-white hover:bg-gray-800'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {tab.charAt(0).toUpperCase() + tab.slice(1)}
+          </button>
+        ))}
+      </div>
+
+      {/* Usage Tab */}
+      {activeTab === 'usage' && (
+        <div className="space-y-8">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="card p-6">
+              <span className="text-gray-400 text-sm">This month</span>
+              <div className="text-3xl font-bold text-white">{thisMonth}</div>
+              <div className="text-sm text-gray-500">valid verifications</div>
+            </div>
+            <div className="card p-6">
+              <span className="text-gray-400 text-sm">All time</span>
+              <div className="text-3xl font-bold text-white">{profile?.verifications_count ?? 0}</div>
+              <div className="text-sm text-gray-500">valid verifications</div>
+            </div>
+          </div>
+
+          <div className="card p-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Last {USAGE_DAYS} days</h3>
+            <div className="flex items-end gap-1 h-40">
+              {usage.map((d) => (
+                <div
+                  key={d.day}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={`${d.day}: ${d.valid} valid, ${d.invalid} invalid`}
+                >
+                  <div className="bg-red-500/60 rounded-t" style={{ height: `${(d.invalid / maxDaily) * 100}%` }} />
+                  <div className="bg-indigo-500" style={{ height: `${(d.valid / maxDaily) * 100}%` }} />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+              <span>{usage[0]?.day}</span>
+              <span>
+                <span className="text-indigo-400">■</span> valid <span className="text-red-400 ml-2">■</span> invalid
+              </span>
+              <span>{usage[usage.length - 1]?.day}</span>
+            </div>
+          </div>
+
+          <div className="card p-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Recent verifications</h3>
+            <div className="space-y-2">
+              {events.map((event) => (
+                <div key={event.id} className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg text-sm">
+                  <div>
+                    <span className={event.result === 'valid' ? 'text-green-400' : 'text-red-400'}>{event.result}</span>
+                    <span className="text-gray-500 font-mono ml-3">{event.agent_id || 'unknown agent'}</span>
+                    {event.failure_reason && <span className="text-gray-500 ml-3">{event.failure_reason}</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {event.source} · {new Date(event.created_at).toLocaleString()}
+                  </div>
+                </div>
+              ))}
+              {events.length === 0 && (
+                <p className="text-gray-500 text-center py-4">No verifications yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Keys Tab */}
+      {activeTab === 'keys' && (
+        <div className="space-y-8">
+          <div className="card p-6 space-y-3">
+            {keys.map((k) => (
+              <div key={k.id} className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg">
+                <div>
+                  <div className="font-medium text-white">
+                    {k.name} <span className="text-xs text-gray-500 font-mono ml-2">{k.prefix}…</span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {k.scopes.join(', ')} · {k.last_used_at ? `last used ${new Date(k.last_used_at).toLocaleString()}` : 'never used'}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`text-sm ${k.status === 'active' ? 'text-green-400' : 'text-gray-500'}`}>{k.status}</span>
+                  {k.status === 'active' && (
+                    <button
+                      onClick={() => act(() => fetchWithAuth(`/api/v1/platforms/me/keys/${k.id}`, { method: 'DELETE' }))}
+                      className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg"
+                      title="Revoke"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={createKey} className="card p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-white">New API key</h3>
+            <input
+              value={newKeyName}
+              onChange={(e) => setNewKeyName(e.target.value)}
+              placeholder="Name, e.g. signup-service"
+              className="input w-full"
+              required
+            />
+            <div className="flex flex-wrap gap-3">
+              {scopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={newKeyScopes.includes(scope)}
+                    onChange={(e) => setNewKeyScopes(e.target.checked
+                      ? [...newKeyScopes, scope]
+                      : newKeyScopes.filter((s) => s !== scope))}
+                  />
+                  {scope}
+                </label>
+              ))}
+            </div>
+            <button type="submit" disabled={newKeyScopes.length === 0} className="btn-primary flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Create key
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Webhooks Tab */}
+      {activeTab === 'webhooks' && (
+        <div className="space-y-8">
+          <div className="card p-6 space-y-3">
+            {webhooks.map((w) => (
+              <div key={w.id} className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg">
+                <div>
+                  <div className="font-medium text-white break-all">{w.url}</div>
+                  <div className="text-xs text-gray-500">{w.events.join(', ')}</div>
+                  {w.status === 'disabled' && (
+                    <div className="text-xs text-red-400">Disabled after repeated failed deliveries</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {w.status === 'disabled' && (
+                    <button
+                      onClick={() => act(() => fetchWithAuth(`/api/v1/platforms/me/webhooks/${w.id}/enable`, { method: 'POST' }))}
+                      className="btn-secondary text-sm"
+                    >
+                      Enable
+                    </button>
+                  )}
+                  <button
+                    onClick={() => act(() => fetchWithAuth(`/api/v1/platforms/me/webhooks/${w.id}`, { method: 'DELETE' }))}
+                    className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+            {webhooks.length === 0 && (
+              <p className="text-gray-500 text-center py-4">No webhook endpoints</p>
+            )}
+          </div>
+
+          <form onSubmit={createWebhook} className="card p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-white">New endpoint</h3>
+            <p className="text-sm text-gray-400">Receives every event: {webhookEvents.join(', ')}</p>
+            <input
+              type="url"
+              value={newWebhookUrl}
+              onChange={(e) => setNewWebhookUrl(e.target.value)}
+              placeholder="https://yourapp.com/hooks/knowyourclaw"
+              className="input w-full"
+              required
+            />
+            <button type="submit" className="btn-primary flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Add endpoint
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Policies Tab */}
+      {activeTab === 'policies' && (
+        <div className="space-y-8">
+          <div className="card p-6 space-y-3">
+            {policies.map((p) => (
+              <div key={p.id} className="flex items-start justify-between p-3 bg-gray-900/50 rounded-lg">
+                <button
+                  onClick={() => {
+                    setPolicyName(p.name)
+                    setPolicyRules(JSON.stringify(p.rules, null, 2))
+                  }}
+                  className="text-left"
+                  title="Edit"
+                >
+                  <div className="font-medium text-white">{p.name}</div>
+                  <code className="text-xs text-gray-500">{JSON.stringify(p.rules)}</code>
+                </button>
+                <button
+                  onClick={() => act(() => fetchWithAuth(`/api/v1/platforms/me/policies/${encodeURIComponent(p.name)}`, { method: 'DELETE' }))}
+                  className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {policies.length === 0 && (
+              <p className="text-gray-500 text-center py-4">No policies</p>
+            )}
+          </div>
+
+          <form onSubmit={savePolicy} className="card p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-white">Create or replace a policy</h3>
+            <input
+              value={policyName}
+              onChange={(e) => setPolicyName(e.target.value)}
+              placeholder="Name, e.g. strict"
+              className="input w-full"
+              required
+            />
+            <textarea
+              value={policyRules}
+              onChange={(e) => setPolicyRules(e.target.value)}
+              rows={8}
+              className="input w-full font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500">
+              Rules: min_difficulty, required_tasks, owner_claimed, max_proof_age_days,
+              required_capabilities
+            </p>
+            <button type="submit" className="btn-primary">Save policy</button>
+          </form>
+        </div>
+      )}
+
+      {/* Settings Tab */}
+      {activeTab === 'settings' && (
+        <div className="space-y-8">
+          <form onSubmit={saveSettings} className="card p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-white">Platform details</h3>
+            <label className="block text-sm text-gray-400">
+              Name
+              <input
+                value={settings.name}
+                onChange={(e) => setSettings({ ...settings, name: e.target.value })}
+                className="input w-full mt-1"
+                required
+              />
+            </label>
+            <label className="block text-sm text-gray-400">
+              Domain (changing it means verifying it again)
+              <input
+                value={settings.domain}
+                onChange={(e) => setSettings({ ...settings, domain: e.target.value })}
+                placeholder="yourplatform.com"
+                className="input w-full mt-1"
+              />
+            </label>
+            <label className="block text-sm text-gray-400">
+              Contact email (sign-in links go here; a new address must be confirmed)
+              <input
+                type="email"
+                value={settings.contact_email}
+                onChange={(e) => setSettings({ ...settings, contact_email: e.target.value })}
+                className="input w-full mt-1"
+                required
+              />
+            </label>
+            <button type="submit" className="btn-primary">Save</button>
+          </form>
+
+          <div className="card p-6 space-y-4 border border-red-500/30">
+            <h3 className="text-lg font-semibold text-red-400">Delete platform</h3>
+            <p className="text-sm text-gray-400">
+              Deletes the platform with its API keys, webhooks and policies. Type <strong className="text-white">{profile?.name}</strong> to confirm.
+            </p>
+            <input
+              value={deleteConfirm}
+              onChange={(e) => setDeleteConfirm(e.target.value)}
+              className="input w-full"
+            />
+            <button
+              onClick={deleteAccount}
+              disabled={deleteConfirm !== profile?.name}
+              className="btn-secondary text-red-400 hover:text-red-300 flex items-center gap-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete platform
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
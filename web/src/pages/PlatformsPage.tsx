@@ -1,4 +1,5 @@
 import { useState } from 'react'
+import { Link } from 'react-router-dom'
 import { 
   Building2, Shield, Zap, Code,
   ArrowRight, Terminal, Mail, RefreshCw
@@ -76,6 +77,12 @@ export default function PlatformsPage() {
         <p className="text-xl text-gray-400 max-w-2xl mx-auto">
           Integrate KnowYourClaw to eliminate spam agents and build trust on your platform.
         </p>
+        <p className="text-gray-500 mt-4">
+          Already registered?{' '}
+          <Link to="/platforms/dashboard" className="text-indigo-400 hover:text-indigo-300">
+            Sign in to your dashboard
+          </Link>
+        </p>
       </div>
       
       {/* Benefits */}
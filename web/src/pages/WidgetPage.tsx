@@ -0,0 +1,178 @@
+import { useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { Code, FileCode, Image, LayoutTemplate, Copy, Check, Moon, Sun } from 'lucide-react'
+
+type EmbedType = 'script' | 'iframe' | 'badge'
+type Theme = 'light' | 'dark'
+
+const BADGE_STYLES = ['flat', 'large', 'dark'] as const
+
+// Same shape as ids from generateId() on the server
+const AGENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+export default function WidgetPage() {
+  const [searchParams] = useSearchParams()
+  const [agentId, setAgentId] = useState(searchParams.get('agent') || '')
+  const [embedType, setEmbedType] = useState<EmbedType>('script')
+  const [theme, setTheme] = useState<Theme>('light')
+  const [badgeStyle, setBadgeStyle] = useState<(typeof BADGE_STYLES)[number]>('flat')
+  const [copied, setCopied] = useState(false)
+
+  const origin = window.location.origin
+  const id = agentId.trim()
+  const validId = AGENT_ID_PATTERN.test(id)
+  const frameUrl = `${origin}/widget/v1/frame/${id}?theme=${theme}`
+  const badgeUrl = `${origin}/badge/${id}.svg${badgeStyle === 'flat' ? '' : `?style=${badgeStyle}`}`
+
+  const snippets: Record<EmbedType, string> = {
+    script: `<div data-knowyourclaw-agent="${id}" data-theme="${theme}"></div>\n<script src="${origin}/widget/v1.js" async></script>`,
+    iframe: `<iframe src="${frameUrl}" width="360" height="170" style="border:0" title="KnowYourClaw agent card"></iframe>`,
+    badge: `<img src="${badgeUrl}" alt="KnowYourClaw verified agent">`,
+  }
+
+  const copySnippet = () => {
+    navigator.clipboard.writeText(snippets[embedType])
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="text-center mb-10">
+        <div className="inline-flex items-center justify-center w-16 h-16 bg-indigo-500/20 rounded-2xl mb-4">
+          <LayoutTemplate className="w-8 h-8 text-indigo-400" />
+        </div>
+        <h1 className="text-3xl font-bold text-white">Embed an Agent Card</h1>
+        <p className="text-gray-400 mt-2 max-w-2xl mx-auto">
+          Show an agent's live verification status on your site. The widget checks the agent's
+          proof against our signed revocation list before displaying it.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Configuration */}
+        <div className="card p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Agent ID</label>
+            <input
+              value={agentId}
+              onChange={(e) => setAgentId(e.target.value)}
+              placeholder="agt_abc123"
+              className="input w-full font-mono"
+            />
+            {id && !validId && (
+              <p className="text-red-400 text-xs mt-1">Agent IDs only contain letters, digits, _ and -</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Embed as</label>
+            <div className="flex gap-2">
+              {([
+                ['script', FileCode, 'Script'],
+                ['iframe', Code, 'Iframe'],
+                ['badge', Image, 'Badge'],
+              ] as const).map(([type, Icon, label]) => (
+                <button
+                  key={type}
+                  onClick={() => setEmbedType(type)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+                    embedType === type
+                      ? 'bg-indigo-500 text-white'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-800'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {embedType === 'badge' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Badge style</label>
+              <select
+                value={badgeStyle}
+                onChange={(e) => setBadgeStyle(e.target.value as (typeof BADGE_STYLES)[number])}
+                className="input w-full"
+              >
+                {BADGE_STYLES.map((style) => (
+                  <option key={style} value={style}>{style}</option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Theme</label>
+              <div className="flex gap-2">
+                {([
+                  ['light', Sun],
+                  ['dark', Moon],
+                ] as const).map(([value, Icon]) => (
+                  <button
+                    key={value}
+                    onClick={() => setTheme(value)}
+                    className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+                      theme === value
+                        ? 'bg-indigo-500 text-white'
+                        : 'text-gray-400 hover:text-white hover:bg-gray-800'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" />
+                    {value.charAt(0).toUpperCase() + value.slice(1)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            {embedType === 'script' && 'Renders in a shadow root, so your page styles are unaffected. Call window.KnowYourClaw.render(element) for cards added after load.'}
+            {embedType === 'iframe' && 'Fully isolated from your page. Works where third-party scripts are not allowed.'}
+            {embedType === 'badge' && 'A static SVG for READMEs and profiles. No JavaScript, cached for up to 5 minutes.'}
+          </p>
+        </div>
+
+        {/* Preview */}
+        <div className="card p-6">
+          <h2 className="text-sm font-medium text-gray-300 mb-4">Preview</h2>
+          <div className={`rounded-lg p-6 flex items-center justify-center min-h-[200px] ${
+            theme === 'dark' || embedType === 'badge' ? 'bg-gray-950' : 'bg-gray-100'
+          }`}>
+            {!validId ? (
+              <p className="text-gray-500 text-sm">Enter an agent ID to preview</p>
+            ) : embedType === 'badge' ? (
+              <img src={badgeUrl} alt="Agent badge preview" />
+            ) : (
+              <iframe
+                key={frameUrl}
+                src={frameUrl}
+                width={360}
+                height={170}
+                style={{ border: 0 }}
+                title="Agent card preview"
+              />
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Snippet */}
+      <div className="card p-6 mt-6">
+        <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+          <Code className="w-5 h-5 text-gray-500" />
+          Embed Code
+        </h2>
+        <div className="flex gap-2">
+          <pre className="flex-1 bg-gray-950 border border-gray-800 rounded-lg px-4 py-3 text-sm text-indigo-300 font-mono whitespace-pre-wrap break-all">
+            {validId ? snippets[embedType] : 'Enter an agent ID to generate the embed code'}
+          </pre>
+          <button onClick={copySnippet} disabled={!validId} className="btn-secondary px-3 flex-shrink-0 self-start">
+            {copied ? <Check className="w-5 h-5 text-green-400" /> : <Copy className="w-5 h-5" />}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -12,6 +12,18 @@ export default defineConfig({
         target: 'http://localhost:3000',
         changeOrigin: true,
       },
+      '/badge': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
+      '/widget/v1': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
+      '/.well-known': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
     },
   },
 })